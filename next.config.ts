@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Plant photos are sent to server actions as data URIs (up to 4MB each).
+    serverActions: {
+      bodySizeLimit: '20mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -16,6 +22,23 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**',
       },
+      // Diagnosis photos in Firebase Storage, and in the Storage emulator during development.
+      {
+        protocol: 'https',
+        hostname: 'firebasestorage.googleapis.com',
+        port: '',
+        pathname: '/v0/b/**',
+      },
+      {
+        protocol: 'http',
+        hostname: '127.0.0.1',
+        pathname: '/v0/b/**',
+      },
+      {
+        protocol: 'http',
+        hostname: 'localhost',
+        pathname: '/v0/b/**',
+      },
     ],
   },
 };
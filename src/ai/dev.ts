@@ -12,4 +12,5 @@ import '@/ai/flows/conversational-agent-flow.ts';
 import '@/ai/flows/text-to-speech-flow.ts';
 import '@/ai/flows/current-crop-agent-flow.ts';
 import '@/ai/flows/post-harvest-flow.ts';
+import '@/ai/flows/notification-summary-flow.ts';
     
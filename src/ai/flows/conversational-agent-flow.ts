@@ -1,31 +1,42 @@
 
-'use server';
-
 /**
  * @fileOverview A conversational agent that can chat and use tools.
+ *
+ * The flow streams its response, so it is served by the `/api/chat` route rather than
+ * called as a server action. Clients call it with `streamFlow` or `runFlow` from
+ * `@genkit-ai/next/client`.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
+import type { MessageData, Part, ToolAction } from 'genkit';
 import { findSchemes } from './government-schemes-flow';
 import { marketAnalysis } from './market-analysis-flow';
 import { recommendCrops } from './crop-recommender-flow';
 import { languages } from '@/lib/i18n';
 import { getEnvironmentalDataForLocation } from '../tools/location-data-tool';
-import { type ChatInput, ChatInputSchema, type Message } from '@/ai/schemas/conversational-agent-schemas';
+import { getMandiPrices } from '../tools/mandi-price-tool';
+import { findBestMandi } from '../tools/sell-options-tool';
+import { EnvironmentalDataInputSchema } from '@/ai/schemas/environmental-data-schemas';
+import { MandiPriceLookupInputSchema } from '@/ai/schemas/mandi-price-schemas';
+import { SellOptionsInputSchema } from '@/ai/schemas/sell-options-schemas';
+import { appendChatMessage, getChatSession, getChatSessionMessages, saveChatSummary } from '@/lib/firebase/services';
+import { ChatInputSchema, ChatOutputSchema, ChatStreamChunkSchema, type ChatInput, type Message, type ChatOutput, type ChatStreamChunk, type ToolTraceEntry } from '@/ai/schemas/conversational-agent-schemas';
+
+// Exporting the types for client-side usage
+export type { Message, ChatOutput, ChatStreamChunk, ToolTraceEntry };
 
-// Exporting the type for client-side usage
-export type { Message };
+const MarketAnalysisToolInputSchema = z.object({
+  commodity: z.string().optional(),
+  location: z.string().optional(),
+  query: z.string(),
+});
 
 const marketAnalysisTool = ai.defineTool(
   {
     name: 'marketAnalysis',
     description: 'Use for questions about crop prices, market trends, and commodity markets. Keywords: price, rate, market, mandi, cost, sell.',
-    inputSchema: z.object({
-      commodity: z.string().optional(),
-      location: z.string().optional(),
-      query: z.string(),
-    }),
+    inputSchema: MarketAnalysisToolInputSchema,
     outputSchema: z.any(),
   },
   async (input) => marketAnalysis({
@@ -35,15 +46,17 @@ const marketAnalysisTool = ai.defineTool(
   })
 );
 
+const CropRecommenderToolInputSchema = z.object({
+  location: z.string(),
+  userGoal: z.string().optional(),
+  lastCropGrown: z.string().optional(),
+});
+
 const cropRecommenderTool = ai.defineTool(
   {
     name: 'cropRecommender',
     description: 'Use for questions about which crops to plant, what to grow, or crop selection. Keywords: grow, plant, sow, cultivate, which crop.',
-    inputSchema: z.object({
-      location: z.string(),
-      userGoal: z.string().optional(),
-      lastCropGrown: z.string().optional(),
-    }),
+    inputSchema: CropRecommenderToolInputSchema,
     outputSchema: z.any(),
   },
   async (input) => recommendCrops({
@@ -53,94 +66,267 @@ const cropRecommenderTool = ai.defineTool(
   })
 );
 
+const GovernmentSchemesToolInputSchema = z.object({
+  query: z.string(),
+});
+
 const governmentSchemesTool = ai.defineTool(
   {
     name: 'governmentSchemes',
     description: 'Use for questions about government support, subsidies, or agricultural schemes. Keywords: scheme, government, subsidy, loan, help, PM Kisan, bima, insurance.',
-    inputSchema: z.object({
-      query: z.string(),
-    }),
+    inputSchema: GovernmentSchemesToolInputSchema,
     outputSchema: z.any(),
   },
   async (input) => findSchemes({ query: input.query })
 );
 
-export async function startChat(input: ChatInput): Promise<string> {
-  return conversationalAgentFlow(input);
+interface AgentTool {
+  action: ToolAction;
+  // Checks the model's input against the tool's schema before calling it.
+  run: (input: unknown) => Promise<unknown>;
+}
+
+function agentTool<I extends z.ZodTypeAny>(action: ToolAction<I>, inputSchema: I): AgentTool {
+  return {
+    action,
+    run: async (input) => {
+      const parsed = inputSchema.safeParse(input);
+      if (!parsed.success) {
+        throw new Error(`The input is not valid: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'} ${issue.message}`).join('; ')}`);
+      }
+      return action(parsed.data);
+    },
+  };
 }
 
-const conversationalAgentFlow = ai.defineFlow(
+// The tools the agent may call, by the name the model calls them by.
+const agentTools: Record<string, AgentTool> = {
+  marketAnalysis: agentTool(marketAnalysisTool, MarketAnalysisToolInputSchema),
+  getMandiPrices: agentTool(getMandiPrices, MandiPriceLookupInputSchema),
+  findBestMandi: agentTool(findBestMandi, SellOptionsInputSchema),
+  cropRecommender: agentTool(cropRecommenderTool, CropRecommenderToolInputSchema),
+  governmentSchemes: agentTool(governmentSchemesTool, GovernmentSchemesToolInputSchema),
+  getEnvironmentalDataForLocation: agentTool(getEnvironmentalDataForLocation, EnvironmentalDataInputSchema),
+};
+const tools = Object.values(agentTools).map(tool => tool.action);
+
+// Shown to the farmer while a tool runs, so slow connections don't look like a stalled chat.
+const toolStatusMessages: Record<string, string> = {
+  marketAnalysis: 'Analysing the market…',
+  getMandiPrices: 'Checking mandi prices…',
+  findBestMandi: 'Comparing nearby mandis…',
+  cropRecommender: 'Finding crops that suit your land…',
+  governmentSchemes: 'Searching government schemes…',
+  getEnvironmentalDataForLocation: 'Looking up soil and weather for your area…',
+};
+
+// The most rounds of tool calls the agent may make before it must answer with what it has.
+const MAX_TOOL_ROUNDS = 4;
+
+// The most recent messages are always sent verbatim. Once this many older messages have
+// built up beyond them, they are folded into the session's running summary.
+const HISTORY_WINDOW = 12;
+const SUMMARY_BATCH = 8;
+const MAX_MESSAGE_LENGTH = 4000;
+
+export const conversationalAgentFlow = ai.defineFlow(
   {
     name: 'conversationalAgentFlow',
     inputSchema: ChatInputSchema,
-    outputSchema: z.string(),
+    outputSchema: ChatOutputSchema,
+    streamSchema: ChatStreamChunkSchema,
   },
-  async (input) => {
+  async (input, { sendChunk, abortSignal }) => {
     const currentLanguageName = languages.find(l => l.code === input.language)?.name.split(' ')[0] || 'English';
+    const { history, summary } = await prepareHistory(input);
+    if (input.sessionId) {
+      await appendChatMessage(input.sessionId, { role: 'user', content: input.query }, currentLanguageName);
+    }
 
-    const prompt = `You are NeerVaani, a friendly and expert AI routing assistant for Indian farmers. Your primary language for this conversation is ${currentLanguageName}.
-    Your key capability is to use tools to answer farmer's questions. You do not have knowledge of your own.
+    let streamedText = '';
+    const output = await runAgent(input.query, history, summary, currentLanguageName, (chunk) => {
+      if (chunk.type === 'text') streamedText += chunk.text;
+      sendChunk(chunk);
+    }, abortSignal).catch(async (error) => {
+      // Keep the part of an answer the user saw before moving on to another message.
+      if (input.sessionId && streamedText.trim()) {
+        await appendChatMessage(input.sessionId, { role: 'model', content: streamedText.trim() }, currentLanguageName);
+      }
+      throw error;
+    });
 
-    Current User Query: "${input.query}"
-    
-    Instructions:
-    1.  Analyze the user's query in the context of the conversation history.
-    2.  If the query is a greeting, a simple question, or a follow-up that doesn't require specific data, respond conversationally.
-    3.  If the query requires specific data (like crop prices, scheme details, or crop recommendations), you MUST call the appropriate tool to get the information.
-    4.  If a tool requires a location and you don't have one from the query or history, ask the user for it.
-    5.  If you cannot answer a question, apologize and explain that you cannot fulfill the request at this moment.`;
+    if (input.sessionId) {
+      await appendChatMessage(input.sessionId, { role: 'model', content: output.response, toolTrace: output.toolTrace }, currentLanguageName);
+    }
+    return output;
+  }
+);
+
+/**
+ * Runs the agent loop: the model may call tools for up to MAX_TOOL_ROUNDS rounds, seeing
+ * each round's results, before it answers.
+ */
+async function runAgent(
+  query: string,
+  history: Message[],
+  summary: string | null,
+  currentLanguageName: string,
+  sendChunk: (chunk: ChatStreamChunk) => void,
+  abortSignal: AbortSignal
+): Promise<ChatOutput> {
+  const prompt = `You are NeerVaani, a friendly and expert AI routing assistant for Indian farmers. Your primary language for this conversation is ${currentLanguageName}.
+  Your key capability is to use tools to answer farmer's questions. You do not have knowledge of your own.
 
-    try {
-        const result = await ai.generate({
+  ${summary ? `Summary of the earlier conversation: ${summary}\n` : ''}
+  Current User Query: "${query}"
+  
+  Instructions:
+  1.  Analyze the user's query in the context of the conversation history.
+  2.  If the query is a greeting, a simple question, or a follow-up that doesn't require specific data, respond conversationally.
+  3.  If the query requires specific data (like crop prices, scheme details, or crop recommendations), you MUST call the appropriate tool to get the information.
+  4.  A query may need several tools, one after another. For example, to say what to grow in a district and what it sells for, get the environmental data, then the crop recommendations, then the market prices of the recommended crop. Use the results of earlier tools as inputs to later ones.
+  5.  If a tool requires a location and you don't have one from the query or history, ask the user for it.
+  6.  Once you have the data you need, synthesize it into a clear, detailed, and easy-to-understand conversational response in ${currentLanguageName}. Do not just repeat the JSON data.
+  7.  If a tool fails or you cannot answer a question, apologize and explain that you cannot fulfill the request at this moment.`;
+
+  const toolTrace: ToolTraceEntry[] = [];
+  let messages: MessageData[] = [
+    ...history.map(message => ({ role: message.role, content: [{ text: message.content }] })),
+    { role: 'user', content: [{ text: prompt }] },
+  ];
+
+  try {
+      for (let round = 0; ; round++) {
+        // Tool requests are returned rather than run, so progress can be reported before each call.
+        // The last round offers no tools, so the model has to answer with the results it has.
+        const canUseTools = round < MAX_TOOL_ROUNDS;
+        const { stream, response } = ai.generateStream({
           model: 'googleai/gemini-2.0-flash',
-          prompt: prompt,
-          history: input.history,
-          tools: [marketAnalysisTool, cropRecommenderTool, governmentSchemesTool, getEnvironmentalDataForLocation],
+          messages,
+          tools: canUseTools ? tools : undefined,
+          returnToolRequests: true,
           config: { temperature: 0.2 },
+          abortSignal,
         });
-        
-        const toolRequest = result.toolRequest;
-        const textOutput = result.text;
-
-        // If the model wants to call a tool
-        if (toolRequest) {
-          console.log(`Conversational agent is calling tool: ${toolRequest.name}`);
-          const toolResponse = await toolRequest.run();
-
-          // Now, summarize the tool's response, providing the full chat history for context.
-          const summarizationResult = await ai.generate({
-              model: 'googleai/gemini-2.0-flash',
-              prompt: `You are NeerVaani, an expert farmer's assistant. A user asked: "${input.query}". You used the '${toolRequest.name}' tool and received the following JSON data. Synthesize this data into a clear, detailed, and easy-to-understand conversational response in ${currentLanguageName}. Use the provided chat history to understand the context of the conversation and answer any follow-up questions. Do not just repeat the JSON data. Provide a helpful summary.\n\nJSON Data:\n\`\`\`json\n${JSON.stringify(toolResponse, null, 2)}\n\`\`\``,
-              history: input.history,
-          });
+        for await (const chunk of stream) {
+          if (chunk.text) sendChunk({ type: 'text', text: chunk.text });
+        }
 
-          const summarizedText = summarizationResult.text;
+        const result = await response;
+        const toolRequests = result.toolRequests.map(part => part.toolRequest);
 
-          if (summarizedText && summarizedText.trim()) {
-              return summarizedText;
+        if (toolRequests.length === 0 || !canUseTools) {
+          const textOutput = result.text;
+          if (textOutput && textOutput.trim()) {
+            return { response: textOutput, toolTrace };
           }
-          // Fallback if summarization fails
-          return "I was able to fetch some information, but I'm having trouble summarizing it. Could you please rephrase your question?";
+          // Fallback if there's no text and no tool call
+          return {
+            response: toolTrace.length > 0
+              ? "I was able to fetch some information, but I'm having trouble summarizing it. Could you please rephrase your question?"
+              : "I'm not sure how to respond to that. Could you please rephrase your question?",
+            toolTrace,
+          };
         }
 
-        // If the model just returned a text response
-        if (textOutput && textOutput.trim()) {
-          return textOutput;
+        // Run the requested tools one at a time, then give the model all of their results.
+        const toolResponses: Part[] = [];
+        for (const toolRequest of toolRequests) {
+          const entry = await runTool(toolRequest.name, toolRequest.input, sendChunk);
+          toolTrace.push(entry);
+          toolResponses.push({
+            toolResponse: {
+              name: toolRequest.name,
+              ref: toolRequest.ref,
+              output: entry.error ? { error: entry.error } : entry.output,
+            },
+          });
         }
+        messages = [...result.messages, { role: 'tool', content: toolResponses }];
+      }
 
-        // Fallback if there's no text and no tool call
-        return "I'm not sure how to respond to that. Could you please rephrase your question?";
+  } catch (error: any) {
+      if (abortSignal.aborted) {
+          // The user moved on to a new message; nobody is waiting for this response.
+          throw error;
+      }
+      console.error("Error in conversationalAgentFlow:", error);
 
-    } catch (error: any) {
-        console.error("Error in conversationalAgentFlow:", error);
+      // Generic fallback error message for other issues
+      return {
+        response: "I'm sorry, I encountered an unexpected error and can't respond right now. Please try again in a moment.",
+        toolTrace,
+      };
+  }
+}
 
-        // Check for the specific location error
-        if (error.message && error.message.includes('Could not retrieve environmental data')) {
-            return `I'm sorry, I don't have environmental data for the location you provided. Currently, I have detailed data for Pune and Bangalore. Please try one of those locations, or use the full agent in the NeerHub to enter the data manually.`;
-        }
+const truncateMessage = (message: Message): Message =>
+  message.content.length > MAX_MESSAGE_LENGTH
+    ? { ...message, content: `${message.content.slice(0, MAX_MESSAGE_LENGTH)}…` }
+    : message;
 
-        // Generic fallback error message for other issues
-        return "I'm sorry, I encountered an unexpected error and can't respond right now. Please try again in a moment.";
-    }
+/**
+ * Works out what the model sees of the conversation so far. For a saved session this is the
+ * session's summary plus the messages it does not cover, refreshing the summary when enough
+ * messages have fallen outside the window. Otherwise it is the end of the given history.
+ */
+async function prepareHistory(input: ChatInput): Promise<{ history: Message[]; summary: string | null }> {
+  if (!input.sessionId) {
+    return { history: (input.history ?? []).slice(-HISTORY_WINDOW).map(truncateMessage), summary: null };
   }
-);
+
+  const [session, messages] = await Promise.all([getChatSession(input.sessionId), getChatSessionMessages(input.sessionId)]);
+  let { summary, summarizedCount } = session;
+  const unsummarizedCount = messages.length - HISTORY_WINDOW - summarizedCount;
+
+  if (unsummarizedCount >= SUMMARY_BATCH) {
+    const newCount = messages.length - HISTORY_WINDOW;
+    summary = await summarizeConversation(summary, messages.slice(summarizedCount, newCount));
+    summarizedCount = newCount;
+    await saveChatSummary(input.sessionId, summary, summarizedCount);
+  }
+
+  const history = messages.slice(summarizedCount).map(({ role, content }) => truncateMessage({ role, content }));
+  return { history, summary };
+}
+
+async function summarizeConversation(previousSummary: string | null, messages: Message[]): Promise<string> {
+  const transcript = messages.map(message => `${message.role === 'user' ? 'Farmer' : 'NeerVaani'}: ${truncateMessage(message).content}`).join('\n');
+  const { text } = await ai.generate({
+    model: 'googleai/gemini-2.0-flash',
+    prompt: `You are summarizing a conversation between a farmer and NeerVaani, a farming assistant, so it can be continued without the full transcript.
+    Write a short summary in English that keeps the facts a later answer may need: the farmer's location, crops, land, goals, and the key figures and advice already given.
+
+    ${previousSummary ? `Summary of the conversation before this part: ${previousSummary}\n` : ''}
+    Conversation:
+    ${transcript}`,
+    config: { temperature: 0 },
+  });
+  return text.trim();
+}
+
+/**
+ * Runs one tool call requested by the model. Failures are recorded in the trace and passed
+ * back to the model rather than thrown, so it can explain them or try another tool.
+ */
+async function runTool(name: string, toolInput: unknown, sendChunk: (chunk: ChatStreamChunk) => void): Promise<ToolTraceEntry> {
+  console.log(`Conversational agent is calling tool: ${name}`);
+  sendChunk({ type: 'status', tool: name, message: toolStatusMessages[name] ?? 'Looking that up…' });
+  const startedAt = Date.now();
+
+  const tool = Object.hasOwn(agentTools, name) ? agentTools[name] : undefined;
+  if (!tool) {
+    return { tool: name, input: toolInput, error: `There is no tool named ${name}.`, durationMs: 0 };
+  }
+  try {
+    const output = await tool.run(toolInput);
+    return { tool: name, input: toolInput, output, durationMs: Date.now() - startedAt };
+  } catch (error: any) {
+    console.error(`Tool ${name} failed:`, error);
+    // The location tool's message tells the model what to suggest to the farmer.
+    const message = error.message?.includes('Could not retrieve environmental data')
+      ? "No environmental data was found for this location. Suggest the nearest district headquarters, or the full agent in the NeerHub to enter the data manually."
+      : error.message || 'The tool failed.';
+    return { tool: name, input: toolInput, error: message, durationMs: Date.now() - startedAt };
+  }
+}
@@ -10,7 +10,7 @@
  */
 
 import { ai } from '@/ai/genkit';
-import { CropDiagnosisInputSchema, CropDiagnosisOutputSchema, type CropDiagnosisInput, type CropDiagnosisOutput } from '@/ai/schemas/crop-diagnosis-schemas';
+import { CropDiagnosisInputSchema, CropDiagnosisSchema, CropDiagnosisOutputSchema, type CropDiagnosisInput, type CropDiagnosisOutput } from '@/ai/schemas/crop-diagnosis-schemas';
 
 export type { CropDiagnosisInput, CropDiagnosisOutput };
 
@@ -24,7 +24,7 @@ export async function diagnoseCrop(input: CropDiagnosisInput): Promise<CropDiagn
 const cropDiagnosisPrompt = ai.definePrompt({
   name: 'cropDiagnosisPrompt',
   input: { schema: CropDiagnosisInputSchema },
-  output: { schema: CropDiagnosisOutputSchema },
+  output: { schema: CropDiagnosisSchema },
   prompt: `
     You are an expert plant pathologist and agronomist specializing in crop diseases.
     Generate the entire response in the following language: {{language}}.
@@ -32,6 +32,8 @@ const cropDiagnosisPrompt = ai.definePrompt({
     Analyze the provided images and information to diagnose the plant's health issue.
 
     **User-provided Information:**
+    - Crop: {{#if cropName}}{{cropName}}{{else}}Not provided. Identify it from the images.{{/if}}
+    - Location: {{#if location}}{{location}}{{else}}Not provided.{{/if}}
     - Land Size: {{landSize}}
     - Additional Notes: {{#if additionalNotes}}{{additionalNotes}}{{else}}None provided.{{/if}}
 
@@ -41,14 +43,15 @@ const cropDiagnosisPrompt = ai.definePrompt({
     {{/each}}
 
     **Your Task:**
-    1.  **Analyze Health Status**: Examine the images to determine the plant's health.
+    1.  **Identify the Crop**: Name the crop shown in the images, or use the crop name the user provided.
+    2.  **Analyze Health Status**: Examine the images to determine the plant's health.
         - Classify the health status as 'Healthy', 'Infected', or 'At Risk'.
         - Determine the severity of infection ('Low', 'Medium', 'High') if applicable.
         - Provide a concise one-sentence summary of the overall health.
-    2.  **Identify Disease**: If a disease or pest is present, identify it by its common name. Provide a brief, easy-to-understand description of what it is. If the plant is healthy, state that no disease was detected.
-    3.  **List Symptoms**: Describe the specific symptoms visible in the images or commonly associated with the identified disease (e.g., "yellow spots on leaves," "wilting stems," "powdery white coating").
-    4.  **Recommend Remedies**: Provide clear, scannable, and actionable advice for treatment. Recommend both organic and chemical solutions where applicable. Tailor the amount of remedy needed based on the provided land size if possible. Mention locally available and affordable options if you can infer them.
-    5.  **Suggest Prevention**: Offer practical tips to prevent this issue from recurring in the future.
+    3.  **Identify Disease**: If a disease or pest is present, identify it by its common name. Provide a brief, easy-to-understand description of what it is. If the plant is healthy, state that no disease was detected.
+    4.  **List Symptoms**: Describe the specific symptoms visible in the images or commonly associated with the identified disease (e.g., "yellow spots on leaves," "wilting stems," "powdery white coating").
+    5.  **Recommend Remedies**: Provide clear, scannable, and actionable advice for treatment. Recommend both organic and chemical solutions where applicable. Tailor the amount of remedy needed based on the provided land size if possible. Mention locally available and affordable options if you can infer them.
+    6.  **Suggest Prevention**: Offer practical tips to prevent this issue from recurring in the future.
 
     Structure your entire response according to the provided JSON output schema.
   `,
@@ -62,11 +65,12 @@ const cropDiagnosisFlow = ai.defineFlow(
     outputSchema: CropDiagnosisOutputSchema,
   },
   async (input) => {
-    const { output } = await cropDiagnosisPrompt(input);
+    const { output, model } = await cropDiagnosisPrompt(input);
     
     if (!output) {
       throw new Error('Failed to get crop diagnosis from the model.');
     }
-    return output;
+    // Recorded so saved diagnoses can be compared across model upgrades.
+    return { ...output, modelVersion: model };
   }
 );
@@ -11,7 +11,8 @@
 
 import { ai } from '@/ai/genkit';
 import { getEnvironmentalDataForLocation } from '@/ai/tools/location-data-tool';
-import { CropRecommenderInputSchema, CropRecommenderOutputSchema, type CropRecommenderInput, type CropRecommenderOutput } from '@/ai/schemas/crop-recommender-schemas';
+import type { EnvironmentalDataSource } from '@/ai/schemas/environmental-data-schemas';
+import { CropRecommenderInputSchema, CropRecommendationsSchema, CropRecommenderOutputSchema, type CropRecommenderInput, type CropRecommenderOutput } from '@/ai/schemas/crop-recommender-schemas';
 
 export type { CropRecommenderInput, CropRecommenderOutput };
 
@@ -22,7 +23,7 @@ export async function recommendCrops(input: CropRecommenderInput): Promise<CropR
 const cropRecommenderPrompt = ai.definePrompt({
   name: 'cropRecommenderPrompt',
   input: { schema: CropRecommenderInputSchema },
-  output: { schema: CropRecommenderOutputSchema },
+  output: { schema: CropRecommendationsSchema },
   system: `You are an expert agricultural scientist and agronomist. Your task is to recommend the best crops to grow based on the user's specific conditions. The current date is ${new Date().toISOString().split("T")[0]}.`,
   prompt: `
     Generate the entire response in the following language: {{language}}.
@@ -69,17 +70,25 @@ const cropRecommenderFlow = ai.defineFlow(
         rainfall: input.rainfall,
         soilType: input.soilType,
     };
+    let environmentalDataSource: EnvironmentalDataSource | undefined;
 
     // If critical environmental data is missing, fetch it with the tool.
+    // Values the user supplied always take precedence over the provider's.
     if (input.location && (!input.temperature || !input.humidity || !input.rainfall)) {
         console.log(`Missing environmental data for ${input.location}. Fetching...`);
         const toolOutput = await getEnvironmentalDataForLocation({ location: input.location });
 
-        if (!toolOutput) {
-            throw new Error(`Could not retrieve environmental data for the location: "${input.location}". Please provide a valid location or specify environmental conditions manually.`);
-        }
-        
-        environmentalData = { ...environmentalData, ...toolOutput };
+        environmentalData = {
+            temperature: input.temperature || toolOutput.climateNormals.temperature,
+            humidity: input.humidity || toolOutput.climateNormals.humidity,
+            rainfall: input.rainfall || toolOutput.climateNormals.rainfall,
+            soilType: input.soilType || toolOutput.soilType || undefined,
+        };
+        environmentalDataSource = {
+            provider: toolOutput.provider,
+            location: [toolOutput.location.name, toolOutput.location.state].filter(Boolean).join(', '),
+            retrievedAt: new Date().toISOString(),
+        };
     }
 
     const finalInput = {
@@ -92,6 +101,6 @@ const cropRecommenderFlow = ai.defineFlow(
     if (!output) {
       throw new Error('Failed to get crop recommendations.');
     }
-    return output;
+    return { ...output, environmentalDataSource };
   }
 );
@@ -11,9 +11,16 @@
 
 import { ai } from '@/ai/genkit';
 import { localSchemeSearchTool } from '@/ai/tools/local-scheme-search-tool';
+import { getSchemeCriteria } from '@/ai/providers/scheme-criteria-table';
+import { getSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+import { schemeSourceLink } from '@/lib/scheme-dataset';
+import { checkSchemeSummary } from '@/lib/scheme-citations';
+import { normalizeKey } from '@/lib/diagnosis-search';
+import { checkSchemeEligibility, findSchemeCriteria } from '@/lib/scheme-eligibility';
 import {
   GovernmentSchemesInputSchema,
   GovernmentSchemesOutputSchema,
+  GovernmentSchemesPromptOutputSchema,
   type GovernmentSchemesInput,
   type GovernmentSchemesOutput,
 } from '@/ai/schemas/government-schemes-schemas';
@@ -27,20 +34,21 @@ export async function findSchemes(input: GovernmentSchemesInput): Promise<Govern
 const governmentSchemesPrompt = ai.definePrompt({
   name: 'governmentSchemesPrompt',
   input: { schema: GovernmentSchemesInputSchema },
-  output: { schema: GovernmentSchemesOutputSchema },
+  output: { schema: GovernmentSchemesPromptOutputSchema },
   tools: [localSchemeSearchTool],
   system: 'You are an expert assistant for Indian farmers. Your goal is to help them understand and access government agricultural schemes. You MUST ONLY use information from the `localSchemeSearchTool` tool. Do not use your own knowledge. If the tool returns no relevant schemes, you MUST return an empty array for the `schemes` field and explain that no matching schemes were found in the `summary` field.',
   prompt: `
     Generate the entire response in the following language: {{language}}.
     
     A farmer has asked for help with the following topic: "{{query}}".
+    {{#if profile.state}}The farmer lives in {{profile.state}}.{{/if}}
 
     **Your Task:**
-    1.  **CRITICAL:** First, you MUST use the \`localSchemeSearchTool\` to search the local database for official information related to the farmer's query.
+    1.  **CRITICAL:** First, you MUST use the \`localSchemeSearchTool\` to search the local database for official information related to the farmer's query. If you know the farmer's state, pass it as \`state\` so schemes for other states are left out.
     2.  Carefully analyze ONLY the search results provided by the tool. The tool will provide a rich JSON object with all details.
-    3.  From the search results, identify the most relevant government schemes.
-    4.  For each identified scheme, **summarize** the information from the tool's output into the required fields (details, benefits, eligibility, applicationProcess, documentsRequired).
-    5.  Extract the official URL from the "Apply Now" section of the tool's data and place it in the \`sourceLink\` field.
+    3.  From the search results, identify the most relevant government schemes. The results are ranked best match first, and each has a match \`score\` from 0 to 1.
+    4.  For each identified scheme, **summarize** the information from the tool's output into the required fields (details, benefits, eligibility, applicationProcess, documentsRequired), and copy its \`scheme_name\` exactly, untranslated, into \`sourceSchemeName\`.
+    5.  **Cite your sources.** For every field, add to \`citations\` each section you drew it from: the field, the scheme's \`scheme_name\`, the section's \`title\` exactly as the tool returned it, and, if the text came from one entry of the section's \`list_items\`, that entry's position counting from 0. Only write what the cited sections say; statements, amounts and dates that cannot be found in them are flagged to the farmer as unverified.
     6.  If you find multiple relevant schemes, list them all in the 'schemes' array. If the tool returns no relevant schemes, the 'schemes' array MUST be empty.
     7.  Finally, write a brief, encouraging overall summary of your findings.
 
@@ -60,7 +68,28 @@ const governmentSchemesFlow = ai.defineFlow(
     if (!output) {
       throw new Error('The AI model failed to generate a response for the government schemes query.');
     }
-    
-    return output;
+
+    // Eligibility is checked against the extracted criteria, not judged by the model, and links
+    // come from the dataset, so the model cannot make one up. Each summary is checked against
+    // the sections it cites, and a scheme that is not in the dataset at all is left out.
+    const [criteria, { schemes: dataset }] = await Promise.all([getSchemeCriteria(), getSchemeDataset()]);
+    const profile = input.profile ?? {};
+    const schemes = output.schemes.flatMap(scheme => {
+      const source = dataset.find(candidate => normalizeKey(candidate.scheme_name) === normalizeKey(scheme.sourceSchemeName));
+      if (!source) {
+        console.warn(`Leaving out "${scheme.sourceSchemeName}", which is not in the schemes dataset.`);
+        return [];
+      }
+      return [{
+        ...scheme,
+        ...checkSchemeSummary(source, scheme),
+        eligibilityCheck: checkSchemeEligibility(findSchemeCriteria(criteria, scheme.sourceSchemeName), profile),
+        sourceLink: schemeSourceLink(source),
+      }];
+    });
+    const order = { eligible: 0, possiblyEligible: 1, notEligible: 2 };
+    schemes.sort((a, b) => order[a.eligibilityCheck.status] - order[b.eligibilityCheck.status]);
+
+    return { schemes, summary: output.summary };
   }
 );
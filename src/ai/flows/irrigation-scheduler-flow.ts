@@ -1,61 +1,96 @@
-
 'use server';
 
 /**
  * @fileOverview Irrigation scheduling AI agent.
  *
+ * The schedule itself is computed by a daily water balance (see water-balance.ts): the crop's
+ * water use is reference evapotranspiration (Hargreaves) times its crop coefficient for the
+ * growth stage, less effective rain, drawn from what the soil holds in the root zone. Dates,
+ * depths, volumes and pump run-times all come from it; the model only words the messages.
+ *
+ * A saved schedule is re-planned by passing its `progress`: the balance is replayed from the
+ * schedule's start with the rain the farmer logged and the irrigations they did, and only
+ * the events from today on are returned.
+ *
+ * A recent reading from a soil moisture sensor in the field sets the water in the root zone on
+ * the day it was taken, instead of assuming the soil is at field capacity.
+ *
  * - getIrrigationSchedule - A function that recommends an irrigation schedule.
  * - IrrigationSchedulerInput - The input type for the getIrrigationSchedule function.
  * - IrrigationSchedulerOutput - The return type for the getIrrigationSchedule function.
  */
 
 import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { addDays, addMonths, differenceInCalendarDays, differenceInHours, format, max, min, parseISO } from 'date-fns';
 import { getEnvironmentalDataForLocation } from '@/ai/tools/location-data-tool';
+import { findCropWaterEntry, findSoilWaterEntry, getCropWaterTable } from '@/ai/providers/crop-water-table';
 import {
   IrrigationSchedulerInputSchema,
+  IrrigationMessagesSchema,
   IrrigationSchedulerOutputSchema,
   type IrrigationSchedulerInput,
   type IrrigationSchedulerOutput,
 } from '@/ai/schemas/irrigation-scheduler-schemas';
+import { buildDailyWeather, planIrrigation, type PlannedIrrigation } from '@/lib/water-balance';
+import { AREA_UNIT_LABELS, toSquareMeters } from '@/lib/fields';
+import type { FieldAreaUnit } from '@/lib/types';
 
 export type { IrrigationSchedulerInput, IrrigationSchedulerOutput };
 
+// How far ahead a schedule is planned. Beyond the forecast the weather is only an average,
+// so a schedule is better re-planned than stretched over a whole season.
+const SCHEDULE_DAYS = 120;
+// Older soil moisture readings say little about the soil today, so they are not used.
+const SOIL_MOISTURE_MAX_AGE_HOURS = 48;
+
 export async function getIrrigationSchedule(
   input: IrrigationSchedulerInput
 ): Promise<IrrigationSchedulerOutput> {
   return irrigationSchedulerFlow(input);
 }
 
+const IrrigationSchedulerPromptInputSchema = IrrigationSchedulerInputSchema.omit({ progress: true, soilMoisture: true }).extend({
+  soilType: z.string(),
+  events: z.string().describe('The computed irrigation events, as JSON.'),
+});
+
 const irrigationSchedulerPrompt = ai.definePrompt({
   name: 'irrigationSchedulerPrompt',
-  input: { schema: IrrigationSchedulerInputSchema },
-  output: { schema: IrrigationSchedulerOutputSchema },
-  system: `You are an expert agronomist and irrigation specialist. Your task is to generate a precise and optimal irrigation schedule for a farmer. The schedule must start from today (${
-    new Date().toISOString().split('T')[0]
-  }) and all dates in the schedule must be in the future.`,
+  input: { schema: IrrigationSchedulerPromptInputSchema },
+  output: { schema: IrrigationMessagesSchema },
+  system: `You are an expert agronomist and irrigation specialist. The irrigation schedule has already been calculated from the crop's water requirement, the weather and the soil. Your task is to explain each irrigation to the farmer. Never change or invent dates, times, depths, volumes or run-times; quote the ones you are given.`,
   prompt: `
     Generate the entire response in the following language: {{language}}.
 
-    Please generate an optimal irrigation schedule based on the following details.
+    **Farm Details:**
     - Crop to be irrigated: {{selectedCrop}}
     - Location: {{location}}
     - Land Size: {{landSize}} {{landUnit}}
-    - Last Crop Grown on this land: {{lastCrop}}
-    - Total Cultivation Period: {{termPeriod}} months
-    - Recent/Expected Rainfall: {{rainfall}} mm
+    - Last Crop Grown on this land: {{#if lastCrop}}{{lastCrop}}{{else}}Not specified{{/if}}
     - Soil Type: {{soilType}}
-    - Soil pH: {{soilPh}}
+    - Soil pH: {{#if soilPh}}{{soilPh}}{{else}}Not specified{{/if}}
+
+    **Irrigation Events:**
+    Each event gives the crop's growth stage, the depth of water to apply in mm ('depthMm'), the volume for the whole field in litres ('volumeLitres'), and how long the pump must run ('runTimeMinutes', from 'startTime' to 'endTime').
+    \`\`\`json
+    {{{events}}}
+    \`\`\`
 
-    Your task is to create a schedule as an array of JSON objects. Each object must have a "date", "startTime", "endTime", and "message" field.
-    - The schedule should be reasonable and factor in the water requirements of the selected crop, the provided soil type and rainfall data, and general weather patterns for the location.
-    - The "message" for each entry should be a detailed, actionable instruction for the farmer on that day. Explain what to do and why it's important. For example: "Irrigate for 1 hour. This is a critical growth stage, and consistent moisture is key to ensuring a healthy yield."
-    - If no specific action is needed, provide a general check-in message (e.g., "Check soil moisture levels today. If the top 2 inches are dry, consider a light watering in the evening.").
-    - Provide a clear start and end time for the irrigation window, for example, "06:00" to "07:00".
+    **Your Task:**
+    Write one message for each event, in the same order. Each message is a detailed, actionable instruction for that day: how long to run the pump and how much water that is, and why watering matters at this growth stage. For example: "Run the pump for 2 hours 10 minutes (about 39,000 litres, 25 mm). The crop is flowering, and running short of water now lowers the yield."
 
     Strict Instruction: Your entire response must be ONLY a raw JSON object matching the output schema, with no other text, formatting, or code blocks.
   `,
 });
 
+const formatRunTime = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+// Used for any event the model did not write a message for.
+const defaultMessage = (event: PlannedIrrigation) =>
+  `Run the pump for ${formatRunTime(event.runTimeMinutes)} to apply about ${event.volumeLitres.toLocaleString('en-IN')} litres (${event.depthMm} mm).`;
+
 const irrigationSchedulerFlow = ai.defineFlow(
   {
     name: 'irrigationSchedulerFlow',
@@ -63,33 +98,123 @@ const irrigationSchedulerFlow = ai.defineFlow(
     outputSchema: IrrigationSchedulerOutputSchema,
   },
   async (input) => {
-    let environmentalData = {
-      rainfall: input.rainfall,
-      soilType: input.soilType,
-    };
+    const unit = input.landUnit as FieldAreaUnit;
+    const landSize = Number(input.landSize);
+    if (!(unit in AREA_UNIT_LABELS) || !(landSize > 0)) {
+      throw new Error(`"${input.landSize} ${input.landUnit}" is not a land size we can plan for.`);
+    }
 
-    // If rainfall or soil type data is missing, fetch it with the tool.
-    if (input.location && (!input.rainfall || !input.soilType)) {
-      console.log(`Missing environmental data for ${input.location}. Fetching...`);
-      const toolOutput = await getEnvironmentalDataForLocation({ location: input.location });
-      
-      if (!toolOutput) {
-          throw new Error(`Could not retrieve environmental data for the location: "${input.location}". Please provide a valid location or specify environmental conditions manually.`);
-      }
+    // The location's latitude and temperatures drive the water balance, so it is always fetched.
+    // Values the user supplied always take precedence over the provider's.
+    const environmentalData = await getEnvironmentalDataForLocation({ location: input.location });
+    const soilType = input.soilType || environmentalData.soilType || undefined;
+
+    const table = await getCropWaterTable();
+    const matchedCrop = findCropWaterEntry(table, input.selectedCrop);
+    const crop = matchedCrop ?? table.defaultCrop;
+    const soil = findSoilWaterEntry(table, soilType);
+    const irrigationMethod = input.irrigationMethod ?? 'flood';
+    const applicationEfficiency = table.applicationEfficiency[irrigationMethod];
+    const pumpFlowRate = input.pumpFlowRate ?? table.defaultPumpFlowLitresPerMinute;
+    const fieldAreaSqm = toSquareMeters(landSize, unit);
 
-      environmentalData = { ...environmentalData, ...toolOutput };
+    const { progress, soilMoisture, ...details } = input;
+    const today = new Date();
+    const sowing = input.sowingDate ? parseISO(input.sowingDate) : today;
+    const seasonEnd = addMonths(sowing, input.termPeriod);
+    const planFrom = max([sowing, today]);
+    const start = progress ? parseISO(progress.startDate) : planFrom;
+    const end = min([seasonEnd, addDays(planFrom, SCHEDULE_DAYS)]);
+    const days = differenceInCalendarDays(end, start);
+    if (differenceInCalendarDays(end, planFrom) <= 0) {
+      throw new Error(`The ${input.selectedCrop} season sown on ${format(sowing, 'yyyy-MM-dd')} has already ended.`);
     }
 
-    const finalInput = {
-      ...input,
-      ...environmentalData,
-    };
+    const recentMoisture = soilMoisture && differenceInHours(today, parseISO(soilMoisture.recordedAt)) <= SOIL_MOISTURE_MAX_AGE_HOURS
+      ? soilMoisture
+      : undefined;
 
-    const { output } = await irrigationSchedulerPrompt(finalInput);
+    const weather = buildDailyWeather(format(start, 'yyyy-MM-dd'), days, environmentalData.forecast, environmentalData.climateNormals, progress?.rainfall);
+    const appliedMm = Object.fromEntries((progress?.irrigations ?? []).map(({ date, depthMm }) => [date, depthMm * applicationEfficiency]));
+    const balance = planIrrigation({
+      crop,
+      soil,
+      sowingDate: format(sowing, 'yyyy-MM-dd'),
+      seasonDays: differenceInCalendarDays(seasonEnd, sowing),
+      initialRootDepthM: table.initialRootDepthM,
+      latitude: environmentalData.location.latitude,
+      weather,
+      fieldAreaSqm,
+      applicationEfficiency,
+      pumpFlowRate,
+      startTime: table.irrigationStartTime,
+      recordedUntil: progress ? format(planFrom, 'yyyy-MM-dd') : undefined,
+      appliedMm,
+      measuredMoisture: recentMoisture && { date: format(parseISO(recentMoisture.recordedAt), 'yyyy-MM-dd'), percent: recentMoisture.percent },
+    });
+    const forecastDates = new Set(environmentalData.forecast.map(day => day.date));
+    const forecastDays = weather.filter(day => forecastDates.has(day.date)).length;
 
-    if (!output) {
-      throw new Error('Failed to get irrigation schedule.');
+    let messages: string[] = [];
+    if (balance.events.length > 0) {
+      const { output } = await irrigationSchedulerPrompt({
+        ...details,
+        soilType: soilType ?? soil.name,
+        events: JSON.stringify(balance.events, null, 2),
+      });
+      if (!output) {
+        throw new Error('Failed to get irrigation schedule.');
+      }
+      messages = output.messages;
     }
-    return output;
+
+    const assumptions = [
+      `${crop.name} coefficients over a ${input.termPeriod}-month season, and ${soil.name.toLowerCase()} soil holding ${soil.availableWaterMmPerM} mm of water per metre.`,
+      recentMoisture && balance.measuredDepletionMm !== null
+        ? `Your soil moisture sensor read ${recentMoisture.percent}% on ${format(parseISO(recentMoisture.recordedAt), 'd MMM')}, against ${soil.fieldCapacityPercent}% at field capacity, so the root zone was ${balance.measuredDepletionMm} mm short of water then. Each irrigation refills it.`
+        : `The root zone is at field capacity ${start > sowing ? `on ${format(start, 'd MMM')}` : 'at sowing'}, and each irrigation refills it.`,
+      forecastDays > 0
+        ? `The first ${forecastDays} days use the forecast; after that, average temperatures are used and rain is not counted, so re-plan after it rains.`
+        : 'No forecast was available, so average temperatures are used and rain is not counted; re-plan after it rains.',
+      `${irrigationMethod[0].toUpperCase()}${irrigationMethod.slice(1)} irrigation delivers ${Math.round(applicationEfficiency * 100)}% of the water pumped to the roots, from a pump giving ${pumpFlowRate} litres a minute.`,
+    ];
+    if (progress) {
+      assumptions.push(`Since ${progress.startDate}, the rain you logged and the irrigations you marked done are counted; days without a record use average temperatures and no rain.`);
+    }
+    if (soilMoisture && !recentMoisture) {
+      assumptions.push(`The last soil moisture reading, from ${format(parseISO(soilMoisture.recordedAt), 'd MMM')}, is too old to use.`);
+    }
+    if (!matchedCrop) {
+      assumptions.unshift(`We do not have coefficients for ${input.selectedCrop}, so those of a typical field crop are used.`);
+    }
+
+    const totalDepthMm = balance.events.reduce((total, event) => total + event.depthMm, 0);
+    return {
+      schedule: balance.events.map((event, i) => ({ ...event, message: messages[i] || defaultMessage(event) })),
+      plan: {
+        crop: crop.name,
+        cropMatched: !!matchedCrop,
+        soil: soil.name,
+        sowingDate: format(sowing, 'yyyy-MM-dd'),
+        seasonEndDate: format(seasonEnd, 'yyyy-MM-dd'),
+        fieldAreaSqm: Math.round(fieldAreaSqm),
+        irrigationMethod,
+        applicationEfficiency,
+        pumpFlowRate,
+        rootZoneWaterMm: balance.rootZoneWaterMm,
+        allowableDepletionMm: balance.allowableDepletionMm,
+        cropWaterUseMm: balance.cropWaterUseMm,
+        effectiveRainMm: balance.effectiveRainMm,
+        totalDepthMm: Number(totalDepthMm.toFixed(1)),
+        totalVolumeLitres: balance.events.reduce((total, event) => total + event.volumeLitres, 0),
+        forecastDays,
+        assumptions,
+      },
+      environmentalDataSource: {
+        provider: environmentalData.provider,
+        location: [environmentalData.location.name, environmentalData.location.state].filter(Boolean).join(', '),
+        retrievedAt: new Date().toISOString(),
+      },
+    };
   }
 );
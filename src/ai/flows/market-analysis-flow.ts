@@ -1,18 +1,25 @@
-
 'use server';
 
 /**
  * @fileOverview An AI agent that provides market analysis for agricultural products.
- * This flow uses the model's internal knowledge to generate market insights.
+ *
+ * Prices, price changes and trends are taken from real mandi prices imported from
+ * Agmarknet / data.gov.in (see the getMandiPrices tool). The model only interprets them:
+ * the summary, supply and demand, and the recommendation.
  */
 
 import { ai } from '@/ai/genkit';
+import { z } from 'zod';
 import {
   MarketAnalysisInputSchema,
+  MarketAnalysisNarrativeSchema,
   MarketAnalysisOutputSchema,
   type MarketAnalysisInput,
   type MarketAnalysisOutput,
 } from '@/ai/schemas/market-analysis-schemas';
+import { lookupMandiPrices } from '@/ai/tools/mandi-price-tool';
+import { getMandiPriceStore } from '@/ai/providers/mandi-price-store';
+import { findCommodityInText } from '@/lib/mandi-prices';
 
 
 export type { MarketAnalysisInput, MarketAnalysisOutput };
@@ -21,41 +28,42 @@ export async function marketAnalysis(input: MarketAnalysisInput): Promise<Market
   return marketAnalysisFlow(input);
 }
 
+const MarketAnalysisPromptInputSchema = MarketAnalysisInputSchema.extend({
+  commodity: z.string(),
+  priceData: z.string().describe('The mandi prices found for the commodity, as JSON.'),
+});
+
 const marketAnalysisPrompt = ai.definePrompt({
   name: 'marketAnalysisPrompt',
-  input: { schema: MarketAnalysisInputSchema },
-  output: { schema: MarketAnalysisOutputSchema },
-  system: `You are an expert agricultural market analyst for Indian farmers. Your goal is to provide clear, actionable intelligence based on your general knowledge of market trends and publicly available data from sources like data.gov.in. You will not have access to real-time data, so base your analysis on historical trends and known seasonal patterns. The current date is ${new Date().toISOString().split('T')[0]}.`,
+  input: { schema: MarketAnalysisPromptInputSchema },
+  output: { schema: MarketAnalysisNarrativeSchema },
+  system: `You are an expert agricultural market analyst for Indian farmers. Your goal is to provide clear, actionable intelligence based on real mandi prices published by Agmarknet. Base every statement about prices on the price data you are given; do not invent prices, dates or markets. All prices are in ₹/quintal. The current date is ${new Date().toISOString().split('T')[0]}.`,
   prompt: `
     Generate the entire response in the following language: {{language}}.
 
     **Analyze Inputs:**
     - User's Core Question: "{{query}}"
-    - Commodity of Interest: {{#if commodity}}{{commodity}}{{else}}Not specified{{/if}}
+    - Commodity of Interest: {{commodity}}
     - Location for Analysis: {{#if location}}{{location}}{{else}}Not specified{{/if}}
     - Specific Market (Mandi): {{#if market}}{{market}}{{else}}Not specified{{/if}}
     - Additional User Notes: {{#if userNotes}}{{userNotes}}{{else}}None{{/if}}
 
+    **Mandi Price Data:**
+    The latest prices at the best-matching mandi, the previous market day, the change between them, the trend over the recent market days, and the daily prices it was read from. 'arrivalsComparedToAverage' is the latest day's arrivals as a multiple of the recent average, when arrivals were reported.
+    \`\`\`json
+    {{{priceData}}}
+    \`\`\`
+
     **Your Task:**
-    Based on your general knowledge, provide a comprehensive market analysis for the user. Synthesize the provided inputs to create a coherent response that fills all the fields in the output schema.
+    Interpret the price data to answer the user's question. If the mandi is not the one the user asked about, or the prices are several days old, say so.
 
     **Output Requirements:**
-    -   **marketSummary:** A concise overview of your findings, including the most significant trends.
-    -   **corePriceInfo:**
-        -   **currentPrice:** Estimate the most likely current price, unit, and market.
-        -   **dailyPriceRange:** Provide a plausible daily low and high price range.
-    -   **historicalTrendAnalysis:**
-        -   **previousDayPrice:** Estimate the price from the previous day.
-        -   **priceChange:** Calculate the change in price and percentage.
-        -   **priceTrend:** Analyze the recent trend (e.g., Upward, Downward) and the period (e.g., "last week").
+    -   **marketSummary:** A concise overview of the prices and the most significant trends, quoting the mandi and date.
     -   **marketDynamics:**
-        -   **supplyStatus & demandStatus:** Infer the likely supply and demand status and explain its impact.
+        -   **supplyStatus & demandStatus:** Infer the supply and demand status from the arrivals and price movements, and explain their impact. If arrivals were not reported, say the supply estimate is based on prices alone.
     -   **actionableInsight:**
         -   **recommendation:** Give a clear, actionable recommendation (e.g., "Sell now," "Hold").
-        -   **reasoning:** Briefly justify your recommendation.
-    -   **additionalInfo:**
-        -   **lastUpdated:** Provide today's date.
-        -   **dataSource:** State that the data is based on "General Market Trend Analysis and data.gov.in".
+        -   **reasoning:** Briefly justify your recommendation from the data.
 
     Strictly adhere to the JSON output schema.
   `,
@@ -68,12 +76,41 @@ const marketAnalysisFlow = ai.defineFlow(
     outputSchema: MarketAnalysisOutputSchema,
   },
   async (input) => {
-    const { output } = await marketAnalysisPrompt(input);
+    const commodity = input.commodity || findCommodityInText(await getMandiPriceStore().getCommodities(), input.query);
+    if (!commodity) {
+      throw new Error('Please say which commodity you want prices for, e.g. "Onion" or "Wheat".');
+    }
+
+    const prices = await lookupMandiPrices({
+      commodity,
+      market: input.market || undefined,
+      location: input.location || undefined,
+    });
+
+    const { output } = await marketAnalysisPrompt({ ...input, commodity, priceData: JSON.stringify(prices, null, 2) });
 
     if (!output) {
       throw new Error('The AI model failed to generate a market analysis.');
     }
 
-    return output;
+    const { current, previous, unit, dataSource } = prices;
+    return {
+      ...output,
+      mandi: { commodity: prices.commodity, variety: prices.variety, market: prices.market, district: prices.district, state: prices.state },
+      corePriceInfo: {
+        currentPrice: { price: current.modalPrice, unit, date: current.date, market: `${current.market}, ${current.district}, ${current.state}` },
+        dailyPriceRange: { low: current.minPrice, high: current.maxPrice, unit },
+      },
+      historicalTrendAnalysis: {
+        // With only one market day imported, the latest price stands in for the previous one.
+        previousDayPrice: { price: (previous ?? current).modalPrice, unit, date: (previous ?? current).date },
+        priceChange: { change: prices.change, percentageChange: prices.percentageChange },
+        priceTrend: prices.trend,
+      },
+      additionalInfo: {
+        lastUpdated: dataSource.importedAt ?? `${dataSource.priceDate}T00:00:00.000Z`,
+        dataSource: `Agmarknet mandi prices for ${dataSource.priceDate}, from ${dataSource.file}`,
+      },
+    };
   }
 );
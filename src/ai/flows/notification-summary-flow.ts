@@ -0,0 +1,56 @@
+'use server';
+
+/**
+ * @fileOverview Reads a farmer's notifications aloud, as a short summary in their language.
+ *
+ * - summarizeNotifications - Summarizes notifications such as triggered price alerts and speaks the summary.
+ */
+
+import { ai } from '@/ai/genkit';
+import {
+  NotificationSummaryInputSchema,
+  NotificationSummaryOutputSchema,
+  NotificationSummaryTextSchema,
+  type NotificationSummaryInput,
+  type NotificationSummaryOutput,
+} from '@/ai/schemas/notification-summary-schemas';
+import { textToSpeech } from '@/ai/flows/text-to-speech-flow';
+
+export type { NotificationSummaryInput, NotificationSummaryOutput };
+
+export async function summarizeNotifications(input: NotificationSummaryInput): Promise<NotificationSummaryOutput> {
+  return notificationSummaryFlow(input);
+}
+
+const notificationSummaryPrompt = ai.definePrompt({
+  name: 'notificationSummaryPrompt',
+  input: { schema: NotificationSummaryInputSchema },
+  output: { schema: NotificationSummaryTextSchema },
+  system: 'You read notifications aloud to Indian farmers. Be brief and plain, and keep every price, percentage, market name and date exactly as given.',
+  prompt: `
+    Generate the entire response in the following language: {{language}}.
+
+    Summarize these notifications in a few short sentences suitable for reading aloud. Mention each commodity, market and price once. Say prices as "rupees per quintal" rather than using symbols.
+
+    {{#each notifications}}
+    - {{title}}: {{message}}
+    {{/each}}
+  `,
+});
+
+const notificationSummaryFlow = ai.defineFlow(
+  {
+    name: 'notificationSummaryFlow',
+    inputSchema: NotificationSummaryInputSchema,
+    outputSchema: NotificationSummaryOutputSchema,
+  },
+  async (input) => {
+    const { output } = await notificationSummaryPrompt(input);
+    if (!output) {
+      throw new Error('The AI model failed to summarize the notifications.');
+    }
+    // The speech model returns no audio on quota errors; the summary is still shown as text.
+    const { audioDataUri } = await textToSpeech({ text: output.summary });
+    return { summary: output.summary, audioDataUri };
+  }
+);
@@ -0,0 +1,63 @@
+/**
+ * @fileOverview Data tables that are loaded once and can be swapped for a file on disk.
+ *
+ * - loadCachedTable - Returns a getter for a table read from the path in an environment
+ *   variable, or else a default file or the data bundled with the app.
+ */
+
+import { promises as fs } from 'fs';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+export interface CachedTableOptions<T> {
+  /** What the table is called in errors, e.g. "market cost table". */
+  name: string;
+  /** The environment variable that may hold the path of a replacement file. */
+  envVar: string;
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  /** The table to use when the environment variable is not set. */
+  bundled?: unknown;
+  /** The file to read when the environment variable is not set and nothing is bundled. */
+  defaultPath?: () => string;
+  /** Whether a missing file means there is no table, rather than an error. */
+  optional?: boolean;
+}
+
+export interface CachedTable<T> {
+  (): Promise<T>;
+  /** Forgets the loaded table, so that the next use reads it again. */
+  clear(): void;
+}
+
+async function readTable<T>({ name, envVar, schema, bundled, defaultPath, optional }: CachedTableOptions<T>): Promise<T | null> {
+  const tablePath = process.env[envVar] || defaultPath?.();
+  if (!tablePath) {
+    return schema.parse(bundled);
+  }
+  let contents: string;
+  try {
+    contents = await fs.readFile(tablePath, 'utf8');
+  } catch (error: any) {
+    if (optional && error.code === 'ENOENT') return null;
+    throw new Error(`The ${name} at ${tablePath} could not be read. Reason: ${error.message}`);
+  }
+  try {
+    return schema.parse(JSON.parse(contents));
+  } catch (error: any) {
+    throw new Error(`The ${name} at ${tablePath} is not valid. Reason: ${error.message}`);
+  }
+}
+
+export function loadCachedTable<T>(options: CachedTableOptions<T> & { optional: true }): CachedTable<T | null>;
+export function loadCachedTable<T>(options: CachedTableOptions<T>): CachedTable<T>;
+export function loadCachedTable<T>(options: CachedTableOptions<T>): CachedTable<T | null> {
+  let table: Promise<T | null> | null = null;
+  const get = () => {
+    if (!table) {
+      table = readTable(options);
+      // A broken table is reported on every use until it is fixed, rather than cached.
+      table.catch(() => { table = null; });
+    }
+    return table;
+  };
+  return Object.assign(get, { clear: () => { table = null; } });
+}
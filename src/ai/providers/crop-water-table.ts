@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Crop coefficients and soil water-holding capacities for irrigation planning.
+ *
+ * - getCropWaterTable - The table at CROP_WATER_TABLE_PATH, or the bundled `crop-water.json`.
+ * - findCropWaterEntry - The coefficients for a crop, or generic ones.
+ * - findSoilWaterEntry - The water-holding capacity of a soil type, or that of a loam.
+ */
+
+import { loadCachedTable } from '@/ai/providers/cached-table';
+import defaultCropWaterTable from '@/ai/data/crop-water.json';
+import {
+  CropWaterTableSchema,
+  type CropWaterEntry,
+  type CropWaterTable,
+  type SoilWaterEntry,
+} from '@/ai/schemas/irrigation-scheduler-schemas';
+import { normalizeName } from '@/lib/mandi-prices';
+
+export const getCropWaterTable: () => Promise<CropWaterTable> = loadCachedTable({
+  name: 'crop water table',
+  envVar: 'CROP_WATER_TABLE_PATH',
+  schema: CropWaterTableSchema,
+  bundled: defaultCropWaterTable,
+});
+
+// Whether a name appears as whole words in free text, e.g. "rice" in "Basmati Rice".
+const containsName = (text: string, name: string) => ` ${normalizeName(text)} `.includes(` ${normalizeName(name)} `);
+
+/** Finds a crop by its name or a local name, e.g. "Kanda" for onion. */
+export function findCropWaterEntry(table: CropWaterTable, cropName: string): CropWaterEntry | null {
+  return table.crops.find(crop => [crop.name, ...crop.aliases].some(name => containsName(cropName, name))) ?? null;
+}
+
+/** Finds the soil a free-text soil type describes, e.g. "Medium Black" is a black cotton soil. */
+export function findSoilWaterEntry(table: CropWaterTable, soilType: string | undefined): SoilWaterEntry {
+  if (!soilType) return table.defaultSoil;
+  return table.soils.find(soil => soil.keywords.some(keyword => containsName(soilType, keyword))) ?? table.defaultSoil;
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview The pluggable source of environmental data (climate normals, forecast, soil type).
+ *
+ * - EnvironmentalDataProvider - The interface every data source implements.
+ * - UnknownLocationError - Thrown when a provider cannot resolve a location.
+ */
+
+import type { EnvironmentalData } from '@/ai/schemas/environmental-data-schemas';
+
+export interface EnvironmentalDataProvider {
+  /** A short, stable identifier recorded alongside any data this provider returns. */
+  name: string;
+  /**
+   * Returns environmental data for a free-text location such as "Nashik, Maharashtra".
+   * Must be deterministic for a given location and must throw UnknownLocationError
+   * rather than invent values for places it does not know.
+   */
+  getEnvironmentalData(location: string): Promise<EnvironmentalData>;
+}
+
+export class UnknownLocationError extends Error {
+  constructor(public readonly location: string, providerName: string) {
+    super(`Could not retrieve environmental data for the location: "${location}" (provider: ${providerName}). Please provide a valid location or specify environmental conditions manually.`);
+    this.name = 'UnknownLocationError';
+  }
+}
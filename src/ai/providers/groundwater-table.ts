@@ -0,0 +1,31 @@
+/**
+ * @fileOverview Groundwater extraction by district, for the Water Scarcity Index.
+ *
+ * - getGroundwaterTable - The table at GROUNDWATER_TABLE_PATH, or the bundled `groundwater.json`.
+ * - findGroundwaterStage - The stage of extraction for a district, or its state's, or India's.
+ */
+
+import { loadCachedTable } from '@/ai/providers/cached-table';
+import defaultGroundwaterTable from '@/ai/data/groundwater.json';
+import { GroundwaterTableSchema, type GroundwaterTable } from '@/ai/schemas/water-insights-schemas';
+import { normalizeName } from '@/lib/mandi-prices';
+
+export const getGroundwaterTable: () => Promise<GroundwaterTable> = loadCachedTable({
+  name: 'groundwater table',
+  envVar: 'GROUNDWATER_TABLE_PATH',
+  schema: GroundwaterTableSchema,
+  bundled: defaultGroundwaterTable,
+});
+
+export function findGroundwaterStage(table: GroundwaterTable, district: string, state: string | undefined): { stagePercent: number; scope: 'district' | 'state' | 'national' } {
+  const inState = (name: string) => !state || normalizeName(name) === normalizeName(state);
+  const districtRow = table.districts.find(row => normalizeName(row.district) === normalizeName(district) && inState(row.state));
+  if (districtRow) {
+    return { stagePercent: districtRow.stagePercent, scope: 'district' };
+  }
+  const stateRow = state ? Object.entries(table.states).find(([name]) => normalizeName(name) === normalizeName(state)) : undefined;
+  if (stateRow) {
+    return { stagePercent: stateRow[1], scope: 'state' };
+  }
+  return { stagePercent: table.national, scope: 'national' };
+}
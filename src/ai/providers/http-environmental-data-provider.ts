@@ -0,0 +1,202 @@
+/**
+ * @fileOverview An environmental data provider that talks to Open-Meteo compatible HTTP APIs.
+ *
+ * Locations are geocoded, the daily forecast comes from the forecast API and climate normals
+ * are averaged from the archive API over the previous full calendar year, so results stay
+ * the same for a location for the whole year. These APIs have no soil data, so `soilType`
+ * is null; callers fall back to the user's input or let the model infer it.
+ */
+
+import { z } from 'zod';
+import type { ClimateNormals, DailyForecast, EnvironmentalData, ResolvedLocation } from '@/ai/schemas/environmental-data-schemas';
+import { UnknownLocationError, type EnvironmentalDataProvider } from './environmental-data-provider';
+import { findNormalsEntry } from './local-environmental-data-provider';
+
+export interface HttpEnvironmentalDataProviderOptions {
+  geocodingUrl?: string;
+  forecastUrl?: string;
+  archiveUrl?: string;
+  forecastDays?: number;
+}
+
+export const DEFAULT_GEOCODING_URL = 'https://geocoding-api.open-meteo.com';
+export const DEFAULT_FORECAST_URL = 'https://api.open-meteo.com';
+export const DEFAULT_ARCHIVE_URL = 'https://archive-api.open-meteo.com';
+
+// A request that takes longer is abandoned, so that a slow API cannot hold up a flow.
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const GeocodingResponseSchema = z.object({
+  results: z.array(z.object({
+    name: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    admin1: z.string().optional(),
+    admin2: z.string().optional(),
+  })).optional(),
+});
+
+const DailySeriesSchema = z.object({
+  time: z.array(z.string()),
+  temperature_2m_max: z.array(z.number().nullable()),
+  temperature_2m_min: z.array(z.number().nullable()),
+  precipitation_sum: z.array(z.number().nullable()),
+  relative_humidity_2m_mean: z.array(z.number().nullable()).optional(),
+  wind_speed_10m_max: z.array(z.number().nullable()).optional(),
+  weather_code: z.array(z.number().nullable()).optional(),
+});
+
+const DailyResponseSchema = z.object({ daily: DailySeriesSchema });
+
+export async function getJson<T>(url: URL, schema: z.ZodType<T>): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error: any) {
+    if (error.name !== 'TimeoutError') throw error;
+    throw new Error(`Environmental data request to ${url.origin}${url.pathname} timed out after ${REQUEST_TIMEOUT_MS / 1000} seconds.`);
+  }
+  if (!response.ok) {
+    throw new Error(`Environmental data request to ${url.origin}${url.pathname} failed with status ${response.status}.`);
+  }
+  return schema.parse(await response.json());
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+const average = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : 0;
+};
+
+const sum = (values: (number | null)[]) => values.reduce<number>((total, v) => total + (v ?? 0), 0);
+
+/**
+ * Resolves a free-text Indian location to coordinates with an Open-Meteo compatible geocoder.
+ * Returns null when the geocoder has no match.
+ */
+export async function geocodeLocation(location: string, geocodingUrl = DEFAULT_GEOCODING_URL): Promise<ResolvedLocation | null> {
+  // The geocoder only understands place names, so search on the most specific part.
+  const placeName = location.split(',')[0].trim();
+  if (!placeName) {
+    return null;
+  }
+
+  const url = new URL('/v1/search', geocodingUrl);
+  url.searchParams.set('name', placeName);
+  url.searchParams.set('count', '1');
+  url.searchParams.set('countryCode', 'IN');
+  url.searchParams.set('language', 'en');
+
+  const { results } = await getJson(url, GeocodingResponseSchema);
+  const match = results?.[0];
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match.name,
+    district: match.admin2,
+    state: match.admin1,
+    latitude: match.latitude,
+    longitude: match.longitude,
+  };
+}
+
+/**
+ * Resolves a free-text location to coordinates, from the bundled dataset for the districts it
+ * knows and with the geocoder otherwise. Returns null when neither has a match.
+ */
+export async function resolveLocation(location: string, geocodingUrl = DEFAULT_GEOCODING_URL): Promise<ResolvedLocation | null> {
+  // The bundled dataset avoids a geocoding round-trip for the districts it knows.
+  const entry = findNormalsEntry(location);
+  if (entry) {
+    return { name: entry.name, district: entry.district, state: entry.state, latitude: entry.latitude, longitude: entry.longitude };
+  }
+  return geocodeLocation(location, geocodingUrl);
+}
+
+export function createHttpEnvironmentalDataProvider(options: HttpEnvironmentalDataProviderOptions = {}): EnvironmentalDataProvider {
+  const name = 'open-meteo';
+  const geocodingUrl = options.geocodingUrl || DEFAULT_GEOCODING_URL;
+  const forecastUrl = options.forecastUrl || DEFAULT_FORECAST_URL;
+  const archiveUrl = options.archiveUrl || DEFAULT_ARCHIVE_URL;
+  const forecastDays = options.forecastDays ?? 7;
+
+  const geocode = async (location: string): Promise<ResolvedLocation> => {
+    const resolved = await geocodeLocation(location, geocodingUrl);
+    if (!resolved) {
+      throw new UnknownLocationError(location, name);
+    }
+    return resolved;
+  };
+
+  const getForecast = async ({ latitude, longitude }: ResolvedLocation): Promise<DailyForecast[]> => {
+    const url = new URL('/v1/forecast', forecastUrl);
+    url.searchParams.set('latitude', String(latitude));
+    url.searchParams.set('longitude', String(longitude));
+    url.searchParams.set('daily', 'temperature_2m_max,temperature_2m_min,precipitation_sum,relative_humidity_2m_mean,wind_speed_10m_max,weather_code');
+    url.searchParams.set('timezone', 'Asia/Kolkata');
+    url.searchParams.set('forecast_days', String(forecastDays));
+
+    const { daily } = await getJson(url, DailyResponseSchema);
+    // Days without temperatures are left out so that callers fall back to climate normals
+    // for them, rather than reading a missing value as 0°C.
+    return daily.time.flatMap((date, i) => {
+      const temperatureMax = daily.temperature_2m_max[i];
+      const temperatureMin = daily.temperature_2m_min[i];
+      if (temperatureMax === null || temperatureMax === undefined || temperatureMin === null || temperatureMin === undefined) {
+        return [];
+      }
+      return [{
+        date,
+        temperatureMax,
+        temperatureMin,
+        humidity: daily.relative_humidity_2m_mean?.[i] ?? undefined,
+        rainfall: daily.precipitation_sum[i] ?? 0,
+        windSpeed: daily.wind_speed_10m_max?.[i] ?? undefined,
+        weatherCode: daily.weather_code?.[i] ?? undefined,
+      }];
+    });
+  };
+
+  const getClimateNormals = async ({ latitude, longitude }: ResolvedLocation): Promise<ClimateNormals> => {
+    const year = new Date().getFullYear() - 1;
+    const url = new URL('/v1/archive', archiveUrl);
+    url.searchParams.set('latitude', String(latitude));
+    url.searchParams.set('longitude', String(longitude));
+    url.searchParams.set('start_date', `${year}-01-01`);
+    url.searchParams.set('end_date', `${year}-12-31`);
+    url.searchParams.set('daily', 'temperature_2m_max,temperature_2m_min,precipitation_sum,relative_humidity_2m_mean');
+    url.searchParams.set('timezone', 'Asia/Kolkata');
+
+    const { daily } = await getJson(url, DailyResponseSchema);
+    const temperatureMax = average(daily.temperature_2m_max);
+    const temperatureMin = average(daily.temperature_2m_min);
+    return {
+      temperature: round((temperatureMax + temperatureMin) / 2),
+      temperatureMax: round(temperatureMax),
+      temperatureMin: round(temperatureMin),
+      humidity: round(average(daily.relative_humidity_2m_mean ?? []), 0),
+      rainfall: round(sum(daily.precipitation_sum), 0),
+    };
+  };
+
+  return {
+    name,
+    async getEnvironmentalData(location: string): Promise<EnvironmentalData> {
+      const resolved = await geocode(location);
+      const [climateNormals, forecast] = await Promise.all([
+        getClimateNormals(resolved),
+        getForecast(resolved),
+      ]);
+
+      return {
+        location: resolved,
+        climateNormals,
+        forecast,
+        soilType: null,
+        provider: name,
+      };
+    },
+  };
+}
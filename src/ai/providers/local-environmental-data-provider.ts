@@ -0,0 +1,66 @@
+/**
+ * @fileOverview An environmental data provider backed by the bundled `environmental-normals.json` dataset.
+ *
+ * The dataset holds long-term climate normals and the predominant soil type for a set of
+ * Indian districts. It has no forecast, so `forecast` is always empty.
+ */
+
+import normalsData from '@/ai/data/environmental-normals.json';
+import type { EnvironmentalData } from '@/ai/schemas/environmental-data-schemas';
+import { UnknownLocationError, type EnvironmentalDataProvider } from './environmental-data-provider';
+
+type NormalsEntry = (typeof normalsData)[number];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const entryNames = (entry: NormalsEntry) => [entry.name, entry.district, ...entry.aliases].map(normalize);
+
+/**
+ * Finds the dataset entry for a free-text location. Each comma-separated part is first
+ * matched exactly against names, districts and aliases; failing that, a part may contain
+ * a known name as a whole word (e.g. "Near Nashik Road").
+ */
+export function findNormalsEntry(location: string): NormalsEntry | null {
+  const parts = location.split(',').map(normalize).filter(Boolean);
+
+  for (const part of parts) {
+    const exact = normalsData.find(entry => entryNames(entry).includes(part));
+    if (exact) return exact;
+  }
+
+  for (const part of parts) {
+    const words = ` ${part} `;
+    const contained = normalsData.find(entry => entryNames(entry).some(name => words.includes(` ${name} `)));
+    if (contained) return contained;
+  }
+
+  return null;
+}
+
+export function createLocalEnvironmentalDataProvider(): EnvironmentalDataProvider {
+  const name = 'local-dataset';
+
+  return {
+    name,
+    async getEnvironmentalData(location: string): Promise<EnvironmentalData> {
+      const entry = findNormalsEntry(location);
+      if (!entry) {
+        throw new UnknownLocationError(location, name);
+      }
+
+      return {
+        location: {
+          name: entry.name,
+          district: entry.district,
+          state: entry.state,
+          latitude: entry.latitude,
+          longitude: entry.longitude,
+        },
+        climateNormals: { ...entry.climateNormals },
+        forecast: [],
+        soilType: entry.soilType,
+        provider: name,
+      };
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview The bundled gazetteer of mandi coordinates, `mandi-gazetteer.json`.
+ *
+ * Agmarknet price dumps name a mandi but do not locate it, so the distance from a farm to a
+ * mandi is measured to the coordinates recorded here. Mandis missing from the file cannot be
+ * ranked by distance; add them with their Agmarknet spellings as aliases.
+ */
+
+import gazetteerData from '@/ai/data/mandi-gazetteer.json';
+import { matchesName, normalizeName } from '@/lib/mandi-prices';
+
+export type MandiGazetteerEntry = (typeof gazetteerData)[number];
+
+/**
+ * Finds a mandi's entry from its name as published by Agmarknet, e.g. "Lasalgaon(Niphad)",
+ * within its state.
+ */
+export function findMandiLocation(market: string, state: string): MandiGazetteerEntry | null {
+  return gazetteerData.find(entry =>
+    normalizeName(entry.state) === normalizeName(state) &&
+    [entry.market, ...entry.aliases].some(name => matchesName(market, name))
+  ) ?? null;
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileOverview The local store of mandi prices imported from Agmarknet / data.gov.in CSV dumps.
+ *
+ * - MandiPriceStore - The interface the price tool and flows read prices through.
+ * - createFileMandiPriceStore - A store kept in a single JSON file.
+ * - getMandiPriceStore - The shared store, at MANDI_PRICE_STORE_PATH or `.data/mandi-prices.json`.
+ * - NoPriceDataError - Thrown when no imported prices match a query.
+ *
+ * Import files with `npm run prices:import -- <file.csv>...`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import {
+  MandiPriceImportSchema,
+  MandiPriceRecordSchema,
+  type MandiPriceImport,
+  type MandiPriceQuery,
+  type MandiPriceRecord,
+} from '@/ai/schemas/mandi-price-schemas';
+import { matchesName, normalizeName } from '@/lib/mandi-prices';
+
+export interface MandiPriceStore {
+  /** A short, stable identifier recorded alongside any data this store returns. */
+  name: string;
+  /**
+   * Adds the records of one CSV file. A record for the same day, mandi, commodity, variety
+   * and grade as an existing one replaces it, so re-importing a file is harmless.
+   */
+  importRecords(file: string, records: MandiPriceRecord[]): Promise<MandiPriceImport>;
+  /** Returns the records matching a query, oldest first. */
+  getPrices(query: MandiPriceQuery): Promise<MandiPriceRecord[]>;
+  /** Returns the distinct commodity names in the store. */
+  getCommodities(): Promise<string[]>;
+  /** Returns the files imported so far, most recent first. */
+  getImports(): Promise<MandiPriceImport[]>;
+}
+
+export class NoPriceDataError extends Error {
+  constructor(public readonly commodity: string, public readonly place: string | undefined, latestDate: string | null) {
+    super(`No mandi prices for "${commodity}"${place ? ` in ${place}` : ''} have been imported. ${latestDate ? `The latest imported prices are for ${latestDate}.` : 'No price files have been imported yet.'}`);
+    this.name = 'NoPriceDataError';
+  }
+}
+
+const StoreFileSchema = z.object({
+  version: z.literal(1),
+  imports: z.array(MandiPriceImportSchema),
+  records: z.array(MandiPriceRecordSchema),
+});
+type StoreFile = z.infer<typeof StoreFileSchema>;
+
+const recordKey = (record: MandiPriceRecord) =>
+  [record.date, record.state, record.district, record.market, record.commodity, record.variety, record.grade ?? '']
+    .map(normalizeName)
+    .join('|');
+
+/**
+ * Finds the commodity names a query refers to: exact matches if there are any, otherwise
+ * names that start with the query, e.g. "Paddy" for "Paddy(Dhan)(Common)".
+ */
+function resolveCommodities(commodities: string[], query: string): Set<string> {
+  const exact = commodities.filter(name => normalizeName(name) === normalizeName(query));
+  return new Set(exact.length > 0 ? exact : commodities.filter(name => matchesName(name, query)));
+}
+
+export function createFileMandiPriceStore(filePath: string): MandiPriceStore {
+  const name = `file:${path.basename(filePath)}`;
+  // Reloaded whenever the file changes, so imports made while the app runs are picked up.
+  let cache: { modifiedAt: number; data: StoreFile } | null = null;
+
+  const load = async (): Promise<StoreFile> => {
+    let modifiedAt: number;
+    try {
+      modifiedAt = (await fs.stat(filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { version: 1, imports: [], records: [] };
+      throw error;
+    }
+    if (!cache || cache.modifiedAt !== modifiedAt) {
+      const data = StoreFileSchema.parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+      cache = { modifiedAt, data };
+    }
+    return cache.data;
+  };
+
+  const save = async (data: StoreFile) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Written to a temporary file first, so a reader never sees a half-written store.
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, filePath);
+    cache = null;
+  };
+
+  return {
+    name,
+
+    async importRecords(file, records) {
+      if (records.length === 0) {
+        throw new Error(`The file ${file} has no price records to import.`);
+      }
+      const data = await load();
+      const byKey = new Map(data.records.map(record => [recordKey(record), record]));
+      records.forEach(record => byKey.set(recordKey(record), record));
+
+      const dates = records.map(record => record.date).sort();
+      const entry: MandiPriceImport = {
+        file,
+        importedAt: new Date().toISOString(),
+        rowCount: records.length,
+        fromDate: dates[0],
+        toDate: dates[dates.length - 1],
+      };
+      await save({
+        version: 1,
+        imports: [entry, ...data.imports.filter(existing => existing.file !== file)],
+        records: [...byKey.values()],
+      });
+      return entry;
+    },
+
+    async getPrices(query) {
+      const data = await load();
+      const commodities = resolveCommodities([...new Set(data.records.map(record => record.commodity))], query.commodity);
+      return data.records
+        .filter(record =>
+          commodities.has(record.commodity) &&
+          (!query.market || matchesName(record.market, query.market)) &&
+          (!query.district || matchesName(record.district, query.district)) &&
+          (!query.state || matchesName(record.state, query.state)) &&
+          (!query.from || record.date >= query.from) &&
+          (!query.to || record.date <= query.to)
+        )
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async getCommodities() {
+      const data = await load();
+      return [...new Set(data.records.map(record => record.commodity))].sort();
+    },
+
+    async getImports() {
+      const data = await load();
+      return [...data.imports].sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+    },
+  };
+}
+
+let store: MandiPriceStore | null = null;
+
+export function getMandiPriceStore(): MandiPriceStore {
+  if (!store) {
+    store = createFileMandiPriceStore(process.env.MANDI_PRICE_STORE_PATH || path.join(process.cwd(), '.data', 'mandi-prices.json'));
+    console.log(`Using mandi price store: ${store.name}`);
+  }
+  return store;
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview The costs of selling at a mandi: freight, mandi fees and commission.
+ *
+ * - getMarketCostTable - The table at MARKET_COST_TABLE_PATH, or the bundled `market-costs.json`.
+ * - getMandiFees - The fees charged in a state.
+ */
+
+import { loadCachedTable } from '@/ai/providers/cached-table';
+import defaultCostTable from '@/ai/data/market-costs.json';
+import { MarketCostTableSchema, type MandiFees, type MarketCostTable } from '@/ai/schemas/sell-options-schemas';
+import { normalizeName } from '@/lib/mandi-prices';
+
+export const getMarketCostTable: () => Promise<MarketCostTable> = loadCachedTable({
+  name: 'market cost table',
+  envVar: 'MARKET_COST_TABLE_PATH',
+  schema: MarketCostTableSchema,
+  bundled: defaultCostTable,
+});
+
+export function getMandiFees(table: MarketCostTable, state: string): MandiFees {
+  const match = Object.entries(table.fees.states).find(([name]) => normalizeName(name) === normalizeName(state));
+  return match?.[1] ?? table.fees.default;
+}
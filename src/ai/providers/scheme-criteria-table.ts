@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Machine-readable eligibility criteria for the schemes database.
+ *
+ * - getSchemeCriteria - The criteria of every scheme in the dataset in use.
+ * - getSchemeCriteriaTable - The table at SCHEME_CRITERIA_PATH, or the bundled `scheme-criteria.json`.
+ * - schemeCriteriaTablePath - Where `npm run schemes:criteria` writes the table.
+ *
+ * Criteria are extracted from each scheme's eligibility section when a dataset version is
+ * loaded, so a newly published version has them without a rebuild. The table holds the entries
+ * checked by hand, which take the place of the extracted ones.
+ */
+
+import path from 'path';
+import { loadCachedTable } from '@/ai/providers/cached-table';
+import { getSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+import defaultSchemeCriteria from '@/ai/data/scheme-criteria.json';
+import { SchemeCriteriaTableSchema, type SchemeCriteria } from '@/ai/schemas/scheme-schemas';
+import { normalizeKey } from '@/lib/diagnosis-search';
+import { extractSchemeCriteria } from '@/lib/scheme-criteria';
+
+export const schemeCriteriaTablePath = () =>
+  process.env.SCHEME_CRITERIA_PATH || path.join(process.cwd(), 'src', 'ai', 'data', 'scheme-criteria.json');
+
+export const getSchemeCriteriaTable: () => Promise<SchemeCriteria[]> = loadCachedTable({
+  name: 'scheme criteria table',
+  envVar: 'SCHEME_CRITERIA_PATH',
+  schema: SchemeCriteriaTableSchema,
+  bundled: defaultSchemeCriteria,
+});
+
+let datasetCriteria: { version: number; criteria: SchemeCriteria[] } | null = null;
+
+/**
+ * The criteria of every scheme in the dataset in use: the reviewed entry in the criteria table
+ * where there is one, else those extracted from the scheme. Worked out again when a new version
+ * of the dataset is published.
+ */
+export async function getSchemeCriteria(): Promise<SchemeCriteria[]> {
+  const [{ version, schemes }, table] = await Promise.all([getSchemeDataset(), getSchemeCriteriaTable()]);
+  if (datasetCriteria?.version !== version.version) {
+    const reviewed = new Map(table.filter(entry => entry.reviewed).map(entry => [normalizeKey(entry.scheme_name), entry]));
+    datasetCriteria = {
+      version: version.version,
+      criteria: schemes.map(scheme => reviewed.get(normalizeKey(scheme.scheme_name)) ?? extractSchemeCriteria(scheme)),
+    };
+  }
+  return datasetCriteria.criteria;
+}
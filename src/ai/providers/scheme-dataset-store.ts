@@ -0,0 +1,192 @@
+/**
+ * @fileOverview Where the schemes dataset is published and loaded from at runtime.
+ *
+ * - SchemeDatasetStore - The interface the import script and admin page publish versions through.
+ * - createFileSchemeDatasetStore - A store kept in a single JSON file.
+ * - getSchemeDatasetStore - Firestore when SCHEME_DATASET_SOURCE=firestore, otherwise the file at
+ *   SCHEME_DATASET_PATH or `.data/schemes-dataset.json`.
+ * - getSchemeDataset - The latest published version, or the bundled schemes.json as version 0.
+ * - importSchemeDataset - Validates an imported schemes file and publishes it as the next version.
+ *
+ * Publish a file with `npm run schemes:import -- <file.json>` or from the admin page. Eligibility
+ * criteria are extracted from each version as it is loaded, and the embedding index, if there
+ * is one, is updated on publishing, so neither needs a rebuild.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import bundledSchemes from '@/ai/data/schemes.json';
+import { SchemeDatasetVersionSchema, SchemeSchema, type Scheme, type SchemeDatasetChangelog, type SchemeDatasetVersion } from '@/ai/schemas/scheme-schemas';
+import { updateSchemeEmbeddingIndex } from '@/ai/providers/scheme-embedding-index';
+import { createFirestoreSchemeDatasetStore } from '@/lib/firebase/scheme-dataset-store';
+import { checkSchemeLinks, diffSchemeDatasets, validateSchemeDataset, type SchemeDatasetReport } from '@/lib/scheme-dataset';
+
+export interface SchemeDataset {
+  version: SchemeDatasetVersion;
+  schemes: Scheme[];
+}
+
+export type SchemeDatasetVersionInput = Omit<SchemeDatasetVersion, 'version' | 'publishedAt'>;
+
+export interface SchemeDatasetStore {
+  /** A short, stable identifier for logs. */
+  name: string;
+  /** The latest published version, or null if nothing has been published. */
+  getCurrent(): Promise<SchemeDataset | null>;
+  /** Publishes validated schemes as the next version, which readers see from then on. */
+  publish(schemes: Scheme[], version: SchemeDatasetVersionInput): Promise<SchemeDatasetVersion>;
+  /** Every published version, newest first. */
+  getVersions(): Promise<SchemeDatasetVersion[]>;
+}
+
+const StoreFileSchema = z.object({
+  version: z.literal(1),
+  versions: z.array(SchemeDatasetVersionSchema),
+  schemes: z.array(SchemeSchema), // Of the latest version
+});
+type StoreFile = z.infer<typeof StoreFileSchema>;
+
+export function createFileSchemeDatasetStore(filePath: string): SchemeDatasetStore {
+  const load = async (): Promise<StoreFile> => {
+    try {
+      return StoreFileSchema.parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { version: 1, versions: [], schemes: [] };
+      throw new Error(`The schemes dataset at ${filePath} could not be read. Reason: ${error.message}`);
+    }
+  };
+
+  return {
+    name: `file:${path.basename(filePath)}`,
+
+    async getCurrent() {
+      const data = await load();
+      return data.versions.length > 0 ? { version: data.versions[0], schemes: data.schemes } : null;
+    },
+
+    async publish(schemes, input) {
+      const data = await load();
+      const version: SchemeDatasetVersion = { ...input, version: (data.versions[0]?.version ?? 0) + 1, publishedAt: new Date().toISOString() };
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Written to a temporary file first, so a reader never sees a half-written dataset.
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify({ version: 1, versions: [version, ...data.versions], schemes }));
+      await fs.rename(tempPath, filePath);
+      return version;
+    },
+
+    async getVersions() {
+      return (await load()).versions;
+    },
+  };
+}
+
+let store: SchemeDatasetStore | null = null;
+
+export function getSchemeDatasetStore(): SchemeDatasetStore {
+  if (!store) {
+    store = process.env.SCHEME_DATASET_SOURCE === 'firestore'
+      ? createFirestoreSchemeDatasetStore()
+      : createFileSchemeDatasetStore(process.env.SCHEME_DATASET_PATH || path.join(process.cwd(), '.data', 'schemes-dataset.json'));
+    console.log(`Using schemes dataset store: ${store.name}`);
+  }
+  return store;
+}
+
+// The dataset bundled with the app, used until a version is published.
+function bundledSchemeDataset(): SchemeDataset {
+  const { schemes, warningCount } = validateSchemeDataset(bundledSchemes);
+  return {
+    version: {
+      version: 0,
+      publishedAt: '',
+      publishedBy: null,
+      source: 'src/ai/data/schemes.json',
+      note: 'Bundled with the app.',
+      schemeCount: schemes.length,
+      warningCount,
+      changelog: { added: [], removed: [], changed: [] },
+    },
+    schemes,
+  };
+}
+
+// How long a loaded dataset is used before checking the store for a newer version.
+const DATASET_CACHE_MS = 60_000;
+
+let dataset: { loadedAt: number; value: Promise<SchemeDataset> } | null = null;
+
+/**
+ * The schemes the app searches: the latest version published to the store, or the bundled
+ * dataset if none has been. Newly published versions are picked up within a minute, without
+ * rebuilding the app.
+ */
+export function getSchemeDataset(): Promise<SchemeDataset> {
+  if (!dataset || Date.now() - dataset.loadedAt > DATASET_CACHE_MS) {
+    const value = getSchemeDatasetStore().getCurrent()
+      .then(current => current ?? bundledSchemeDataset())
+      .catch(error => {
+        // Searching the bundled schemes beats no scheme search; the store is tried again next time.
+        console.error('Could not load the published schemes dataset; using the bundled one:', error);
+        dataset = null;
+        return bundledSchemeDataset();
+      });
+    dataset = { loadedAt: Date.now(), value };
+  }
+  return dataset.value;
+}
+
+export interface SchemeDatasetImportOptions {
+  source: string; // The imported file's name
+  note?: string;
+  publishedBy?: string | null;
+  checkLinks?: boolean; // Fetch every link in the schemes and report the broken ones; slow
+  dryRun?: boolean; // Validate only
+}
+
+export interface SchemeDatasetImportResult {
+  report: SchemeDatasetReport;
+  changelog: SchemeDatasetChangelog; // Compared with the version in use
+  published: SchemeDatasetVersion | null; // Null for a dry run, or when the file has errors
+}
+
+/**
+ * Validates and normalises an imported schemes file and, unless it has errors or this is a
+ * dry run, publishes it as the next version of the dataset.
+ * @param data The parsed JSON of the file.
+ */
+export async function importSchemeDataset(data: unknown, options: SchemeDatasetImportOptions): Promise<SchemeDatasetImportResult> {
+  const report = validateSchemeDataset(data);
+  if (options.checkLinks && report.schemes.length > 0) {
+    const broken = await checkSchemeLinks(report.schemes);
+    report.issues.push(...broken);
+    report.warningCount += broken.length;
+  }
+  const changelog = diffSchemeDatasets((await getSchemeDataset()).schemes, report.schemes);
+  if (report.errorCount > 0 || options.dryRun) {
+    return { report, changelog, published: null };
+  }
+  if (report.schemes.length === 0) {
+    throw new Error('The file has no schemes to publish.');
+  }
+
+  const published = await getSchemeDatasetStore().publish(report.schemes, {
+    publishedBy: options.publishedBy ?? null,
+    source: options.source,
+    note: options.note?.trim() ?? '',
+    schemeCount: report.schemes.length,
+    warningCount: report.warningCount,
+    changelog,
+  });
+  // Readers in this process see the new version straight away.
+  dataset = null;
+  try {
+    const embeddings = await updateSchemeEmbeddingIndex(report.schemes);
+    if (embeddings) console.log(`Embedded ${embeddings.embedded} new or changed schemes for semantic search.`);
+  } catch (error) {
+    // The version is published either way; schemes without a current vector are ranked by keywords.
+    console.error('Could not update the scheme embedding index:', error);
+  }
+  return { report, changelog, published };
+}
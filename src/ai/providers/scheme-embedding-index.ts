@@ -0,0 +1,92 @@
+/**
+ * @fileOverview The optional embedding index behind semantic scheme search.
+ *
+ * - getSchemeEmbeddingIndex - The index at SCHEME_EMBEDDING_INDEX_PATH or `.data/scheme-embeddings.json`, or null if it has not been built.
+ * - updateSchemeEmbeddingIndex - Embeds the schemes that are new or changed since the index was written, and writes it.
+ * - schemeTextHash - A fingerprint of the text a scheme's vector is made from.
+ * - embedSchemeQuery - Embeds a search query with the embedder the index was built with.
+ *
+ * Without an index, scheme search ranks by keywords (BM25) alone. `npm run schemes:embed`
+ * creates it, and publishing a dataset version keeps it up to date from then on.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { googleAI } from '@genkit-ai/googleai';
+import { ai } from '@/ai/genkit';
+import { loadCachedTable, type CachedTable } from '@/ai/providers/cached-table';
+import { SchemeEmbeddingIndexSchema, type Scheme, type SchemeEmbeddingIndex } from '@/ai/schemas/scheme-schemas';
+import { schemeText } from '@/lib/scheme-search';
+
+export const SCHEME_EMBEDDER = 'text-embedding-004';
+// The embedder reads about this much of each scheme; the name, keywords and overview come first.
+const MAX_SCHEME_TEXT_CHARS = 8_000;
+
+export const schemeEmbeddingIndexPath = () =>
+  process.env.SCHEME_EMBEDDING_INDEX_PATH || path.join(process.cwd(), '.data', 'scheme-embeddings.json');
+
+export const getSchemeEmbeddingIndex: CachedTable<SchemeEmbeddingIndex | null> = loadCachedTable({
+  name: 'scheme embedding index',
+  envVar: 'SCHEME_EMBEDDING_INDEX_PATH',
+  schema: SchemeEmbeddingIndexSchema,
+  defaultPath: schemeEmbeddingIndexPath,
+  optional: true,
+});
+
+const embeddingText = (scheme: Scheme) => schemeText(scheme).slice(0, MAX_SCHEME_TEXT_CHARS);
+
+/** A fingerprint of the text a scheme's vector is made from; it changes when the scheme does. */
+export const schemeTextHash = (scheme: Scheme) =>
+  createHash('sha256').update(embeddingText(scheme)).digest('hex').slice(0, 16);
+
+async function embed(text: string, embedder: string, taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<number[]> {
+  const [{ embedding }] = await ai.embed({ embedder: googleAI.embedder(embedder), content: text, options: { taskType } });
+  return embedding;
+}
+
+/**
+ * Brings the index up to date with the given schemes, embedding only those whose text is not
+ * in it yet, and writes it. Returns null, without embedding anything, if there is no index and
+ * `create` is not set, as semantic search is optional.
+ */
+export async function updateSchemeEmbeddingIndex(
+  schemes: Scheme[],
+  { create = false }: { create?: boolean } = {}
+): Promise<{ index: SchemeEmbeddingIndex; embedded: number } | null> {
+  // A broken index is only replaced when asked to create one.
+  const previous = await getSchemeEmbeddingIndex().catch(error => {
+    if (create) return null;
+    throw error;
+  });
+  if (!previous && !create) return null;
+
+  const vectors = new Map(previous?.embedder === SCHEME_EMBEDDER
+    ? previous.schemes.flatMap(({ textHash, vector }) => (textHash ? [[textHash, vector] as const] : []))
+    : []);
+  let embedded = 0;
+  const entries: SchemeEmbeddingIndex['schemes'] = [];
+  // One at a time, to stay within the embedding API's rate limit.
+  for (const scheme of schemes) {
+    const textHash = schemeTextHash(scheme);
+    let vector = vectors.get(textHash);
+    if (!vector) {
+      vector = await embed(embeddingText(scheme), SCHEME_EMBEDDER, 'RETRIEVAL_DOCUMENT');
+      vectors.set(textHash, vector);
+      embedded++;
+    }
+    entries.push({ scheme_name: scheme.scheme_name, textHash, vector });
+  }
+  const index: SchemeEmbeddingIndex = { embedder: SCHEME_EMBEDDER, createdAt: new Date().toISOString(), schemes: entries };
+
+  const indexPath = schemeEmbeddingIndexPath();
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  // Written to a temporary file first, so a reader never sees a half-written index.
+  const tempPath = `${indexPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(index));
+  await fs.rename(tempPath, indexPath);
+  getSchemeEmbeddingIndex.clear();
+  return { index, embedded };
+}
+
+export const embedSchemeQuery = (query: string, index: SchemeEmbeddingIndex) => embed(query, index.embedder, 'RETRIEVAL_QUERY');
@@ -10,6 +10,36 @@ export type Message = z.infer<typeof MessageSchema>;
 export const ChatInputSchema = z.object({
   query: z.string().describe("The user's latest message."),
   language: z.string().optional().describe('The language for the response.'),
-  history: z.array(MessageSchema).describe("The history of the conversation so far.")
+  history: z.array(MessageSchema).optional().describe("The history of the conversation so far. Ignored when a session is given."),
+  sessionId: z.string().optional().describe("A saved chat session to load the history from and to save this exchange to."),
 });
 export type ChatInput = z.infer<typeof ChatInputSchema>;
+
+export const ToolTraceEntrySchema = z.object({
+  tool: z.string().describe('The name of the tool that ran.'),
+  input: z.any().describe('The input the model gave the tool.'),
+  output: z.any().optional().describe('What the tool returned, if it succeeded.'),
+  error: z.string().optional().describe('Why the tool failed, if it did.'),
+  durationMs: z.number().describe('How long the tool took to run.'),
+});
+export type ToolTraceEntry = z.infer<typeof ToolTraceEntrySchema>;
+
+export const ChatOutputSchema = z.object({
+  response: z.string().describe("The agent's reply to the user."),
+  toolTrace: z.array(ToolTraceEntrySchema).describe('The tools the agent ran to answer, in order.'),
+});
+export type ChatOutput = z.infer<typeof ChatOutputSchema>;
+
+// Streamed to the client while the agent works: progress while a tool runs, then the answer's text.
+export const ChatStreamChunkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('status'),
+    tool: z.string().describe('The tool being called.'),
+    message: z.string().describe('A short description of what the agent is doing, e.g. "Checking mandi prices…".'),
+  }),
+  z.object({
+    type: z.literal('text'),
+    text: z.string().describe('The next piece of the response text.'),
+  }),
+]);
+export type ChatStreamChunk = z.infer<typeof ChatStreamChunkSchema>;
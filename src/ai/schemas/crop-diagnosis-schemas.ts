@@ -4,13 +4,17 @@ import { z } from 'zod';
 export const CropDiagnosisInputSchema = z.object({
   userId: z.string().optional().describe('The ID of the user requesting the diagnosis.'),
   photoDataUris: z.array(z.string()).min(1, 'At least one photo is required.').describe("An array of photos of the diseased plant, as data URIs that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  cropName: z.string().optional().describe('The crop in the photos (e.g., "Tomato"), if the user knows it.'),
+  location: z.string().optional().describe('Where the crop is grown (e.g., "Nashik, Maharashtra").'),
   landSize: z.string().optional().describe('The size of the land where the crop is planted (e.g., "2 acres").'),
   additionalNotes: z.string().optional().describe('Any additional notes or observations from the user.'),
   language: z.string().optional().describe('The language for the response (e.g., "Hindi", "Marathi"). Defaults to English if not specified.'),
 });
 export type CropDiagnosisInput = z.infer<typeof CropDiagnosisInputSchema>;
 
-export const CropDiagnosisOutputSchema = z.object({
+// The part of the output generated by the model.
+export const CropDiagnosisSchema = z.object({
+  cropName: z.string().describe('The crop shown in the images (e.g., "Tomato"). Use the crop name provided by the user, if any.'),
   healthStatus: z.object({
     status: z.enum(['Healthy', 'Infected', 'At Risk']).describe('The overall health status of the crop.'),
     severity: z.enum(['Low', 'Medium', 'High', 'N/A']).describe('The severity of the infection, if applicable.'),
@@ -24,4 +28,8 @@ export const CropDiagnosisOutputSchema = z.object({
   remedies: z.string().describe('Actionable advice on locally available and affordable remedies, tailored to land size.'),
   prevention: z.string().describe('Preventive measures to avoid future occurrences.'),
 });
+
+export const CropDiagnosisOutputSchema = CropDiagnosisSchema.extend({
+  modelVersion: z.string().optional().describe('The model that produced the diagnosis.'),
+});
 export type CropDiagnosisOutput = z.infer<typeof CropDiagnosisOutputSchema>;
@@ -1,5 +1,6 @@
 
 import { z } from 'zod';
+import { EnvironmentalDataSourceSchema } from './environmental-data-schemas';
 
 export const CropRecommenderInputSchema = z.object({
   location: z.string().min(1, 'Location is required.').describe('The geographical location for the crop recommendation (e.g., city, state). This is a required field.'),
@@ -46,7 +47,12 @@ const RecommendedCropSchema = z.object({
 });
 
 
-export const CropRecommenderOutputSchema = z.object({
+// The part of the output generated by the model.
+export const CropRecommendationsSchema = z.object({
   recommendations: z.array(RecommendedCropSchema).describe('A list of at least 3 recommended crops with detailed information.'),
 });
+
+export const CropRecommenderOutputSchema = CropRecommendationsSchema.extend({
+  environmentalDataSource: EnvironmentalDataSourceSchema.optional().describe('Where missing environmental conditions were filled from. Absent when the user supplied them all.'),
+});
 export type CropRecommenderOutput = z.infer<typeof CropRecommenderOutputSchema>;
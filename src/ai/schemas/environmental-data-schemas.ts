@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const EnvironmentalDataInputSchema = z.object({
+  location: z.string().describe('The city or region to get environmental data for.'),
+});
+export type EnvironmentalDataInput = z.infer<typeof EnvironmentalDataInputSchema>;
+
+export const ResolvedLocationSchema = z.object({
+  name: z.string().describe('The canonical name of the matched place.'),
+  district: z.string().optional().describe('The district the place belongs to, if known.'),
+  state: z.string().optional().describe('The state or union territory the place belongs to, if known.'),
+  latitude: z.number().describe('Latitude in decimal degrees.'),
+  longitude: z.number().describe('Longitude in decimal degrees.'),
+});
+export type ResolvedLocation = z.infer<typeof ResolvedLocationSchema>;
+
+export const ClimateNormalsSchema = z.object({
+  temperature: z.number().describe('The average annual temperature in Celsius.'),
+  temperatureMax: z.number().describe('The average daily maximum temperature over the year in Celsius.'),
+  temperatureMin: z.number().describe('The average daily minimum temperature over the year in Celsius.'),
+  humidity: z.number().describe('The average annual relative humidity in percentage.'),
+  rainfall: z.number().describe('The average annual rainfall in millimeters.'),
+});
+export type ClimateNormals = z.infer<typeof ClimateNormalsSchema>;
+
+export const DailyForecastSchema = z.object({
+  date: z.string().describe('The forecast date in YYYY-MM-DD format.'),
+  temperatureMax: z.number().describe('The forecast maximum temperature in Celsius.'),
+  temperatureMin: z.number().describe('The forecast minimum temperature in Celsius.'),
+  humidity: z.number().optional().describe('The forecast mean relative humidity in percentage.'),
+  rainfall: z.number().describe('The forecast precipitation in millimeters.'),
+  windSpeed: z.number().optional().describe('The forecast maximum wind speed in km/h.'),
+  weatherCode: z.number().optional().describe('The WMO weather interpretation code for the day.'),
+});
+export type DailyForecast = z.infer<typeof DailyForecastSchema>;
+
+export const EnvironmentalDataSchema = z.object({
+  location: ResolvedLocationSchema.describe('The place the data was resolved to.'),
+  climateNormals: ClimateNormalsSchema.describe('Long-term climate averages for the location.'),
+  forecast: z.array(DailyForecastSchema).describe('A day-by-day forecast starting today. Empty when the provider has no forecast.'),
+  soilType: z.string().nullable().describe('The predominant soil type in the area, or null when the provider does not know it.'),
+  provider: z.string().describe('The name of the provider that supplied this data.'),
+});
+export type EnvironmentalData = z.infer<typeof EnvironmentalDataSchema>;
+
+// Recorded on flow outputs so the UI can show where auto-filled conditions came from.
+export const EnvironmentalDataSourceSchema = z.object({
+  provider: z.string().describe('The name of the provider that supplied the environmental data.'),
+  location: z.string().describe('The place the requested location was resolved to.'),
+  retrievedAt: z.string().describe('The ISO timestamp at which the data was retrieved.'),
+});
+export type EnvironmentalDataSource = z.infer<typeof EnvironmentalDataSourceSchema>;
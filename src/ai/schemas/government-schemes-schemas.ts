@@ -1,25 +1,76 @@
-
 import { z } from 'zod';
+import { FarmerProfileSchema, SchemeEligibilitySchema } from '@/ai/schemas/scheme-schemas';
 
 export const GovernmentSchemesInputSchema = z.object({
   query: z.string().min(3, 'Please enter a more detailed query.').describe('The user\'s query about a government scheme (e.g., "subsidy for drip irrigation").'),
   language: z.string().optional().describe('The language for the response (e.g., "Hindi", "Marathi"). Defaults to English if not specified.'),
+  profile: FarmerProfileSchema.optional().describe('What the farmer has told us about themselves, to check their eligibility for each scheme.'),
 });
 export type GovernmentSchemesInput = z.infer<typeof GovernmentSchemesInputSchema>;
 
-// This schema defines the final, summarized output for the UI.
-const SchemeSummarySchema = z.object({
+// The summary fields that carry citations to the scheme's sections.
+export const CitedSchemeFieldSchema = z.enum(['details', 'benefits', 'eligibility', 'applicationProcess', 'documentsRequired']);
+export type CitedSchemeField = z.infer<typeof CitedSchemeFieldSchema>;
+
+// Where in the tool's output a summary field was drawn from.
+export const SchemeCitationSchema = z.object({
+  field: CitedSchemeFieldSchema.describe('The summary field drawn from this source.'),
+  schemeName: z.string().describe('The `scheme_name` of the cited scheme exactly as the tool returned it, untranslated.'),
+  section: z.string().describe('The `title` of the cited section or sub-section exactly as the tool returned it.'),
+  item: z.number().int().min(0).nullable().describe('The position in the section\'s `list_items` array, counting from 0, if the text came from one list item; otherwise null.'),
+});
+export type SchemeCitation = z.infer<typeof SchemeCitationSchema>;
+
+// A citation checked against the dataset, with the text it points to.
+export const ResolvedSchemeCitationSchema = SchemeCitationSchema.extend({
+  text: z.string().describe('The original text of the cited section or list item.'),
+});
+export type ResolvedSchemeCitation = z.infer<typeof ResolvedSchemeCitationSchema>;
+
+export const FieldSupportStatusSchema = z.enum(['supported', 'partlySupported', 'unsupported', 'uncited']);
+export type FieldSupportStatus = z.infer<typeof FieldSupportStatusSchema>;
+
+// How much of a summary field the text of its cited sections backs up.
+export const FieldSupportSchema = z.object({
+  status: FieldSupportStatusSchema,
+  unsupported: z.array(z.string()).describe('The statements in the field that were not found in its cited sections.'),
+});
+export type FieldSupport = z.infer<typeof FieldSupportSchema>;
+
+// This schema defines the summary of each scheme, as written by the model.
+export const SchemeSummarySchema = z.object({
   schemeName: z.string().describe('The official name of the government scheme.'),
+  sourceSchemeName: z.string().describe('The `scheme_name` of the scheme exactly as the tool returned it, untranslated.'),
   details: z.string().describe('A simple, clear explanation of the scheme, its purpose, and its objectives, summarized from the source data.'),
   benefits: z.string().describe('A summary of the key benefits provided by the scheme, formatted with bullet points if applicable.'),
   eligibility: z.string().describe('A summary of the key eligibility criteria for the scheme.'),
   applicationProcess: z.string().describe('A summarized, step-by-step description of how to apply for the scheme.'),
   documentsRequired: z.string().describe('A list of required documents for the application, formatted with bullet points.'),
-  sourceLink: z.string().url().describe('The direct URL to the official government page for the scheme, extracted from the "Apply Now" section or a similar source in the data.'),
+  citations: z.array(SchemeCitationSchema).describe('For every summary field, each section (and list item) of the tool\'s output it was drawn from.'),
 });
 
-export const GovernmentSchemesOutputSchema = z.object({
+export const GovernmentSchemesPromptOutputSchema = z.object({
   schemes: z.array(SchemeSummarySchema).describe('A list of summarized government schemes found for the user\'s query.'),
   summary: z.string().describe('A brief overall summary of the findings.'),
 });
+
+// This schema defines the final output for the UI: each summary with the farmer's eligibility,
+// eligible schemes first, then those needing more information, then the rest. Schemes not in
+// the dataset are left out, citations that do not point to a section of the scheme are dropped,
+// and each field is checked against the text of the sections it cites.
+export const GovernmentSchemesOutputSchema = z.object({
+  schemes: z.array(SchemeSummarySchema.extend({
+    citations: z.array(ResolvedSchemeCitationSchema),
+    support: z.object({
+      details: FieldSupportSchema,
+      benefits: FieldSupportSchema,
+      eligibility: FieldSupportSchema,
+      applicationProcess: FieldSupportSchema,
+      documentsRequired: FieldSupportSchema,
+    }).describe('Whether the cited sections back up each summary field.'),
+    eligibilityCheck: SchemeEligibilitySchema.describe('Whether the farmer\'s profile meets the scheme\'s extracted criteria, and why.'),
+    sourceLink: z.string().url().nullable().describe('The official page to apply for the scheme, from the schemes dataset; null if the dataset has none.'),
+  })),
+  summary: z.string(),
+});
 export type GovernmentSchemesOutput = z.infer<typeof GovernmentSchemesOutputSchema>;
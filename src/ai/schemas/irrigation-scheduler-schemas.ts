@@ -1,5 +1,63 @@
-
 import { z } from 'zod';
+import { EnvironmentalDataSourceSchema } from './environmental-data-schemas';
+
+export const IRRIGATION_METHODS = ['flood', 'furrow', 'sprinkler', 'drip'] as const;
+export type IrrigationMethod = (typeof IRRIGATION_METHODS)[number];
+
+const CropWaterEntrySchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()),
+  stageDays: z.tuple([z.number(), z.number(), z.number(), z.number()]).describe('Days in the initial, development, mid-season and late stages.'),
+  kc: z.object({
+    initial: z.number().positive(),
+    mid: z.number().positive(),
+    end: z.number().positive(),
+  }).describe('The crop coefficient during the initial stage, the mid-season stage and at harvest.'),
+  rootDepthM: z.number().positive().describe('The effective rooting depth once the crop is fully grown, in metres.'),
+  depletionFraction: z.number().min(0).max(1).describe('The share of the root zone water the crop can use before it is stressed (FAO-56 "p").'),
+});
+export type CropWaterEntry = z.infer<typeof CropWaterEntrySchema>;
+
+const SoilWaterEntrySchema = z.object({
+  name: z.string(),
+  keywords: z.array(z.string()).describe('Words in a soil type that identify this soil, e.g. "black" for "Medium Black".'),
+  availableWaterMmPerM: z.number().positive().describe('Water held between field capacity and wilting point, in mm per metre of soil.'),
+  fieldCapacityPercent: z.number().positive().max(100).describe('The volumetric water content at field capacity, in %, against which soil moisture sensor readings are compared.'),
+});
+export type SoilWaterEntry = z.infer<typeof SoilWaterEntrySchema>;
+
+// Crop coefficients and soil water-holding capacities, loaded from crop-water.json.
+export const CropWaterTableSchema = z.object({
+  notes: z.string().optional(),
+  initialRootDepthM: z.number().positive().describe('The rooting depth at sowing, growing to the crop\'s full depth by the end of the development stage.'),
+  defaultPumpFlowLitresPerMinute: z.number().positive(),
+  irrigationStartTime: z.string().regex(/^\d{2}:\d{2}$/),
+  applicationEfficiency: z.object({
+    flood: z.number().positive().max(1),
+    furrow: z.number().positive().max(1),
+    sprinkler: z.number().positive().max(1),
+    drip: z.number().positive().max(1),
+  }).describe('The share of the water pumped that reaches the root zone, by irrigation method.'),
+  crops: z.array(CropWaterEntrySchema),
+  defaultCrop: CropWaterEntrySchema,
+  soils: z.array(SoilWaterEntrySchema).describe('Tried in order, so more specific soils come first.'),
+  defaultSoil: SoilWaterEntrySchema,
+});
+export type CropWaterTable = z.infer<typeof CropWaterTableSchema>;
+
+// What happened since a saved schedule was planned, so it can be re-planned from today.
+export const IrrigationProgressSchema = z.object({
+  startDate: z.string().describe('The first day of the saved schedule in YYYY-MM-DD format.'),
+  irrigations: z.array(z.object({
+    date: z.string(),
+    depthMm: z.number().describe('The depth of water applied, in mm.'),
+  })).describe('The irrigations the farmer has done.'),
+  rainfall: z.array(z.object({
+    date: z.string(),
+    rainfall: z.number().describe('The rain measured that day, in mm.'),
+  })).describe('The rain the farmer has logged.'),
+});
+export type IrrigationProgress = z.infer<typeof IrrigationProgressSchema>;
 
 export const IrrigationSchedulerInputSchema = z.object({
   location: z.string().min(1, 'Location is required.').describe('The geographical location for the crop (e.g., city, state).'),
@@ -7,24 +65,70 @@ export const IrrigationSchedulerInputSchema = z.object({
   landUnit: z.string().min(1, 'Land unit is required.').describe('The unit for the land size (e.g., "acres", "hectares").'),
   lastCrop: z.string().optional().describe('The last crop that was grown on this land.'),
   termPeriod: z.number().min(1, 'Term period is required.').describe('The duration in months that the crop will be cultivated.'),
+  sowingDate: z.string().optional().describe('The date the crop was sown in YYYY-MM-DD format. Defaults to today.'),
   rainfall: z.number().optional().describe('The average annual rainfall in millimeters.'),
   soilType: z.string().optional().describe('The type of soil (e.g., "Loamy", "Clay", "Sandy").'),
   soilPh: z.number().optional().describe('The pH level of the soil.'),
+  irrigationMethod: z.enum(IRRIGATION_METHODS).optional().describe('How the water is applied. Defaults to flood irrigation.'),
+  pumpFlowRate: z.number().positive().optional().describe('The pump delivery in litres per minute. A typical 5 HP pump is assumed if not given.'),
   selectedCrop: z.string().min(1, 'A crop must be selected.').describe('The crop that requires an irrigation schedule.'),
   language: z.string().optional().describe('The language for the response (e.g., "Hindi", "Marathi"). Defaults to English if not specified.'),
+  soilMoisture: z.object({
+    percent: z.number().min(0).max(100).describe('The volumetric water content, in %.'),
+    recordedAt: z.string().describe('When the reading was taken, as an ISO timestamp.'),
+  }).optional().describe('The latest reading of a soil moisture sensor in the field. Used instead of assuming the root zone is at field capacity when it is recent.'),
+  progress: IrrigationProgressSchema.optional().describe('When re-planning a saved schedule, what has happened since it started.'),
 });
 
 export type IrrigationSchedulerInput = z.infer<typeof IrrigationSchedulerInputSchema>;
 
-const IrrigationEventSchema = z.object({
+export const GROWTH_STAGES = ['initial', 'development', 'mid', 'late'] as const;
+export type GrowthStage = (typeof GROWTH_STAGES)[number];
+
+export const IrrigationEventSchema = z.object({
   date: z.string().describe('The date for the irrigation event in YYYY-MM-DD format.'),
   startTime: z.string().describe('The recommended start time for irrigation in HH:MM format (24-hour).'),
-  endTime: z.string().describe('The recommended end time for irrigation in HH:MM format (24-hour).'),
+  endTime: z.string().describe('The time the pump can be switched off in HH:MM format (24-hour). Earlier than startTime when the run continues past midnight.'),
+  growthStage: z.enum(GROWTH_STAGES).describe('The growth stage of the crop on that day.'),
+  depthMm: z.number().describe('The depth of water to apply, in mm, including what is lost in application.'),
+  netDepthMm: z.number().describe('The depth of water that refills the root zone, in mm.'),
+  volumeLitres: z.number().describe('The volume of water to apply over the whole field, in litres.'),
+  runTimeMinutes: z.number().describe('How long the pump must run to deliver the volume, in minutes.'),
   message: z.string().describe('A detailed, actionable message for the farmer, explaining the task and its importance for that day.'),
 });
+export type IrrigationEvent = z.infer<typeof IrrigationEventSchema>;
+
+// The quantities behind a schedule, computed by the water-balance engine.
+export const IrrigationPlanSchema = z.object({
+  crop: z.string().describe('The crop whose coefficients were used.'),
+  cropMatched: z.boolean().describe('False when the crop is not in the table and generic coefficients were used.'),
+  soil: z.string().describe('The soil whose water-holding capacity was used.'),
+  sowingDate: z.string(),
+  seasonEndDate: z.string(),
+  fieldAreaSqm: z.number(),
+  irrigationMethod: z.enum(IRRIGATION_METHODS),
+  applicationEfficiency: z.number(),
+  pumpFlowRate: z.number().describe('The pump delivery assumed, in litres per minute.'),
+  rootZoneWaterMm: z.number().describe('Water the fully grown root zone holds when at field capacity, in mm.'),
+  allowableDepletionMm: z.number().describe('How much of that the crop can use before it needs watering, in mm.'),
+  cropWaterUseMm: z.number().describe('The crop evapotranspiration (ET₀ × Kc) over the planned days, in mm.'),
+  effectiveRainMm: z.number().describe('The rain over the planned days that reaches the root zone, in mm.'),
+  totalDepthMm: z.number(),
+  totalVolumeLitres: z.number(),
+  forecastDays: z.number().describe('How many of the planned days used the weather forecast rather than climate averages.'),
+  assumptions: z.array(z.string()).describe('What the plan assumed, to show alongside it.'),
+});
+export type IrrigationPlan = z.infer<typeof IrrigationPlanSchema>;
+
+// The part of the output generated by the model: only the wording of each event.
+export const IrrigationMessagesSchema = z.object({
+  messages: z.array(z.string()).describe('One message per irrigation event, in the same order as the events.'),
+});
 
 export const IrrigationSchedulerOutputSchema = z.object({
   schedule: z.array(IrrigationEventSchema).describe('An array of irrigation events.'),
+  plan: IrrigationPlanSchema,
+  environmentalDataSource: EnvironmentalDataSourceSchema.optional().describe('Where the weather, and any soil data the user did not give, came from.'),
 });
 
 export type IrrigationSchedulerOutput = z.infer<typeof IrrigationSchedulerOutputSchema>;
@@ -0,0 +1,72 @@
+
+import { z } from 'zod';
+
+// One day's arrivals and prices of a commodity variety at one mandi, as published by Agmarknet.
+export const MandiPriceRecordSchema = z.object({
+  date: z.string().describe('The arrival date in YYYY-MM-DD format.'),
+  state: z.string(),
+  district: z.string(),
+  market: z.string().describe('The mandi (APMC market) name.'),
+  commodity: z.string(),
+  variety: z.string(),
+  grade: z.string().optional(),
+  minPrice: z.number().describe('The minimum price in ₹/quintal.'),
+  maxPrice: z.number().describe('The maximum price in ₹/quintal.'),
+  modalPrice: z.number().describe('The modal (most common) price in ₹/quintal.'),
+  arrivals: z.number().nullable().describe('The quantity that arrived at the mandi, in tonnes, if reported.'),
+  sourceFile: z.string().describe('The CSV file the record was imported from.'),
+});
+export type MandiPriceRecord = z.infer<typeof MandiPriceRecordSchema>;
+
+export const MANDI_PRICE_UNIT = '₹/quintal';
+
+export const MandiPriceImportSchema = z.object({
+  file: z.string().describe('The name of the imported CSV file.'),
+  importedAt: z.string().describe('When the file was imported, as an ISO timestamp.'),
+  rowCount: z.number().describe('How many price records the file contributed.'),
+  fromDate: z.string().describe('The earliest arrival date in the file (YYYY-MM-DD).'),
+  toDate: z.string().describe('The latest arrival date in the file (YYYY-MM-DD).'),
+});
+export type MandiPriceImport = z.infer<typeof MandiPriceImportSchema>;
+
+export const MandiPriceQuerySchema = z.object({
+  commodity: z.string().describe('The commodity to look up, e.g. "Onion".'),
+  market: z.string().optional().describe('A mandi name, e.g. "Lasalgaon".'),
+  district: z.string().optional(),
+  state: z.string().optional(),
+  from: z.string().optional().describe('The earliest arrival date to include (YYYY-MM-DD).'),
+  to: z.string().optional().describe('The latest arrival date to include (YYYY-MM-DD).'),
+});
+export type MandiPriceQuery = z.infer<typeof MandiPriceQuerySchema>;
+
+export const MandiPriceLookupInputSchema = z.object({
+  commodity: z.string().describe('The commodity to look up, e.g. "Onion" or "Wheat".'),
+  market: z.string().optional().describe('A specific mandi, e.g. "Lasalgaon".'),
+  location: z.string().optional().describe('A district and/or state, e.g. "Nashik, Maharashtra". The nearest match (mandi, then district, then state) is used.'),
+});
+export type MandiPriceLookupInput = z.infer<typeof MandiPriceLookupInputSchema>;
+
+export const MandiPriceSnapshotSchema = z.object({
+  commodity: z.string(),
+  variety: z.string(),
+  market: z.string(),
+  district: z.string(),
+  state: z.string(),
+  unit: z.string().describe('The unit of all prices, ₹/quintal.'),
+  current: MandiPriceRecordSchema.describe('The latest day with prices at this mandi.'),
+  previous: MandiPriceRecordSchema.nullable().describe('The market day before the latest, if imported.'),
+  change: z.number().describe('The change in modal price since the previous market day.'),
+  percentageChange: z.number(),
+  trend: z.object({
+    direction: z.enum(['Upward', 'Downward', 'Stable', 'Volatile']),
+    period: z.string().describe('The market days the trend was read from.'),
+  }),
+  recent: z.array(MandiPriceRecordSchema).describe('The recent daily prices the trend was read from, oldest first.'),
+  arrivalsComparedToAverage: z.number().nullable().describe('The latest arrivals as a multiple of the average of the recent days before, e.g. 1.4 for 40% above average.'),
+  dataSource: z.object({
+    file: z.string().describe('The imported CSV file the latest price came from.'),
+    importedAt: z.string().nullable().describe('When that file was imported, as an ISO timestamp.'),
+    priceDate: z.string().describe('The arrival date of the latest price (YYYY-MM-DD).'),
+  }),
+});
+export type MandiPriceSnapshot = z.infer<typeof MandiPriceSnapshotSchema>;
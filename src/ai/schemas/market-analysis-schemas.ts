@@ -61,6 +61,14 @@ export const MarketAnalysisOutputSchema = z.object({
     reasoning: z.string().describe('A brief justification for the given recommendation.'),
   }).describe('Clear advice for the farmer.'),
 
+  mandi: z.object({
+    commodity: z.string().describe('The commodity name as published by Agmarknet.'),
+    variety: z.string(),
+    market: z.string(),
+    district: z.string(),
+    state: z.string(),
+  }).describe('The mandi the prices are quoted from, for looking up its price history.'),
+
   additionalInfo: z.object({
     lastUpdated: z.string().datetime().describe('The timestamp of when the data was generated.'),
     dataSource: z.string().describe('The source of the data used for the analysis.'),
@@ -68,3 +76,11 @@ export const MarketAnalysisOutputSchema = z.object({
 });
 
 export type MarketAnalysisOutput = z.infer<typeof MarketAnalysisOutputSchema>;
+
+// The part of the output generated by the model. Prices, trends and the data source are
+// filled in by the flow from imported mandi prices.
+export const MarketAnalysisNarrativeSchema = MarketAnalysisOutputSchema.pick({
+  marketSummary: true,
+  marketDynamics: true,
+  actionableInsight: true,
+});
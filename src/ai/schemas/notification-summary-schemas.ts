@@ -0,0 +1,20 @@
+
+import { z } from 'zod';
+
+export const NotificationSummaryInputSchema = z.object({
+  notifications: z.array(z.object({
+    title: z.string(),
+    message: z.string(),
+  })).min(1).describe('The notifications to summarize, newest first.'),
+  language: z.string().describe('The language to speak the summary in (e.g., "Hindi", "Marathi").'),
+});
+export type NotificationSummaryInput = z.infer<typeof NotificationSummaryInputSchema>;
+
+export const NotificationSummaryOutputSchema = z.object({
+  summary: z.string().describe('A short spoken summary of the notifications, in the requested language.'),
+  audioDataUri: z.string().describe('The summary as a WAV audio data URI, or an empty string if speech could not be generated.'),
+});
+export type NotificationSummaryOutput = z.infer<typeof NotificationSummaryOutputSchema>;
+
+// The part of the output generated by the summary prompt; the audio is added by the flow.
+export const NotificationSummaryTextSchema = NotificationSummaryOutputSchema.pick({ summary: true });
@@ -0,0 +1,131 @@
+
+import { z } from 'zod';
+
+const SchemeTableSchema = z.object({
+  headers: z.array(z.string()),
+  rows: z.array(z.array(z.string().nullable())),
+});
+export type SchemeTable = z.infer<typeof SchemeTableSchema>;
+
+export interface SchemeSection {
+  title: string | null;
+  content?: string | null;
+  list_items?: (string | { table: SchemeTable })[];
+  table?: SchemeTable;
+  sub_sections?: SchemeSection[];
+}
+
+// A section of a scheme's page, e.g. "Benefits" or "Application Process", possibly nested.
+// Sections scraped from some pages have no title or text of their own.
+export const SchemeSectionSchema: z.ZodType<SchemeSection> = z.object({
+  title: z.string().nullable(),
+  content: z.string().nullish(),
+  list_items: z.array(z.union([z.string(), z.object({ table: SchemeTableSchema })])).optional(),
+  table: SchemeTableSchema.optional(),
+  sub_sections: z.lazy(() => z.array(SchemeSectionSchema)).optional(),
+});
+
+// A government scheme as stored in schemes.json.
+export const SchemeSchema = z.object({
+  scheme_name: z.string(),
+  ministry: z.string(),
+  umbrella_scheme: z.string().optional(),
+  keywords: z.array(z.string()),
+  sections: z.array(SchemeSectionSchema),
+});
+export type Scheme = z.infer<typeof SchemeSchema>;
+
+// What changed between two versions of the schemes dataset, by scheme name.
+export const SchemeDatasetChangelogSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.string()),
+});
+export type SchemeDatasetChangelog = z.infer<typeof SchemeDatasetChangelogSchema>;
+
+// One published version of the schemes dataset. Version 0 is the dataset bundled with the app.
+export const SchemeDatasetVersionSchema = z.object({
+  version: z.number().int().nonnegative(),
+  publishedAt: z.string(),
+  publishedBy: z.string().nullable().describe('The uid of the admin who published it, or null for the import script.'),
+  source: z.string().describe('The file the version was imported from.'),
+  note: z.string(),
+  schemeCount: z.number().int(),
+  warningCount: z.number().int().describe('Problems found by validation that did not stop the import, e.g. missing sections.'),
+  changelog: SchemeDatasetChangelogSchema,
+});
+export type SchemeDatasetVersion = z.infer<typeof SchemeDatasetVersionSchema>;
+
+export const SchemeSearchResultSchema = SchemeSchema.extend({
+  score: z.number().describe('How well the scheme matches the query, from 0 to 1; the best match of a search scores highest.'),
+  matchedTerms: z.array(z.string()).describe('The query words, or their synonyms, found in the scheme.'),
+});
+export type SchemeSearchResult = z.infer<typeof SchemeSearchResultSchema>;
+
+// Scheme embeddings for semantic search, created by `npm run schemes:embed`.
+export const SchemeEmbeddingIndexSchema = z.object({
+  embedder: z.string().describe('The embedder the vectors were made with; queries must be embedded with the same one.'),
+  createdAt: z.string(),
+  schemes: z.array(z.object({
+    scheme_name: z.string(),
+    textHash: z.string().optional().describe('A fingerprint of the scheme text the vector was made from; vectors without one, or whose scheme has changed since, are not used.'),
+    vector: z.array(z.number()),
+  })),
+});
+export type SchemeEmbeddingIndex = z.infer<typeof SchemeEmbeddingIndexSchema>;
+
+export const SocialCategorySchema = z.enum(['general', 'obc', 'sc', 'st']);
+export type SocialCategory = z.infer<typeof SocialCategorySchema>;
+
+export const OccupationSchema = z.enum(['farmer', 'fisher', 'livestock']);
+export type Occupation = z.infer<typeof OccupationSchema>;
+
+const RangeSchema = z.object({ min: z.number().optional(), max: z.number().optional() });
+
+// A scheme's eligibility conditions in machine-readable form, as stored in scheme-criteria.json.
+// A null criterion does not restrict who can apply.
+export const SchemeCriteriaSchema = z.object({
+  scheme_name: z.string(),
+  reviewed: z.boolean().describe('Checked by hand against the scheme. Only reviewed entries of the criteria table are used; other schemes\' criteria are extracted when the dataset is loaded.'),
+  states: z.array(z.string()).nullable().describe('The states or union territories whose residents can apply.'),
+  districts: z.array(z.string()).nullable().describe('The districts, within those states, whose residents can apply.'),
+  landHectares: RangeSchema.nullable().describe('The land the applicant must farm, in hectares.'),
+  needsLand: z.boolean().describe('Whether the applicant must own or lease land.'),
+  categories: z.array(SocialCategorySchema).nullable().describe('The social categories that can apply.'),
+  womenOnly: z.boolean(),
+  age: RangeSchema.nullable().describe('The applicant\'s age, in years.'),
+  minDisabilityPercent: z.number().nullable().describe('The disability the applicant must have, in %.'),
+  occupations: z.array(OccupationSchema).nullable().describe('The applicant must work in at least one of these.'),
+  notes: z.array(z.string()).describe('Other conditions, word for word from the scheme, that must be checked by hand.'),
+});
+export type SchemeCriteria = z.infer<typeof SchemeCriteriaSchema>;
+
+export const SchemeCriteriaTableSchema = z.array(SchemeCriteriaSchema);
+
+// Blank form fields arrive as empty strings; they mean "not given".
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess(value => (value === '' || value === null ? undefined : value === undefined ? value : Number(value)), schema.optional());
+
+// What a farmer tells us about themselves to check their eligibility. Anything left out is
+// reported as missing information rather than assumed.
+export const FarmerProfileSchema = z.object({
+  state: z.string().optional().describe('The state or union territory the farmer lives in.'),
+  district: z.string().optional(),
+  landHectares: optionalNumber(z.number().nonnegative()).describe('The land the farmer owns or leases, in hectares; 0 for landless farmers.'),
+  category: SocialCategorySchema.optional(),
+  age: optionalNumber(z.number().int().min(0).max(120)),
+  gender: z.enum(['female', 'male', 'other']).optional(),
+  disabilityPercent: optionalNumber(z.number().min(0).max(100)).describe('0 for none.'),
+  occupations: z.array(OccupationSchema).optional(),
+});
+export type FarmerProfile = z.infer<typeof FarmerProfileSchema>;
+
+export const EligibilityStatusSchema = z.enum(['eligible', 'possiblyEligible', 'notEligible']);
+export type EligibilityStatus = z.infer<typeof EligibilityStatusSchema>;
+
+export const SchemeEligibilitySchema = z.object({
+  status: EligibilityStatusSchema,
+  reasons: z.array(z.string()).describe('Why, one per criterion: the unmet ones when not eligible, else the missing ones, else the met ones.'),
+  notes: z.array(z.string()).describe('Conditions that could not be checked automatically.'),
+});
+export type SchemeEligibility = z.infer<typeof SchemeEligibilitySchema>;
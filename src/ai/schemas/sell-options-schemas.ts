@@ -0,0 +1,65 @@
+
+import { z } from 'zod';
+
+const MandiFeesSchema = z.object({
+  marketFeePercent: z.number().min(0).describe('The mandi (market) fee, as a percentage of the sale value.'),
+  commissionPercent: z.number().min(0).describe("The commission agent's (arhtiya's) cut, as a percentage of the sale value."),
+});
+export type MandiFees = z.infer<typeof MandiFeesSchema>;
+
+// The costs of taking produce to a mandi and selling it there, loaded from market-costs.json.
+export const MarketCostTableSchema = z.object({
+  notes: z.string().optional(),
+  roadDistanceFactor: z.number().min(1).describe('Road distance as a multiple of the straight-line distance.'),
+  maxDistanceKm: z.number().positive().describe('Mandis further than this by road are not considered.'),
+  transport: z.object({
+    ratePerQuintalKm: z.number().min(0),
+    loadingPerQuintal: z.number().min(0).describe('Loading and unloading, paid whatever the distance.'),
+  }),
+  fees: z.object({
+    default: MandiFeesSchema,
+    states: z.record(MandiFeesSchema).describe('Fees by state, overriding the default.'),
+  }),
+});
+export type MarketCostTable = z.infer<typeof MarketCostTableSchema>;
+
+export const SellOptionsInputSchema = z.object({
+  commodity: z.string().describe('The commodity to sell, e.g. "Onion".'),
+  location: z.string().describe("The farm's location, e.g. \"Niphad, Nashik\"."),
+  quantity: z.string().optional().describe('How much there is to sell, e.g. "10 tonnes" or "50 quintals". Prices are per quintal if not given.'),
+});
+export type SellOptionsInput = z.infer<typeof SellOptionsInputSchema>;
+
+export const SellOptionSchema = z.object({
+  market: z.string(),
+  district: z.string(),
+  state: z.string(),
+  variety: z.string(),
+  priceDate: z.string().describe('The date of the modal price (YYYY-MM-DD).'),
+  distanceKm: z.number().describe('The estimated road distance from the farm.'),
+  modalPrice: z.number().describe('The modal price in ₹/quintal.'),
+  grossValue: z.number().describe('The quantity at the modal price, in ₹.'),
+  transportCost: z.number(),
+  marketFee: z.number(),
+  commission: z.number(),
+  netRealisation: z.number().describe('What the farmer keeps after transport, fees and commission, in ₹.'),
+  netPerQuintal: z.number(),
+});
+export type SellOption = z.infer<typeof SellOptionSchema>;
+
+export const SellOptionsOutputSchema = z.object({
+  commodity: z.string(),
+  origin: z.string().describe('The place the farm location resolved to.'),
+  quantityQuintals: z.number(),
+  quantityAssumed: z.boolean().describe('True if no quantity was given or it could not be read, so 1 quintal was used.'),
+  options: z.array(SellOptionSchema).describe('The mandis within reach, best net realisation first.'),
+  unlocatedMarkets: z.array(z.string()).describe('Mandis with recent prices that are not in the gazetteer, so their distance is unknown.'),
+  costNotes: z.string().describe('The transport rate and distance assumptions used.'),
+});
+export type SellOptionsOutput = z.infer<typeof SellOptionsOutputSchema>;
+
+// Server actions cannot surface thrown errors to the client in production, so the UI gets
+// the reason no ranking could be made explicitly.
+export type SellOptionsResult =
+  | { status: 'ok'; result: SellOptionsOutput }
+  | { status: 'unavailable'; reason: string };
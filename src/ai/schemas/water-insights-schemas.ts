@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const GroundwaterDistrictSchema = z.object({
+  district: z.string(),
+  state: z.string(),
+  stagePercent: z.number().nonnegative(),
+});
+
+// Groundwater extraction by district and state, loaded from groundwater.json.
+export const GroundwaterTableSchema = z.object({
+  notes: z.string().optional(),
+  assessmentYear: z.string(),
+  national: z.number().nonnegative().describe('The stage of groundwater extraction for India as a whole, in %.'),
+  states: z.record(z.number().nonnegative()).describe('The stage of groundwater extraction by state, in %.'),
+  districts: z.array(GroundwaterDistrictSchema).describe('District figures, used in place of their state\'s where present.'),
+});
+export type GroundwaterTable = z.infer<typeof GroundwaterTableSchema>;
@@ -2,73 +2,86 @@
 'use server';
 
 /**
- * @fileOverview A Genkit tool for searching a local JSON database of government schemes.
+ * @fileOverview A Genkit tool for searching the database of government schemes.
+ *
+ * Schemes are ranked by BM25 over their names, keywords and every section, with stemming and
+ * farming synonyms ("bima" finds insurance schemes). When an embedding index has been built
+ * with `npm run schemes:embed`, the ranking also weighs how close each scheme is in meaning;
+ * schemes changed since their vector was made are ranked by keywords until it is remade.
+ * Given the farmer's state, schemes that only residents of other states can apply for are left out.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
-import schemesData from '@/ai/data/schemes.json';
+import { SchemeSearchResultSchema } from '@/ai/schemas/scheme-schemas';
+import { getSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+import { embedSchemeQuery, getSchemeEmbeddingIndex, schemeTextHash } from '@/ai/providers/scheme-embedding-index';
+import { getSchemeCriteria } from '@/ai/providers/scheme-criteria-table';
+import { findSchemeCriteria, isOpenToState } from '@/lib/scheme-eligibility';
+import { buildSchemeIndex, cosineSimilarity, rankSchemes, type SchemeIndex } from '@/lib/scheme-search';
 
-// Define the detailed, nested shape of a single scheme using Zod, matching the new JSON structure.
-const SectionSchema = z.object({
-  title: z.string(),
-  content: z.string().optional(),
-  list_items: z.array(z.string()).optional(),
-  sub_sections: z.lazy(() => z.array(SectionSchema)).optional(),
-});
-
-const SchemeSchema = z.object({
-  scheme_name: z.string(),
-  ministry: z.string(),
-  keywords: z.array(z.string()),
-  sections: z.array(SectionSchema),
-});
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 10;
 
-// Define the output schema for the tool, which will be an array of these detailed schemes.
+// Define the output schema for the tool: the best matching schemes, best first, with their scores.
 const LocalSchemeSearchResultsSchema = z.object({
-  results: z.array(SchemeSchema).describe('A list of relevant government schemes found from the local JSON database.'),
+  results: z.array(SchemeSearchResultSchema).describe('The government schemes from the local database most relevant to the query, best match first.'),
 });
 
+let schemeIndex: { version: number; index: SchemeIndex; textHashes: Set<string> } | null = null;
+
+// The search index of the dataset in use, rebuilt when a new version is published.
+async function getSchemeIndex(): Promise<{ index: SchemeIndex; textHashes: Set<string> }> {
+  const { version, schemes } = await getSchemeDataset();
+  if (schemeIndex?.version !== version.version) {
+    schemeIndex = { version: version.version, index: buildSchemeIndex(schemes), textHashes: new Set(schemes.map(schemeTextHash)) };
+  }
+  return schemeIndex;
+}
+
+// The similarity in meaning to the query of each scheme whose vector was made from its current
+// text, or null without an embedding index.
+async function getSemanticSimilarities(query: string, textHashes: Set<string>): Promise<Map<string, number> | null> {
+  try {
+    const index = await getSchemeEmbeddingIndex();
+    if (!index) return null;
+    const queryVector = await embedSchemeQuery(query, index);
+    return new Map(index.schemes
+      .filter(({ textHash }) => textHash && textHashes.has(textHash))
+      .map(({ scheme_name, vector }) => [scheme_name, cosineSimilarity(queryVector, vector)]));
+  } catch (error) {
+    // Keyword ranking alone is still useful, so semantic search failing is not fatal.
+    console.error('Semantic scheme search failed; ranking by keywords only:', error);
+    return null;
+  }
+}
+
 /**
- * A Genkit tool that searches a local JSON file for relevant government schemes.
- * It searches based on the user's query against the scheme name and keywords.
+ * A Genkit tool that searches a local JSON file for relevant government schemes and returns
+ * the top matches with their match scores.
  */
 export const localSchemeSearchTool = ai.defineTool(
   {
     name: 'localSchemeSearchTool',
-    description: 'Searches a local, structured database of agricultural schemes. Use this tool to find relevant scheme details based on the user\'s query.',
+    description: 'Searches a local, structured database of agricultural schemes. Use this tool to find relevant scheme details based on the user\'s query. Results are ranked, best match first, with a match score from 0 to 1.',
     inputSchema: z.object({
-      query: z.string().describe("The user's query to search for (e.g., 'crop insurance', 'loan', 'pm kisan')."),
+      query: z.string().describe("The user's query to search for (e.g., 'crop insurance', 'subsidy for drip irrigation', 'pm kisan')."),
+      limit: z.number().int().min(1).max(MAX_RESULTS).optional().describe(`The most schemes to return. Defaults to ${DEFAULT_RESULTS}.`),
+      state: z.string().optional().describe("The Indian state the farmer lives in, if known. Schemes for residents of other states are left out."),
     }),
     outputSchema: LocalSchemeSearchResultsSchema,
   },
-  async ({ query }) => {
-    console.log(`Searching local scheme database with query: ${query}`);
-    const lowerCaseQuery = query.toLowerCase();
-
-    // Filter the schemes based on the query.
-    // This search is simple but effective: it checks if the query appears in the name or keywords.
-    const filteredSchemes = schemesData.filter(scheme => {
-      const isNameMatch = scheme.scheme_name.toLowerCase().includes(lowerCaseQuery);
-      const isKeywordMatch = scheme.keywords.some(keyword => keyword.toLowerCase().includes(lowerCaseQuery));
-      return isNameMatch || isKeywordMatch;
-    });
-
-    console.log(`Found ${filteredSchemes.length} matching schemes locally.`);
-    
-    // Validate the filtered schemes against our Zod schema before returning.
-    // This ensures data integrity.
-    const validationResult = LocalSchemeSearchResultsSchema.safeParse({ results: filteredSchemes });
-
-    if (!validationResult.success) {
-        console.error("Scheme data validation failed:", validationResult.error);
-        // Handle the error, e.g., by returning an empty array or throwing an error
-        return { results: [] };
+  async ({ query, limit = DEFAULT_RESULTS, state }) => {
+    console.log(`Searching local scheme database with query: ${query}${state ? ` (state: ${state})` : ''}`);
+    const { index, textHashes } = await getSchemeIndex();
+    const similarities = await getSemanticSimilarities(query, textHashes);
+    let ranked = rankSchemes(index, query, state ? index.schemes.length : limit, similarities);
+    if (state) {
+      const criteria = await getSchemeCriteria();
+      ranked = ranked.filter(({ scheme }) => isOpenToState(findSchemeCriteria(criteria, scheme.scheme_name), state)).slice(0, limit);
     }
-    
-    // Return the found and validated schemes.
-    return validationResult.data;
+
+    console.log(`Found ${ranked.length} matching schemes locally${similarities ? ' (hybrid ranking)' : ''}.`);
+    return { results: ranked.map(({ scheme, score, matchedTerms }) => ({ ...scheme, score, matchedTerms })) };
   }
 );
-
-    
\ No newline at end of file
@@ -0,0 +1,88 @@
+'use server';
+
+/**
+ * @fileOverview A Genkit tool for looking up real mandi prices from the local price store.
+ *
+ * Prices come from Agmarknet / data.gov.in CSV dumps imported into the store (see
+ * mandi-price-store.ts). Lookups that match no imported prices raise a NoPriceDataError
+ * instead of returning estimates.
+ */
+
+import { ai } from '@/ai/genkit';
+import {
+  MandiPriceLookupInputSchema,
+  MandiPriceSnapshotSchema,
+  MANDI_PRICE_UNIT,
+  type MandiPriceLookupInput,
+  type MandiPriceRecord,
+  type MandiPriceSnapshot,
+} from '@/ai/schemas/mandi-price-schemas';
+import { getMandiPriceStore, NoPriceDataError, type MandiPriceStore } from '@/ai/providers/mandi-price-store';
+import { buildPriceSnapshot, marketKey, pickMarket, toDailySeries } from '@/lib/mandi-prices';
+
+/**
+ * Finds the records for a lookup. A location is tried one comma-separated part at a time,
+ * first as a mandi, then as a district, then as a state.
+ */
+async function findRecords(store: MandiPriceStore, { commodity, market, location }: MandiPriceLookupInput): Promise<MandiPriceRecord[]> {
+  if (market) {
+    return store.getPrices({ commodity, market });
+  }
+  if (!location) {
+    return store.getPrices({ commodity });
+  }
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+  for (const field of ['market', 'district', 'state'] as const) {
+    for (const part of parts) {
+      const records = await store.getPrices({ commodity, [field]: part });
+      if (records.length > 0) return records;
+    }
+  }
+  return [];
+}
+
+/**
+ * Looks up the latest prices of a commodity at the best-matching mandi, with the change
+ * since the previous market day and the recent trend.
+ */
+export async function lookupMandiPrices(input: MandiPriceLookupInput): Promise<MandiPriceSnapshot> {
+  const store = getMandiPriceStore();
+  const records = await findRecords(store, input);
+  const imports = await store.getImports();
+  if (records.length === 0) {
+    throw new NoPriceDataError(input.commodity, input.market || input.location, imports[0]?.toDate ?? null);
+  }
+
+  const key = pickMarket(records);
+  const series = toDailySeries(records.filter(record => marketKey(record) === key));
+  const snapshot = buildPriceSnapshot(series);
+  const { current } = snapshot;
+
+  return {
+    commodity: current.commodity,
+    variety: current.variety,
+    market: current.market,
+    district: current.district,
+    state: current.state,
+    unit: MANDI_PRICE_UNIT,
+    ...snapshot,
+    dataSource: {
+      file: current.sourceFile,
+      importedAt: imports.find(entry => entry.file === current.sourceFile)?.importedAt ?? null,
+      priceDate: current.date,
+    },
+  };
+}
+
+export const getMandiPrices = ai.defineTool(
+  {
+    name: 'getMandiPrices',
+    description: 'Looks up real, recent mandi (APMC market) prices of a commodity from imported Agmarknet data: the latest modal, minimum and maximum prices in ₹/quintal, arrivals, the change since the previous market day and the recent trend. Use this for questions about what a crop is selling for.',
+    inputSchema: MandiPriceLookupInputSchema,
+    outputSchema: MandiPriceSnapshotSchema,
+  },
+  async (input) => {
+    console.log(`Looking up mandi prices for: ${input.commodity} (${input.market || input.location || 'any market'})`);
+    return lookupMandiPrices(input);
+  }
+);
@@ -0,0 +1,98 @@
+'use server';
+
+/**
+ * @fileOverview A Genkit tool that answers "where should I sell?" by ranking nearby mandis on
+ * what the farmer would actually keep.
+ *
+ * Each mandi's latest modal price is reduced by the freight for its road distance from the
+ * farm, the mandi fee and the commission, using the cost table (see market-cost-table.ts)
+ * and the mandi gazetteer (see mandi-gazetteer.ts).
+ */
+
+import { ai } from '@/ai/genkit';
+import {
+  SellOptionsInputSchema,
+  SellOptionsOutputSchema,
+  type SellOptionsInput,
+  type SellOptionsOutput,
+  type SellOptionsResult,
+} from '@/ai/schemas/sell-options-schemas';
+import { getMandiPriceStore, NoPriceDataError } from '@/ai/providers/mandi-price-store';
+import { findMandiLocation } from '@/ai/providers/mandi-gazetteer';
+import { getMandiFees, getMarketCostTable } from '@/ai/providers/market-cost-table';
+import { resolveLocation } from '@/ai/providers/http-environmental-data-provider';
+import { latestPricesByMarket, normalizeName, RECENT_PRICE_DAYS } from '@/lib/mandi-prices';
+import { buildSellOption, distanceKm, parseQuantityToQuintals } from '@/lib/sell-options';
+
+const geocodingUrl = process.env.ENVIRONMENTAL_DATA_GEOCODING_URL;
+
+/**
+ * Ranks the mandis within reach of a farm by net realisation, best first.
+ */
+export async function findSellOptions({ commodity, location, quantity }: SellOptionsInput): Promise<SellOptionsOutput> {
+  const origin = await resolveLocation(location, geocodingUrl);
+  if (!origin) {
+    throw new Error(`We could not find "${location}" on the map.`);
+  }
+
+  const store = getMandiPriceStore();
+  const records = await store.getPrices({ commodity });
+  if (records.length === 0) {
+    const imports = await store.getImports();
+    throw new NoPriceDataError(commodity, undefined, imports[0]?.toDate ?? null);
+  }
+
+  const table = await getMarketCostTable();
+  const parsedQuantity = quantity ? parseQuantityToQuintals(quantity) : null;
+  const quantityQuintals = parsedQuantity ?? 1;
+
+  const newest = records[records.length - 1].date;
+  const options: SellOptionsOutput['options'] = [];
+  const unlocatedMarkets: string[] = [];
+  for (const price of latestPricesByMarket(records, newest)) {
+    const mandi = findMandiLocation(price.market, price.state);
+    if (!mandi) {
+      // Only mandis in the farm's own state are worth pointing out as missing.
+      if (origin.state && normalizeName(price.state) === normalizeName(origin.state)) unlocatedMarkets.push(price.market);
+      continue;
+    }
+    const straightLineKm = distanceKm(origin, mandi);
+    if (straightLineKm * table.roadDistanceFactor > table.maxDistanceKm) continue;
+    options.push(buildSellOption(price, straightLineKm, quantityQuintals, table, getMandiFees(table, price.state)));
+  }
+
+  return {
+    commodity: records[records.length - 1].commodity,
+    origin: [origin.name, origin.district, origin.state].filter(Boolean).join(', '),
+    quantityQuintals,
+    quantityAssumed: parsedQuantity === null,
+    options: options.sort((a, b) => b.netRealisation - a.netRealisation),
+    unlocatedMarkets,
+    costNotes: `Road distance is estimated as ${table.roadDistanceFactor}× the straight-line distance; freight is ₹${table.transport.ratePerQuintalKm}/quintal/km plus ₹${table.transport.loadingPerQuintal}/quintal loading. Mandis over ${table.maxDistanceKm} km away, or without a price in the ${RECENT_PRICE_DAYS} days to ${newest}, are left out.`,
+  };
+}
+
+/**
+ * Ranks the mandis within reach of a farm for the UI, reporting why if that is not possible.
+ */
+export async function getSellOptions(input: SellOptionsInput): Promise<SellOptionsResult> {
+  try {
+    return { status: 'ok', result: await findSellOptions(input) };
+  } catch (error: any) {
+    console.error('Error ranking mandis:', error);
+    return { status: 'unavailable', reason: error.message };
+  }
+}
+
+export const findBestMandi = ai.defineTool(
+  {
+    name: 'findBestMandi',
+    description: 'Answers "where should I sell?": ranks the mandis within reach of a farm by net realisation, i.e. the latest modal price less transport, mandi fees and commission, for the quantity the farmer has. Use this when a farmer asks which market to take their produce to.',
+    inputSchema: SellOptionsInputSchema,
+    outputSchema: SellOptionsOutputSchema,
+  },
+  async (input) => {
+    console.log(`Ranking mandis for: ${input.commodity} from ${input.location}`);
+    return findSellOptions(input);
+  }
+);
@@ -0,0 +1,86 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useSchemeDatasetVersions } from '@/hooks/use-scheme-dataset-versions';
+import { Navbar } from '@/components/layout/navbar';
+import { Loader } from '@/components/ui/loader';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SchemeImportPanel } from '@/components/admin/scheme-import-panel';
+import { SchemeDatasetVersions } from '@/components/admin/scheme-dataset-versions';
+
+function SchemeDatasetAdmin() {
+  const { current, versions, loading, error, refresh } = useSchemeDatasetVersions();
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Import Schemes</CardTitle>
+          <CardDescription>
+            Upload a JSON array of schemes in the format of <code>schemes.json</code>. Entries are checked against the scheme schema, section titles are standardised, and missing sections and links are reported. A file with errors cannot be published.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SchemeImportPanel onPublished={refresh} />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Versions</CardTitle>
+          <CardDescription>
+            {current ? `The app is searching version ${current.version} (${current.schemeCount} schemes).` : 'Every version published, with what changed.'} A published version is used within a minute, with eligibility criteria extracted from it; the semantic search index, if one has been built, is updated for the schemes that changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8"><Loader /></div>
+          ) : error || !current ? (
+            <p className="text-destructive">{error}</p>
+          ) : (
+            <SchemeDatasetVersions current={current} versions={versions} />
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export default function SchemeDatasetAdminPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/login');
+    } else if (!loading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [user, loading, router]);
+
+  if (loading || user?.role !== 'admin') {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      <main className="flex-1 p-4 sm:p-6 md:p-8">
+        <div className="container max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="font-headline font-bold text-3xl md:text-4xl text-foreground mb-2">Schemes Dataset</h1>
+            <p className="text-muted-foreground text-lg">
+              Validate and publish new versions of the government schemes the Scheme Navigator searches. The app picks up a new version within a minute, without a rebuild.
+            </p>
+          </div>
+          <SchemeDatasetAdmin />
+        </div>
+      </main>
+    </div>
+  );
+}
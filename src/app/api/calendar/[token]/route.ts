@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getCalendarFeed } from "@/lib/firebase/calendar-feed";
+
+// The iCalendar feed of a user's saved irrigation schedules, for calendar apps to subscribe
+// to at /api/calendar/<token>.ics. The token in the link is the only credential.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    const feedToken = token.replace(/\.ics$/, "");
+
+    try {
+        const calendar = await getCalendarFeed(feedToken);
+        if (!calendar) {
+            return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+        }
+        return new NextResponse(calendar, {
+            status: 200,
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="irrigation.ics"',
+                // Calendar apps poll the feed; it must reflect the latest re-plan.
+                "Cache-Control": "no-cache",
+            },
+        });
+    } catch (error: any) {
+        console.error("Error building the calendar feed", error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
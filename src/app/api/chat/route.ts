@@ -0,0 +1,6 @@
+import { appRoute } from "@genkit-ai/next";
+import { conversationalAgentFlow } from "@/ai/flows/conversational-agent-flow";
+
+// Serves the chat assistant as a Genkit flow, so the client can stream the response as
+// server-sent events. Closing the request aborts the flow.
+export const POST = appRoute(conversationalAgentFlow);
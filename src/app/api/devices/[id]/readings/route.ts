@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { DeviceReadingsPayloadSchema } from "@/lib/devices";
+import { DeviceAuthError, ingestDeviceReadings } from "@/lib/firebase/device-readings";
+
+// Soil moisture sensors, tank sensors and flow meters post their readings here, with
+// `Authorization: Bearer <device API key>`. The key is shown once, when the device is registered.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const apiKey = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+    if (!apiKey) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "The body must be JSON" }, { status: 400 });
+    }
+    const payload = DeviceReadingsPayloadSchema.safeParse(body);
+    if (!payload.success) {
+        return NextResponse.json({ error: "Invalid readings", issues: payload.error.issues }, { status: 400 });
+    }
+
+    try {
+        const result = await ingestDeviceReadings(id, apiKey, payload.data.readings);
+        return NextResponse.json(result, { status: 201 });
+    } catch (error: any) {
+        if (error instanceof DeviceAuthError) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        console.error("Error storing device readings", error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { isAuthorizedJob } from "@/lib/job-auth";
+import { runSchemeApplicationJob } from "@/lib/firebase/scheme-application-job";
+
+// Called on a schedule (e.g. daily by Cloud Scheduler or cron) to remind farmers of the
+// pending steps of their scheme applications. Requests must carry `Authorization: Bearer $JOB_SECRET`.
+export async function POST(request: NextRequest) {
+    const secret = process.env.JOB_SECRET;
+    if (!secret) {
+        console.error("JOB_SECRET is not set, so scheduled jobs cannot be run.");
+        return NextResponse.json({ error: "Scheduled jobs are not configured" }, { status: 503 });
+    }
+    if (!isAuthorizedJob(request.headers.get("authorization"), secret)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await runSchemeApplicationJob();
+        return NextResponse.json(result, { status: 200 });
+    } catch (error: any) {
+        console.error("Error running the scheme application job", error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
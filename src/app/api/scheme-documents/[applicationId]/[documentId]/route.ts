@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getCurrentUser } from "@/lib/firebase/server-auth";
+import { readSchemeDocument } from "@/lib/firebase/scheme-documents";
+
+// A document uploaded for a scheme application, served only to the signed-in user who owns
+// the application. The files hold identity and bank details, so they have no public URL.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ applicationId: string; documentId: string }> }) {
+    const { applicationId, documentId } = await params;
+    const user = await getCurrentUser();
+    if (!user) {
+        return NextResponse.json({ error: "Sign in to view your documents" }, { status: 401 });
+    }
+
+    try {
+        const document = await readSchemeDocument(user.uid, applicationId, documentId);
+        if (!document) {
+            return NextResponse.json({ error: "Document not found" }, { status: 404 });
+        }
+        return new NextResponse(new Uint8Array(document.data), {
+            status: 200,
+            headers: {
+                "Content-Type": document.file.contentType,
+                "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(document.file.fileName)}`,
+                "Cache-Control": "private, no-store",
+                "X-Content-Type-Options": "nosniff",
+            },
+        });
+    } catch (error: any) {
+        console.error("Error reading a scheme document", error);
+        return NextResponse.json({ error: "Could not load the document" }, { status: 500 });
+    }
+}
@@ -13,6 +13,8 @@ import { FeaturesTimeline } from '@/components/dashboard/features-timeline';
 import { useLanguage } from '@/context/language-context';
 import { ConversationalAgent } from '@/components/dashboard/conversational-agent';
 import { CurrentCropAgent } from '@/components/dashboard/current-crop-agent';
+import { FieldRegistry } from '@/components/dashboard/field-registry';
+import { SchemeApplications } from '@/components/dashboard/scheme-applications';
 
 export default function DashboardPage() {
   const { user, loading } = useAuth();
@@ -68,6 +70,9 @@ export default function DashboardPage() {
             </div>
             <div className="lg:col-span-2">
               <ConversationalAgent />
+            </div>
+             <div className="lg:col-span-3">
+               <FieldRegistry />
             </div>
              <div className="lg:col-span-3">
                <CurrentCropAgent />
@@ -75,6 +80,9 @@ export default function DashboardPage() {
             <div className="lg:col-span-3">
               <CropRecommenderCard />
             </div>
+            <div className="lg:col-span-3">
+              <SchemeApplications />
+            </div>
           </div>
         </div>
       </main>
@@ -0,0 +1,71 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useDevices } from '@/hooks/use-devices';
+import { useFields } from '@/hooks/use-fields';
+import { useLanguage } from '@/context/language-context';
+import { Navbar } from '@/components/layout/navbar';
+import { Loader } from '@/components/ui/loader';
+import { DeviceCard } from '@/components/devices/device-card';
+import { RegisterDeviceDialog } from '@/components/devices/register-device-dialog';
+
+export default function DevicesPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { devices, loading: loadingDevices, refresh } = useDevices();
+  const { fields, loading: loadingFields } = useFields();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/login');
+    }
+  }, [user, loading, router]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader />
+      </div>
+    );
+  }
+
+  const fieldNames = new Map(fields.map(field => [field.id, field.name]));
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      <main className="flex-1 p-4 sm:p-6 md:p-8">
+        <div className="container max-w-7xl mx-auto space-y-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 className="font-headline font-bold text-3xl md:text-4xl text-foreground mb-2">
+                {t('Devices')}
+              </h1>
+              <p className="text-muted-foreground text-lg">
+                Soil moisture sensors, tank sensors, flow meters and pump controllers on your fields. The irrigation scheduler plans from a field's latest soil moisture reading, and pump controllers follow the field's saved schedule.
+              </p>
+            </div>
+            <RegisterDeviceDialog fields={fields} onRegistered={refresh} />
+          </div>
+
+          {loadingDevices || loadingFields ? (
+            <div className="flex justify-center py-8"><Loader /></div>
+          ) : fields.length === 0 ? (
+            <p className="text-muted-foreground">Register a field on your dashboard first; each device belongs to a field.</p>
+          ) : devices.length === 0 ? (
+            <p className="text-muted-foreground">No devices yet. Register one to get the key it sends its readings with.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {devices.map(device => (
+                <DeviceCard key={device.id} device={device} fieldName={fieldNames.get(device.fieldId) ?? 'Deleted field'} onChanged={refresh} />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
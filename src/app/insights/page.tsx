@@ -1,19 +1,84 @@
 'use client';
 
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useWaterInsights } from '@/hooks/use-water-insights';
+import { useLanguage } from '@/context/language-context';
 import { Navbar } from '@/components/layout/navbar';
+import { Loader } from '@/components/ui/loader';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WaterScarcityCard } from '@/components/insights/water-scarcity-card';
+import { WaterUseChart } from '@/components/insights/water-use-chart';
+import { SeasonWaterTable } from '@/components/insights/season-water-table';
 
 export default function InsightsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { insights, loading: loadingInsights, error, refresh } = useWaterInsights();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/login');
+    }
+  }, [user, loading, router]);
+
+  if (loading || !user) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
       <main className="flex-1 p-4 sm:p-6 md:p-8">
-        <div className="container max-w-7xl mx-auto">
-          <h1 className="font-headline text-3xl md:text-4xl text-foreground mb-4">
-            Insights
-          </h1>
-          <p className="text-muted-foreground text-lg">
-            Data visualizations and insights will be displayed here.
-          </p>
+        <div className="container max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="font-headline font-bold text-3xl md:text-4xl text-foreground mb-2">
+              {t('Insights')}
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              The water each crop on your fields has used against what it needed, how much crop each cubic metre grew, and how scarce water is in your district.
+            </p>
+          </div>
+
+          {loadingInsights ? (
+            <div className="flex justify-center py-8"><Loader /></div>
+          ) : error || !insights ? (
+            <p className="text-destructive">{error}</p>
+          ) : insights.districts.length === 0 ? (
+            <p className="text-muted-foreground">Register a field on your dashboard and record the crop on it to see its water use.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {insights.districts.map(scarcity => (
+                  <WaterScarcityCard key={`${scarcity.district}|${scarcity.state}`} scarcity={scarcity} assessmentYear={insights.groundwaterAssessmentYear} />
+                ))}
+              </div>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Water Use by Season</CardTitle>
+                  <CardDescription>
+                    Irrigation is measured by a field's flow meters where it has them, and otherwise taken from the irrigations marked done on its saved schedules. Log the yield of a harvested crop to see its water productivity.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {insights.seasons.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No crops on your fields yet. Record a crop on a field from your dashboard.</p>
+                  ) : (
+                    <>
+                      <WaterUseChart seasons={insights.seasons} />
+                      <SeasonWaterTable seasons={insights.seasons} onChanged={refresh} />
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
         </div>
       </main>
     </div>
@@ -1,36 +1,63 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Image from 'next/image';
 import { Navbar } from '@/components/layout/navbar';
-import { getDiagnosesForUser, type DiagnosisRecord } from '@/lib/firebase/services';
+import { queryDiagnoses, getMyDiagnosisFeedback, type DiagnosisRecord, type DiagnosisScope, type DiagnosisFeedbackType } from '@/lib/firebase/services';
 import { Loader } from '@/components/ui/loader';
 import { DiagnosisRecordCard } from '@/components/library/diagnosis-record-card';
+import { DiagnosisFilters, type DiagnosisFilterValues } from '@/components/library/diagnosis-filters';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { BookOpenText, Info, AlertTriangle } from 'lucide-react';
+import { BookOpenText, Info, AlertTriangle, Users, User, Stethoscope } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useLanguage } from '@/context/language-context';
 
+const PAGE_SIZE = 10;
 
 export default function LibraryPage() {
   const { toast } = useToast();
   const { t } = useLanguage();
+  const { user } = useAuth();
+  const [scope, setScope] = useState<DiagnosisScope>('community');
+  const [filters, setFilters] = useState<DiagnosisFilterValues>({});
   const [diagnoses, setDiagnoses] = useState<DiagnosisRecord[]>([]);
+  const [myFeedback, setMyFeedback] = useState<Record<string, DiagnosisFeedbackType>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const page = await queryDiagnoses({ ...filters, scope }, cursor, PAGE_SIZE);
+    // Fetched before the records are shown, so each card starts with the user's vote.
+    const feedback = user ? await getMyDiagnosisFeedback(page.records.map(record => record.id)) : {};
+    setMyFeedback(prev => cursor ? { ...prev, ...feedback } : feedback);
+    setDiagnoses(prev => cursor ? [...prev, ...page.records] : page.records);
+    setNextCursor(page.nextCursor);
+  }, [filters, scope, user]);
+
+  const isAgronomist = user?.role === 'agronomist';
+
   useEffect(() => {
+    if ((scope === 'mine' && !user) || (scope === 'review' && !isAgronomist)) {
+      setDiagnoses([]);
+      setNextCursor(null);
+      setLoading(false);
+      return;
+    }
+
     const fetchDiagnoses = async () => {
       setLoading(true);
       setError(null);
       try {
-        // Fetch all diagnoses since the library is now public
-        const allDiagnoses = await getDiagnosesForUser();
-        setDiagnoses(allDiagnoses);
+        await fetchPage(null);
       } catch (error) {
         console.error("Failed to fetch diagnoses:", error);
-        setError("Could not fetch the diagnosis library. This is often due to database security rules. Please check your Firebase Firestore rules to ensure the 'diagnoses' collection is publicly readable.");
+        setError("Could not fetch the diagnosis library. This is often due to database security rules or a missing index. Please check your Firebase Firestore rules to ensure the 'diagnoses' collection is publicly readable.");
         toast({
           variant: "destructive",
           title: "Error",
@@ -41,7 +68,21 @@ export default function LibraryPage() {
       }
     };
     fetchDiagnoses();
-  }, [toast]);
+  }, [fetchPage, scope, user, isAgronomist, toast]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      await fetchPage(nextCursor);
+    } catch (error) {
+      console.error("Failed to fetch more diagnoses:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load more diagnoses." });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
 
 
   return (
@@ -73,7 +114,25 @@ export default function LibraryPage() {
               </div>
           </div>
 
-          {loading ? (
+          <Tabs value={scope} onValueChange={(value) => setScope(value as DiagnosisScope)} className="mb-4">
+            <TabsList>
+              <TabsTrigger value="community" className="gap-2"><Users className="h-4 w-4" /> Community</TabsTrigger>
+              <TabsTrigger value="mine" className="gap-2"><User className="h-4 w-4" /> My diagnoses</TabsTrigger>
+              {isAgronomist && <TabsTrigger value="review" className="gap-2"><Stethoscope className="h-4 w-4" /> Review queue</TabsTrigger>}
+            </TabsList>
+          </Tabs>
+
+          <DiagnosisFilters onApply={setFilters} disabled={loading} />
+
+          {scope === 'mine' && !user ? (
+            <div className="mt-16 flex flex-col items-center justify-center text-center gap-4 p-8 border-2 border-dashed rounded-lg">
+                <Info className="h-12 w-12 text-muted-foreground" />
+                <h2 className="text-xl font-semibold">Log in to see your diagnoses</h2>
+                <p className="text-muted-foreground max-w-md">
+                    Diagnoses you save while logged in are listed here.
+                </p>
+            </div>
+          ) : loading ? (
              <div className="flex justify-center mt-16">
                 <Loader />
              </div>
@@ -92,8 +151,42 @@ export default function LibraryPage() {
           ) : diagnoses.length > 0 ? (
             <div className="space-y-6">
               {diagnoses.map((record) => (
-                <DiagnosisRecordCard key={record.id} record={record} />
+                <DiagnosisRecordCard
+                  key={record.id}
+                  record={record}
+                  myFeedback={myFeedback[record.id] ?? null}
+                  canGiveFeedback={!!user}
+                  canReview={isAgronomist}
+                />
               ))}
+              {nextCursor && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore ? <Loader /> : 'Load More'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : scope === 'review' && !hasFilters ? (
+            <div className="mt-16 flex flex-col items-center justify-center text-center gap-4 p-8 border-2 border-dashed rounded-lg">
+                <Stethoscope className="h-12 w-12 text-muted-foreground" />
+                <h2 className="text-xl font-semibold">Review Queue is Empty</h2>
+                <p className="text-muted-foreground max-w-md">
+                    No flagged diagnoses are waiting for review.
+                </p>
+            </div>
+          ) : hasFilters ? (
+            <div className="mt-16 flex flex-col items-center justify-center text-center gap-4 p-8 border-2 border-dashed rounded-lg">
+                <Info className="h-12 w-12 text-muted-foreground" />
+                <h2 className="text-xl font-semibold">No Matching Diagnoses</h2>
+                <p className="text-muted-foreground max-w-md">
+                    No diagnoses match these filters. Try removing some of them or searching for other words.
+                </p>
+                {nextCursor && (
+                  <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore ? <Loader /> : 'Search Older Diagnoses'}
+                  </Button>
+                )}
             </div>
           ) : (
             <div className="mt-16 flex flex-col items-center justify-center text-center gap-4 p-8 border-2 border-dashed rounded-lg">
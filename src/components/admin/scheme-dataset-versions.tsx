@@ -0,0 +1,73 @@
+'use client';
+
+import { format } from 'date-fns';
+import type { SchemeDatasetChangelog, SchemeDatasetVersion } from '@/ai/schemas/scheme-schemas';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+
+const CHANGE_LABELS: [keyof SchemeDatasetChangelog, string][] = [
+  ['added', 'Added'],
+  ['removed', 'Removed'],
+  ['changed', 'Changed'],
+];
+
+export const describeChangelog = (changelog: SchemeDatasetChangelog) =>
+  CHANGE_LABELS.map(([key, label]) => `${changelog[key].length} ${label.toLowerCase()}`).join(', ');
+
+/** A changelog's scheme names, by kind of change. */
+export function SchemeChangelog({ changelog }: { changelog: SchemeDatasetChangelog }) {
+  const changes = CHANGE_LABELS.filter(([key]) => changelog[key].length > 0);
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No schemes changed.</p>;
+  }
+  return (
+    <div className="space-y-2 text-sm">
+      {changes.map(([key, label]) => (
+        <div key={key}>
+          <p className="font-medium">{label} ({changelog[key].length})</p>
+          <ul className="list-disc pl-5 text-muted-foreground">
+            {changelog[key].map(name => <li key={name}>{name}</li>)}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface SchemeDatasetVersionsProps {
+  current: SchemeDatasetVersion;
+  versions: SchemeDatasetVersion[];
+}
+
+/** The published versions of the schemes dataset, newest first, with the changes in each. */
+export function SchemeDatasetVersions({ current, versions }: SchemeDatasetVersionsProps) {
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing has been published yet; the app uses the {current.schemeCount} schemes bundled with it.</p>;
+  }
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      {versions.map(version => (
+        <AccordionItem key={version.version} value={String(version.version)}>
+          <AccordionTrigger>
+            <div className="text-left space-y-1">
+              <p className="font-semibold flex items-center gap-2">
+                Version {version.version}
+                {version.version === current.version && <Badge>In use</Badge>}
+              </p>
+              <p className="text-sm text-muted-foreground font-normal">
+                {format(new Date(version.publishedAt), 'PPp')} · {version.source} · {version.schemeCount} schemes · {describeChangelog(version.changelog)}
+              </p>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {version.note && <p className="text-sm">{version.note}</p>}
+            <p className="text-sm text-muted-foreground">
+              Published by {version.publishedBy ? `admin ${version.publishedBy}` : 'the import script'} with {version.warningCount} warning{version.warningCount === 1 ? '' : 's'}.
+            </p>
+            <SchemeChangelog changelog={version.changelog} />
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { importSchemesFile } from '@/lib/firebase/services';
+import type { SchemeDatasetImportResult } from '@/ai/providers/scheme-dataset-store';
+import { useToast } from '@/hooks/use-toast';
+import { SchemeChangelog } from './scheme-dataset-versions';
+
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader } from '@/components/ui/loader';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileJson, SearchCheck, UploadCloud } from 'lucide-react';
+
+interface SchemeImportPanelProps {
+  onPublished: () => void;
+}
+
+/**
+ * Uploads a schemes file, shows its validation report and what it would change, and publishes
+ * it as the next dataset version once it has no errors.
+ */
+export function SchemeImportPanel({ onPublished }: SchemeImportPanelProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<{ name: string; json: string } | null>(null);
+  const [note, setNote] = useState('');
+  const [checkLinks, setCheckLinks] = useState(false);
+  const [result, setResult] = useState<SchemeDatasetImportResult | null>(null);
+  const [running, setRunning] = useState<'validate' | 'publish' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, json: await selected.text() });
+    setResult(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return;
+    setRunning(dryRun ? 'validate' : 'publish');
+    try {
+      const imported = await importSchemesFile(file.json, file.name, { note, checkLinks, dryRun });
+      setResult(imported);
+      if (imported.published) {
+        toast({ title: `Published version ${imported.published.version}`, description: `${imported.published.schemeCount} schemes are now in use.` });
+        setFile(null);
+        setNote('');
+        onPublished();
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const report = result?.report;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileJson className="mr-2 h-4 w-4" /> {file ? file.name : 'Choose schemes.json'}
+        </Button>
+        <Input type="file" accept=".json,application/json" className="hidden" ref={fileInputRef} onChange={handleFile} />
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={checkLinks} onCheckedChange={checked => setCheckLinks(checked === true)} />
+          Check links (slow)
+        </label>
+      </div>
+      <Textarea placeholder="What changed in this version, e.g. Added Goa fisheries schemes" value={note} onChange={e => setNote(e.target.value)} />
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" disabled={!file || running !== null} onClick={() => run(true)}>
+          {running === 'validate' ? <Loader /> : <><SearchCheck className="mr-2 h-4 w-4" /> Validate</>}
+        </Button>
+        <Button type="button" disabled={!file || !report || report.errorCount > 0 || running !== null || !!result?.published} onClick={() => run(false)}>
+          {running === 'publish' ? <Loader /> : <><UploadCloud className="mr-2 h-4 w-4" /> Publish</>}
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-4 rounded-md border p-4">
+          <p className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="secondary">{report.schemes.length} valid schemes</Badge>
+            <Badge variant={report.errorCount > 0 ? 'destructive' : 'outline'}>{report.errorCount} errors</Badge>
+            <Badge variant="outline">{report.warningCount} warnings</Badge>
+            {report.errorCount > 0 && <span className="text-destructive">Fix the errors and choose the file again to publish it.</span>}
+          </p>
+          {report.issues.length > 0 && (
+            <ScrollArea className="h-72">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Entry</TableHead>
+                    <TableHead>Scheme</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{issue.index !== null ? issue.index + 1 : '—'}</TableCell>
+                      <TableCell>{issue.schemeName ?? '—'}</TableCell>
+                      <TableCell className={issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}>{issue.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+          <div>
+            <p className="font-semibold mb-2">Changes from the version in use</p>
+            <SchemeChangelog changelog={result.changelog} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
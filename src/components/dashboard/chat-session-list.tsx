@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { renameChatSession, deleteChatSession } from '@/lib/firebase/services';
+import type { ChatSession } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/loader';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { MessageSquarePlus, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+
+interface ChatSessionListProps {
+  sessions: ChatSession[];
+  loading: boolean;
+  activeSessionId: string | null;
+  onSelect: (session: ChatSession) => void;
+  onNewChat: () => void;
+  onChanged: () => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+/** The user's saved conversations with the chat assistant, with rename and delete. */
+export function ChatSessionList({ sessions, loading, activeSessionId, onSelect, onNewChat, onChanged, onDeleted }: ChatSessionListProps) {
+  const { toast } = useToast();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [deletingSession, setDeletingSession] = useState<ChatSession | null>(null);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setTitle(session.title);
+  };
+
+  const handleRename = async (sessionId: string) => {
+    setRenamingId(null);
+    try {
+      await renameChatSession(sessionId, title);
+      onChanged();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    try {
+      await deleteChatSession(session.id);
+      onDeleted(session.id);
+      onChanged();
+      toast({ title: 'Chat Deleted', description: `"${session.title}" has been deleted.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 md:w-56 md:shrink-0 md:border-r md:pr-4">
+      <Button variant="outline" size="sm" onClick={onNewChat}>
+        <MessageSquarePlus className="mr-2 h-4 w-4" /> New Chat
+      </Button>
+      <ScrollArea className="max-h-40 md:max-h-none md:flex-1">
+        {loading ? (
+          <div className="flex justify-center py-4"><Loader /></div>
+        ) : sessions.length === 0 ? (
+          <p className="text-xs text-muted-foreground p-2">Your conversations will be saved here.</p>
+        ) : (
+          <ul className="space-y-1">
+            {sessions.map(session => (
+              <li
+                key={session.id}
+                className={cn('group flex items-center gap-1 rounded-md pr-1 hover:bg-muted', session.id === activeSessionId && 'bg-muted')}
+              >
+                {renamingId === session.id ? (
+                  <Input
+                    autoFocus
+                    className="h-8 text-sm"
+                    value={title}
+                    onChange={e => setTitle(e.target.value)}
+                    onBlur={() => handleRename(session.id)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename(session.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                  />
+                ) : (
+                  <button type="button" className="flex-1 min-w-0 text-left px-2 py-1.5" onClick={() => onSelect(session)}>
+                    <p className="truncate text-sm">{session.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {session.updatedAt && formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true })} · {session.language}
+                    </p>
+                  </button>
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100">
+                      <MoreHorizontal className="h-4 w-4" />
+                      <span className="sr-only">Chat actions</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => startRename(session)}><Pencil className="mr-2 h-4 w-4" /> Rename</DropdownMenuItem>
+                    <DropdownMenuItem className="text-destructive" onSelect={() => setDeletingSession(session)}><Trash2 className="mr-2 h-4 w-4" /> Delete</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+
+      <AlertDialog open={deletingSession !== null} onOpenChange={(open) => !open && setDeletingSession(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this chat?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete &quot;{deletingSession?.title}&quot; and all of its messages.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingSession && handleDelete(deletingSession)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
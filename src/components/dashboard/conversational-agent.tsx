@@ -5,11 +5,15 @@ import { useState, useRef, useEffect, FormEvent } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/context/language-context';
 import { useSpeechToText } from '@/hooks/use-speech-to-text';
-import { startChat, type Message } from '@/ai/flows/conversational-agent-flow';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { conversationalAgentFlow, Message, ToolTraceEntry } from '@/ai/flows/conversational-agent-flow';
 import { textToSpeech } from '@/ai/flows/text-to-speech-flow';
 import { languages } from '@/lib/i18n';
 import Image from 'next/image';
 import { useAuth } from '@/hooks/use-auth';
+import { useChatSessions } from '@/hooks/use-chat-sessions';
+import { createChatSession, getChatSessionMessages } from '@/lib/firebase/services';
+import type { ChatSession } from '@/lib/types';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -19,25 +23,40 @@ import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
+import { ToolTrace } from './tool-trace';
+import { ChatSessionList } from './chat-session-list';
+
+// A message as shown in the chat, with the tools that ran to produce a reply.
+type ChatMessage = Message & { toolTrace?: ToolTraceEntry[] };
 
 
 export function ConversationalAgent() {
   const { toast } = useToast();
   const { user } = useAuth();
   const { t, locale } = useLanguage();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { sessions, loading: sessionsLoading, refresh: refreshSessions } = useChatSessions();
+  // The saved session the conversation belongs to; null until the first message of a new chat.
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [loadingSession, setLoadingSession] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  // The response while it streams in, with what the agent is doing if it is calling a tool.
+  const [reply, setReply] = useState<{ content: string; status: string | null } | null>(null);
   const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
 
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const replyTextRef = useRef('');
 
   useEffect(() => {
     if (scrollAreaRef.current) {
         scrollAreaRef.current.scrollTo({ top: scrollAreaRef.current.scrollHeight, behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, reply]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleTranscript = (text: string) => {
     setInput(text);
@@ -87,44 +106,120 @@ export function ConversationalAgent() {
   };
 
 
+  /** Stops the response that is streaming in, returning the part that has arrived. */
+  const cancelReply = (): ChatMessage | null => {
+    if (!abortRef.current) return null;
+    abortRef.current.abort();
+    abortRef.current = null;
+    const partial = replyTextRef.current.trim();
+    return partial ? { role: 'model', content: partial } : null;
+  };
+
+  const startNewChat = () => {
+    cancelReply();
+    stopCurrentAudio();
+    setLoading(false);
+    setReply(null);
+    setSessionId(null);
+    setMessages([]);
+  };
+
+  const openSession = async (session: ChatSession) => {
+    if (session.id === sessionId) return;
+    cancelReply();
+    stopCurrentAudio();
+    setLoading(false);
+    setReply(null);
+    setSessionId(session.id);
+    setMessages([]);
+    setLoadingSession(true);
+    try {
+      const stored = await getChatSessionMessages(session.id);
+      setMessages(stored.map(({ role, content, toolTrace }) => ({ role, content, toolTrace })));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setLoadingSession(false);
+    }
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || loading) return;
+    if (!input.trim()) return;
 
-    const userMessage: Message = { role: 'user', content: input };
-    setMessages(prev => [...prev, userMessage]);
+    // Sending a new message cancels the previous response, keeping what was already shown.
+    const partialReply = cancelReply();
+    const previousMessages = partialReply ? [...messages, partialReply] : messages;
+    const userMessage: ChatMessage = { role: 'user', content: input };
+    setMessages([...previousMessages, userMessage]);
     setInput('');
     setLoading(true);
+    setReply({ content: '', status: null });
     stopCurrentAudio();
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    replyTextRef.current = '';
+
     try {
       const currentLanguageName = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
-      
-      const history: Message[] = [...messages, userMessage];
 
-      const response = await startChat({ 
-        query: input,
-        language: currentLanguageName,
-        history: history.slice(0, -1) // Pass history without the current message
+      // Signed-in users' chats are saved, and the flow loads the history from the session.
+      let activeSessionId = sessionId;
+      if (user && !activeSessionId) {
+        activeSessionId = (await createChatSession(currentLanguageName)).id;
+        setSessionId(activeSessionId);
+      }
+
+      const { stream, output } = streamFlow<typeof conversationalAgentFlow>({
+        url: '/api/chat',
+        input: {
+          query: userMessage.content,
+          language: currentLanguageName,
+          sessionId: activeSessionId ?? undefined,
+          // The history without the current message
+          history: activeSessionId ? undefined : previousMessages.map(({ role, content }): Message => ({ role, content })),
+        },
+        abortSignal: controller.signal,
       });
 
-      const aiMessage: Message = { role: 'model', content: response };
+      for await (const chunk of stream) {
+        if (chunk.type === 'status') {
+          setReply({ content: replyTextRef.current, status: chunk.message });
+        } else {
+          replyTextRef.current += chunk.text;
+          setReply({ content: replyTextRef.current, status: null });
+        }
+      }
+      const { response, toolTrace } = await output;
+      if (controller.signal.aborted) return;
+
+      abortRef.current = null;
+      setReply(null);
+      setLoading(false);
+      const aiMessage: ChatMessage = { role: 'model', content: response, toolTrace };
       setMessages(prev => [...prev, aiMessage]);
-      
+      refreshSessions();
+
       // Speak the response automatically
       await speak(response, true);
 
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Conversational agent error:", error);
       toast({
         variant: 'destructive',
         title: 'Error',
         description: t('An unexpected error occurred.'),
       });
-      const errorMessage: Message = { role: 'model', content: "Sorry, I encountered an error. Please try again." };
+      const errorMessage: ChatMessage = { role: 'model', content: "Sorry, I encountered an error. Please try again." };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setReply(null);
+        setLoading(false);
+      }
     }
   };
 
@@ -145,82 +240,106 @@ export function ConversationalAgent() {
         </CardTitle>
         <CardDescription>{t('Ask me anything about farming. I can help with market prices, crop recommendations, government schemes, and more!')}</CardDescription>
       </CardHeader>
-      <CardContent className="flex-1 flex flex-col justify-between overflow-hidden">
-        <ScrollArea className="flex-1 pr-4 -mr-4" ref={scrollAreaRef}>
-          <div className="space-y-4">
-            {messages.length === 0 && (
-                <div className="text-center text-muted-foreground p-8">
-                    <p>{t('Start the conversation!')}</p>
-                </div>
-            )}
-            {messages.map((message, index) => (
-              <div key={index} className={cn("flex items-start gap-3", message.role === 'user' ? 'justify-end' : 'justify-start')}>
-                {message.role === 'model' && (
-                  <Avatar className="h-8 w-8 border-2 border-primary/50">
-                    <AvatarImage src="/images/Neervaani.png" alt="NeerVaani" />
-                    <AvatarFallback>AI</AvatarFallback>
-                  </Avatar>
-                )}
-                <div className={cn("max-w-[75%] rounded-lg p-3 text-sm relative group", message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted')}>
-                  <p className="whitespace-pre-wrap">{message.content}</p>
-                   {message.role === 'model' && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="absolute -bottom-2 -right-2 h-6 w-6 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={() => speak(message.content, true)}
-                      >
-                        <Volume2 className="h-4 w-4" />
-                      </Button>
-                    )}
-                </div>
-                {message.role === 'user' && (
-                  <Avatar className="h-8 w-8">
-                    <AvatarImage src={user?.photoURL || ''} alt={user?.name || 'User'} />
-                    <AvatarFallback>{getInitials(user?.name)}</AvatarFallback>
-                  </Avatar>
-                )}
-              </div>
-            ))}
-            {loading && (
-                <div className="flex items-start gap-3 justify-start">
-                     <Avatar className="h-8 w-8 border-2 border-primary/50">
-                        <AvatarImage src="/images/Neervaani.png" alt="NeerVaani" />
-                        <AvatarFallback>AI</AvatarFallback>
+      <CardContent className="flex-1 flex flex-col md:flex-row gap-4 overflow-hidden">
+        <ChatSessionList
+          sessions={sessions}
+          loading={sessionsLoading}
+          activeSessionId={sessionId}
+          onSelect={openSession}
+          onNewChat={startNewChat}
+          onChanged={refreshSessions}
+          onDeleted={(deletedId) => deletedId === sessionId && startNewChat()}
+        />
+        <div className="flex-1 min-w-0 flex flex-col justify-between">
+          <ScrollArea className="flex-1 pr-4 -mr-4" ref={scrollAreaRef}>
+            <div className="space-y-4">
+              {loadingSession && (
+                  <div className="flex justify-center p-8"><Loader /></div>
+              )}
+              {messages.length === 0 && !loadingSession && (
+                  <div className="text-center text-muted-foreground p-8">
+                      <p>{t('Start the conversation!')}</p>
+                  </div>
+              )}
+              {messages.map((message, index) => (
+                <div key={index} className={cn("flex items-start gap-3", message.role === 'user' ? 'justify-end' : 'justify-start')}>
+                  {message.role === 'model' && (
+                    <Avatar className="h-8 w-8 border-2 border-primary/50">
+                      <AvatarImage src="/images/Neervaani.png" alt="NeerVaani" />
+                      <AvatarFallback>AI</AvatarFallback>
+                    </Avatar>
+                  )}
+                  <div className={cn("max-w-[75%] rounded-lg p-3 text-sm relative group", message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted')}>
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                    {message.toolTrace && message.toolTrace.length > 0 && <ToolTrace trace={message.toolTrace} />}
+                     {message.role === 'model' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="absolute -bottom-2 -right-2 h-6 w-6 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                          onClick={() => speak(message.content, true)}
+                        >
+                          <Volume2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                  </div>
+                  {message.role === 'user' && (
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={user?.photoURL || ''} alt={user?.name || 'User'} />
+                      <AvatarFallback>{getInitials(user?.name)}</AvatarFallback>
                     </Avatar>
-                    <div className="bg-muted rounded-lg p-3">
-                        <Loader className="h-5 w-5" />
-                    </div>
+                  )}
                 </div>
+              ))}
+              {loading && (
+                  <div className="flex items-start gap-3 justify-start">
+                       <Avatar className="h-8 w-8 border-2 border-primary/50">
+                          <AvatarImage src="/images/Neervaani.png" alt="NeerVaani" />
+                          <AvatarFallback>AI</AvatarFallback>
+                      </Avatar>
+                      <div className="max-w-[75%] bg-muted rounded-lg p-3 text-sm space-y-2">
+                          {reply?.status && (
+                              <p className="flex items-center gap-2 text-muted-foreground italic">
+                                  <Loader className="h-4 w-4" /> {reply.status}
+                              </p>
+                          )}
+                          {reply?.content ? (
+                              <p className="whitespace-pre-wrap">{reply.content}</p>
+                          ) : !reply?.status && (
+                              <Loader className="h-5 w-5" />
+                          )}
+                      </div>
+                  </div>
+              )}
+            </div>
+          </ScrollArea>
+          <form onSubmit={handleSubmit} className="mt-4 flex items-center gap-2 border-t pt-4">
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={isRecording ? "Listening..." : "Type your message or use the mic..."}
+              className="flex-1 resize-none"
+              rows={1}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmit(e);
+                }
+              }}
+            />
+             <Button type="button" size="icon" variant="ghost" className={cn(isRecording && 'bg-destructive/20 text-destructive')} onClick={() => isRecording ? stopRecording() : startRecording()}>
+              <Mic className="h-5 w-5" />
+            </Button>
+            {isPlaying && (
+              <Button type="button" size="icon" variant="destructive" onClick={stopCurrentAudio}>
+                <VolumeX className="h-5 w-5" />
+              </Button>
             )}
-          </div>
-        </ScrollArea>
-        <form onSubmit={handleSubmit} className="mt-4 flex items-center gap-2 border-t pt-4">
-          <Textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder={isRecording ? "Listening..." : "Type your message or use the mic..."}
-            className="flex-1 resize-none"
-            rows={1}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                handleSubmit(e);
-              }
-            }}
-          />
-           <Button type="button" size="icon" variant="ghost" className={cn(isRecording && 'bg-destructive/20 text-destructive')} onClick={() => isRecording ? stopRecording() : startRecording()}>
-            <Mic className="h-5 w-5" />
-          </Button>
-          {isPlaying && (
-            <Button type="button" size="icon" variant="destructive" onClick={stopCurrentAudio}>
-              <VolumeX className="h-5 w-5" />
+            <Button type="submit" size="icon" disabled={!input.trim()}>
+              <Send className="h-5 w-5" />
             </Button>
-          )}
-          <Button type="submit" size="icon" disabled={loading || !input.trim()}>
-            <Send className="h-5 w-5" />
-          </Button>
-        </form>
+          </form>
+        </div>
       </CardContent>
     </Card>
   );
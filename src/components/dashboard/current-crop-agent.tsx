@@ -6,8 +6,11 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { addCurrentCrop, getAllCurrentCrops } from '@/lib/firebase/services';
+import { addCurrentCrop, updateCurrentCrop, deleteCurrentCrop, archiveCurrentCrop, getCurrentCrops } from '@/lib/firebase/services';
 import type { CurrentCrop } from '@/lib/types';
+import { useFields } from '@/hooks/use-fields';
+import { usePriceAlerts } from '@/hooks/use-price-alerts';
+import { formatFieldArea, formatFieldLocation } from '@/lib/fields';
 import { marketAnalysis, type MarketAnalysisOutput } from '@/ai/flows/market-analysis-flow';
 import { getPostHarvestAdvice, type PostHarvestOutput } from '@/ai/flows/post-harvest-flow';
 
@@ -22,8 +25,13 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
-import { CalendarIcon, PlusCircle, Sparkles, Send, Bot, Leaf, Droplet, FlaskConical, Landmark, ShieldAlert, TrendingUp, Info, DollarSign, Lightbulb, MapPin, Package, Store, FileText, ArrowDown, ArrowUp, Minus, BarChart, Scale, ShoppingBasket, Brain, HelpCircle, Briefcase, ChevronsUpDown, PackageSearch, Truck, Warehouse, BadgePercent, Microscope, Recycle } from 'lucide-react';
+import { CalendarIcon, PlusCircle, Sparkles, Send, Bot, Leaf, Droplet, FlaskConical, Landmark, ShieldAlert, TrendingUp, Info, DollarSign, Lightbulb, MapPin, Package, Store, FileText, ArrowDown, ArrowUp, Minus, BarChart, Scale, ShoppingBasket, Brain, HelpCircle, Briefcase, ChevronsUpDown, PackageSearch, Truck, Warehouse, BadgePercent, Microscope, Recycle, Pencil, Trash2, Archive, History, BellRing } from 'lucide-react';
 import { askCurrentCropAgent, type CurrentCropAgentOutput } from '@/ai/flows/current-crop-agent-flow';
+import { PriceAlertDialog } from '@/components/dashboard/price-alert-dialog';
+import { PriceAlertList } from '@/components/dashboard/price-alert-list';
+import { SellOptionsTable } from '@/components/dashboard/sell-options-table';
+import { getSellOptions } from '@/ai/tools/sell-options-tool';
+import type { SellOptionsResult } from '@/ai/schemas/sell-options-schemas';
 import { languages } from '@/lib/i18n';
 import { useLanguage } from '@/context/language-context';
 import { Badge } from '../ui/badge';
@@ -43,6 +51,7 @@ import {
 
 const addCropFormSchema = z.object({
   cropName: z.string().min(2, "Crop name is required."),
+  fieldId: z.string().optional(),
   fieldSize: z.string().min(1, "Field size is required."),
   location: z.string().min(2, "Location is required."),
   sowingDate: z.date({ required_error: "A sowing date is required." }),
@@ -97,19 +106,25 @@ const postHarvestIcons: { [key: string]: React.ReactNode } = {
 export function CurrentCropAgent() {
   const { t, locale } = useLanguage();
   const { toast } = useToast();
+  const { fields, refresh: refreshFields } = useFields();
+  const { alerts: priceAlerts, refresh: refreshPriceAlerts } = usePriceAlerts();
   const [isAddingCrop, setIsAddingCrop] = useState(false);
+  const [editingCrop, setEditingCrop] = useState<CurrentCrop | null>(null);
   const [crops, setCrops] = useState<CurrentCrop[]>([]);
+  const [harvestedCrops, setHarvestedCrops] = useState<CurrentCrop[]>([]);
   const [loadingCrops, setLoadingCrops] = useState(true);
   const [loadingResponse, setLoadingResponse] = useState(false);
   const [agentResponse, setAgentResponse] = useState<CurrentCropAgentOutput | null>(null);
   const [marketAnalysisResult, setMarketAnalysisResult] = useState<MarketAnalysisOutput | null>(null);
   const [postHarvestResult, setPostHarvestResult] = useState<PostHarvestOutput | null>(null);
+  const [sellOptions, setSellOptions] = useState<SellOptionsResult | null>(null);
 
 
   const addCropForm = useForm<AddCropFormValues>({
     resolver: zodResolver(addCropFormSchema),
     defaultValues: {
       cropName: '',
+      fieldId: '',
       fieldSize: '',
       location: '',
       additionalInfo: '',
@@ -133,13 +148,18 @@ export function CurrentCropAgent() {
   const fetchCrops = async () => {
     setLoadingCrops(true);
     try {
-      const fetchedCrops = await getAllCurrentCrops();
+      const [fetchedCrops, fetchedHistory] = await Promise.all([
+        getCurrentCrops('active'),
+        getCurrentCrops('harvested'),
+      ]);
       setCrops(fetchedCrops);
-      if (fetchedCrops.length > 0) {
-        agentQueryForm.setValue('selectedCropId', fetchedCrops[0].id);
-      } else {
-        agentQueryForm.setValue('selectedCropId', '');
+      setHarvestedCrops(fetchedHistory);
+      // Keep the current selection if that crop is still active.
+      const selectedCropId = agentQueryForm.getValues('selectedCropId');
+      if (fetchedCrops.some(c => c.id === selectedCropId)) {
+        return;
       }
+      agentQueryForm.setValue('selectedCropId', fetchedCrops.length > 0 ? fetchedCrops[0].id : '');
     } catch (error) {
       console.error(error);
       toast({ variant: "destructive", title: "Error", description: "Could not load your crops." });
@@ -152,20 +172,80 @@ export function CurrentCropAgent() {
     fetchCrops();
   }, []);
 
+  const closeCropForm = () => {
+    addCropForm.reset();
+    setEditingCrop(null);
+    setIsAddingCrop(false);
+  };
+
+  const startEditingCrop = (crop: CurrentCrop) => {
+    addCropForm.reset({
+      cropName: crop.cropName,
+      fieldId: crop.fieldId || '',
+      fieldSize: crop.fieldSize,
+      location: crop.location,
+      sowingDate: new Date(crop.sowingDate),
+      additionalInfo: crop.additionalInfo || '',
+    });
+    setEditingCrop(crop);
+    setIsAddingCrop(true);
+  };
+
   async function onAddCropSubmit(values: AddCropFormValues) {
+    const cropData = { ...values, fieldId: values.fieldId || null, sowingDate: values.sowingDate.toISOString() };
     try {
-      const newCropId = await addCurrentCrop({ ...values, sowingDate: values.sowingDate.toISOString() });
-      if (newCropId) {
-        toast({ title: "Success", description: "Crop added successfully!" });
-        addCropForm.reset();
-        setIsAddingCrop(false);
-        await fetchCrops(); // Refresh the list
+      if (editingCrop) {
+        await updateCurrentCrop(editingCrop.id, cropData);
+        toast({ title: "Success", description: "Crop updated successfully!" });
       } else {
-         throw new Error("Failed to get new crop ID.");
+        const newCropId = await addCurrentCrop(cropData);
+        if (!newCropId) {
+          throw new Error("Failed to get new crop ID.");
+        }
+        toast({ title: "Success", description: "Crop added successfully!" });
       }
+      closeCropForm();
+      await fetchCrops(); // Refresh the list
     } catch (error) {
       console.error(error);
-      toast({ variant: "destructive", title: "Error", description: "Could not add your crop." });
+      toast({ variant: "destructive", title: "Error", description: editingCrop ? "Could not update your crop." : "Could not add your crop." });
+    }
+  }
+
+  // Picking a registered field fills in its size and location.
+  const onFieldSelected = (fieldId: string) => {
+    const selectedField = fields.find(f => f.id === fieldId);
+    addCropForm.setValue('fieldId', selectedField ? fieldId : '');
+    if (selectedField) {
+      addCropForm.setValue('fieldSize', formatFieldArea(selectedField), { shouldValidate: true });
+      addCropForm.setValue('location', formatFieldLocation(selectedField), { shouldValidate: true });
+    }
+  };
+
+  async function handleArchiveCrop() {
+    const selectedCrop = getSelectedCrop();
+    if (!selectedCrop) return;
+
+    try {
+      await archiveCurrentCrop(selectedCrop.id);
+      toast({ title: "Crop Harvested", description: `${selectedCrop.cropName} has been moved to your crop history.` });
+      clearResults();
+      await fetchCrops();
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Error", description: "Could not mark your crop as harvested." });
+    }
+  }
+
+  async function handleDeleteCrop(crop: CurrentCrop) {
+    try {
+      await deleteCurrentCrop(crop.id);
+      toast({ title: "Crop Deleted", description: `${crop.cropName} has been removed.` });
+      clearResults();
+      await fetchCrops();
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Error", description: "Could not delete your crop." });
     }
   }
 
@@ -183,6 +263,7 @@ export function CurrentCropAgent() {
       setAgentResponse(null);
       setMarketAnalysisResult(null);
       setPostHarvestResult(null);
+      setSellOptions(null);
   };
 
   async function onQuerySubmit() {
@@ -244,12 +325,16 @@ export function CurrentCropAgent() {
     clearResults();
     try {
         const currentLanguageName = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
-        const result = await getPostHarvestAdvice({
-            cropContext: selectedCrop,
-            estimatedYield: yieldData.yield,
-            language: currentLanguageName,
-        });
+        const [result, sellOptionsResult] = await Promise.all([
+            getPostHarvestAdvice({
+                cropContext: selectedCrop,
+                estimatedYield: yieldData.yield,
+                language: currentLanguageName,
+            }),
+            getSellOptions({ commodity: selectedCrop.cropName, location: selectedCrop.location, quantity: yieldData.yield }),
+        ]);
         setPostHarvestResult(result);
+        setSellOptions(sellOptionsResult);
     } catch (error) {
         console.error(error);
         toast({ variant: "destructive", title: 'Analysis Failed', description: 'Could not fetch post-harvest advice.' });
@@ -306,13 +391,27 @@ export function CurrentCropAgent() {
       <CardContent>
         {isAddingCrop ? (
           <div>
-            <h3 className="text-lg font-semibold mb-4">Add a New Crop</h3>
+            <h3 className="text-lg font-semibold mb-4">{editingCrop ? `Edit ${editingCrop.cropName}` : 'Add a New Crop'}</h3>
             <Form {...addCropForm}>
               <form onSubmit={addCropForm.handleSubmit(onAddCropSubmit)} className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField control={addCropForm.control} name="cropName" render={({ field }) => (
                     <FormItem><FormLabel>Crop Name*</FormLabel><FormControl><Input placeholder="e.g., Tomato" {...field} /></FormControl><FormMessage /></FormItem>
                   )} />
+                  {fields.length > 0 && (
+                    <FormField control={addCropForm.control} name="fieldId" render={({ field }) => (
+                      <FormItem><FormLabel>Field</FormLabel>
+                        <Select onValueChange={onFieldSelected} value={field.value || 'none'}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Select a field" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Not on a registered field</SelectItem>
+                            {fields.map(f => <SelectItem key={f.id} value={f.id}>{f.name} ({formatFieldArea(f)})</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                  )}
                   <FormField control={addCropForm.control} name="fieldSize" render={({ field }) => (
                     <FormItem><FormLabel>Field Size*</FormLabel><FormControl><Input placeholder="e.g., 2 acres" {...field} /></FormControl><FormMessage /></FormItem>
                   )} />
@@ -341,9 +440,9 @@ export function CurrentCropAgent() {
                 )} />
                 <div className="flex gap-2">
                   <Button type="submit" disabled={addCropForm.formState.isSubmitting}>
-                    {addCropForm.formState.isSubmitting ? <Loader /> : 'Save Crop'}
+                    {addCropForm.formState.isSubmitting ? <Loader /> : editingCrop ? 'Update Crop' : 'Save Crop'}
                   </Button>
-                  <Button variant="outline" onClick={() => setIsAddingCrop(false)}>Cancel</Button>
+                  <Button type="button" variant="outline" onClick={closeCropForm}>Cancel</Button>
                 </div>
               </form>
             </Form>
@@ -351,7 +450,7 @@ export function CurrentCropAgent() {
         ) : (
           <div>
             <div className="flex justify-end mb-4">
-                <Button onClick={() => setIsAddingCrop(true)}><PlusCircle className="mr-2" /> Add New Crop</Button>
+                <Button onClick={() => { refreshFields(); setIsAddingCrop(true); }}><PlusCircle className="mr-2" /> Add New Crop</Button>
             </div>
             
             <Form {...agentQueryForm}>
@@ -368,7 +467,7 @@ export function CurrentCropAgent() {
                                 <SelectContent>
                                     {loadingCrops ? <SelectItem value="loading" disabled>Loading...</SelectItem> :
                                      crops.length > 0 ? crops.map(crop => (
-                                        <SelectItem key={crop.id} value={crop.id}>{crop.cropName} - {crop.location}</SelectItem>
+                                        <SelectItem key={crop.id} value={crop.id}>{crop.cropName} - {fields.find(f => f.id === crop.fieldId)?.name ?? crop.location}</SelectItem>
                                      )) : <SelectItem value="no-crops" disabled>No crops added yet.</SelectItem>
                                     }
                                 </SelectContent>
@@ -419,6 +518,57 @@ export function CurrentCropAgent() {
                             </AlertDialogContent>
                         </AlertDialog>
                     </div>
+
+                    <div className='flex flex-wrap gap-2 border-t pt-4'>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => { const crop = getSelectedCrop(); if (crop) startEditingCrop(crop); }} disabled={loadingResponse || crops.length === 0}>
+                            <Pencil className="mr-2 h-4 w-4" /> Edit Crop
+                        </Button>
+
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button type="button" variant="ghost" size="sm" disabled={loadingResponse || crops.length === 0}>
+                                    <Archive className="mr-2 h-4 w-4" /> Mark as Harvested
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Mark as Harvested?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        This crop will be moved from your current crops to your crop history.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={handleArchiveCrop}>Mark as Harvested</AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button type="button" variant="ghost" size="sm" className="text-destructive hover:text-destructive" disabled={loadingResponse || crops.length === 0}>
+                                    <Trash2 className="mr-2 h-4 w-4" /> Delete Crop
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete this crop?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        This permanently removes the crop and cannot be undone. To keep it in your history, mark it as harvested instead.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                        onClick={() => { const crop = getSelectedCrop(); if (crop) handleDeleteCrop(crop); }}
+                                    >
+                                        Delete
+                                    </AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    </div>
                 </form>
             </Form>
 
@@ -535,10 +685,72 @@ export function CurrentCropAgent() {
                      </AccordionContent>
                    </AccordionItem>
                  </Accordion>
+
+                 <PriceAlertDialog
+                   cropId={agentQueryForm.getValues('selectedCropId') || null}
+                   mandi={marketAnalysisResult.mandi}
+                   currentPrice={marketAnalysisResult.corePriceInfo.currentPrice.price}
+                   onCreated={refreshPriceAlerts}
+                 />
                </div>
             )}
 
+            {sellOptions && (
+                <div className="mt-8">
+                    {sellOptions.status === 'ok'
+                        ? <SellOptionsTable data={sellOptions.result} />
+                        : <p className="text-sm text-muted-foreground">Could not compare mandis: {sellOptions.reason}</p>}
+                </div>
+            )}
+
             {postHarvestResult && renderPostHarvestAdvice(postHarvestResult)}
+
+            {priceAlerts.length > 0 && (
+                <Accordion type="single" collapsible className="w-full mt-8">
+                    <AccordionItem value="price-alerts">
+                        <AccordionTrigger>
+                            <div className="flex items-center gap-2">
+                                <BellRing className="h-5 w-5 text-primary" />
+                                Price Alerts ({priceAlerts.length})
+                            </div>
+                        </AccordionTrigger>
+                        <AccordionContent>
+                            <PriceAlertList alerts={priceAlerts} onChanged={refreshPriceAlerts} />
+                        </AccordionContent>
+                    </AccordionItem>
+                </Accordion>
+            )}
+
+            {harvestedCrops.length > 0 && (
+                <Accordion type="single" collapsible className="w-full mt-8">
+                    <AccordionItem value="crop-history">
+                        <AccordionTrigger>
+                            <div className="flex items-center gap-2">
+                                <History className="h-5 w-5 text-primary" />
+                                Crop History ({harvestedCrops.length})
+                            </div>
+                        </AccordionTrigger>
+                        <AccordionContent>
+                            <ul className="divide-y">
+                                {harvestedCrops.map(crop => (
+                                    <li key={crop.id} className="flex items-center justify-between gap-4 py-3">
+                                        <div>
+                                            <p className="font-semibold">{crop.cropName} - {crop.location}</p>
+                                            <p className="text-sm text-muted-foreground">
+                                                {crop.fieldSize} · Sown {format(new Date(crop.sowingDate), "PPP")}
+                                                {crop.harvestedAt && ` · Harvested ${format(new Date(crop.harvestedAt), "PPP")}`}
+                                            </p>
+                                        </div>
+                                        <Button type="button" variant="ghost" size="icon" onClick={() => handleDeleteCrop(crop)} aria-label={`Delete ${crop.cropName}`}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </AccordionContent>
+                    </AccordionItem>
+                </Accordion>
+            )}
           </div>
         )}
       </CardContent>
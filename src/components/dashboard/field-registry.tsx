@@ -0,0 +1,450 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useFields } from '@/hooks/use-fields';
+import { addField, updateField, deleteField, getFieldHistory } from '@/lib/firebase/services';
+import { AREA_UNIT_LABELS, boundaryArea, boundaryFromCorners, formatFieldArea, formatFieldLocation, parseFieldBoundary } from '@/lib/fields';
+import type { CurrentCrop, Field, FieldBoundary, FieldInput } from '@/lib/types';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader } from '@/components/ui/loader';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Map as MapIcon, PlusCircle, Pencil, Trash2, Upload, LocateFixed, Eraser, TestTube2, Sprout } from 'lucide-react';
+
+const fieldFormSchema = z.object({
+  name: z.string().min(2, "Field name is required."),
+  area: z.number({ required_error: "Area is required.", invalid_type_error: "Area is required." }).positive("Area must be greater than zero."),
+  areaUnit: z.enum(['acres', 'hectares', 'sqm']),
+  village: z.string().min(2, "Village is required."),
+  district: z.string().min(2, "District is required."),
+  state: z.string().optional(),
+  soilType: z.string().optional(),
+  ph: z.number().min(0).max(14).optional(),
+  nitrogen: z.number().min(0).optional(),
+  phosphorus: z.number().min(0).optional(),
+  potassium: z.number().min(0).optional(),
+  organicCarbon: z.number().min(0).max(100).optional(),
+  testedAt: z.string().optional(),
+});
+type FieldFormValues = z.infer<typeof fieldFormSchema>;
+
+const emptyFormValues: FieldFormValues = {
+  name: '',
+  area: undefined as unknown as number,
+  areaUnit: 'acres',
+  village: '',
+  district: '',
+  state: '',
+  soilType: '',
+  ph: undefined,
+  nitrogen: undefined,
+  phosphorus: undefined,
+  potassium: undefined,
+  organicCarbon: undefined,
+  testedAt: '',
+};
+
+const soilTestLabels = [
+  { key: 'ph', label: 'pH', unit: '' },
+  { key: 'nitrogen', label: 'Nitrogen', unit: 'kg/ha' },
+  { key: 'phosphorus', label: 'Phosphorus', unit: 'kg/ha' },
+  { key: 'potassium', label: 'Potassium', unit: 'kg/ha' },
+  { key: 'organicCarbon', label: 'Organic Carbon', unit: '%' },
+] as const;
+
+const toFieldInput = (values: FieldFormValues, boundary: FieldBoundary | null): FieldInput => {
+  const { ph, nitrogen, phosphorus, potassium, organicCarbon, testedAt, ...rest } = values;
+  const soilTest = { ph, nitrogen, phosphorus, potassium, organicCarbon };
+  const hasSoilTest = Object.values(soilTest).some(value => value !== undefined);
+  return {
+    ...rest,
+    state: rest.state || '',
+    soilType: rest.soilType || '',
+    boundary,
+    soilTest: hasSoilTest
+      ? {
+          ph: ph ?? null,
+          nitrogen: nitrogen ?? null,
+          phosphorus: phosphorus ?? null,
+          potassium: potassium ?? null,
+          organicCarbon: organicCarbon ?? null,
+          testedAt: testedAt ? new Date(testedAt).toISOString() : null,
+        }
+      : null,
+  };
+};
+
+function FieldTimeline({ history }: { history: CurrentCrop[] | undefined }) {
+  if (!history) {
+    return <div className="flex justify-center py-4"><Loader /></div>;
+  }
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No crops recorded on this field yet.</p>;
+  }
+  return (
+    <ol className="relative border-l border-primary/30 ml-2 space-y-4">
+      {history.map(crop => (
+        <li key={crop.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="font-semibold flex items-center gap-2">
+            {crop.cropName}
+            {crop.status === 'active' && <Badge variant="outline">Growing</Badge>}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Sown {format(new Date(crop.sowingDate), "PPP")}
+            {crop.harvestedAt && ` · Harvested ${format(new Date(crop.harvestedAt), "PPP")}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function FieldRegistry() {
+  const { toast } = useToast();
+  const { fields, loading, refresh } = useFields();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingField, setEditingField] = useState<Field | null>(null);
+  const [boundary, setBoundary] = useState<FieldBoundary | null>(null);
+  const [corners, setCorners] = useState<[number, number][]>([]);
+  const [locating, setLocating] = useState(false);
+  const [histories, setHistories] = useState<Record<string, CurrentCrop[]>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<FieldFormValues>({
+    resolver: zodResolver(fieldFormSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  const openForm = (field: Field | null) => {
+    form.reset(field ? {
+      name: field.name,
+      area: field.area,
+      areaUnit: field.areaUnit,
+      village: field.village,
+      district: field.district,
+      state: field.state || '',
+      soilType: field.soilType || '',
+      ph: field.soilTest?.ph ?? undefined,
+      nitrogen: field.soilTest?.nitrogen ?? undefined,
+      phosphorus: field.soilTest?.phosphorus ?? undefined,
+      potassium: field.soilTest?.potassium ?? undefined,
+      organicCarbon: field.soilTest?.organicCarbon ?? undefined,
+      testedAt: field.soilTest?.testedAt ? format(new Date(field.soilTest.testedAt), 'yyyy-MM-dd') : '',
+    } : emptyFormValues);
+    setEditingField(field);
+    setBoundary(field?.boundary ?? null);
+    setCorners([]);
+    setIsEditing(true);
+  };
+
+  const closeForm = () => {
+    form.reset(emptyFormValues);
+    setEditingField(null);
+    setBoundary(null);
+    setCorners([]);
+    setIsEditing(false);
+  };
+
+  const loadHistory = async (fieldId: string) => {
+    if (!fieldId || histories[fieldId]) return;
+    try {
+      const history = await getFieldHistory(fieldId);
+      setHistories(prev => ({ ...prev, [fieldId]: history }));
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load the crop history for this field." });
+    }
+  };
+
+  const handleBoundaryFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      let parsed: FieldBoundary | null = null;
+      try {
+        parsed = parseFieldBoundary(JSON.parse(reader.result as string));
+      } catch {
+        // Not JSON; reported below.
+      }
+      if (!parsed) {
+        toast({ variant: "destructive", title: "Invalid boundary", description: `"${file.name}" does not contain a GeoJSON polygon.` });
+        return;
+      }
+      setBoundary(parsed);
+      setCorners([]);
+    };
+    reader.readAsText(file);
+  };
+
+  const addCornerFromGps = () => {
+    if (!navigator.geolocation) {
+      toast({ variant: "destructive", title: "GPS unavailable", description: "Your browser cannot share your location." });
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const nextCorners: [number, number][] = [...corners, [coords.longitude, coords.latitude]];
+        setCorners(nextCorners);
+        setBoundary(boundaryFromCorners(nextCorners));
+        setLocating(false);
+      },
+      (error) => {
+        console.error(error);
+        toast({ variant: "destructive", title: "GPS unavailable", description: "Could not read your position. Please try again." });
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  const clearBoundary = () => {
+    setBoundary(null);
+    setCorners([]);
+  };
+
+  const applyBoundaryArea = () => {
+    if (!boundary) return;
+    const area = boundaryArea(boundary, form.getValues('areaUnit'));
+    form.setValue('area', Number(area.toFixed(2)), { shouldValidate: true });
+  };
+
+  async function onSubmit(values: FieldFormValues) {
+    const data = toFieldInput(values, boundary);
+    try {
+      if (editingField) {
+        await updateField(editingField.id, data);
+        toast({ title: "Success", description: "Field updated successfully!" });
+      } else {
+        await addField(data);
+        toast({ title: "Success", description: "Field added successfully!" });
+      }
+      closeForm();
+      setHistories({});
+      await refresh();
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Error", description: editingField ? "Could not update your field." : "Could not add your field." });
+    }
+  }
+
+  async function handleDelete(field: Field) {
+    try {
+      await deleteField(field.id);
+      toast({ title: "Field Deleted", description: `${field.name} has been removed. Its crops are kept in your history.` });
+      setHistories({});
+      await refresh();
+    } catch (error) {
+      console.error(error);
+      toast({ variant: "destructive", title: "Error", description: "Could not delete your field." });
+    }
+  }
+
+  const numberInput = (name: 'area' | 'ph' | 'nitrogen' | 'phosphorus' | 'potassium' | 'organicCarbon', label: string, placeholder: string) => (
+    <FormField control={form.control} name={name} render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input type="number" step="any" placeholder={placeholder} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))} />
+        </FormControl>
+        <FormMessage />
+      </FormItem>
+    )} />
+  );
+
+  return (
+    <Card className="shadow-lg border-primary/20 w-full">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <MapIcon className="text-primary" />
+          My Fields
+        </CardTitle>
+        <CardDescription>
+          Register your plots once to track what you grow on each and get advice that accounts for crop rotation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <div>
+            <h3 className="text-lg font-semibold mb-4">{editingField ? `Edit ${editingField.name}` : 'Add a New Field'}</h3>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField control={form.control} name="name" render={({ field }) => (
+                    <FormItem><FormLabel>Field Name*</FormLabel><FormControl><Input placeholder="e.g., North plot" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <div className="flex gap-2">
+                    <div className="flex-grow">{numberInput('area', 'Area*', 'e.g., 2')}</div>
+                    <FormField control={form.control} name="areaUnit" render={({ field }) => (
+                      <FormItem className="w-1/3">
+                        <FormLabel>Unit</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="Unit" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            {Object.entries(AREA_UNIT_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+                  </div>
+                  <FormField control={form.control} name="soilType" render={({ field }) => (
+                    <FormItem><FormLabel>Soil Type</FormLabel><FormControl><Input placeholder="e.g., Black cotton soil" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="village" render={({ field }) => (
+                    <FormItem><FormLabel>Village*</FormLabel><FormControl><Input placeholder="e.g., Ozar" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="district" render={({ field }) => (
+                    <FormItem><FormLabel>District*</FormLabel><FormControl><Input placeholder="e.g., Nashik" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="state" render={({ field }) => (
+                    <FormItem><FormLabel>State</FormLabel><FormControl><Input placeholder="e.g., Maharashtra" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-1"><MapIcon size={14} /> Boundary (Optional)</p>
+                  <CardDescription className="text-xs">
+                    Import a GeoJSON polygon, or walk the edge of your field and record each corner with your phone&apos;s GPS.
+                  </CardDescription>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                      <Upload className="mr-2 h-4 w-4" /> Import GeoJSON
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={addCornerFromGps} disabled={locating}>
+                      <LocateFixed className="mr-2 h-4 w-4" /> {locating ? 'Locating...' : `Record Corner${corners.length > 0 ? ` ${corners.length + 1}` : ''}`}
+                    </Button>
+                    {boundary && (
+                      <>
+                        <Button type="button" variant="ghost" size="sm" onClick={applyBoundaryArea}>Use Boundary Area</Button>
+                        <Button type="button" variant="ghost" size="sm" onClick={clearBoundary}><Eraser className="mr-2 h-4 w-4" /> Clear</Button>
+                      </>
+                    )}
+                    <Input type="file" accept=".geojson,.json,application/geo+json,application/json" className="hidden" ref={fileInputRef} onChange={handleBoundaryFile} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {boundary
+                      ? `Boundary with ${boundary.coordinates[0].length - 1} corners, about ${formatFieldArea({ area: boundaryArea(boundary, form.watch('areaUnit')), areaUnit: form.watch('areaUnit') })}.`
+                      : corners.length > 0 ? `${corners.length} corner recorded. Record at least 3.` : 'No boundary added.'}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-1"><TestTube2 size={14} /> Soil Test (Optional)</p>
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                    {numberInput('ph', 'pH', 'e.g., 6.8')}
+                    {numberInput('nitrogen', 'N (kg/ha)', 'e.g., 280')}
+                    {numberInput('phosphorus', 'P (kg/ha)', 'e.g., 12')}
+                    {numberInput('potassium', 'K (kg/ha)', 'e.g., 150')}
+                    {numberInput('organicCarbon', 'OC (%)', 'e.g., 0.6')}
+                    <FormField control={form.control} name="testedAt" render={({ field }) => (
+                      <FormItem><FormLabel>Tested On</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting ? <Loader /> : editingField ? 'Update Field' : 'Save Field'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={closeForm}>Cancel</Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        ) : (
+          <div>
+            <div className="flex justify-end mb-4">
+              <Button onClick={() => openForm(null)}><PlusCircle className="mr-2" /> Add New Field</Button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8"><Loader /></div>
+            ) : fields.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No fields registered yet.</p>
+            ) : (
+              <Accordion type="single" collapsible className="w-full" onValueChange={loadHistory}>
+                {fields.map(field => (
+                  <AccordionItem key={field.id} value={field.id}>
+                    <AccordionTrigger>
+                      <div className="text-left">
+                        <p className="font-semibold">{field.name}</p>
+                        <p className="text-sm text-muted-foreground font-normal">{formatFieldArea(field)} · {formatFieldLocation(field)}</p>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <div className="flex flex-wrap gap-2 text-sm">
+                        {field.soilType && <Badge variant="outline">{field.soilType}</Badge>}
+                        {field.boundary && <Badge variant="outline">Boundary mapped</Badge>}
+                        {field.soilTest && soilTestLabels.map(({ key, label, unit }) => field.soilTest?.[key] != null && (
+                          <Badge key={key} variant="secondary">{label}: {field.soilTest[key]}{unit && ` ${unit}`}</Badge>
+                        ))}
+                        {field.soilTest?.testedAt && <Badge variant="secondary">Tested {format(new Date(field.soilTest.testedAt), "PP")}</Badge>}
+                      </div>
+
+                      <div>
+                        <h4 className="font-semibold mb-2 flex items-center gap-2"><Sprout className="h-4 w-4 text-primary" /> Crop History</h4>
+                        <FieldTimeline history={histories[field.id]} />
+                      </div>
+
+                      <div className="flex gap-2 border-t pt-4">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => openForm(field)}>
+                          <Pencil className="mr-2 h-4 w-4" /> Edit Field
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button type="button" variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                              <Trash2 className="mr-2 h-4 w-4" /> Delete Field
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {field.name}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The field will be removed. Crops grown on it stay in your crop history but will no longer be linked to a field.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90" onClick={() => handleDelete(field)}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
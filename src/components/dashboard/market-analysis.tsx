@@ -16,6 +16,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { marketAnalysis, type MarketAnalysisInput, type MarketAnalysisOutput } from '@/ai/flows/market-analysis-flow';
 import { MarketAnalysisInputSchema } from '@/ai/schemas/market-analysis-schemas';
 import { MicButton } from '@/components/ui/mic-button';
+import { PriceHistoryCharts } from '@/components/dashboard/price-history-charts';
 import { useToast } from '@/hooks/use-toast';
 import { Bot, DollarSign, Lightbulb, TrendingUp, Info, MapPin, Package, Store, FileText, ArrowDown, ArrowUp, Minus, BarChart, Scale, ShoppingBasket, Brain, HelpCircle, Calendar, Link as LinkIcon, Briefcase, ChevronsUpDown } from 'lucide-react';
 import { useSpeechToText } from '@/hooks/use-speech-to-text';
@@ -263,6 +264,8 @@ export function MarketAnalysisTool() {
                       </AccordionContent>
                     </AccordionItem>
                   </Accordion>
+
+                  <PriceHistoryCharts mandi={analysis.mandi} />
                 </div>
               )}
             </CardContent>
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { createPriceAlert } from '@/lib/firebase/services';
+import type { MarketAnalysisOutput } from '@/ai/flows/market-analysis-flow';
+import { describePriceAlert } from '@/lib/price-alerts';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader } from '@/components/ui/loader';
+import { BellPlus } from 'lucide-react';
+
+const alertFormSchema = z.object({
+  condition: z.enum(['above', 'below', 'move']),
+  threshold: z.coerce.number().positive('Enter a number above zero.'),
+});
+type AlertFormValues = z.infer<typeof alertFormSchema>;
+
+interface PriceAlertDialogProps {
+  cropId: string | null;
+  mandi: MarketAnalysisOutput['mandi'];
+  currentPrice: number;
+  onCreated: () => void;
+}
+
+/** Sets a price alert on the commodity and mandi of a market analysis. */
+export function PriceAlertDialog({ cropId, mandi, currentPrice, onCreated }: PriceAlertDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<AlertFormValues>({
+    resolver: zodResolver(alertFormSchema),
+    defaultValues: { condition: 'above', threshold: Math.round(currentPrice * 1.1) },
+  });
+  const condition = form.watch('condition');
+
+  const onSubmit = async (values: AlertFormValues) => {
+    setSaving(true);
+    try {
+      const alert = await createPriceAlert({ cropId, ...mandi, ...values });
+      onCreated();
+      setOpen(false);
+      toast({ title: 'Price Alert Set', description: `You will be notified when ${describePriceAlert(alert)}.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline"><BellPlus className="mr-2 h-4 w-4" /> Set Price Alert</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Price Alert</DialogTitle>
+          <DialogDescription>
+            Get notified when the modal price of {mandi.commodity} at {mandi.market} reaches your target. It is ₹{currentPrice}/quintal now.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="condition" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Notify me when the price</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue('threshold', value === 'move' ? 10 : Math.round(currentPrice * (value === 'above' ? 1.1 : 0.9)));
+                  }}
+                  value={field.value}
+                >
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="above">Rises to a target price</SelectItem>
+                    <SelectItem value="below">Falls to a price</SelectItem>
+                    <SelectItem value="move">Moves by a percentage, either way</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )} />
+            <FormField control={form.control} name="threshold" render={({ field }) => (
+              <FormItem>
+                <FormLabel>{condition === 'move' ? 'Price move (%)' : 'Price (₹/quintal)'}</FormLabel>
+                <FormControl><Input type="number" min={0} step="any" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader /> : 'Set Alert'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
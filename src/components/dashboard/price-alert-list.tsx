@@ -0,0 +1,60 @@
+'use client';
+
+import { format } from 'date-fns';
+import { deletePriceAlert, rearmPriceAlert } from '@/lib/firebase/services';
+import { describePriceAlert } from '@/lib/price-alerts';
+import type { PriceAlert } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+interface PriceAlertListProps {
+  alerts: PriceAlert[];
+  onChanged: () => void;
+}
+
+/** The user's price alerts, with the price that triggered each one and actions to re-arm or delete it. */
+export function PriceAlertList({ alerts, onChanged }: PriceAlertListProps) {
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      onChanged();
+      toast({ title: success });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  return (
+    <ul className="divide-y">
+      {alerts.map(alert => (
+        <li key={alert.id} className="flex items-center justify-between gap-4 py-3">
+          <div>
+            <p className="font-semibold flex items-center gap-2">
+              {describePriceAlert(alert)}
+              <Badge variant={alert.status === 'triggered' ? 'default' : 'outline'}>{alert.status === 'triggered' ? 'Triggered' : 'Watching'}</Badge>
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Set at ₹{alert.baselinePrice}/quintal ({format(new Date(alert.baselineDate), 'PPP')})
+              {alert.status === 'triggered' && alert.triggeredPrice !== null && ` · Reached ₹${alert.triggeredPrice}/quintal`}
+              {alert.status === 'triggered' && alert.triggeredAt && ` on ${format(new Date(alert.triggeredAt), 'PPP')}`}
+            </p>
+          </div>
+          <div className="flex shrink-0">
+            {alert.status === 'triggered' && (
+              <Button type="button" variant="ghost" size="icon" onClick={() => run(() => rearmPriceAlert(alert.id), 'Price alert turned back on')} aria-label="Watch again">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            )}
+            <Button type="button" variant="ghost" size="icon" onClick={() => run(() => deletePriceAlert(alert.id), 'Price alert deleted')} aria-label="Delete alert">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { getPriceHistory, type PriceHistory, type PriceHistoryMandi } from '@/lib/price-history';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader } from '@/components/ui/loader';
+import { CalendarRange, LineChart as LineChartIcon, Store } from 'lucide-react';
+
+const RANGES = [30, 90, 365] as const;
+type Range = (typeof RANGES)[number];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const historyConfig = {
+  modalPrice: { label: 'Modal', color: 'hsl(var(--primary))' },
+  maxPrice: { label: 'Max', color: 'hsl(var(--secondary))' },
+  minPrice: { label: 'Min', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const seasonalConfig = {
+  typicalHigh: { label: 'Typical high', color: 'hsl(var(--secondary))' },
+  averagePrice: { label: 'Average', color: 'hsl(var(--primary))' },
+  typicalLow: { label: 'Typical low', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const nearbyConfig = {
+  modalPrice: { label: 'Modal price', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatPrice = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+/** Price history, seasonality and nearby mandi prices for the mandi a market analysis quoted. */
+export function PriceHistoryCharts({ mandi }: { mandi: PriceHistoryMandi }) {
+  const [data, setData] = useState<PriceHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<Range>(90);
+  const { commodity, market, district, state } = mandi;
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setError(null);
+    getPriceHistory({ commodity, market, district, state })
+      .then(result => !cancelled && setData(result))
+      .catch((err: any) => !cancelled && setError(err.message || 'Could not load the price history.'));
+    return () => { cancelled = true; };
+  }, [commodity, market, district, state]);
+
+  const history = useMemo(() => {
+    if (!data || data.history.length === 0) return [];
+    const latest = parseISO(data.history[data.history.length - 1].date);
+    const from = format(subDays(latest, range), 'yyyy-MM-dd');
+    return data.history.filter(point => point.date > from);
+  }, [data, range]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+  if (!data) {
+    return <div className="flex justify-center py-6"><Loader /></div>;
+  }
+
+  const seasonal = data.seasonal.map(point => ({ ...point, name: MONTHS[point.month] }));
+  const nearby = [
+    { market: data.market, modalPrice: data.history[data.history.length - 1]?.modalPrice ?? 0, selected: true },
+    ...data.nearby.map(entry => ({ market: entry.market, modalPrice: entry.modalPrice, selected: false })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2"><LineChartIcon/> Price History</CardTitle>
+            <CardDescription>{data.commodity} ({data.variety}) at {data.market}, {data.unit}</CardDescription>
+          </div>
+          <Tabs value={String(range)} onValueChange={value => setRange(Number(value) as Range)}>
+            <TabsList>
+              {RANGES.map(days => <TabsTrigger key={days} value={String(days)}>{days}d</TabsTrigger>)}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {history.length < 2 ? (
+            <p className="text-sm text-muted-foreground">Not enough imported prices in this period to draw a chart.</p>
+          ) : (
+            <ChartContainer config={historyConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={history} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={date => format(parseISO(date), range > 90 ? 'MMM yy' : 'd MMM')} />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatPrice} domain={['auto', 'auto']} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={date => format(parseISO(date), 'd MMM yyyy')} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="maxPrice" type="monotone" stroke="var(--color-maxPrice)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="modalPrice" type="monotone" stroke="var(--color-modalPrice)" strokeWidth={2} dot={false} />
+                <Line dataKey="minPrice" type="monotone" stroke="var(--color-minPrice)" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2"><CalendarRange/> Seasonal Profile</CardTitle>
+            <CardDescription>Typical modal prices by month since {format(parseISO(data.seasonalFrom), 'MMM yyyy')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {seasonal.length < 2 ? (
+              <p className="text-sm text-muted-foreground">More months of prices are needed to show a seasonal pattern.</p>
+            ) : (
+              <ChartContainer config={seasonalConfig} className="aspect-auto h-56 w-full">
+                <LineChart data={seasonal} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatPrice} domain={['auto', 'auto']} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(name, payload) => `${name} (${payload[0]?.payload.years} yr)`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="typicalHigh" type="monotone" stroke="var(--color-typicalHigh)" strokeDasharray="4 4" />
+                  <Line dataKey="averagePrice" type="monotone" stroke="var(--color-averagePrice)" strokeWidth={2} />
+                  <Line dataKey="typicalLow" type="monotone" stroke="var(--color-typicalLow)" strokeDasharray="4 4" />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2"><Store/> Nearby Mandis</CardTitle>
+            <CardDescription>Latest modal prices in {data.district} and the rest of {data.state}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {data.nearby.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No other mandi in {data.state} has reported {data.commodity} prices in the last month.</p>
+            ) : (
+              <ChartContainer config={nearbyConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={nearby} layout="vertical" margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatPrice} />
+                  <YAxis type="category" dataKey="market" tickLine={false} axisLine={false} width={96} />
+                  <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                  <Bar dataKey="modalPrice" radius={4}>
+                    {nearby.map((entry, index) => (
+                      <Cell key={index} fill={entry.selected ? 'hsl(var(--accent))' : 'var(--color-modalPrice)'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useSchemeApplications } from '@/hooks/use-scheme-applications';
+import { deleteSchemeApplication, setSchemeDocumentReady, updateSchemeApplication, uploadSchemeDocument } from '@/lib/firebase/services';
+import { CLOSED_APPLICATION_STATUSES, SCHEME_APPLICATION_STATUS_LABELS, pendingApplicationSteps } from '@/lib/scheme-applications';
+import type { SchemeApplication, SchemeApplicationStatus } from '@/lib/types';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Loader } from '@/components/ui/loader';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { BellRing, ClipboardList, FileCheck2, Link as LinkIcon, ListChecks, Paperclip, Trash2, Upload } from 'lucide-react';
+
+const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+const readAsDataUri = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+interface ApplicationDetailsProps {
+  application: SchemeApplication;
+  onChanged: () => void;
+}
+
+function ApplicationDetails({ application, onChanged }: ApplicationDetailsProps) {
+  const { toast } = useToast();
+  const [reference, setReference] = useState(application.applicationId ?? '');
+  const [notes, setNotes] = useState(application.notes);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef<string | null>(null);
+  const steps = pendingApplicationSteps(application);
+
+  const run = async (action: () => Promise<void>, success?: string) => {
+    try {
+      await action();
+      onChanged();
+      if (success) toast({ title: success });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const chooseFile = (documentId: string) => {
+    uploadTarget.current = documentId;
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const documentId = uploadTarget.current;
+    event.target.value = '';
+    if (!file || !documentId) return;
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast({ variant: 'destructive', title: 'File too large', description: `"${file.name}" is larger than 4MB. Please select a smaller file.` });
+      return;
+    }
+    setUploadingId(documentId);
+    await run(async () => uploadSchemeDocument(application.id, documentId, await readAsDataUri(file), file.name), 'Document uploaded');
+    setUploadingId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {steps.length > 0 && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+          <p className="font-semibold flex items-center gap-2"><BellRing className="h-4 w-4" /> Next steps</p>
+          <ul className="list-disc pl-5">
+            {steps.map((step, index) => <li key={index}>{step}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Status</p>
+          <Select
+            value={application.status}
+            onValueChange={(status) => run(() => updateSchemeApplication(application.id, { status: status as SchemeApplicationStatus }), 'Status updated')}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(SCHEME_APPLICATION_STATUS_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Since {format(new Date(application.statusUpdatedAt), 'PPP')}</p>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Application ID</p>
+          <div className="flex gap-2">
+            <Input placeholder="The reference number you were given" value={reference} onChange={e => setReference(e.target.value)} />
+            <Button
+              type="button"
+              variant="outline"
+              disabled={reference.trim() === (application.applicationId ?? '')}
+              onClick={() => run(() => updateSchemeApplication(application.id, { applicationId: reference }), 'Application ID saved')}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-semibold mb-2 flex items-center gap-2"><ListChecks className="h-4 w-4 text-primary" /> Documents</h4>
+        {application.documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents are listed for this scheme. Check the scheme&apos;s page for what to bring.</p>
+        ) : (
+          <ul className="divide-y">
+            {application.documents.map(document => (
+              <li key={document.id} className="flex items-center justify-between gap-4 py-2">
+                <label className="flex items-center gap-3 text-sm">
+                  <Checkbox
+                    checked={document.have}
+                    onCheckedChange={(checked) => run(() => setSchemeDocumentReady(application.id, document.id, checked === true))}
+                  />
+                  <span className={document.have ? 'line-through text-muted-foreground' : ''}>{document.name}</span>
+                </label>
+                <div className="flex items-center gap-2 shrink-0">
+                  {document.file && (
+                    <a href={`/api/scheme-documents/${application.id}/${document.id}`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline text-sm flex items-center gap-1" title={document.file.fileName}>
+                      <Paperclip className="h-4 w-4" /> View
+                    </a>
+                  )}
+                  <Button type="button" variant="ghost" size="sm" onClick={() => chooseFile(document.id)} disabled={uploadingId !== null}>
+                    {uploadingId === document.id ? <Loader /> : <><Upload className="mr-2 h-4 w-4" /> {document.file ? 'Replace' : 'Upload'}</>}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Input type="file" accept="application/pdf,image/jpeg,image/png,image/webp" className="hidden" ref={fileInputRef} onChange={handleFile} />
+      </div>
+
+      {application.applicationProcess && (
+        <div>
+          <h4 className="font-semibold mb-2 flex items-center gap-2"><FileCheck2 className="h-4 w-4 text-primary" /> How to apply</h4>
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{application.applicationProcess}</p>
+          {application.sourceLink && (
+            <a href={application.sourceLink} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline text-sm flex items-center gap-1 mt-2 break-all">
+              <LinkIcon className="h-4 w-4" /> {application.sourceLink}
+            </a>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Notes</p>
+        <Textarea placeholder="e.g., Submitted at the block office, spoke to the agriculture officer" maxLength={2000} value={notes} onChange={e => setNotes(e.target.value)} />
+        <Button type="button" variant="outline" size="sm" disabled={notes === application.notes} onClick={() => run(() => updateSchemeApplication(application.id, { notes }), 'Notes saved')}>
+          Save Notes
+        </Button>
+      </div>
+
+      <div className="flex gap-2 border-t pt-4">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" /> Stop Tracking
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Stop tracking this application?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your checklist, notes and application ID for {application.schemeName} will be deleted. This does not withdraw the application itself.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => run(() => deleteSchemeApplication(application.id), 'Application deleted')}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
+
+/** The user's scheme applications, with their document checklists, status and next steps. */
+export function SchemeApplications() {
+  const { applications, loading, refresh } = useSchemeApplications();
+
+  return (
+    <Card className="shadow-lg border-primary/20 w-full">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2">
+          <ClipboardList className="text-primary" />
+          My Scheme Applications
+        </CardTitle>
+        <CardDescription>
+          Gather the documents for each scheme you apply to, and follow your application until the money arrives.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader /></div>
+        ) : applications.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No applications yet. Find a scheme in NeerHub and choose &quot;Start Application&quot;.</p>
+        ) : (
+          <Accordion type="single" collapsible className="w-full">
+            {applications.map(application => {
+              const ready = application.documents.filter(document => document.have).length;
+              const closed = CLOSED_APPLICATION_STATUSES.includes(application.status);
+              return (
+                <AccordionItem key={application.id} value={application.id}>
+                  <AccordionTrigger>
+                    <div className="text-left flex-1 pr-4 space-y-1">
+                      <p className="font-semibold flex items-center gap-2">
+                        {application.schemeName}
+                        <Badge variant={closed ? 'secondary' : 'outline'}>{SCHEME_APPLICATION_STATUS_LABELS[application.status]}</Badge>
+                      </p>
+                      {application.documents.length > 0 && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground font-normal">
+                          <Progress value={(ready / application.documents.length) * 100} className="h-2 w-32" />
+                          {ready} of {application.documents.length} documents ready
+                        </div>
+                      )}
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <ApplicationDetails application={application} onChanged={refresh} />
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { SellOption, SellOptionsOutput } from '@/ai/schemas/sell-options-schemas';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown, Truck } from 'lucide-react';
+
+type SortKey = 'market' | 'distanceKm' | 'modalPrice' | 'transportCost' | 'fees' | 'netRealisation' | 'netPerQuintal';
+
+// Columns sort best-first when clicked: the highest prices, the lowest costs.
+const columns: { key: SortKey; label: string; descendingFirst: boolean }[] = [
+  { key: 'market', label: 'Mandi', descendingFirst: false },
+  { key: 'distanceKm', label: 'Distance', descendingFirst: false },
+  { key: 'modalPrice', label: 'Modal price', descendingFirst: true },
+  { key: 'transportCost', label: 'Transport', descendingFirst: false },
+  { key: 'fees', label: 'Fees & commission', descendingFirst: false },
+  { key: 'netRealisation', label: 'You keep', descendingFirst: true },
+  { key: 'netPerQuintal', label: 'Per quintal', descendingFirst: true },
+];
+
+const sortValue = (option: SellOption, key: SortKey) =>
+  key === 'fees' ? option.marketFee + option.commission : option[key];
+
+const formatRupees = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+/** The mandis within reach of a farm, ranked by what the farmer keeps; every column sorts. */
+export function SellOptionsTable({ data }: { data: SellOptionsOutput }) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'netRealisation', descending: true });
+
+  const rows = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...data.options].sort((a, b) => {
+      const left = sortValue(a, sort.key);
+      const right = sortValue(b, sort.key);
+      return direction * (typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number));
+    });
+  }, [data.options, sort]);
+  const best = data.options[0];
+
+  const toggleSort = (column: (typeof columns)[number]) =>
+    setSort(current => ({ key: column.key, descending: current.key === column.key ? !current.descending : column.descendingFirst }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2"><Truck/> Where to Sell</CardTitle>
+        <CardDescription>
+          {data.commodity} from {data.origin}, for {data.quantityQuintals.toLocaleString('en-IN')} quintal{data.quantityQuintals === 1 ? '' : 's'}
+          {data.quantityAssumed && ' (enter a yield such as "20 quintals" to see totals for your harvest)'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No mandi with recent {data.commodity} prices is within reach of {data.origin}.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map(column => (
+                  <TableHead key={column.key} className={cn(column.key !== 'market' && 'text-right')}>
+                    <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(column)}>
+                      {column.label}
+                      {sort.key !== column.key ? <ArrowUpDown className="h-3 w-3" /> : sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(option => (
+                <TableRow key={`${option.state}|${option.district}|${option.market}`}>
+                  <TableCell>
+                    <p className="font-medium flex items-center gap-2">
+                      {option.market}
+                      {option === best && <Badge>Best</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{option.district} · {option.variety} · {format(parseISO(option.priceDate), 'd MMM')}</p>
+                  </TableCell>
+                  <TableCell className="text-right">{option.distanceKm} km</TableCell>
+                  <TableCell className="text-right">{formatRupees(option.modalPrice)}</TableCell>
+                  <TableCell className="text-right">{formatRupees(option.transportCost)}</TableCell>
+                  <TableCell className="text-right">{formatRupees(option.marketFee + option.commission)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatRupees(option.netRealisation)}</TableCell>
+                  <TableCell className="text-right">{formatRupees(option.netPerQuintal)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground">{data.costNotes}</p>
+        {data.unlocatedMarkets.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Also quoting prices, but not ranked because their location is unknown: {data.unlocatedMarkets.join(', ')}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
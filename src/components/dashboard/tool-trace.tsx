@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import type { ToolTraceEntry } from '@/ai/flows/conversational-agent-flow';
+import { cn } from '@/lib/utils';
+import { Wrench, CircleAlert, ChevronDown } from 'lucide-react';
+
+const toolLabels: Record<string, string> = {
+  marketAnalysis: 'Market analysis',
+  getMandiPrices: 'Mandi prices',
+  findBestMandi: 'Where to sell',
+  cropRecommender: 'Crop recommendations',
+  governmentSchemes: 'Government schemes',
+  getEnvironmentalDataForLocation: 'Soil and weather',
+};
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2) ?? '';
+
+/** The tools the assistant ran for a reply, as chips that expand to show their input and result. */
+export function ToolTrace({ trace }: { trace: ToolTraceEntry[] }) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const openEntry = openIndex !== null ? trace[openIndex] : null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {trace.map((entry, index) => (
+          <button
+            key={index}
+            type="button"
+            aria-expanded={openIndex === index}
+            onClick={() => setOpenIndex(openIndex === index ? null : index)}
+            className={cn(
+              'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+              entry.error ? 'border-destructive/50 text-destructive' : 'border-primary/30 text-muted-foreground hover:bg-background',
+              openIndex === index && 'bg-background'
+            )}
+          >
+            {entry.error ? <CircleAlert className="h-3 w-3" /> : <Wrench className="h-3 w-3" />}
+            {toolLabels[entry.tool] ?? entry.tool}
+            <ChevronDown className={cn('h-3 w-3 transition-transform', openIndex === index && 'rotate-180')} />
+          </button>
+        ))}
+      </div>
+      {openEntry && (
+        <div className="rounded-md border bg-background p-2 text-xs space-y-2">
+          <p className="text-muted-foreground">{openEntry.tool} · {(openEntry.durationMs / 1000).toFixed(1)}s</p>
+          <div>
+            <p className="font-semibold">Input</p>
+            <pre className="max-h-32 overflow-auto whitespace-pre-wrap break-words">{formatJson(openEntry.input)}</pre>
+          </div>
+          <div>
+            <p className="font-semibold">{openEntry.error ? 'Error' : 'Result'}</p>
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words">{openEntry.error ?? formatJson(openEntry.output)}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { useState, useRef, useEffect, FormEvent } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/context/language-context';
 import { useSpeechToText } from '@/hooks/use-speech-to-text';
-import { startChat, type Message } from '@/ai/flows/conversational-agent-flow';
+import { runFlow } from '@genkit-ai/next/client';
+import type { conversationalAgentFlow, Message } from '@/ai/flows/conversational-agent-flow';
 import { languages } from '@/lib/i18n';
 import Image from 'next/image';
 import { useAuth } from '@/hooks/use-auth';
@@ -55,10 +56,13 @@ export function ConversationalAgent() {
       
       const history: Message[] = [...messages, userMessage];
 
-      const response = await startChat({ 
-        query: input,
-        language: currentLanguageName,
-        history: history.slice(0, -1) // Pass history without the current message
+      const { response } = await runFlow<typeof conversationalAgentFlow>({
+        url: '/api/chat',
+        input: {
+          query: input,
+          language: currentLanguageName,
+          history: history.slice(0, -1) // Pass history without the current message
+        },
       });
 
       const aiMessage: Message = { role: 'model', content: response };
@@ -1,110 +1,188 @@
-
 'use client';
 
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Sun, Cloud, CloudRain, Wind, Droplets, Thermometer } from "lucide-react";
+import { Sun, Cloud, CloudRain, CloudFog, CloudLightning, CloudOff, Wind, Droplets, Thermometer, AlertTriangle } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { Loader } from "@/components/ui/loader";
 import { useLanguage } from "@/context/language-context";
+import { getWeatherReport } from '@/lib/weather';
+import { getCurrentCrops } from '@/lib/firebase/services';
+import type { WeatherCondition, WeatherForecastDay, WeatherResult } from '@/lib/types';
+import { cn } from '@/lib/utils';
 
 interface WeatherCardProps {
   location: string | null;
 }
 
-const weatherIcons: { [key: string]: React.ReactNode } = {
+const weatherIcons: Record<WeatherCondition, React.ReactNode> = {
   Sunny: <Sun className="w-24 h-24 text-accent animate-spin-slow" />,
   "Partly Cloudy": <Cloud className="w-24 h-24 text-muted-foreground/50 animate-float" />,
+  Cloudy: <Cloud className="w-24 h-24 text-muted-foreground/70 animate-float" />,
+  Foggy: <CloudFog className="w-24 h-24 text-muted-foreground/60 animate-float" />,
   Rainy: <CloudRain className="w-24 h-24 text-blue-400 animate-float" />,
-  Windy: <Wind className="w-24 h-24 text-muted-foreground/60 animate-pulse" />,
+  Thunderstorm: <CloudLightning className="w-24 h-24 text-blue-500 animate-pulse" />,
 };
 
-const forecast = [
-  { day: 'Tomorrow', temp: '28°C', condition: 'Sunny' },
-  { day: 'Sat', temp: '25°C', condition: 'Partly Cloudy' },
-  { day: 'Sun', temp: '23°C', condition: 'Rainy' },
-  { day: 'Mon', temp: '26°C', condition: 'Partly Cloudy' },
-  { day: 'Tue', temp: '29°C', condition: 'Sunny' },
-];
-
-const forecastIcons: { [key: string]: React.ReactNode } = {
+const forecastIcons: Record<WeatherCondition, React.ReactNode> = {
   Sunny: <Sun className="w-8 h-8 text-accent" />,
   "Partly Cloudy": <Cloud className="w-8 h-8 text-muted-foreground/50" />,
+  Cloudy: <Cloud className="w-8 h-8 text-muted-foreground/70" />,
+  Foggy: <CloudFog className="w-8 h-8 text-muted-foreground/60" />,
   Rainy: <CloudRain className="w-8 h-8 text-blue-400" />,
-  Windy: <Wind className="w-8 h-8 text-muted-foreground/60" />,
+  Thunderstorm: <CloudLightning className="w-8 h-8 text-blue-500" />,
+};
+
+const uvLabel = (uv: number) => {
+  if (uv < 3) return 'Low';
+  if (uv < 6) return 'Moderate';
+  if (uv < 8) return 'High';
+  if (uv < 11) return 'Very High';
+  return 'Extreme';
+};
+
+const summarize = (today: WeatherForecastDay | undefined) => {
+  if (!today) return '';
+  if (today.condition === 'Thunderstorm') return 'Thunderstorms likely. Avoid open fields and secure loose equipment.';
+  if (today.rainfall >= 5 || today.condition === 'Rainy') return 'Rain expected today. Hold off on spraying and irrigation.';
+  if (today.temperatureMax !== null && today.temperatureMax >= 35) return 'Hot day ahead. Irrigate in the early morning or evening.';
+  return 'Good conditions for fieldwork.';
 };
 
 export function WeatherCard({ location }: WeatherCardProps) {
   const { t } = useLanguage();
-  const currentCondition = "Partly Cloudy";
-  const currentTemp = "26°C";
-  const summary = "Mild and pleasant. Good conditions for fieldwork.";
-  const windSpeed = "15 km/h";
-  const humidity = "68%";
-  const uvIndex = "High (7)";
-  const soilTemp = "19°C";
+  const [result, setResult] = useState<WeatherResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchWeather = async () => {
+      setResult(null);
+      // Alerts are tailored to the user's crops, but the weather is still useful without them.
+      const cropNames = await getCurrentCrops()
+        .then(crops => crops.map(crop => crop.cropName))
+        .catch(() => [] as string[]);
+      const weather = await getWeatherReport(location, cropNames);
+      if (!cancelled) {
+        setResult(weather);
+      }
+    };
+    fetchWeather();
+
+    return () => { cancelled = true; };
+  }, [location]);
+
+  const report = result?.status === 'ok' ? result.report : null;
+  const today = report?.forecast[0];
 
   return (
     <Card className="shadow-lg h-full overflow-hidden bg-card/50 backdrop-blur-lg border-primary/20">
       <CardHeader>
         <CardTitle className="font-headline text-2xl">{t('Current Weather')}</CardTitle>
-        <CardDescription>{location || t('Your Location')}</CardDescription>
+        <CardDescription>{report?.location || location || t('Your Location')}</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="flex flex-col items-center text-center space-y-4">
-          <div className="relative w-32 h-32 flex items-center justify-center">
-            {weatherIcons[currentCondition]}
+        {!result ? (
+          <div className="flex justify-center py-16">
+            <Loader />
           </div>
-          <div>
-            <p className="text-6xl font-bold font-headline text-foreground">{currentTemp}</p>
-            <p className="text-lg text-muted-foreground">{currentCondition}</p>
-          </div>
-          <p className="text-sm text-foreground/80 max-w-xs">{summary}</p>
-        </div>
-
-        <div className="my-6 grid grid-cols-2 gap-4 text-sm">
-          <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
-            <Wind className="w-6 h-6 text-primary animate-pulse"/>
-            <div>
-              <p className="font-semibold">Wind</p>
-              <p className="text-muted-foreground">{windSpeed}</p>
-            </div>
+        ) : result.status === 'unavailable' ? (
+          <div className="flex flex-col items-center text-center gap-3 py-12">
+            <CloudOff className="w-16 h-16 text-muted-foreground" />
+            <p className="font-semibold">Weather data unavailable</p>
+            <p className="text-sm text-muted-foreground max-w-xs">{result.reason}</p>
           </div>
-           <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
-            <Droplets className="w-6 h-6 text-primary animate-pulse [animation-delay:-0.5s]"/>
-            <div>
-              <p className="font-semibold">Humidity</p>
-              <p className="text-muted-foreground">{humidity}</p>
-            </div>
-          </div>
-           <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
-            <Sun className="w-6 h-6 text-primary animate-spin-slow [animation-delay:-1s]"/>
-            <div>
-              <p className="font-semibold">UV Index</p>
-              <p className="text-muted-foreground">{uvIndex}</p>
+        ) : report && (
+          <>
+            <div className="flex flex-col items-center text-center space-y-4">
+              <div className="relative w-32 h-32 flex items-center justify-center">
+                {weatherIcons[report.current.condition]}
+              </div>
+              <div>
+                <p className="text-6xl font-bold font-headline text-foreground">{report.current.temperature}°C</p>
+                <p className="text-lg text-muted-foreground">{report.current.condition}</p>
+              </div>
+              <p className="text-sm text-foreground/80 max-w-xs">{summarize(today)}</p>
             </div>
-          </div>
-           <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
-            <Thermometer className="w-6 h-6 text-primary"/>
-            <div>
-              <p className="font-semibold">Soil Temp</p>
-              <p className="text-muted-foreground">{soilTemp}</p>
+
+            <div className="my-6 grid grid-cols-2 gap-4 text-sm">
+              <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
+                <Wind className="w-6 h-6 text-primary animate-pulse"/>
+                <div>
+                  <p className="font-semibold">Wind</p>
+                  <p className="text-muted-foreground">{report.current.windSpeed} km/h</p>
+                </div>
+              </div>
+               <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
+                <Droplets className="w-6 h-6 text-primary animate-pulse [animation-delay:-0.5s]"/>
+                <div>
+                  <p className="font-semibold">Humidity</p>
+                  <p className="text-muted-foreground">{report.current.humidity}%</p>
+                </div>
+              </div>
+               <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
+                <Sun className="w-6 h-6 text-primary animate-spin-slow [animation-delay:-1s]"/>
+                <div>
+                  <p className="font-semibold">UV Index</p>
+                  <p className="text-muted-foreground">
+                    {report.current.uvIndex !== null ? `${uvLabel(report.current.uvIndex)} (${Math.round(report.current.uvIndex)})` : 'N/A'}
+                  </p>
+                </div>
+              </div>
+               <div className="flex items-center gap-2 p-2 bg-background/60 rounded-lg">
+                <Thermometer className="w-6 h-6 text-primary"/>
+                <div>
+                  <p className="font-semibold">Soil Temp</p>
+                  <p className="text-muted-foreground">
+                    {report.current.soilTemperature !== null ? `${Math.round(report.current.soilTemperature)}°C` : 'N/A'}
+                  </p>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-
-        <Separator />
-
-        <div className="mt-6">
-          <h3 className="font-headline text-lg mb-4 text-center">5-Day Forecast</h3>
-          <div className="flex justify-around">
-            {forecast.map((item, index) => (
-              <div key={index} className="flex flex-col items-center space-y-1">
-                <p className="font-semibold text-sm">{item.day}</p>
-                {forecastIcons[item.condition]}
-                <p className="text-sm text-muted-foreground">{item.temp}</p>
+
+            {report.alerts.length > 0 && (
+              <div className="mb-6 space-y-2">
+                <h3 className="font-headline text-lg">Farm Alerts</h3>
+                {report.alerts.map((alert, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      'flex items-start gap-2 p-3 rounded-lg border text-sm',
+                      alert.severity === 'severe'
+                        ? 'bg-red-100 dark:bg-red-900/30 border-red-500 text-red-800 dark:text-red-300'
+                        : 'bg-yellow-100 dark:bg-yellow-900/30 border-yellow-500 text-yellow-800 dark:text-yellow-300'
+                    )}
+                  >
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <div>
+                      <p className="font-semibold">{alert.title} · {format(new Date(alert.date), 'EEE, d MMM')}</p>
+                      <p>{alert.message}</p>
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            )}
+
+            <Separator />
+
+            <div className="mt-6">
+              <h3 className="font-headline text-lg mb-4 text-center">{report.forecast.length - 1}-Day Forecast</h3>
+              <div className="flex justify-around">
+                {report.forecast.slice(1).map((item, index) => (
+                  <div key={item.date} className="flex flex-col items-center space-y-1">
+                    <p className="font-semibold text-sm">{index === 0 ? 'Tomorrow' : format(parseISO(item.date), 'EEE')}</p>
+                    {forecastIcons[item.condition]}
+                    <p className="text-sm text-muted-foreground">{item.temperatureMax !== null ? `${item.temperatureMax}°C` : 'N/A'}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-4 text-xs text-center text-muted-foreground">
+                Source: {report.source} · Updated {format(new Date(report.fetchedAt), 'p')}
+              </p>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { deleteDevice, getDeviceReadings, rotateDeviceKey } from '@/lib/firebase/services';
+import { DEVICE_KIND_LABELS, READING_METRIC_INFO, READING_METRICS, formatReading } from '@/lib/devices';
+import type { Device, DeviceReading } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader } from '@/components/ui/loader';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { DeviceKeyNotice } from './register-device-dialog';
+import { DeviceReadingsChart } from './device-readings-chart';
+import { PumpControls } from './pump-controls';
+import { KeyRound, Trash2 } from 'lucide-react';
+
+interface DeviceCardProps {
+  device: Device;
+  fieldName: string;
+  onChanged: () => void;
+}
+
+/** A registered device with its latest readings, its readings over the last week, pump controls for a pump controller, and actions to replace its key or delete it. */
+export function DeviceCard({ device, fieldName, onChanged }: DeviceCardProps) {
+  const { toast } = useToast();
+  const [readings, setReadings] = useState<DeviceReading[] | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const metrics = READING_METRICS.filter(metric => device.latest[metric]);
+
+  const loadReadings = async () => {
+    try {
+      setReadings(await getDeviceReadings(device.id));
+    } catch (error: any) {
+      setReadings([]);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleRotateKey = async () => {
+    try {
+      setNewKey(await rotateDeviceKey(device.id));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteDevice(device.id);
+      onChanged();
+      toast({ title: 'Device Deleted', description: `${device.name} and its readings were removed.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  return (
+    <Card className="bg-background/50">
+      <CardHeader className="flex flex-row items-start justify-between gap-2">
+        <div>
+          <CardTitle className="text-lg">{device.name}</CardTitle>
+          <CardDescription>
+            {DEVICE_KIND_LABELS[device.kind]} on {fieldName} · {device.lastReadingAt ? `last reading ${formatDistanceToNow(new Date(device.lastReadingAt), { addSuffix: true })}` : 'no readings yet'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button size="icon" variant="ghost" title="New key"><KeyRound className="h-4 w-4" /></Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Create a new key?</AlertDialogTitle>
+                <AlertDialogDescription>The device's current key stops working, and its readings are refused until the new key is set on it.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRotateKey}>Create Key</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button size="icon" variant="ghost" title="Delete"><Trash2 className="h-4 w-4" /></Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {device.name}?</AlertDialogTitle>
+                <AlertDialogDescription>All of its readings are deleted too, and it can no longer send new ones.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {metrics.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Readings appear here once the device sends them.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {metrics.map(metric => {
+              const { value, recordedAt } = device.latest[metric]!;
+              return (
+                <div key={metric} className="rounded-lg border bg-card p-3">
+                  <p className="text-xs text-muted-foreground">{READING_METRIC_INFO[metric].label}</p>
+                  <p className="text-xl font-semibold">{formatReading(metric, value)}</p>
+                  <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(recordedAt), { addSuffix: true })}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {device.kind === 'pumpController' && <PumpControls device={device} onChanged={onChanged} />}
+        <Accordion type="single" collapsible onValueChange={(value) => value && !readings && loadReadings()}>
+          <AccordionItem value="readings">
+            <AccordionTrigger>Last 7 Days</AccordionTrigger>
+            <AccordionContent>
+              {readings ? <DeviceReadingsChart readings={readings} /> : <div className="flex justify-center py-4"><Loader /></div>}
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      </CardContent>
+
+      <Dialog open={!!newKey} onOpenChange={(open) => !open && setNewKey(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>New Key for {device.name}</DialogTitle>
+            <DialogDescription>The old key no longer works.</DialogDescription>
+          </DialogHeader>
+          {newKey && <DeviceKeyNotice deviceId={device.id} apiKey={newKey} />}
+          <DialogFooter>
+            <Button onClick={() => setNewKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
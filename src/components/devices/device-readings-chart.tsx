@@ -0,0 +1,45 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { READING_METRIC_INFO, READING_METRICS } from '@/lib/devices';
+import type { DeviceReading } from '@/lib/types';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+/** A device's recent readings, one chart for each metric it reports. */
+export function DeviceReadingsChart({ readings }: { readings: DeviceReading[] }) {
+  const series = useMemo(
+    () => READING_METRICS
+      .map(metric => ({ metric, data: readings.filter(reading => reading.metric === metric).map(reading => ({ time: Date.parse(reading.recordedAt), value: reading.value })) }))
+      .filter(({ data }) => data.length > 0),
+    [readings]
+  );
+
+  if (series.length === 0) {
+    return <p className="text-sm text-muted-foreground">No readings in the last week.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {series.map(({ metric, data }) => {
+        const { label, unit } = READING_METRIC_INFO[metric];
+        const config = { value: { label, color: 'hsl(var(--primary))' } } satisfies ChartConfig;
+        return (
+          <div key={metric}>
+            <p className="text-sm font-medium mb-1">{label} ({unit})</p>
+            <ChartContainer config={config} className="aspect-auto h-40 w-full">
+              <LineChart data={data} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickLine={false} axisLine={false} minTickGap={32} tickFormatter={time => format(time, 'd MMM')} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, [point]) => format(point.payload.time, 'd MMM, HH:mm')} />} />
+                <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={data.length < 30} />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { getPumpCommands, sendPumpCommand, setDeviceAutomaticIrrigation } from '@/lib/firebase/services';
+import { MAX_PUMP_RUN_MINUTES } from '@/lib/devices';
+import type { Device, PumpCommand, PumpCommandAction, PumpCommandStatus } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader } from '@/components/ui/loader';
+import { Switch } from '@/components/ui/switch';
+import { Power, PowerOff, RefreshCw } from 'lucide-react';
+
+const STATUS_LABELS: Record<PumpCommandStatus, string> = {
+  pending: 'Waiting',
+  sent: 'Sent',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+const describeCommand = (command: PumpCommand) =>
+  command.action === 'on' ? `On for ${command.durationMinutes} min` : 'Off';
+
+/**
+ * Manual control of a pump controller, whether it follows the field's saved schedule, and the
+ * log of the commands sent to it.
+ */
+export function PumpControls({ device, onChanged }: { device: Device; onChanged: () => void }) {
+  const { toast } = useToast();
+  const [minutes, setMinutes] = useState('30');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [commands, setCommands] = useState<PumpCommand[] | null>(null);
+
+  const loadCommands = async () => {
+    try {
+      setCommands(await getPumpCommands(device.id));
+    } catch (error: any) {
+      setCommands([]);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleCommand = async (action: PumpCommandAction) => {
+    setBusy(action);
+    try {
+      const command = await sendPumpCommand(device.id, action, action === 'on' ? Number(minutes) : undefined);
+      setCommands(current => current && [command, ...current]);
+      toast({ title: 'Command Queued', description: `${describeCommand(command)}: the bridge sends it to ${device.name} within seconds.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAutomaticChange = async (enabled: boolean) => {
+    setBusy('automatic');
+    try {
+      await setDeviceAutomaticIrrigation(device.id, enabled);
+      onChanged();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`automatic-${device.id}`} className="text-sm">Follow the saved irrigation schedule</Label>
+        <Switch id={`automatic-${device.id}`} checked={device.automaticIrrigation} disabled={!!busy} onCheckedChange={handleAutomaticChange} />
+      </div>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-sm">Run for (minutes)</Label>
+          <Input type="number" min={1} max={MAX_PUMP_RUN_MINUTES} value={minutes} onChange={(e) => setMinutes(e.target.value)} className="w-28" />
+        </div>
+        <Button size="sm" disabled={!!busy} onClick={() => handleCommand('on')}>
+          {busy === 'on' ? <Loader /> : <><Power className="mr-1 h-4 w-4" /> Switch On</>}
+        </Button>
+        <Button size="sm" variant="outline" disabled={!!busy} onClick={() => handleCommand('off')}>
+          {busy === 'off' ? <Loader /> : <><PowerOff className="mr-1 h-4 w-4" /> Switch Off</>}
+        </Button>
+      </div>
+      <Accordion type="single" collapsible onValueChange={(value) => value && !commands && loadCommands()}>
+        <AccordionItem value="commands" className="border-b-0">
+          <AccordionTrigger className="py-2">Command Log</AccordionTrigger>
+          <AccordionContent>
+            {!commands ? (
+              <div className="flex justify-center py-4"><Loader /></div>
+            ) : commands.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No commands have been sent to this pump.</p>
+            ) : (
+              <>
+                <ul className="divide-y text-sm">
+                  {commands.map(command => (
+                    <li key={command.id} className="flex items-center justify-between gap-2 py-2">
+                      <span>
+                        {format(new Date(command.createdAt), 'd MMM, HH:mm')}: {describeCommand(command)}
+                        <span className="text-muted-foreground"> · {command.source === 'schedule' ? `schedule (${command.eventDate})` : 'by hand'}</span>
+                        {command.error && <span className="block text-xs text-destructive">{command.error}</span>}
+                      </span>
+                      <Badge variant={command.status === 'sent' ? 'default' : command.status === 'pending' ? 'outline' : 'destructive'}>{STATUS_LABELS[command.status]}</Badge>
+                    </li>
+                  ))}
+                </ul>
+                <Button size="sm" variant="ghost" onClick={loadCommands}><RefreshCw className="mr-1 h-4 w-4" /> Refresh</Button>
+              </>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+}
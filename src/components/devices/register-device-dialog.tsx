@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { registerDevice } from '@/lib/firebase/services';
+import { DEVICE_KIND_LABELS } from '@/lib/devices';
+import type { DeviceKind, Field } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader } from '@/components/ui/loader';
+import { Copy, PlusCircle } from 'lucide-react';
+
+const deviceFormSchema = z.object({
+  fieldId: z.string().min(1, 'Pick the field the device is on.'),
+  name: z.string().trim().min(2, 'Give the device a name.'),
+  kind: z.enum(['sensor', 'pumpController']),
+});
+type DeviceFormValues = z.infer<typeof deviceFormSchema>;
+
+/**
+ * A device's API key, with an example request, shown once after it is created.
+ */
+export function DeviceKeyNotice({ deviceId, apiKey }: { deviceId: string; apiKey: string }) {
+  const { toast } = useToast();
+  const endpoint = `${window.location.origin}/api/devices/${deviceId}/readings`;
+  const example = `curl -X POST ${endpoint} \\\n  -H "Authorization: Bearer ${apiKey}" \\\n  -H "Content-Type: application/json" \\\n  -d '{"metric": "soilMoisture", "value": 24.5}'`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(apiKey);
+    toast({ title: 'Key Copied' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">Set this key on the device now. It is not shown again; if it is lost, create a new one.</p>
+      <div className="flex gap-2">
+        <Input readOnly value={apiKey} className="font-mono" onFocus={(e) => e.target.select()} />
+        <Button size="icon" variant="outline" onClick={handleCopy} title="Copy key"><Copy className="h-4 w-4" /></Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        The device posts readings of <code>soilMoisture</code> (%), <code>tankLevel</code> (%), <code>flowRate</code> (L/min) or <code>waterVolume</code> (litres since its last reading), one at a time or as <code>{'{"readings": [...]}'}</code> with an ISO <code>recordedAt</code> each:
+      </p>
+      <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">{example}</pre>
+      <p className="text-sm text-muted-foreground">
+        Over MQTT, the device publishes the same JSON, with the key added as <code>"key"</code>, to <code>neervaani/devices/{deviceId}/readings</code>. Pump controllers subscribe to <code>neervaani/devices/{deviceId}/commands</code>.
+      </p>
+    </div>
+  );
+}
+
+/** Registers a device on one of the user's fields and shows its API key. */
+export function RegisterDeviceDialog({ fields, onRegistered }: { fields: Field[]; onRegistered: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [created, setCreated] = useState<{ deviceId: string; apiKey: string } | null>(null);
+
+  const form = useForm<DeviceFormValues>({
+    resolver: zodResolver(deviceFormSchema),
+    defaultValues: { fieldId: '', name: '', kind: 'sensor' },
+  });
+
+  const onSubmit = async (values: DeviceFormValues) => {
+    setSaving(true);
+    try {
+      const { device, apiKey } = await registerDevice(values.fieldId, values.name, values.kind);
+      setCreated({ deviceId: device.id, apiKey });
+      onRegistered();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setCreated(null);
+      form.reset();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button disabled={fields.length === 0}><PlusCircle className="mr-2 h-4 w-4" /> Register Device</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{created ? 'Device Registered' : 'Register a Device'}</DialogTitle>
+          <DialogDescription>
+            Soil moisture sensors, tank sensors, flow meters and pump controllers connect to NeerVaani over HTTP or MQTT.
+          </DialogDescription>
+        </DialogHeader>
+        {created ? (
+          <>
+            <DeviceKeyNotice {...created} />
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="fieldId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Field</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select a field" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {fields.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="name" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl><Input placeholder="e.g., North corner probe" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="kind" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {(Object.keys(DEVICE_KIND_LABELS) as DeviceKind[]).map(kind => <SelectItem key={kind} value={kind}>{DEVICE_KIND_LABELS[kind]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Pump controllers switch the pump by MQTT, following the field's saved irrigation schedule.</FormDescription>
+                </FormItem>
+              )} />
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                <Button type="submit" disabled={saving}>{saving ? <Loader /> : 'Register'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
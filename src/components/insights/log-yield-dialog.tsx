@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { recordHarvestYield } from '@/lib/firebase/services';
+import type { SeasonWaterUse } from '@/lib/water-accounting';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/loader';
+
+const yieldFormSchema = z.object({
+  yieldQuintals: z.coerce.number().positive('Enter the yield in quintals.'),
+});
+type YieldFormValues = z.infer<typeof yieldFormSchema>;
+
+/** Records the yield of a harvested crop, for its water productivity. */
+export function LogYieldDialog({ season, onSaved }: { season: SeasonWaterUse; onSaved: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<YieldFormValues>({
+    resolver: zodResolver(yieldFormSchema),
+    defaultValues: { yieldQuintals: season.yieldQuintals ?? ('' as unknown as number) },
+  });
+
+  const onSubmit = async (values: YieldFormValues) => {
+    setSaving(true);
+    try {
+      await recordHarvestYield(season.cropId, values.yieldQuintals);
+      setOpen(false);
+      onSaved();
+      toast({ title: 'Yield Saved', description: `${values.yieldQuintals} quintals of ${season.cropName} from ${season.fieldName}.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">{season.yieldQuintals ? 'Edit Yield' : 'Log Yield'}</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Yield of {season.cropName}</DialogTitle>
+          <DialogDescription>The whole harvest from {season.fieldName}.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="yieldQuintals" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Yield (quintals)</FormLabel>
+                <FormControl><Input type="number" step="0.1" min={0} placeholder="e.g., 18" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader /> : 'Save'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
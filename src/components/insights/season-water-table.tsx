@@ -0,0 +1,63 @@
+'use client';
+
+import { format } from 'date-fns';
+import type { SeasonWaterUse } from '@/lib/water-accounting';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { LogYieldDialog } from './log-yield-dialog';
+
+const formatM3 = (value: number | null) => value === null ? '—' : `${value.toLocaleString('en-IN')} m³`;
+
+const appliedSource = (season: SeasonWaterUse) =>
+  season.meteredM3 !== null ? 'flow meters' : season.scheduledM3 !== null ? 'schedule' : null;
+
+/**
+ * The irrigation applied to each crop, from the field's flow meters or else its schedule, against
+ * its requirement, and the water productivity of harvested crops.
+ */
+export function SeasonWaterTable({ seasons, onChanged }: { seasons: SeasonWaterUse[]; onChanged: () => void }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Crop</TableHead>
+          <TableHead>Season</TableHead>
+          <TableHead className="text-right">Applied</TableHead>
+          <TableHead className="text-right">Requirement</TableHead>
+          <TableHead className="text-right">Of requirement</TableHead>
+          <TableHead className="text-right">Yield</TableHead>
+          <TableHead className="text-right">Productivity</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {seasons.map(season => {
+          const source = appliedSource(season);
+          const share = season.appliedM3 !== null && season.requirementM3 ? Math.round((100 * season.appliedM3) / season.requirementM3) : null;
+          return (
+            <TableRow key={season.cropId}>
+              <TableCell>
+                <p className="font-medium">{season.cropName}</p>
+                <p className="text-xs text-muted-foreground">{season.fieldName}</p>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(season.sowingDate), 'd MMM yyyy')} – {season.harvestedAt ? format(new Date(season.harvestedAt), 'd MMM yyyy') : <Badge variant="outline">Growing</Badge>}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatM3(season.appliedM3)}
+                {source && <p className="text-xs text-muted-foreground">from {source}</p>}
+              </TableCell>
+              <TableCell className="text-right">{formatM3(season.requirementM3)}</TableCell>
+              <TableCell className="text-right">{share === null ? '—' : `${share}%`}</TableCell>
+              <TableCell className="text-right">{season.yieldQuintals === null ? '—' : `${season.yieldQuintals} q`}</TableCell>
+              <TableCell className="text-right">{season.productivityKgPerM3 === null ? '—' : `${season.productivityKgPerM3} kg/m³`}</TableCell>
+              <TableCell className="text-right">
+                {season.status === 'harvested' && <LogYieldDialog season={season} onSaved={onChanged} />}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
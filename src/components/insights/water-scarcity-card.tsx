@@ -0,0 +1,67 @@
+'use client';
+
+import type { DistrictWaterScarcity, GroundwaterCategory, ScarcityLevel } from '@/lib/water-accounting';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Droplets } from 'lucide-react';
+
+const LEVEL_LABELS: Record<ScarcityLevel, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+  severe: 'Severe',
+};
+
+const CATEGORY_LABELS: Record<GroundwaterCategory, string> = {
+  safe: 'Safe',
+  semiCritical: 'Semi-critical',
+  critical: 'Critical',
+  overExploited: 'Over-exploited',
+};
+
+const SCOPE_NOTES = {
+  district: '',
+  state: ' (state average; no district figure)',
+  national: ' (national average; no figure for the district or state)',
+};
+
+/** A district's Water Scarcity Index with the groundwater and rainfall figures behind it. */
+export function WaterScarcityCard({ scarcity, assessmentYear }: { scarcity: DistrictWaterScarcity; assessmentYear: string }) {
+  return (
+    <Card className="bg-background/50">
+      <CardHeader className="flex flex-row items-start justify-between gap-2">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2"><Droplets className="h-5 w-5" /> {scarcity.district}</CardTitle>
+          {scarcity.state && <CardDescription>{scarcity.state}</CardDescription>}
+        </div>
+        {scarcity.status === 'ok' && (
+          <Badge variant={scarcity.level === 'severe' || scarcity.level === 'high' ? 'destructive' : 'secondary'}>{LEVEL_LABELS[scarcity.level]}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {scarcity.status === 'unavailable' ? (
+          <p className="text-sm text-muted-foreground">The index is not available for this district: {scarcity.reason}</p>
+        ) : (
+          <>
+            <div>
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm text-muted-foreground">Water Scarcity Index</p>
+                <p className="text-2xl font-semibold">{scarcity.index}<span className="text-sm text-muted-foreground"> / 100</span></p>
+              </div>
+              <Progress value={scarcity.index} className="mt-1" />
+            </div>
+            <ul className="text-sm space-y-1">
+              <li>
+                Groundwater: {scarcity.groundwaterStagePercent}% of recharge extracted, {CATEGORY_LABELS[scarcity.groundwaterCategory].toLowerCase()}
+                <span className="text-muted-foreground">{SCOPE_NOTES[scarcity.groundwaterScope]}</span>
+              </li>
+              <li>Normal rainfall: {scarcity.normalRainfallMm.toLocaleString('en-IN')} mm a year</li>
+            </ul>
+            <p className="text-xs text-muted-foreground">Groundwater from the CGWB assessment of {assessmentYear}.</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
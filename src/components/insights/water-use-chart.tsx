@@ -0,0 +1,36 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import type { SeasonWaterUse } from '@/lib/water-accounting';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+const chartConfig = {
+  applied: { label: 'Applied (m³)', color: 'hsl(var(--primary))' },
+  requirement: { label: 'Requirement (m³)', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+/** The irrigation applied to each season's crop next to what the crop needed. */
+export function WaterUseChart({ seasons }: { seasons: SeasonWaterUse[] }) {
+  const data = seasons
+    .filter(season => season.appliedM3 !== null || season.requirementM3 !== null)
+    .map(season => ({ season: `${season.cropName}, ${season.fieldName}`, applied: season.appliedM3 ?? 0, requirement: season.requirementM3 ?? 0 }))
+    .reverse(); // Oldest season on the left
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground">Save an irrigation schedule for a crop, or connect a flow meter to its field, to chart its water use.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ left: 8, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="season" tickLine={false} axisLine={false} minTickGap={16} />
+        <YAxis tickLine={false} axisLine={false} width={56} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="applied" fill="var(--color-applied)" radius={4} />
+        <Bar dataKey="requirement" fill="var(--color-requirement)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
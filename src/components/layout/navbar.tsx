@@ -18,18 +18,20 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Sheet, SheetContent, SheetTrigger, SheetClose, SheetHeader, SheetTitle } from '@/components/ui/sheet';
-import { LogOut, Menu } from 'lucide-react';
+import { Database, LogOut, Menu } from 'lucide-react';
 import { Logo } from '@/components/icons/logo';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
 import { useLanguage } from '@/context/language-context';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { NotificationCenter } from '@/components/layout/notification-center';
 
 const navLinks = [
   { href: '/dashboard', labelKey: 'Home' },
   { href: '/neerhub', labelKey: 'NeerHub' },
   { href: '/library', labelKey: 'Digital Library' },
+  { href: '/devices', labelKey: 'Devices' },
   { href: '/about', labelKey: 'About' },
   { href: '/insights', labelKey: 'Insights' },
 ] as const;
@@ -110,6 +112,7 @@ export function Navbar() {
         {/* Right Section - Profile & Mobile Menu */}
         <div className="flex items-center gap-2">
           <ThemeToggle />
+          {user && <NotificationCenter />}
           {user && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -130,6 +133,12 @@ export function Navbar() {
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                {user.role === 'admin' && (
+                  <DropdownMenuItem onClick={() => router.push('/admin/schemes')}>
+                    <Database className="mr-2 h-4 w-4" />
+                    <span>Schemes Dataset</span>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="mr-2 h-4 w-4" />
                   <span>{t('Log out')}</span>
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { markNotificationsRead } from '@/lib/firebase/services';
+import { summarizeNotifications } from '@/ai/flows/notification-summary-flow';
+import { useNotifications } from '@/hooks/use-notifications';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/context/language-context';
+import { languages } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bell, BellRing, CheckCheck, Square, Volume2 } from 'lucide-react';
+
+// How many notifications the spoken summary covers when none are unread.
+const SPOKEN_RECENT_COUNT = 3;
+
+/** The bell in the navbar, listing triggered price alerts, scheme application reminders and other notifications. */
+export function NotificationCenter() {
+  const { t, locale } = useLanguage();
+  const { toast } = useToast();
+  const { notifications, unreadCount, refresh } = useNotifications(true);
+  const [speaking, setSpeaking] = useState<'loading' | 'playing' | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopSpeaking = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setSpeaking(null);
+  };
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const handleMarkRead = async () => {
+    try {
+      await markNotificationsRead();
+      await refresh();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleListen = async () => {
+    const unread = notifications.filter(notification => !notification.read);
+    const toRead = unread.length > 0 ? unread : notifications.slice(0, SPOKEN_RECENT_COUNT);
+    setSpeaking('loading');
+    try {
+      const language = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
+      const { summary, audioDataUri } = await summarizeNotifications({
+        notifications: toRead.map(({ title, message }) => ({ title, message })),
+        language,
+      });
+      if (!audioDataUri) {
+        setSpeaking(null);
+        toast({ title: t('Notifications'), description: summary });
+        return;
+      }
+      const audio = new Audio(audioDataUri);
+      audioRef.current = audio;
+      audio.onended = stopSpeaking;
+      await audio.play();
+      setSpeaking('playing');
+    } catch (error) {
+      console.error(error);
+      setSpeaking(null);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not read your notifications aloud.' });
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => open && refresh()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-10 w-10 rounded-full">
+          {unreadCount > 0 ? <BellRing className="h-5 w-5" /> : <Bell className="h-5 w-5" />}
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">{t('Notifications')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b p-3">
+          <p className="font-semibold text-sm">{t('Notifications')}</p>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={notifications.length === 0 || speaking === 'loading'}
+              onClick={() => speaking === 'playing' ? stopSpeaking() : handleListen()}
+              title={speaking === 'playing' ? 'Stop' : 'Listen'}
+            >
+              {speaking === 'playing' ? <Square className="h-4 w-4" /> : <Volume2 className={cn('h-4 w-4', speaking === 'loading' && 'animate-pulse')} />}
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={unreadCount === 0} onClick={handleMarkRead} title="Mark all as read">
+              <CheckCheck className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <ScrollArea className="max-h-80">
+          {notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">Price alerts on your crops and reminders about your scheme applications will appear here.</p>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map(notification => (
+                <li key={notification.id} className={cn('p-3 text-sm', !notification.read && 'bg-primary/5')}>
+                  <p className="font-medium">{notification.title}</p>
+                  <p className="text-muted-foreground">{notification.message}</p>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {notification.createdAt && formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import type { DiagnosisFilters as Filters } from '@/lib/firebase/services';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+
+export type DiagnosisFilterValues = Omit<Filters, 'scope'>;
+
+const ANY = 'any';
+const healthStatuses = ['Healthy', 'Infected', 'At Risk'] as const;
+const severities = ['Low', 'Medium', 'High', 'N/A'] as const;
+
+interface DiagnosisFiltersProps {
+  onApply: (filters: DiagnosisFilterValues) => void;
+  disabled?: boolean;
+}
+
+export function DiagnosisFilters({ onApply, disabled }: DiagnosisFiltersProps) {
+  const [draft, setDraft] = useState<DiagnosisFilterValues>({});
+
+  const update = <K extends keyof DiagnosisFilterValues>(key: K, value: DiagnosisFilterValues[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value || undefined }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onApply(draft);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    onApply({});
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search symptoms, remedies and diseases, e.g. yellow spots neem oil"
+              value={draft.search ?? ''}
+              onChange={e => update('search', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            <Select value={draft.healthStatus ?? ANY} onValueChange={value => update('healthStatus', value === ANY ? undefined : value as DiagnosisFilterValues['healthStatus'])}>
+              <SelectTrigger aria-label="Health status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any status</SelectItem>
+                {healthStatuses.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={draft.severity ?? ANY} onValueChange={value => update('severity', value === ANY ? undefined : value as DiagnosisFilterValues['severity'])}>
+              <SelectTrigger aria-label="Severity"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any severity</SelectItem>
+                {severities.map(severity => <SelectItem key={severity} value={severity}>{severity === 'N/A' ? 'Not applicable' : severity}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Disease, e.g. Early Blight" value={draft.disease ?? ''} onChange={e => update('disease', e.target.value)} />
+            <Input placeholder="Crop, e.g. Tomato" value={draft.crop ?? ''} onChange={e => update('crop', e.target.value)} />
+            <Input placeholder="District or state" value={draft.region ?? ''} onChange={e => update('region', e.target.value)} />
+            <Input type="date" aria-label="From date" value={draft.from ?? ''} onChange={e => update('from', e.target.value)} />
+            <Input type="date" aria-label="To date" value={draft.to ?? ''} onChange={e => update('to', e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={disabled}><Search className="mr-2 h-4 w-4" /> Search</Button>
+            <Button type="button" variant="ghost" onClick={handleClear} disabled={disabled}><X className="mr-2 h-4 w-4" /> Clear</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
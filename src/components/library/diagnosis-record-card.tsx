@@ -2,14 +2,29 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import { format } from 'date-fns';
-import { type DiagnosisRecord } from '@/lib/firebase/services';
+import { toggleDiagnosisFeedback, type DiagnosisRecord, type DiagnosisReview, type DiagnosisReviewStatus, type DiagnosisFeedbackType } from '@/lib/firebase/services';
+import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ChevronsUpDown, Microscope, ShieldCheck, Bug, AlertTriangle, FlaskConical, CircleHelp, Calendar } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { DiagnosisReviewDialog } from '@/components/library/diagnosis-review-dialog';
+import { ChevronsUpDown, Microscope, ShieldCheck, Bug, AlertTriangle, FlaskConical, CircleHelp, Calendar, MapPin, Leaf, Cpu, ImageOff, BadgeCheck, PencilLine, XCircle, ThumbsUp, Flag, EyeOff } from 'lucide-react';
 
 const HealthStatusBadge = ({ status }: { status: 'Healthy' | 'Infected' | 'At Risk' }) => {
   const statusStyles = {
@@ -32,9 +47,58 @@ const HealthStatusBadge = ({ status }: { status: 'Healthy' | 'Infected' | 'At Ri
   )
 };
 
-export function DiagnosisRecordCard({ record }: { record: DiagnosisRecord }) {
+const reviewStyles: Record<DiagnosisReviewStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  confirmed: { label: 'Verified', className: 'bg-green-100 dark:bg-green-900/30 border-green-500 text-green-800 dark:text-green-300 hover:bg-green-100', icon: <BadgeCheck className="h-4 w-4" /> },
+  corrected: { label: 'Corrected by Expert', className: 'bg-blue-100 dark:bg-blue-900/30 border-blue-500 text-blue-800 dark:text-blue-300 hover:bg-blue-100', icon: <PencilLine className="h-4 w-4" /> },
+  rejected: { label: 'Rejected by Expert', className: 'bg-red-100 dark:bg-red-900/30 border-red-500 text-red-800 dark:text-red-300 hover:bg-red-100', icon: <XCircle className="h-4 w-4" /> },
+};
+
+const ReviewBadge = ({ status }: { status: DiagnosisReviewStatus }) => (
+  <Badge variant="outline" className={cn('gap-1.5', reviewStyles[status].className)}>
+    {reviewStyles[status].icon}
+    {reviewStyles[status].label}
+  </Badge>
+);
+
+interface DiagnosisRecordCardProps {
+  record: DiagnosisRecord;
+  myFeedback?: DiagnosisFeedbackType | null;
+  canGiveFeedback?: boolean;
+  canReview?: boolean;
+}
+
+export function DiagnosisRecordCard({ record, myFeedback = null, canGiveFeedback = false, canReview = false }: DiagnosisRecordCardProps) {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
-  const { diagnosis, createdAt, landSize, additionalNotes } = record;
+  const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState(myFeedback);
+  const [counts, setCounts] = useState({ upvote: record.upvotes, flag: record.flags });
+  const [review, setReview] = useState<DiagnosisReview | null>(record.review);
+  const [savingFeedback, setSavingFeedback] = useState(false);
+  const { diagnosis, createdAt, landSize, additionalNotes, images, cropName, location, modelVersion } = record;
+  const selectedImage = selectedImageIndex !== null ? images[selectedImageIndex] : null;
+  const isHidden = counts.flag > 0 && !review;
+
+  const handleFeedback = async (type: DiagnosisFeedbackType) => {
+    setSavingFeedback(true);
+    try {
+      const next = await toggleDiagnosisFeedback(record.id, type);
+      setCounts(prev => {
+        const updated = { ...prev };
+        if (feedback) updated[feedback] -= 1;
+        if (next) updated[next] += 1;
+        return updated;
+      });
+      setFeedback(next);
+      if (next === 'flag') {
+        toast({ title: 'Diagnosis Flagged', description: 'Thank you. An agronomist will review this diagnosis.' });
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSavingFeedback(false);
+    }
+  };
 
   // createdAt is now an ISO string, so we create a Date object from it
   const formattedDate = createdAt ? format(new Date(createdAt), 'MMMM d, yyyy') : 'Date not available';
@@ -44,19 +108,29 @@ export function DiagnosisRecordCard({ record }: { record: DiagnosisRecord }) {
       <Card className="shadow-md border-primary/10 transition-all hover:border-primary/30">
         <CardHeader className="flex flex-row items-center justify-between p-4">
           <div className="flex items-center gap-4">
-             <div className="flex flex-col items-center justify-center p-3 rounded-md bg-muted text-primary">
-                <Calendar className="h-6 w-6" />
-             </div>
+             {images.length > 0 ? (
+                <div className="relative h-14 w-14 shrink-0 rounded-md overflow-hidden border">
+                   <Image src={images[0].thumbnailUrl} alt={`${cropName || 'Crop'} photo`} fill sizes="56px" className="object-cover" />
+                </div>
+             ) : (
+                <div className="flex flex-col items-center justify-center p-3 rounded-md bg-muted text-primary">
+                   <Calendar className="h-6 w-6" />
+                </div>
+             )}
              <div>
                 <CardTitle className="text-lg font-bold">
                     {diagnosis.diseaseIdentification.name}
                 </CardTitle>
-                <CardDescription className="text-sm flex items-center gap-2 mt-1">
-                    Diagnosed on {formattedDate}
+                <CardDescription className="text-sm flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                    {cropName && <span className="flex items-center gap-1"><Leaf className="h-3 w-3" /> {cropName}</span>}
+                    {location && <span className="flex items-center gap-1"><MapPin className="h-3 w-3" /> {location}</span>}
+                    <span>Diagnosed on {formattedDate}</span>
                 </CardDescription>
              </div>
           </div>
           <div className="flex items-center gap-2">
+            {review && <ReviewBadge status={review.status} />}
+            {isHidden && <Badge variant="outline" className="gap-1.5"><EyeOff className="h-4 w-4" /> Awaiting Review</Badge>}
             <HealthStatusBadge status={diagnosis.healthStatus.status} />
             <CollapsibleTrigger asChild>
               <Button variant="ghost" size="sm" className="w-9 p-0">
@@ -69,6 +143,40 @@ export function DiagnosisRecordCard({ record }: { record: DiagnosisRecord }) {
         
         <CollapsibleContent>
           <CardContent className="p-4 pt-0 space-y-4">
+             {images.length > 0 ? (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                   {images.map((image, index) => (
+                      <button
+                         key={image.thumbnailUrl}
+                         type="button"
+                         className="relative h-24 w-24 shrink-0 rounded-md overflow-hidden border hover:border-primary transition-colors"
+                         onClick={() => setSelectedImageIndex(index)}
+                      >
+                         <Image src={image.thumbnailUrl} alt={`Photo ${index + 1} of ${images.length}`} fill sizes="96px" className="object-cover" />
+                      </button>
+                   ))}
+                </div>
+             ) : (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground"><ImageOff className="h-4 w-4" /> No photos were saved with this diagnosis.</p>
+             )}
+
+             {review && (
+                <Card className={cn('border', reviewStyles[review.status].className)}>
+                    <CardHeader className="pb-2">
+                        <CardTitle className="flex items-center gap-2 text-base">{reviewStyles[review.status].icon} Expert Review</CardTitle>
+                        <CardDescription>
+                            Reviewed by {review.reviewerName}{review.reviewedAt && ` on ${format(new Date(review.reviewedAt), 'MMMM d, yyyy')}`}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-2">
+                        {review.status === 'rejected' && <p className="font-semibold">The agronomist found this diagnosis to be wrong. Do not follow the remedies below.</p>}
+                        {review.correctedDiseaseName && <p><strong>Corrected Disease / Pest:</strong> {review.correctedDiseaseName}</p>}
+                        {review.correctedRemedies && <p><strong>Corrected Remedies:</strong> {review.correctedRemedies}</p>}
+                        <p>{review.notes}</p>
+                    </CardContent>
+                </Card>
+             )}
+
              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Card className="bg-muted/30">
                     <CardHeader>
@@ -118,9 +226,62 @@ export function DiagnosisRecordCard({ record }: { record: DiagnosisRecord }) {
                     </CardContent>
                 </Card>
              )}
+             <div className="flex flex-wrap items-center justify-between gap-2">
+                {modelVersion ? (
+                   <p className="flex items-center gap-1 text-xs text-muted-foreground"><Cpu className="h-3 w-3" /> Diagnosed by {modelVersion}</p>
+                ) : <span />}
+                <div className="flex flex-wrap items-center gap-2">
+                   <Button
+                      variant={feedback === 'upvote' ? 'default' : 'outline'}
+                      size="sm"
+                      disabled={!canGiveFeedback || savingFeedback}
+                      title={canGiveFeedback ? undefined : 'Log in to rate diagnoses'}
+                      onClick={() => handleFeedback('upvote')}
+                   >
+                      <ThumbsUp className="mr-2 h-4 w-4" /> This worked for me ({counts.upvote})
+                   </Button>
+                   {feedback === 'flag' ? (
+                      <Button variant="destructive" size="sm" disabled={savingFeedback} onClick={() => handleFeedback('flag')}>
+                         <Flag className="mr-2 h-4 w-4" /> Flagged
+                      </Button>
+                   ) : (
+                      <AlertDialog>
+                         <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={!canGiveFeedback || savingFeedback} title={canGiveFeedback ? undefined : 'Log in to flag diagnoses'}>
+                               <Flag className="mr-2 h-4 w-4" /> Flag
+                            </Button>
+                         </AlertDialogTrigger>
+                         <AlertDialogContent>
+                            <AlertDialogHeader>
+                               <AlertDialogTitle>Flag this diagnosis?</AlertDialogTitle>
+                               <AlertDialogDescription>
+                                  Flag a diagnosis if it is wrong or its remedies could harm crops. {review ? 'An agronomist has already reviewed it, so it stays in the library.' : 'It will be hidden from the community library until an agronomist reviews it.'}
+                               </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                               <AlertDialogCancel>Cancel</AlertDialogCancel>
+                               <AlertDialogAction onClick={() => handleFeedback('flag')}>Flag Diagnosis</AlertDialogAction>
+                            </AlertDialogFooter>
+                         </AlertDialogContent>
+                      </AlertDialog>
+                   )}
+                   {canReview && <DiagnosisReviewDialog record={{ ...record, review }} onReviewed={setReview} />}
+                </div>
+             </div>
           </CardContent>
         </CollapsibleContent>
       </Card>
+
+      <Dialog open={selectedImage !== null} onOpenChange={(open) => !open && setSelectedImageIndex(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogTitle>{cropName ? `${cropName}: ` : ''}{diagnosis.diseaseIdentification.name}</DialogTitle>
+          {selectedImage && (
+            <div className="relative w-full" style={{ aspectRatio: `${selectedImage.width} / ${selectedImage.height}` }}>
+              <Image src={selectedImage.url} alt={`Photo ${(selectedImageIndex ?? 0) + 1} of ${images.length}`} fill sizes="(max-width: 768px) 100vw, 768px" className="object-contain rounded-md" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Collapsible>
   );
 }
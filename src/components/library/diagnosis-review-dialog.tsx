@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { reviewDiagnosis, type DiagnosisRecord, type DiagnosisReview } from '@/lib/firebase/services';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader } from '@/components/ui/loader';
+import { Stethoscope } from 'lucide-react';
+
+const reviewFormSchema = z.object({
+  status: z.enum(['confirmed', 'corrected', 'rejected']),
+  notes: z.string().min(1, 'Add a note for the farmers reading this diagnosis.'),
+  correctedDiseaseName: z.string().optional(),
+  correctedRemedies: z.string().optional(),
+}).refine(values => values.status !== 'corrected' || values.correctedDiseaseName?.trim() || values.correctedRemedies?.trim(), {
+  message: 'Enter the corrected disease, remedies or both.',
+  path: ['correctedDiseaseName'],
+});
+type ReviewFormValues = z.infer<typeof reviewFormSchema>;
+
+interface DiagnosisReviewDialogProps {
+  record: DiagnosisRecord;
+  onReviewed: (review: DiagnosisReview) => void;
+}
+
+export function DiagnosisReviewDialog({ record, onReviewed }: DiagnosisReviewDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewFormSchema),
+    defaultValues: {
+      status: record.review?.status ?? 'confirmed',
+      notes: record.review?.notes ?? '',
+      correctedDiseaseName: record.review?.correctedDiseaseName ?? '',
+      correctedRemedies: record.review?.correctedRemedies ?? '',
+    },
+  });
+  const status = form.watch('status');
+
+  const onSubmit = async (values: ReviewFormValues) => {
+    setSaving(true);
+    try {
+      const review = await reviewDiagnosis(record.id, values);
+      onReviewed(review);
+      setOpen(false);
+      toast({ title: 'Review Saved', description: 'Your review is now shown with this diagnosis.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><Stethoscope className="mr-2 h-4 w-4" /> {record.review ? 'Update Review' : 'Review'}</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Review Diagnosis</DialogTitle>
+          <DialogDescription>
+            Confirm, correct or reject the AI's identification of {record.diagnosis.diseaseIdentification.name}
+            {record.cropName ? ` on ${record.cropName}` : ''}. Farmers will see your verdict and notes.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="status" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Verdict</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value="confirmed">Confirmed: the diagnosis and remedies are right</SelectItem>
+                    <SelectItem value="corrected">Corrected: part of it needs changing</SelectItem>
+                    <SelectItem value="rejected">Rejected: the diagnosis is wrong</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )} />
+            {status === 'corrected' && (
+              <>
+                <FormField control={form.control} name="correctedDiseaseName" render={({ field }) => (
+                  <FormItem><FormLabel>Corrected Disease / Pest</FormLabel><FormControl><Input placeholder={record.diagnosis.diseaseIdentification.name} {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="correctedRemedies" render={({ field }) => (
+                  <FormItem><FormLabel>Corrected Remedies</FormLabel><FormControl><Textarea rows={4} placeholder="Leave empty if the remedies are right." {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </>
+            )}
+            <FormField control={form.control} name="notes" render={({ field }) => (
+              <FormItem><FormLabel>Reviewer Notes</FormLabel><FormControl><Textarea rows={3} placeholder="e.g., The lesions with concentric rings point to early blight, not septoria." {...field} /></FormControl><FormMessage /></FormItem>
+            )} />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? <Loader /> : 'Save Review'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
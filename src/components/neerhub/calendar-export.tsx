@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { getCalendarFeedToken, resetCalendarFeedToken } from '@/lib/firebase/services';
+import { buildIrrigationCalendar, type CalendarSchedule } from '@/lib/irrigation-calendar';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/loader';
+import { CalendarSync, Copy, Download } from 'lucide-react';
+
+/** Downloads a whole irrigation schedule as an .ics file, for import into any calendar app. */
+export function CalendarDownloadButton({ schedule }: { schedule: CalendarSchedule }) {
+  const handleDownload = () => {
+    const calendar = buildIrrigationCalendar([schedule], `Irrigation: ${schedule.crop}`);
+    const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `irrigation-${schedule.crop.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleDownload}>
+      <Download className="mr-2 h-4 w-4" /> Download .ics
+    </Button>
+  );
+}
+
+/**
+ * Shows the signed-in user's calendar subscription link, which keeps a calendar app in step
+ * with all of their saved irrigation schedules as they are re-planned.
+ */
+export function CalendarSubscribeDialog() {
+  const { toast } = useToast();
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const feedUrl = token ? `${window.location.origin}/api/calendar/${token}.ics` : '';
+
+  const load = async (getToken: () => Promise<string>) => {
+    setLoading(true);
+    try {
+      setToken(await getToken());
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: 'Link Copied', description: 'Add it to your calendar app as a subscription (“From URL”).' });
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && !token && load(getCalendarFeedToken)}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline"><CalendarSync className="mr-2 h-4 w-4" /> Subscribe</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe in Your Calendar</DialogTitle>
+          <DialogDescription>
+            Your calendar app will show the saved irrigation schedules of all your fields, with a reminder before each one, and update when they are re-planned. Keep the link private: anyone with it can see your schedules.
+          </DialogDescription>
+        </DialogHeader>
+        {loading || !token ? (
+          <div className="flex justify-center py-4"><Loader /></div>
+        ) : (
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+            <Button size="icon" variant="outline" onClick={handleCopy} title="Copy link"><Copy className="h-4 w-4" /></Button>
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" disabled={loading} onClick={() => load(resetCalendarFeedToken)}>Reset Link</Button>
+          <Button asChild disabled={!token}>
+            <a href={feedUrl.replace(/^https?:/, 'webcal:')}>Open in Calendar App</a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
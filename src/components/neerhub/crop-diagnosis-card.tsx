@@ -22,7 +22,7 @@ import { Button } from '@/components/ui/button';
 import { Loader } from '@/components/ui/loader';
 import { MicButton } from '@/components/ui/mic-button';
 
-import { ChevronsUpDown, Microscope, Ruler, FileText, Image as ImageIcon, Sparkles, AlertTriangle, ShieldCheck, Bug, FlaskConical, CircleHelp, Library } from 'lucide-react';
+import { ChevronsUpDown, Microscope, Ruler, FileText, Image as ImageIcon, Sparkles, AlertTriangle, ShieldCheck, Bug, FlaskConical, CircleHelp, Library, Leaf, MapPin } from 'lucide-react';
 import { useLanguage } from '@/context/language-context';
 import { languages } from '@/lib/i18n';
 
@@ -75,6 +75,8 @@ export function CropDiagnosisCard() {
     defaultValues: {
       userId: user?.uid,
       photoDataUris: [],
+      cropName: '',
+      location: user?.location || '',
       landSize: '',
       additionalNotes: '',
       language: '',
@@ -170,6 +172,8 @@ export function CropDiagnosisCard() {
     try {
         await saveDiagnosis({
             photoDataUris: form.getValues('photoDataUris'),
+            cropName: form.getValues('cropName') || diagnosis.cropName,
+            location: form.getValues('location') || '',
             landSize: form.getValues('landSize') || '',
             additionalNotes: form.getValues('additionalNotes') || '',
             diagnosis: diagnosis,
@@ -249,6 +253,20 @@ export function CropDiagnosisCard() {
 
                     {/* Right Side - Other Inputs */}
                     <div className="space-y-6">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <FormField control={form.control} name="cropName" render={({ field }) => (
+                                <FormItem>
+                                <FormLabel className="flex items-center gap-1"><Leaf size={14}/> Crop (Optional)</FormLabel>
+                                <FormControl><Input placeholder="e.g., Tomato" {...field} /></FormControl>
+                                </FormItem>
+                            )} />
+                            <FormField control={form.control} name="location" render={({ field }) => (
+                                <FormItem>
+                                <FormLabel className="flex items-center gap-1"><MapPin size={14}/> Location (Optional)</FormLabel>
+                                <FormControl><Input placeholder="e.g., Pune, Maharashtra" {...field} /></FormControl>
+                                </FormItem>
+                            )} />
+                        </div>
                         <FormField control={form.control} name="landSize" render={({ field }) => (
                             <FormItem>
                             <FormLabel className="flex items-center gap-1"><Ruler size={14}/> Land Size (Optional)</FormLabel>
@@ -285,7 +303,7 @@ export function CropDiagnosisCard() {
 
             {diagnosis && (
               <div className="mt-8 space-y-4">
-                <h3 className="font-headline text-xl mb-4">Diagnosis Results</h3>
+                <h3 className="font-headline text-xl mb-4">Diagnosis Results{diagnosis.cropName && `: ${diagnosis.cropName}`}</h3>
                 
                 {/* Card 1: Health Status */}
                 <HealthStatusCard {...diagnosis.healthStatus} />
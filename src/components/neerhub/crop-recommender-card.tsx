@@ -10,6 +10,9 @@ import { useSpeechToText } from '@/hooks/use-speech-to-text';
 import { recommendCrops, type CropRecommenderInput, type CropRecommenderOutput } from '@/ai/flows/crop-recommender-flow';
 import { CropRecommenderInputSchema } from '@/ai/schemas/crop-recommender-schemas';
 import { cn } from '@/lib/utils';
+import { formatFieldArea, formatFieldLocation } from '@/lib/fields';
+import type { CurrentCrop, Field } from '@/lib/types';
+import { FieldPicker } from './field-picker';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -101,6 +104,15 @@ export function CropRecommenderCard() {
     }
   };
   
+  const onFieldSelected = (field: Field, { currentCrop, lastCrop }: { currentCrop: CurrentCrop | null; lastCrop: CurrentCrop | null }) => {
+    form.setValue('location', formatFieldLocation(field), { shouldValidate: true });
+    form.setValue('landSize', formatFieldArea(field));
+    if (field.soilType) form.setValue('soilType', field.soilType);
+    if (field.soilTest?.ph != null) form.setValue('soilPh', field.soilTest.ph);
+    // The next crop follows whatever is in the ground now, or the last one harvested.
+    form.setValue('lastCropGrown', (currentCrop ?? lastCrop)?.cropName ?? '');
+  };
+
   async function onSubmit(values: CropRecommenderInput) {
     setLoading(true);
     setAnalysis(null);
@@ -155,6 +167,8 @@ export function CropRecommenderCard() {
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 
+                <FieldPicker onSelect={onFieldSelected} />
+
                 {/* Primary Inputs */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                   <FormField control={form.control} name="location" render={({ field }) => (
@@ -294,6 +308,11 @@ export function CropRecommenderCard() {
             {analysis && (
               <div className="mt-8">
                 <h3 className="font-headline text-xl mb-4">Your Personalized Crop Recommendations</h3>
+                {analysis.environmentalDataSource && (
+                  <p className="text-xs text-muted-foreground -mt-2 mb-4">
+                    Climate and soil data for {analysis.environmentalDataSource.location} supplied by {analysis.environmentalDataSource.provider}.
+                  </p>
+                )}
                 <Accordion type="single" collapsible defaultValue="item-0" className="w-full space-y-4">
                   {analysis.recommendations.map((rec, index) => (
                     <AccordionItem key={index} value={`item-${index}`} className="border rounded-lg overflow-hidden">
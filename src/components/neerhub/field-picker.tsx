@@ -0,0 +1,54 @@
+'use client';
+
+import { useState } from 'react';
+import { useFields } from '@/hooks/use-fields';
+import { useToast } from '@/hooks/use-toast';
+import { getFieldHistory } from '@/lib/firebase/services';
+import { formatFieldArea, getRotationContext } from '@/lib/fields';
+import type { CurrentCrop, Field } from '@/lib/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Map as MapIcon } from 'lucide-react';
+
+interface FieldPickerProps {
+  onSelect: (field: Field, rotation: { currentCrop: CurrentCrop | null; lastCrop: CurrentCrop | null }) => void;
+}
+
+/**
+ * Lets the user pre-fill a form from one of their registered fields, including the crops
+ * grown on it. Renders nothing when the user has no fields.
+ */
+export function FieldPicker({ onSelect }: FieldPickerProps) {
+  const { toast } = useToast();
+  const { fields } = useFields();
+  const [selectedFieldId, setSelectedFieldId] = useState('');
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const handleChange = async (fieldId: string) => {
+    const field = fields.find(f => f.id === fieldId);
+    if (!field) return;
+    setSelectedFieldId(fieldId);
+    try {
+      const history = await getFieldHistory(fieldId);
+      onSelect(field, getRotationContext(history));
+    } catch (error) {
+      console.error(error);
+      onSelect(field, { currentCrop: null, lastCrop: null });
+      toast({ variant: 'destructive', title: 'Field history unavailable', description: 'Filled in the field details, but could not load its past crops.' });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium flex items-center gap-1"><MapIcon size={14}/> Fill from My Fields</label>
+      <Select onValueChange={handleChange} value={selectedFieldId}>
+        <SelectTrigger className="md:w-1/3"><SelectValue placeholder="Select a field" /></SelectTrigger>
+        <SelectContent>
+          {fields.map(field => <SelectItem key={field.id} value={field.id}>{field.name} ({formatFieldArea(field)})</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
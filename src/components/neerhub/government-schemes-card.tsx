@@ -1,13 +1,18 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useSpeechToText } from '@/hooks/use-speech-to-text';
 import { findSchemes, type GovernmentSchemesInput, type GovernmentSchemesOutput } from '@/ai/flows/government-schemes-flow';
 import { GovernmentSchemesInputSchema } from '@/ai/schemas/government-schemes-schemas';
+import type { CitedSchemeField, FieldSupportStatus } from '@/ai/schemas/government-schemes-schemas';
+import type { EligibilityStatus } from '@/ai/schemas/scheme-schemas';
+import { getFarmerProfile, saveFarmerProfile, startSchemeApplication } from '@/lib/firebase/services';
+import { SchemeProfileFields } from './scheme-profile-fields';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -17,26 +22,91 @@ import { Button } from '@/components/ui/button';
 import { Loader } from '@/components/ui/loader';
 import { MicButton } from '@/components/ui/mic-button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
-import { ChevronsUpDown, Landmark, Sparkles, UserCheck, ListChecks, Link as LinkIcon, Bot, Info, FileText, Gift, FileSignature } from 'lucide-react';
+import { ChevronsUpDown, Landmark, Sparkles, UserCheck, ListChecks, Link as LinkIcon, Bot, Info, FileText, Gift, FileSignature, CheckCircle2, HelpCircle, XCircle, ClipboardCheck, ClipboardList, Quote, TriangleAlert } from 'lucide-react';
 import { useLanguage } from '@/context/language-context';
 import { languages } from '@/lib/i18n';
 
+const ELIGIBILITY_GROUPS: { status: EligibilityStatus; title: string; icon: React.ReactNode }[] = [
+  { status: 'eligible', title: 'Eligible', icon: <CheckCircle2 className="text-green-600" /> },
+  { status: 'possiblyEligible', title: 'Possibly eligible — missing information', icon: <HelpCircle className="text-amber-500" /> },
+  { status: 'notEligible', title: 'Not eligible', icon: <XCircle className="text-destructive" /> },
+];
+
+const SUPPORT_WARNINGS: Record<Exclude<FieldSupportStatus, 'supported'>, string> = {
+  partlySupported: 'Some of this was not found in the cited sections. Check it on the official page:',
+  unsupported: 'This was not found in the cited sections. Check it on the official page.',
+  uncited: 'No source was given for this. Check it on the official page.',
+};
+
+type SchemeResult = GovernmentSchemesOutput['schemes'][number];
+
+/** The sections a summary field was drawn from, each showing its original text on hover, and any statements they do not back up. */
+function FieldSources({ scheme, field }: { scheme: SchemeResult; field: CitedSchemeField }) {
+  const citations = scheme.citations.filter(citation => citation.field === field);
+  const support = scheme.support[field];
+  return (
+    <div className="not-prose mt-2 space-y-2">
+      {citations.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          <Quote className="h-3 w-3" /> Source:
+          {citations.map((citation, index) => (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className="cursor-help font-normal" tabIndex={0}>
+                  {citation.section}{citation.item !== null && `, item ${citation.item + 1}`}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-sm max-h-64 overflow-y-auto whitespace-pre-line">
+                <p className="font-semibold mb-1">{citation.schemeName} — {citation.section}</p>
+                {citation.text}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      )}
+      {support.status !== 'supported' && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs">
+          <p className="flex items-center gap-1 font-medium"><TriangleAlert className="h-3 w-3 text-amber-500" /> {SUPPORT_WARNINGS[support.status]}</p>
+          {support.status === 'partlySupported' && (
+            <ul className="list-disc pl-5">
+              {support.unsupported.map((statement, index) => <li key={index}>{statement}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function GovernmentSchemesCard() {
+  const { user } = useAuth();
   const { toast } = useToast();
   const { t, locale } = useLanguage();
   const [isOpen, setIsOpen] = useState(true);
   const [analysis, setAnalysis] = useState<GovernmentSchemesOutput | null>(null);
   const [loading, setLoading] = useState(false);
+  const [startingApplication, setStartingApplication] = useState<string | null>(null);
 
   const form = useForm<GovernmentSchemesInput>({
     resolver: zodResolver(GovernmentSchemesInputSchema),
     defaultValues: {
       query: '',
       language: '',
+      profile: {},
     },
   });
 
+  // Start from the details the farmer saved last time.
+  useEffect(() => {
+    if (!user) return;
+    getFarmerProfile()
+      .then(profile => form.setValue('profile', profile))
+      .catch(error => console.error('Could not load the farmer profile:', error));
+  }, [user, form]);
+
   const { isRecording, startRecording, stopRecording } = useSpeechToText({ onTranscript: (t) => form.setValue('query', t) });
 
   async function onSubmit(values: GovernmentSchemesInput) {
@@ -44,6 +114,10 @@ export function GovernmentSchemesCard() {
     setAnalysis(null);
     try {
       const currentLanguageName = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
+      if (user && values.profile) {
+        // Saving is a convenience for next time, so the search goes ahead even if it fails.
+        saveFarmerProfile(values.profile).catch(error => console.error('Could not save the farmer profile:', error));
+      }
       const result = await findSchemes({...values, language: currentLanguageName});
       setAnalysis(result);
 
@@ -70,6 +144,24 @@ export function GovernmentSchemesCard() {
     }
   }
 
+  async function handleStartApplication(scheme: SchemeResult) {
+    setStartingApplication(scheme.sourceSchemeName);
+    try {
+      await startSchemeApplication({
+        schemeName: scheme.schemeName,
+        sourceSchemeName: scheme.sourceSchemeName,
+        sourceLink: scheme.sourceLink,
+        applicationProcess: scheme.applicationProcess,
+        documentsRequired: scheme.documentsRequired,
+      });
+      toast({ title: 'Application started', description: 'Track its documents and status under My Scheme Applications on your dashboard.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setStartingApplication(null);
+    }
+  }
+
   // Helper to render text with bullet points
   const renderWithBullets = (text: string) => {
     return (
@@ -122,6 +214,7 @@ export function GovernmentSchemesCard() {
                         </FormItem>
                     )}
                 />
+                <SchemeProfileFields form={form} />
                 <Button type="submit" disabled={loading} className="w-full md:w-auto">
                     <Sparkles className="mr-2" />
                     {loading ? 'Searching...' : 'Find Schemes'}
@@ -136,6 +229,7 @@ export function GovernmentSchemesCard() {
             )}
 
             {analysis && (
+              <TooltipProvider delayDuration={200}>
               <div className="mt-8 space-y-4">
                 <Card className="bg-background/50">
                     <CardHeader>
@@ -146,12 +240,15 @@ export function GovernmentSchemesCard() {
                     </CardContent>
                 </Card>
 
-                {analysis.schemes.length > 0 && (
-                    <>
-                        <h3 className="font-headline text-xl">Relevant Schemes Found</h3>
+                {ELIGIBILITY_GROUPS.map(group => {
+                  const schemes = analysis.schemes.filter(scheme => scheme.eligibilityCheck.status === group.status);
+                  if (schemes.length === 0) return null;
+                  return (
+                    <div key={group.status} className="space-y-2">
+                        <h3 className="font-headline text-xl flex items-center gap-2">{group.icon} {group.title}</h3>
                         <Accordion type="single" collapsible className="w-full">
-                        {analysis.schemes.map((scheme, index) => (
-                            <AccordionItem key={index} value={`item-${index}`}>
+                        {schemes.map((scheme, index) => (
+                            <AccordionItem key={index} value={`${group.status}-${index}`}>
                             <AccordionTrigger>
                                 <div className="flex items-center gap-3 text-lg text-left">
                                 <Landmark className="h-6 w-6 text-primary shrink-0" />
@@ -160,38 +257,67 @@ export function GovernmentSchemesCard() {
                             </AccordionTrigger>
                             <AccordionContent className="prose prose-sm max-w-none pl-4 border-l-2 border-primary/20 ml-4">
                                 <div className="space-y-4">
+                                    <div>
+                                        <h4 className="font-semibold flex items-center gap-2"><ClipboardCheck size={16}/> Why</h4>
+                                        <ul className="list-disc pl-5 space-y-1">
+                                            {scheme.eligibilityCheck.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                                        </ul>
+                                        {scheme.eligibilityCheck.notes.length > 0 && (
+                                            <>
+                                                <p className="text-sm text-muted-foreground mt-2">Also check these conditions yourself:</p>
+                                                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                                                    {scheme.eligibilityCheck.notes.map((note, i) => <li key={i}>{note}</li>)}
+                                                </ul>
+                                            </>
+                                        )}
+                                    </div>
                                     <div>
                                         <h4 className="font-semibold flex items-center gap-2"><FileText size={16}/> Details</h4>
                                         <p>{scheme.details}</p>
+                                        <FieldSources scheme={scheme} field="details" />
                                     </div>
                                      <div>
                                         <h4 className="font-semibold flex items-center gap-2"><Gift size={16}/> Benefits</h4>
                                         {renderWithBullets(scheme.benefits)}
+                                        <FieldSources scheme={scheme} field="benefits" />
                                     </div>
                                     <div>
                                         <h4 className="font-semibold flex items-center gap-2"><UserCheck size={16}/> Eligibility</h4>
                                         {renderWithBullets(scheme.eligibility)}
+                                        <FieldSources scheme={scheme} field="eligibility" />
                                     </div>
                                     <div>
                                         <h4 className="font-semibold flex items-center gap-2"><ListChecks size={16}/> Application Process</h4>
                                         <p>{scheme.applicationProcess}</p>
+                                        <FieldSources scheme={scheme} field="applicationProcess" />
                                     </div>
                                     <div>
                                         <h4 className="font-semibold flex items-center gap-2"><FileSignature size={16}/> Documents Required</h4>
                                         {renderWithBullets(scheme.documentsRequired)}
+                                        <FieldSources scheme={scheme} field="documentsRequired" />
                                     </div>
+                                    {scheme.sourceLink && (
                                      <div>
                                         <h4 className="font-semibold flex items-center gap-2"><LinkIcon size={16}/> Source Link</h4>
                                         <a href={scheme.sourceLink} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">{scheme.sourceLink}</a>
                                     </div>
+                                    )}
+                                    {user && (
+                                        <Button type="button" variant="outline" onClick={() => handleStartApplication(scheme)} disabled={startingApplication !== null}>
+                                            <ClipboardList className="mr-2 h-4 w-4" />
+                                            {startingApplication === scheme.sourceSchemeName ? 'Starting...' : 'Start Application'}
+                                        </Button>
+                                    )}
                                 </div>
                             </AccordionContent>
                             </AccordionItem>
                         ))}
                         </Accordion>
-                    </>
-                )}
+                    </div>
+                  );
+                })}
               </div>
+              </TooltipProvider>
             )}
           </CardContent>
         </CollapsibleContent>
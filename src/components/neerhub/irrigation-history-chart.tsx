@@ -0,0 +1,44 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { buildWaterHistory } from '@/lib/irrigation-schedules';
+import type { IrrigationSchedule } from '@/lib/types';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+const historyConfig = {
+  planned: { label: 'Planned', color: 'hsl(var(--muted-foreground))' },
+  applied: { label: 'Applied', color: 'hsl(var(--primary))' },
+  rainfall: { label: 'Rain logged', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+/** Planned irrigation against the irrigation done and the rain logged, cumulative over the season. */
+export function IrrigationHistoryChart({ schedule }: { schedule: IrrigationSchedule }) {
+  const history = useMemo(() => buildWaterHistory(schedule), [schedule]);
+  const totals = history[history.length - 1];
+
+  if (history.length < 2) {
+    return <p className="text-sm text-muted-foreground">The season's water history appears here as irrigations are done and rain is logged.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {totals.applied} mm applied of {totals.planned} mm planned, with {totals.rainfall} mm of rain logged.
+      </p>
+      <ChartContainer config={historyConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={history} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={date => format(parseISO(date), 'd MMM')} />
+          <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={value => `${value} mm`} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={date => format(parseISO(date), 'd MMM yyyy')} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="planned" type="stepAfter" stroke="var(--color-planned)" strokeDasharray="4 4" dot={false} />
+          <Line dataKey="applied" type="stepAfter" stroke="var(--color-applied)" strokeWidth={2} dot={false} />
+          <Line dataKey="rainfall" type="stepAfter" stroke="var(--color-rainfall)" dot={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
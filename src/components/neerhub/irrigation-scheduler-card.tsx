@@ -7,8 +7,11 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useSpeechToText } from '@/hooks/use-speech-to-text';
+import { useIrrigationSchedule } from '@/hooks/use-irrigation-schedule';
+import { getFieldSoilMoisture, saveIrrigationSchedule } from '@/lib/firebase/services';
 import { getIrrigationSchedule, type IrrigationSchedulerInput, type IrrigationSchedulerOutput } from '@/ai/flows/irrigation-scheduler-flow';
 import { IrrigationSchedulerInputSchema } from '@/ai/schemas/irrigation-scheduler-schemas';
+import { googleCalendarUrl } from '@/lib/irrigation-calendar';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -18,11 +21,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { Loader } from '@/components/ui/loader';
 import { MicButton } from '@/components/ui/mic-button';
-import { ChevronsUpDown, CalendarDays, Droplet, MapPin, Ruler, Wind, Bot, RotateCcw, CalendarClock, Leaf, CalendarPlus } from 'lucide-react';
-import { format } from 'date-fns';
+import { ChevronsUpDown, CalendarDays, Droplet, MapPin, Ruler, Wind, Bot, RotateCcw, CalendarClock, Leaf, CalendarPlus, Gauge, Waves, Save, Activity } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import Link from 'next/link';
 import { useLanguage } from '@/context/language-context';
 import { languages } from '@/lib/i18n';
+import { formatFieldLocation } from '@/lib/fields';
+import type { CurrentCrop, Field, FieldSoilMoisture } from '@/lib/types';
+import { FieldPicker } from './field-picker';
+import { SavedIrrigationSchedule } from './saved-irrigation-schedule';
+import { CalendarDownloadButton } from './calendar-export';
 
 export function IrrigationSchedulerCard() {
   const { user } = useAuth();
@@ -31,6 +39,12 @@ export function IrrigationSchedulerCard() {
   const [isOpen, setIsOpen] = useState(true);
   const [analysis, setAnalysis] = useState<IrrigationSchedulerOutput | null>(null);
   const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // The field and crop picked to fill the form, which a schedule can be saved to.
+  const [selection, setSelection] = useState<{ field: Field; cropId: string | null } | null>(null);
+  const { schedule: savedSchedule, setSchedule: setSavedSchedule, loading: loadingSavedSchedule } = useIrrigationSchedule(selection?.field.id ?? null);
+  // The latest reading of a soil moisture sensor on the picked field, if it has one.
+  const [soilMoisture, setSoilMoisture] = useState<FieldSoilMoisture | null>(null);
 
   const form = useForm<IrrigationSchedulerInput>({
     resolver: zodResolver(IrrigationSchedulerInputSchema),
@@ -40,6 +54,9 @@ export function IrrigationSchedulerCard() {
       landUnit: 'acres',
       lastCrop: '',
       termPeriod: 3,
+      sowingDate: undefined,
+      irrigationMethod: 'flood',
+      pumpFlowRate: undefined,
       rainfall: undefined,
       soilType: '',
       soilPh: undefined,
@@ -54,12 +71,33 @@ export function IrrigationSchedulerCard() {
   const { isRecording: isRecordingLastCrop, startRecording: startRecordingLastCrop, stopRecording: stopRecordingLastCrop } = useSpeechToText({ onTranscript: (t) => form.setValue('lastCrop', t) });
   const { isRecording: isRecordingCrop, startRecording: startRecordingCrop, stopRecording: stopRecordingCrop } = useSpeechToText({ onTranscript: (t) => form.setValue('selectedCrop', t) });
 
+  const onFieldSelected = (field: Field, { currentCrop, lastCrop }: { currentCrop: CurrentCrop | null; lastCrop: CurrentCrop | null }) => {
+    setSelection({ field, cropId: currentCrop?.id ?? null });
+    setSoilMoisture(null);
+    getFieldSoilMoisture(field.id).then(setSoilMoisture).catch(error => console.error(error));
+    form.setValue('location', formatFieldLocation(field), { shouldValidate: true });
+    form.setValue('landSize', String(field.area), { shouldValidate: true });
+    form.setValue('landUnit', field.areaUnit);
+    if (field.soilType) form.setValue('soilType', field.soilType);
+    if (field.soilTest?.ph != null) form.setValue('soilPh', field.soilTest.ph);
+    // Schedule the crop in the ground now, following the crop grown before it.
+    if (currentCrop) {
+      form.setValue('selectedCrop', currentCrop.cropName, { shouldValidate: true });
+      form.setValue('sowingDate', currentCrop.sowingDate.split('T')[0]);
+    }
+    form.setValue('lastCrop', lastCrop?.cropName ?? '');
+  };
+
   async function onSubmit(values: IrrigationSchedulerInput) {
     setLoading(true);
     setAnalysis(null);
     try {
       const currentLanguageName = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
-      const result = await getIrrigationSchedule({...values, language: currentLanguageName});
+      const result = await getIrrigationSchedule({
+        ...values,
+        language: currentLanguageName,
+        soilMoisture: soilMoisture ? { percent: soilMoisture.percent, recordedAt: soilMoisture.recordedAt } : undefined,
+      });
       setAnalysis(result);
     } catch (error) {
       console.error(error);
@@ -73,36 +111,19 @@ export function IrrigationSchedulerCard() {
     }
   }
 
-  const generateGoogleCalendarUrl = (event: {date: string, startTime: string, endTime: string, message: string}) => {
-    const createDate = (dateStr: string, timeStr: string) => {
-        const datePart = dateStr.split('T')[0];
-        const [year, month, day] = datePart.split('-').map(Number);
-        const [hours, minutes] = timeStr.split(':').map(Number);
-        return new Date(Date.UTC(year, month - 1, day, hours, minutes));
-    };
-    
-    const toGoogleISO = (date: Date) => {
-        return date.toISOString().replace(/-|:|\.\d{3}/g, '');
-    };
-    
-    const startDate = createDate(event.date, event.startTime);
-    const endDate = createDate(event.date, event.endTime);
-
-    const startTimeStr = toGoogleISO(startDate);
-    const endTimeStr = toGoogleISO(endDate);
-
-    const eventTitle = `Irrigation: ${form.getValues('selectedCrop')}`;
-    const eventDetails = event.message || `Scheduled irrigation for ${form.getValues('selectedCrop')}.`;
-
-    const googleCalendarUrl = new URL('https://www.google.com/calendar/render');
-    googleCalendarUrl.searchParams.append('action', 'TEMPLATE');
-    googleCalendarUrl.searchParams.append('text', eventTitle);
-    googleCalendarUrl.searchParams.append('dates', `${startTimeStr}/${endTimeStr}`);
-    googleCalendarUrl.searchParams.append('details', eventDetails);
-    googleCalendarUrl.searchParams.append('location', form.getValues('location'));
-
-    return googleCalendarUrl.toString();
-  }
+  const handleSave = async () => {
+    if (!selection || !analysis) return;
+    setSaving(true);
+    try {
+      setSavedSchedule(await saveIrrigationSchedule(selection.field.id, selection.cropId, form.getValues(), analysis));
+      setAnalysis(null);
+      toast({ title: 'Schedule Saved', description: `Mark irrigations done or skipped and log rain on ${selection.field.name} to keep the schedule up to date.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
 
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen} className="w-full">
@@ -130,6 +151,13 @@ export function IrrigationSchedulerCard() {
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 
+                <FieldPicker onSelect={onFieldSelected} />
+                {soilMoisture && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Activity size={14}/> {soilMoisture.deviceName} read {soilMoisture.percent}% soil moisture {formatDistanceToNow(new Date(soilMoisture.recordedAt), { addSuffix: true })}. Recent readings are used instead of assuming the soil is at field capacity.
+                  </p>
+                )}
+
                 {/* Primary Inputs */}
                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     <FormField control={form.control} name="selectedCrop" render={({ field }) => (
@@ -166,7 +194,7 @@ export function IrrigationSchedulerCard() {
                         <FormField control={form.control} name="landUnit" render={({ field }) => (
                             <FormItem className="w-1/3">
                                  <FormLabel>Unit</FormLabel>
-                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <Select onValueChange={field.onChange} value={field.value}>
                                     <FormControl><SelectTrigger><SelectValue placeholder="Unit" /></SelectTrigger></FormControl>
                                     <SelectContent>
                                         <SelectItem value="acres">Acres</SelectItem>
@@ -209,6 +237,35 @@ export function IrrigationSchedulerCard() {
                         <FormMessage />
                         </FormItem>
                     )} />
+                    <FormField control={form.control} name="irrigationMethod" render={({ field }) => (
+                        <FormItem>
+                        <FormLabel className="flex items-center gap-1"><Waves size={14}/> Irrigation Method</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                            <SelectContent>
+                                <SelectItem value="flood">Flood</SelectItem>
+                                <SelectItem value="furrow">Furrow</SelectItem>
+                                <SelectItem value="sprinkler">Sprinkler</SelectItem>
+                                <SelectItem value="drip">Drip</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <FormMessage />
+                        </FormItem>
+                    )} />
+                    <FormField control={form.control} name="pumpFlowRate" render={({ field }) => (
+                        <FormItem>
+                        <FormLabel className="flex items-center gap-1"><Gauge size={14}/> Pump Flow (litres/min)</FormLabel>
+                        <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="e.g., 300 for a 5 HP pump"
+                              value={field.value ?? ''}
+                              onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                            />
+                        </FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )} />
                 </div>
                 
                 <Button type="submit" disabled={loading} className="w-full md:w-auto">
@@ -223,9 +280,57 @@ export function IrrigationSchedulerCard() {
               </div>
             )}
 
+            {selection && !analysis && (
+              <div className="mt-8">
+                {loadingSavedSchedule ? (
+                  <div className="flex justify-center"><Loader /></div>
+                ) : savedSchedule ? (
+                  <SavedIrrigationSchedule schedule={savedSchedule} onChange={setSavedSchedule} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">{selection.field.name} has no saved irrigation schedule. Generate one and save it to track it through the season.</p>
+                )}
+              </div>
+            )}
+
             {analysis && (
               <div className="mt-8">
-                <h3 className="font-headline text-xl mb-4">Your Irrigation Schedule for {form.getValues('selectedCrop')}</h3>
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between mb-4">
+                  <h3 className="font-headline text-xl">Your Irrigation Schedule for {form.getValues('selectedCrop')}</h3>
+                  <div className="flex gap-2">
+                    <CalendarDownloadButton
+                      schedule={{ id: `${form.getValues('selectedCrop')}-${analysis.plan.sowingDate}`, crop: form.getValues('selectedCrop'), location: form.getValues('location'), events: analysis.schedule }}
+                    />
+                    {selection && (
+                      <Button size="sm" onClick={handleSave} disabled={saving}>
+                        {saving ? <Loader /> : <><Save className="mr-2 h-4 w-4" /> Save to {selection.field.name}</>}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {analysis.environmentalDataSource && (
+                  <p className="text-xs text-muted-foreground -mt-2 mb-4">
+                    Weather and soil data for {analysis.environmentalDataSource.location} supplied by {analysis.environmentalDataSource.provider}.
+                  </p>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                    {[
+                      { label: 'Crop water use', value: `${Math.round(analysis.plan.cropWaterUseMm)} mm` },
+                      { label: 'Effective rain', value: `${Math.round(analysis.plan.effectiveRainMm)} mm` },
+                      { label: 'Irrigation to apply', value: `${Math.round(analysis.plan.totalDepthMm)} mm` },
+                      { label: 'Water for the field', value: `${(analysis.plan.totalVolumeLitres / 1000).toLocaleString('en-IN', { maximumFractionDigits: 0 })} m³` },
+                    ].map(stat => (
+                      <div key={stat.label} className="rounded-lg border bg-card p-3">
+                        <p className="text-xs text-muted-foreground">{stat.label}</p>
+                        <p className="font-semibold text-lg">{stat.value}</p>
+                      </div>
+                    ))}
+                </div>
+                <ul className="text-xs text-muted-foreground list-disc pl-5 mb-4 space-y-1">
+                    {analysis.plan.assumptions.map(assumption => <li key={assumption}>{assumption}</li>)}
+                </ul>
+                {analysis.schedule.length === 0 && (
+                  <p className="text-sm text-muted-foreground">The soil holds enough water for the planned period; no irrigation is needed yet.</p>
+                )}
                  <Card className="bg-background/50">
                     <CardContent className="p-4">
                         <ul className="space-y-4">
@@ -239,13 +344,13 @@ export function IrrigationSchedulerCard() {
                                     <div>
                                         <p className="font-semibold">{event.message}</p>
                                         <p className="text-sm text-muted-foreground">
-                                            Recommended time: {event.startTime} - {event.endTime}
+                                            {event.depthMm} mm · {event.volumeLitres.toLocaleString('en-IN')} litres · pump {event.startTime} - {event.endTime} ({Math.floor(event.runTimeMinutes / 60)} h {event.runTimeMinutes % 60} min)
                                         </p>
                                     </div>
                                 </div>
 
                                 <a
-                                  href={generateGoogleCalendarUrl(event)}
+                                  href={googleCalendarUrl(event, form.getValues('selectedCrop'), form.getValues('location'))}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="w-full sm:w-auto"
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { logRainfall, recordIrrigationEvent, replanIrrigationSchedule } from '@/lib/firebase/services';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/context/language-context';
+import { languages } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import type { IrrigationEventStatus, IrrigationSchedule } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/loader';
+import { IrrigationHistoryChart } from './irrigation-history-chart';
+import { CalendarDownloadButton, CalendarSubscribeDialog } from './calendar-export';
+import { Check, CloudRain, RefreshCw, SkipForward, Undo2 } from 'lucide-react';
+
+interface SavedIrrigationScheduleProps {
+  schedule: IrrigationSchedule;
+  onChange: (schedule: IrrigationSchedule) => void;
+}
+
+const STATUS_LABELS: Record<IrrigationEventStatus, string> = {
+  planned: 'Planned',
+  done: 'Done',
+  skipped: 'Skipped',
+};
+
+/**
+ * A field's saved irrigation schedule. The farmer marks irrigations done or skipped and logs
+ * the rain they measure; skipping and rain re-plan the upcoming irrigations.
+ */
+export function SavedIrrigationSchedule({ schedule, onChange }: SavedIrrigationScheduleProps) {
+  const { toast } = useToast();
+  const { locale } = useLanguage();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [rainDate, setRainDate] = useState(today);
+  const [rainfall, setRainfall] = useState('');
+
+  const replan = async (updated: IrrigationSchedule) => {
+    const language = languages.find(l => l.code === locale)?.name.split(' ')[0] || 'English';
+    const { schedule: replanned, summary } = await replanIrrigationSchedule(updated.id, language);
+    onChange(replanned);
+    toast({ title: 'Schedule Re-planned', description: summary });
+  };
+
+  // Runs an update, then re-plans if the soil water balance has changed.
+  const run = async (key: string, update: () => Promise<IrrigationSchedule>, shouldReplan: boolean) => {
+    setBusy(key);
+    try {
+      const updated = await update();
+      onChange(updated);
+      if (shouldReplan) await replan(updated);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLogRain = () => {
+    const amount = Number(rainfall);
+    if (rainfall === '' || !(amount >= 0)) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Enter the rain measured in millimetres.' });
+      return;
+    }
+    run('rain', async () => {
+      const updated = await logRainfall(schedule.id, rainDate, amount);
+      setRainfall('');
+      return updated;
+    }, true);
+  };
+
+  const upcoming = schedule.events.filter(event => event.status === 'planned' && event.date >= today);
+  const recent = schedule.events.filter(event => event.status !== 'planned' || event.date < today).reverse();
+
+  return (
+    <Card className="bg-background/50">
+      <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <CardTitle className="text-lg">Saved Schedule: {schedule.input.selectedCrop}</CardTitle>
+          <CardDescription>
+            Since {format(parseISO(schedule.startDate), 'd MMM yyyy')}
+            {schedule.replannedAt && `, re-planned ${formatDistanceToNow(new Date(schedule.replannedAt), { addSuffix: true })}`}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <CalendarDownloadButton schedule={{ id: schedule.id, crop: schedule.input.selectedCrop, location: schedule.input.location, events: schedule.events }} />
+          <CalendarSubscribeDialog />
+          <Button size="sm" variant="outline" disabled={!!busy} onClick={() => run('replan', async () => schedule, true)}>
+            {busy === 'replan' ? <Loader /> : <><RefreshCw className="mr-2 h-4 w-4" /> Re-plan</>}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-1">
+            <label className="text-sm font-medium flex items-center gap-1"><CloudRain size={14}/> Rain on</label>
+            <Input type="date" value={rainDate} max={today} min={schedule.startDate} onChange={(e) => setRainDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Measured (mm)</label>
+            <Input type="number" min={0} step="any" placeholder="e.g., 12" value={rainfall} onChange={(e) => setRainfall(e.target.value)} />
+          </div>
+          <Button type="button" variant="secondary" disabled={!!busy} onClick={handleLogRain}>
+            {busy === 'rain' ? <Loader /> : 'Log Rain'}
+          </Button>
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-2">Upcoming</h4>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No irrigation is planned. Re-plan after a dry spell to check.</p>
+          ) : (
+            <ul className="space-y-2">
+              {upcoming.map(event => (
+                <li key={event.date} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border bg-card">
+                  <div>
+                    <p className="font-medium">{format(parseISO(event.date), 'EEE, d MMM')}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {event.depthMm} mm · {event.volumeLitres.toLocaleString('en-IN')} litres · pump {event.startTime} - {event.endTime}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" disabled={!!busy} onClick={() => run(event.date, () => recordIrrigationEvent(schedule.id, event.date, 'done'), false)}>
+                      {busy === event.date ? <Loader /> : <><Check className="mr-1 h-4 w-4" /> Done</>}
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={!!busy} onClick={() => run(event.date, () => recordIrrigationEvent(schedule.id, event.date, 'skipped'), true)}>
+                      <SkipForward className="mr-1 h-4 w-4" /> Skip
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Accordion type="single" collapsible>
+          <AccordionItem value="history">
+            <AccordionTrigger>Season History</AccordionTrigger>
+            <AccordionContent className="space-y-4">
+              <IrrigationHistoryChart schedule={schedule} />
+              {recent.length > 0 && (
+                <ul className="divide-y text-sm">
+                  {recent.map(event => (
+                    <li key={event.date} className="flex items-center justify-between gap-2 py-2">
+                      <span>
+                        {format(parseISO(event.date), 'd MMM')}: {event.status === 'done' ? `${event.appliedDepthMm} mm applied` : `${event.depthMm} mm planned`}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <Badge variant={event.status === 'done' ? 'default' : 'secondary'} className={cn(event.status === 'planned' && 'opacity-60')}>
+                          {event.status === 'planned' ? 'Not recorded' : STATUS_LABELS[event.status]}
+                        </Badge>
+                        {event.status === 'planned' ? (
+                          <Button size="sm" variant="ghost" disabled={!!busy} onClick={() => run(event.date, () => recordIrrigationEvent(schedule.id, event.date, 'done'), true)}>
+                            <Check className="mr-1 h-4 w-4" /> Done
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="ghost" disabled={!!busy} title="Undo" onClick={() => run(event.date, () => recordIrrigationEvent(schedule.id, event.date, 'planned'), true)}>
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {schedule.rainfallLog.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Rain logged: {schedule.rainfallLog.map(entry => `${format(parseISO(entry.date), 'd MMM')} ${entry.rainfall} mm`).join(', ')}
+                </p>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import type { UseFormReturn } from 'react-hook-form';
+import type { GovernmentSchemesInput } from '@/ai/schemas/government-schemes-schemas';
+import { OccupationSchema, SocialCategorySchema } from '@/ai/schemas/scheme-schemas';
+import { INDIAN_STATES, OCCUPATION_LABELS, SOCIAL_CATEGORY_LABELS } from '@/lib/scheme-eligibility';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { UserCheck } from 'lucide-react';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+/**
+ * The farmer's details that scheme eligibility is checked against. Every field is optional;
+ * schemes that depend on a blank one are shown as possibly eligible.
+ */
+export function SchemeProfileFields({ form }: { form: UseFormReturn<GovernmentSchemesInput> }) {
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2"><UserCheck size={16}/> Your details</h4>
+        <p className="text-sm text-muted-foreground">Optional. Used to check which schemes you can apply for.</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField control={form.control} name="profile.state" render={({ field }) => (
+          <FormItem>
+            <FormLabel>State</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? ''}>
+              <FormControl><SelectTrigger><SelectValue placeholder="Select your state" /></SelectTrigger></FormControl>
+              <SelectContent>
+                {INDIAN_STATES.map(state => <SelectItem key={state} value={state}>{state}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.district" render={({ field }) => (
+          <FormItem>
+            <FormLabel>District</FormLabel>
+            <FormControl><Input placeholder="e.g., Karaikal" {...field} value={field.value ?? ''} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.landHectares" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Land owned or leased (ha)</FormLabel>
+            <FormControl><Input type="number" step="0.01" min="0" placeholder="0 if none" {...field} value={field.value ?? ''} onChange={e => field.onChange(toNumber(e.target.value))} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.category" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Social category</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? ''}>
+              <FormControl><SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger></FormControl>
+              <SelectContent>
+                {SocialCategorySchema.options.map(category => <SelectItem key={category} value={category}>{SOCIAL_CATEGORY_LABELS[category]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.age" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Age</FormLabel>
+            <FormControl><Input type="number" min="0" placeholder="Years" {...field} value={field.value ?? ''} onChange={e => field.onChange(toNumber(e.target.value))} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.gender" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Gender</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? ''}>
+              <FormControl><SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger></FormControl>
+              <SelectContent>
+                <SelectItem value="female">Female</SelectItem>
+                <SelectItem value="male">Male</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.disabilityPercent" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Disability (%)</FormLabel>
+            <FormControl><Input type="number" min="0" max="100" placeholder="0 if none" {...field} value={field.value ?? ''} onChange={e => field.onChange(toNumber(e.target.value))} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="profile.occupations" render={({ field }) => (
+          <FormItem className="md:col-span-2">
+            <FormLabel>What you do</FormLabel>
+            <div className="flex flex-wrap gap-4 pt-2">
+              {OccupationSchema.options.map(occupation => (
+                <label key={occupation} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={field.value?.includes(occupation) ?? false}
+                    onCheckedChange={checked => field.onChange(checked
+                      ? [...(field.value ?? []), occupation]
+                      : (field.value ?? []).filter(value => value !== occupation))}
+                  />
+                  {OCCUPATION_LABELS[occupation]}
+                </label>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )} />
+      </div>
+    </div>
+  );
+}
@@ -24,7 +24,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (firebaseUser) {
         try {
             const userDocRef = doc(db, 'users', firebaseUser.uid);
-            const userDoc = await getDoc(userDocRef);
+            const [userDoc, tokenResult] = await Promise.all([getDoc(userDocRef), firebaseUser.getIdTokenResult()]);
+            const role = tokenResult.claims.role === 'agronomist' || tokenResult.claims.role === 'admin' ? tokenResult.claims.role : 'farmer';
 
             if (userDoc.exists()) {
               const userData = userDoc.data();
@@ -34,6 +35,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 name: userData.name,
                 location: userData.location,
                 photoURL: firebaseUser.photoURL,
+                role,
               });
             } else {
               // Fallback for users that might exist in Auth but not Firestore
@@ -43,6 +45,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 name: firebaseUser.displayName,
                 location: null,
                 photoURL: firebaseUser.photoURL,
+                role,
               });
             }
         } catch (error) {
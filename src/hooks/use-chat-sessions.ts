@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getChatSessions } from '@/lib/firebase/services';
+import type { ChatSession } from '@/lib/types';
+
+/**
+ * Loads the signed-in user's saved chat sessions, most recently active first.
+ */
+export const useChatSessions = () => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await getChatSessions());
+    } catch (error) {
+      console.error(error);
+      setSessions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { sessions, loading, refresh };
+};
@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getDevices } from '@/lib/firebase/services';
+import type { Device } from '@/lib/types';
+
+/**
+ * Loads the signed-in user's registered devices with their latest readings.
+ */
+export const useDevices = () => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await getDevices());
+    } catch (error) {
+      console.error(error);
+      setDevices([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { devices, loading, refresh };
+};
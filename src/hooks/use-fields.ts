@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getFields } from '@/lib/firebase/services';
+import type { Field } from '@/lib/types';
+
+/**
+ * Loads the signed-in user's registered fields. Forms that can be pre-filled from a field
+ * use this; they keep working with an empty list when the user has no fields.
+ */
+export const useFields = () => {
+  const [fields, setFields] = useState<Field[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setFields(await getFields());
+    } catch (error) {
+      console.error(error);
+      setFields([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { fields, loading, refresh };
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getActiveIrrigationSchedule } from '@/lib/firebase/services';
+import type { IrrigationSchedule } from '@/lib/types';
+
+/**
+ * Loads the active irrigation schedule saved for a field. `setSchedule` takes the schedule
+ * returned by an update, saving a reload.
+ */
+export const useIrrigationSchedule = (fieldId: string | null) => {
+  const [schedule, setSchedule] = useState<IrrigationSchedule | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!fieldId) {
+      setSchedule(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      setSchedule(await getActiveIrrigationSchedule(fieldId));
+    } catch (error) {
+      console.error(error);
+      setSchedule(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [fieldId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { schedule, setSchedule, loading, refresh };
+};
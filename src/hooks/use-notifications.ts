@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getNotifications } from '@/lib/firebase/services';
+import type { AppNotification } from '@/lib/types';
+
+// Price alerts are evaluated on a schedule, so new notifications are looked for periodically.
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Loads the signed-in user's recent notifications, newest first, and checks for new ones
+ * every few minutes.
+ */
+export const useNotifications = (enabled: boolean) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setNotifications(await getNotifications());
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setNotifications([]);
+      return;
+    }
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+  return { notifications, unreadCount, refresh };
+};
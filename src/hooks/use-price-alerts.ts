@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getPriceAlerts } from '@/lib/firebase/services';
+import type { PriceAlert } from '@/lib/types';
+
+/**
+ * Loads the signed-in user's price alerts, newest first.
+ */
+export const usePriceAlerts = () => {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAlerts(await getPriceAlerts());
+    } catch (error) {
+      console.error(error);
+      setAlerts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { alerts, loading, refresh };
+};
@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSchemeApplications } from '@/lib/firebase/services';
+import type { SchemeApplication } from '@/lib/types';
+
+/**
+ * Loads the signed-in user's scheme applications, open ones first.
+ */
+export const useSchemeApplications = () => {
+  const [applications, setApplications] = useState<SchemeApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setApplications(await getSchemeApplications());
+    } catch (error) {
+      console.error(error);
+      setApplications([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { applications, loading, refresh };
+};
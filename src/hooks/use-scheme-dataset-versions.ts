@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSchemeDatasetVersions } from '@/lib/firebase/services';
+import type { SchemeDatasetVersion } from '@/ai/schemas/scheme-schemas';
+
+/**
+ * Loads the published versions of the schemes dataset and the one in use. Admins only.
+ */
+export const useSchemeDatasetVersions = () => {
+  const [current, setCurrent] = useState<SchemeDatasetVersion | null>(null);
+  const [versions, setVersions] = useState<SchemeDatasetVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await getSchemeDatasetVersions();
+      setCurrent(result.current);
+      setVersions(result.versions);
+      setError(null);
+    } catch (error: any) {
+      console.error(error);
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { current, versions, loading, error, refresh };
+};
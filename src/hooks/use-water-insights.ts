@@ -0,0 +1,33 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getWaterInsights } from '@/lib/firebase/services';
+import type { WaterInsights } from '@/lib/water-accounting';
+
+/**
+ * Loads the signed-in user's water accounts by field and season, and the Water Scarcity Index
+ * of the districts their fields are in.
+ */
+export const useWaterInsights = () => {
+  const [insights, setInsights] = useState<WaterInsights | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setInsights(await getWaterInsights());
+      setError(null);
+    } catch (error: any) {
+      console.error(error);
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { insights, loading, error, refresh };
+};
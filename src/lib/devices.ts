@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import type { DeviceKind, DeviceLatestReading, PumpCommandAction, ReadingMetric } from '@/lib/types';
+
+export const READING_METRICS = ['soilMoisture', 'tankLevel', 'flowRate', 'waterVolume'] as const;
+
+export const DEVICE_KIND_LABELS: Record<DeviceKind, string> = {
+  sensor: 'Sensor',
+  pumpController: 'Pump controller',
+};
+
+export const READING_METRIC_INFO: Record<ReadingMetric, { label: string; unit: string; min: number; max: number }> = {
+  soilMoisture: { label: 'Soil moisture', unit: '%', min: 0, max: 100 }, // Volumetric water content
+  tankLevel: { label: 'Tank level', unit: '%', min: 0, max: 100 },
+  flowRate: { label: 'Flow rate', unit: 'L/min', min: 0, max: 100_000 },
+  waterVolume: { label: 'Water delivered', unit: 'L', min: 0, max: 10_000_000 }, // Since the device's previous reading
+};
+
+// Most readings a device can send in one request; a controller that was offline sends its backlog in batches.
+export const MAX_READINGS_PER_REQUEST = 100;
+// Device clocks drift; readings further ahead of the server than this are rejected.
+const CLOCK_SKEW_MS = 5 * 60_000;
+
+const DeviceReadingSchema = z.object({
+  metric: z.enum(READING_METRICS),
+  value: z.number().finite(),
+  recordedAt: z.string().datetime({ offset: true }).optional().describe('When the reading was taken. Defaults to when it is received.'),
+}).superRefine((reading, ctx) => {
+  const { label, unit, min, max } = READING_METRIC_INFO[reading.metric];
+  if (reading.value < min || reading.value > max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${label} must be between ${min} and ${max} ${unit}.` });
+  }
+  if (reading.recordedAt && Date.parse(reading.recordedAt) > Date.now() + CLOCK_SKEW_MS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['recordedAt'], message: 'The reading is dated in the future.' });
+  }
+});
+export type DeviceReadingInput = z.infer<typeof DeviceReadingSchema>;
+
+/**
+ * The body of a device's POST to /api/devices/<id>/readings: either a single reading, or
+ * `{ "readings": [...] }` for several.
+ */
+export const DeviceReadingsPayloadSchema = z.preprocess(
+  body => (body && typeof body === 'object' && 'readings' in body ? body : { readings: [body] }),
+  z.object({ readings: z.array(DeviceReadingSchema).min(1).max(MAX_READINGS_PER_REQUEST) })
+);
+
+// MQTT topics, one set per device: devices publish readings, and pump controllers subscribe
+// to their commands.
+const MQTT_TOPIC_PREFIX = 'neervaani/devices';
+export const MQTT_READINGS_SUBSCRIPTION = `${MQTT_TOPIC_PREFIX}/+/readings`;
+export const mqttCommandsTopic = (deviceId: string) => `${MQTT_TOPIC_PREFIX}/${deviceId}/commands`;
+
+/** The device a readings topic belongs to, or null for any other topic. */
+export function deviceIdFromReadingsTopic(topic: string): string | null {
+  const match = topic.match(/^neervaani\/devices\/([^/]+)\/readings$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * A message a device publishes to its readings topic: the readings as they would be posted
+ * over HTTP, with the device's API key in `key`.
+ */
+export const MqttReadingsMessageSchema = z.object({ key: z.string().min(1) }).passthrough().transform((message, ctx) => {
+  const { key, ...body } = message;
+  const payload = DeviceReadingsPayloadSchema.safeParse(body);
+  if (!payload.success) {
+    payload.error.issues.forEach(issue => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+  return { key, readings: payload.data.readings };
+});
+
+// The longest a pump can be switched on for by one command.
+export const MAX_PUMP_RUN_MINUTES = 8 * 60;
+
+// What the MQTT bridge publishes to a pump controller's commands topic.
+export interface PumpCommandMessage {
+  id: string; // The command's ID in the audit log
+  action: PumpCommandAction;
+  durationMinutes: number | null; // For 'on': switch the pump off after this, even if no 'off' arrives
+  issuedAt: string; // ISO string
+}
+
+export const formatReading = (metric: ReadingMetric, value: number) =>
+  `${value.toLocaleString('en-IN', { maximumFractionDigits: 1 })} ${READING_METRIC_INFO[metric].unit}`;
+
+/**
+ * The newest reading of each metric in a batch that is newer than the one the device last had.
+ */
+export function newerLatestReadings(
+  current: Partial<Record<ReadingMetric, DeviceLatestReading>>,
+  readings: { metric: ReadingMetric; value: number; recordedAt: string }[]
+): Partial<Record<ReadingMetric, DeviceLatestReading>> {
+  const newer: Partial<Record<ReadingMetric, DeviceLatestReading>> = {};
+  for (const { metric, value, recordedAt } of readings) {
+    const latest = newer[metric] ?? current[metric];
+    if (!latest || recordedAt >= latest.recordedAt) {
+      newer[metric] = { value, recordedAt };
+    }
+  }
+  return newer;
+}
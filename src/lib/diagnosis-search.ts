@@ -0,0 +1,58 @@
+// Words too common in diagnoses to be useful search terms.
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'with', 'this', 'that', 'from', 'your', 'you', 'can', 'may', 'will',
+  'not', 'use', 'into', 'per', 'its', 'has', 'have', 'was', 'were', 'been', 'also', 'such', 'any',
+  'all', 'more', 'other', 'than', 'then', 'they', 'them', 'their', 'which', 'when', 'where', 'what',
+  'should', 'could', 'would', 'about', 'after', 'before', 'plant', 'plants', 'crop', 'crops',
+]);
+
+// Keyword entries that hold a region rather than a word from the diagnosis text.
+const REGION_PREFIX = 'region:';
+
+/** Lowercases a value and collapses whitespace so it can be compared exactly. */
+export const normalizeKey = (value: string | undefined | null) =>
+  (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Folds simple English plurals, so "spots" matches "spot".
+const singular = (word: string) =>
+  word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+/** Splits text into unique, lowercased search terms. */
+export function tokenize(text: string): string[] {
+  const words = normalizeKey(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(singular);
+  return Array.from(new Set(words));
+}
+
+/** Splits a free-text location like "Nashik, Maharashtra" into region keys. */
+export const regionKeys = (location: string | undefined | null) =>
+  normalizeKey(location).split(',').map(part => part.trim()).filter(Boolean);
+
+export const regionKeyword = (region: string) => `${REGION_PREFIX}${normalizeKey(region)}`;
+
+interface SearchableDiagnosis {
+  cropName?: string;
+  location?: string;
+  diagnosis: {
+    diseaseIdentification: { name: string; description: string };
+    symptoms: string;
+    remedies: string;
+    prevention: string;
+  };
+}
+
+/**
+ * Builds the normalized fields stored alongside a diagnosis so it can be filtered and
+ * searched in Firestore, which has no full-text search of its own.
+ */
+export function buildDiagnosisSearchFields(record: SearchableDiagnosis) {
+  const { diseaseIdentification, symptoms, remedies, prevention } = record.diagnosis;
+  const text = [record.cropName, diseaseIdentification.name, diseaseIdentification.description, symptoms, remedies, prevention].join(' ');
+  return {
+    cropKey: normalizeKey(record.cropName),
+    diseaseKey: normalizeKey(diseaseIdentification.name),
+    keywords: [...tokenize(text), ...regionKeys(record.location).map(regionKeyword)],
+  };
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import type { CurrentCrop, Field, FieldAreaUnit, FieldBoundary } from '@/lib/types';
+
+export const AREA_UNIT_LABELS: Record<FieldAreaUnit, string> = {
+  acres: 'Acres',
+  hectares: 'Hectares',
+  sqm: 'Sq. Meters',
+};
+
+const SQUARE_METERS_PER_UNIT: Record<FieldAreaUnit, number> = {
+  acres: 4046.8564224,
+  hectares: 10000,
+  sqm: 1,
+};
+
+const EARTH_RADIUS_M = 6378137;
+
+const PositionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+const PolygonSchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z.array(z.array(PositionSchema).min(4)).min(1),
+});
+const FeatureSchema = z.object({ type: z.literal('Feature'), geometry: z.unknown() });
+const FeatureCollectionSchema = z.object({ type: z.literal('FeatureCollection'), features: z.array(FeatureSchema) });
+
+/**
+ * Extracts a field boundary from imported GeoJSON. Accepts a Polygon, a Feature with a
+ * Polygon geometry, or a FeatureCollection, in which case its first Polygon is used.
+ * Returns null when no valid polygon is found.
+ */
+export function parseFieldBoundary(geojson: unknown): FieldBoundary | null {
+  const collection = FeatureCollectionSchema.safeParse(geojson);
+  const candidates = collection.success
+    ? collection.data.features.map(feature => feature.geometry)
+    : [FeatureSchema.safeParse(geojson).data?.geometry ?? geojson];
+
+  for (const candidate of candidates) {
+    const polygon = PolygonSchema.safeParse(candidate);
+    if (polygon.success) {
+      // Keep only longitude and latitude; altitude is not needed for a field outline.
+      return { type: 'Polygon', coordinates: polygon.data.coordinates.map(ring => ring.map(([lng, lat]) => [lng, lat])) };
+    }
+  }
+  return null;
+}
+
+/** Builds a closed boundary from corner positions recorded in order around the field. */
+export function boundaryFromCorners(corners: [number, number][]): FieldBoundary | null {
+  if (corners.length < 3) {
+    return null;
+  }
+  return { type: 'Polygon', coordinates: [[...corners, corners[0]]] };
+}
+
+// Area of a ring on a sphere, following the approach used by Chamberlain & Duquette
+// ("Some Algorithms for Polygons on a Sphere", JPL 2007).
+const ringArea = (ring: number[][]) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[i + 1];
+    total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+/** Returns the area enclosed by a boundary in the given unit, excluding any holes. */
+export function boundaryArea(boundary: FieldBoundary, unit: FieldAreaUnit): number {
+  const [outer, ...holes] = boundary.coordinates;
+  const squareMeters = ringArea(outer) - holes.reduce((total, hole) => total + ringArea(hole), 0);
+  return squareMeters / SQUARE_METERS_PER_UNIT[unit];
+}
+
+/** Converts an area in the given unit to square metres. */
+export const toSquareMeters = (area: number, unit: FieldAreaUnit) => area * SQUARE_METERS_PER_UNIT[unit];
+
+export const formatFieldArea = (field: Pick<Field, 'area' | 'areaUnit'>) =>
+  `${Number(field.area.toFixed(2))} ${AREA_UNIT_LABELS[field.areaUnit].toLowerCase()}`;
+
+export const formatFieldLocation = (field: Pick<Field, 'village' | 'district' | 'state'>) =>
+  [field.village, field.district, field.state].filter(Boolean).join(', ');
+
+/**
+ * Reads crop rotation context from a field's history, which must be ordered newest first.
+ * `currentCrop` is the crop in the ground, if any; `lastCrop` is the crop grown before it,
+ * or the most recent harvested crop when the field is empty.
+ */
+export function getRotationContext(history: CurrentCrop[]): { currentCrop: CurrentCrop | null; lastCrop: CurrentCrop | null } {
+  const currentCrop = history.find(crop => crop.status === 'active') ?? null;
+  const lastCrop = history.find(crop => crop.status === 'harvested' && (!currentCrop || crop.sowingDate <= currentCrop.sowingDate)) ?? null;
+  return { currentCrop, lastCrop };
+}
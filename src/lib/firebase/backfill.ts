@@ -0,0 +1,100 @@
+import { collection, getDocs, limit, orderBy, query, startAfter, writeBatch, type DocumentData, type DocumentReference, type QueryDocumentSnapshot, type QuerySnapshot } from 'firebase/firestore';
+import { db } from './config';
+import { buildDiagnosisSearchFields } from '@/lib/diagnosis-search';
+
+// Firestore allows at most 500 writes in one batch.
+const BACKFILL_PAGE_SIZE = 400;
+
+export interface BackfillResult {
+  scanned: number;
+  updated: number;
+  skipped: number; // Documents that still need attention, e.g. crops without an owner
+}
+
+export interface BackfillOptions {
+  dryRun?: boolean; // Count the changes without writing them
+}
+
+/**
+ * Reads a whole collection a page at a time and writes the changes `fix` returns for each
+ * document: an object of fields to set, 'skip' for a document that cannot be fixed, or null
+ * for one that needs nothing.
+ */
+async function backfillCollection(
+  collectionName: string,
+  fix: (data: DocumentData) => Record<string, unknown> | 'skip' | null,
+  { dryRun = false }: BackfillOptions,
+): Promise<BackfillResult> {
+  const result: BackfillResult = { scanned: 0, updated: 0, skipped: 0 };
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    const page: QuerySnapshot = await getDocs(query(
+      collection(db, collectionName),
+      orderBy('__name__'),
+      ...(last ? [startAfter(last)] : []),
+      limit(BACKFILL_PAGE_SIZE),
+    ));
+    const updates: [DocumentReference, Record<string, unknown>][] = [];
+    for (const snapshot of page.docs) {
+      result.scanned++;
+      const change = fix(snapshot.data());
+      if (change === 'skip') result.skipped++;
+      else if (change) updates.push([snapshot.ref, change]);
+    }
+    if (updates.length > 0 && !dryRun) {
+      const batch = writeBatch(db);
+      updates.forEach(([ref, change]) => batch.update(ref, change));
+      await batch.commit();
+    }
+    result.updated += updates.length;
+    if (page.size < BACKFILL_PAGE_SIZE) return result;
+    last = page.docs[page.docs.length - 1];
+  }
+}
+
+/**
+ * Gives crops saved before crops had owners and a status the fields the crop list queries on.
+ * A crop without a status is active, or harvested if it has a harvest date. Crops without an
+ * owner are given to `ownerId` when set, for apps that only had one farmer before accounts;
+ * otherwise they are counted as skipped and stay hidden, since nothing says whose they are.
+ */
+export function backfillCurrentCrops(options: BackfillOptions & { ownerId?: string } = {}): Promise<BackfillResult> {
+  return backfillCollection('current_crops', data => {
+    const change: Record<string, unknown> = {};
+    if (!data.status) {
+      change.status = data.harvestedAt ? 'harvested' : 'active';
+    }
+    if (data.harvestedAt === undefined) {
+      change.harvestedAt = null;
+    }
+    if (!data.userId) {
+      if (!options.ownerId) return 'skip';
+      change.userId = options.ownerId;
+    }
+    return Object.keys(change).length > 0 ? change : null;
+  }, options);
+}
+
+/**
+ * Gives diagnoses saved before the Digital Library had search and moderation the fields its
+ * queries filter on: the normalized crop, disease and keywords, and the feedback and review
+ * fields of a new record. Records without a diagnosis are counted as skipped.
+ */
+export function backfillDiagnoses(options: BackfillOptions = {}): Promise<BackfillResult> {
+  return backfillCollection('diagnoses', data => {
+    if (!data.diagnosis?.diseaseIdentification) return 'skip';
+    const change: Record<string, unknown> = {};
+    if (!Array.isArray(data.keywords) || data.cropKey === undefined || data.diseaseKey === undefined) {
+      Object.assign(change, buildDiagnosisSearchFields({
+        cropName: data.cropName || data.diagnosis.cropName || '',
+        location: data.location || '',
+        diagnosis: data.diagnosis,
+      }));
+    }
+    if (data.upvotes === undefined) change.upvotes = 0;
+    if (data.flags === undefined) change.flags = 0;
+    if (data.review === undefined) change.review = null;
+    if (data.hidden === undefined) change.hidden = false;
+    return Object.keys(change).length > 0 ? change : null;
+  }, options);
+}
@@ -0,0 +1,28 @@
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from './config';
+import { buildIrrigationCalendar, type CalendarSchedule } from '@/lib/irrigation-calendar';
+
+/**
+ * Builds the iCalendar feed of a user's active irrigation schedules, from the secret token in
+ * their subscription link. Returns null if the token is unknown, e.g. after it was reset.
+ *
+ * This is not a server action; the token stands in for a signed-in user, and it is served by
+ * the calendar feed route to calendar apps.
+ */
+export async function getCalendarFeed(token: string): Promise<string | null> {
+  const feed = await getDoc(doc(db, 'calendar_feeds', token));
+  if (!feed.exists()) {
+    return null;
+  }
+
+  const schedules = await getDocs(query(
+    collection(db, 'irrigation_schedules'),
+    where('userId', '==', feed.data().userId),
+    where('status', '==', 'active')
+  ));
+  const calendars: CalendarSchedule[] = schedules.docs.map((schedule) => {
+    const data = schedule.data();
+    return { id: schedule.id, crop: data.input.selectedCrop, location: data.input.location, events: data.events || [] };
+  });
+  return buildIrrigationCalendar(calendars, 'NeerVaani irrigation');
+}
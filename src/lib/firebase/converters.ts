@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { Timestamp } from 'firebase/firestore';
+import type { SchemeApplication } from '@/lib/types';
+
+/**
+ * Converts a Firestore Timestamp into a serializable ISO string. Dates already stored as
+ * strings are returned as they are, and missing ones, e.g. on old documents, as null.
+ */
+export function toIsoString(value: unknown): string | null {
+  if (value && typeof (value as Timestamp).toDate === 'function') {
+    return (value as Timestamp).toDate().toISOString();
+  }
+  return typeof value === 'string' && value ? value : null;
+}
+
+const TimestampSchema = z.unknown().transform(toIsoString);
+
+const SchemeDocumentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  have: z.boolean(),
+  file: z.object({
+    path: z.string(),
+    fileName: z.string(),
+    contentType: z.string(),
+    uploadedAt: z.string(),
+  }).nullish().transform(file => file ?? null),
+});
+
+// A `scheme_applications` document as stored, with defaults for fields added over time.
+const SchemeApplicationDocSchema = z.object({
+  userId: z.string(),
+  schemeName: z.string(),
+  sourceSchemeName: z.string(),
+  sourceLink: z.string().nullish().transform(link => link || null),
+  applicationProcess: z.string().nullish().transform(text => text ?? ''),
+  documents: z.array(SchemeDocumentSchema).nullish().transform(documents => documents ?? []),
+  status: z.enum(['preparing', 'applied', 'underReview', 'sanctioned', 'disbursed', 'rejected']).nullish().transform(status => status ?? 'preparing'),
+  applicationId: z.string().nullish().transform(id => id || null),
+  notes: z.string().nullish().transform(notes => notes ?? ''),
+  statusUpdatedAt: TimestampSchema,
+  remindedAt: TimestampSchema,
+  createdAt: TimestampSchema,
+});
+
+/**
+ * Converts a `scheme_applications` document into a serializable SchemeApplication, or throws
+ * if the document does not have the shape of one.
+ */
+export function toSchemeApplication(id: string, data: unknown): SchemeApplication {
+  const parsed = SchemeApplicationDocSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Scheme application ${id} is not valid: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+  }
+  const { statusUpdatedAt, createdAt, ...application } = parsed.data;
+  return {
+    ...application,
+    id,
+    // Follow-ups count from the start of an application until its status first changes.
+    statusUpdatedAt: statusUpdatedAt || createdAt || '',
+    createdAt: createdAt || '',
+  };
+}
@@ -0,0 +1,64 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { collection, doc, getDoc, serverTimestamp, Timestamp, writeBatch } from 'firebase/firestore';
+import { db } from './config';
+import { newerLatestReadings, type DeviceReadingInput } from '@/lib/devices';
+
+export class DeviceAuthError extends Error {
+  constructor() {
+    super('Unknown device or wrong API key.');
+    this.name = 'DeviceAuthError';
+  }
+}
+
+/** A new device API key. It is shown to the owner once; only its hash is stored. */
+export const newDeviceKey = () => `nvd_${randomBytes(24).toString('hex')}`;
+
+export const hashDeviceKey = (apiKey: string) => createHash('sha256').update(apiKey).digest('hex');
+
+function keyMatches(apiKey: string, storedHash: unknown): boolean {
+  if (typeof storedHash !== 'string') return false;
+  const given = Buffer.from(hashDeviceKey(apiKey), 'hex');
+  const stored = Buffer.from(storedHash, 'hex');
+  // timingSafeEqual throws on buffers of different lengths, e.g. a missing or corrupt hash.
+  return given.length === stored.length && timingSafeEqual(given, stored);
+}
+
+/**
+ * Stores readings posted by a device and updates the device's latest reading of each metric.
+ * Readings without a time are dated when they are received.
+ *
+ * This is not a server action; devices authenticate with their API key instead of a signed-in
+ * user, and it is called by the device readings route.
+ * @throws DeviceAuthError if the device does not exist or the key is not its own.
+ */
+export async function ingestDeviceReadings(deviceId: string, apiKey: string, readings: DeviceReadingInput[]): Promise<{ accepted: number }> {
+  const deviceRef = doc(db, 'devices', deviceId);
+  const device = await getDoc(deviceRef);
+  if (!device.exists() || !keyMatches(apiKey, device.data().apiKeyHash)) {
+    throw new DeviceAuthError();
+  }
+
+  const receivedAt = new Date().toISOString();
+  const dated = readings.map(reading => ({
+    ...reading,
+    recordedAt: reading.recordedAt ? new Date(reading.recordedAt).toISOString() : receivedAt,
+  }));
+
+  const batch = writeBatch(db);
+  for (const { metric, value, recordedAt } of dated) {
+    batch.set(doc(collection(deviceRef, 'readings')), {
+      metric,
+      value,
+      recordedAt: Timestamp.fromDate(new Date(recordedAt)),
+      receivedAt: serverTimestamp(),
+    });
+  }
+  const latest = newerLatestReadings(device.data().latest || {}, dated);
+  batch.update(deviceRef, {
+    // Dotted paths, so the latest readings of metrics not in this batch are kept.
+    ...Object.fromEntries(Object.entries(latest).map(([metric, reading]) => [`latest.${metric}`, reading])),
+    lastReadingAt: serverTimestamp(),
+  });
+  await batch.commit();
+  return { accepted: dated.length };
+}
@@ -0,0 +1,71 @@
+import sharp from 'sharp';
+import { getImageStorage, type StoredImage } from './image-storage';
+
+// A photo stored with a diagnosis. Both URLs can be loaded directly by the browser.
+export interface DiagnosisImage {
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+const FULL_SIZE_PX = 1600;
+const THUMBNAIL_SIZE_PX = 320;
+
+const diagnosisFolder = (recordId: string) => `diagnoses/${recordId}/`;
+
+const parseDataUri = (dataUri: string): Buffer => {
+  const match = /^data:image\/[\w.+-]+;base64,(.+)$/.exec(dataUri);
+  if (!match) {
+    throw new Error('Photos must be image data URIs encoded in Base64.');
+  }
+  return Buffer.from(match[1], 'base64');
+};
+
+/**
+ * Uploads the photos of a diagnosis with a thumbnail for each. Photos are downscaled and
+ * re-encoded as JPEG, which also drops EXIF data such as the GPS position of the farm. If any
+ * upload fails, none of the photos are kept.
+ * @param recordId The ID of the diagnosis record, used to group its images in storage.
+ * @param photoDataUris The photos as Base64 data URIs.
+ */
+export async function storeDiagnosisImages(recordId: string, photoDataUris: string[]): Promise<DiagnosisImage[]> {
+  const storage = getImageStorage();
+
+  const photos = await Promise.all(photoDataUris.map(async (dataUri) => {
+    // Apply the EXIF orientation before it is stripped so photos are not shown sideways.
+    const image = sharp(parseDataUri(dataUri)).rotate();
+
+    const { data: full, info } = await image.clone()
+      .resize({ width: FULL_SIZE_PX, height: FULL_SIZE_PX, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await image.clone()
+      .resize({ width: THUMBNAIL_SIZE_PX, height: THUMBNAIL_SIZE_PX, fit: 'cover' })
+      .webp({ quality: 70 })
+      .toBuffer();
+    return { full, thumbnail, info };
+  }));
+
+  // Settled rather than all, so that nothing is still uploading when a failure is cleaned up.
+  const uploads = await Promise.allSettled(photos.flatMap(({ full, thumbnail }, index) => [
+    storage.upload(`${diagnosisFolder(recordId)}${index}.jpg`, full, 'image/jpeg'),
+    storage.upload(`${diagnosisFolder(recordId)}${index}-thumb.webp`, thumbnail, 'image/webp'),
+  ]));
+  const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+  if (failed) {
+    await deleteDiagnosisImages(recordId).catch(cleanupError => console.error('Could not delete unused diagnosis images: ', cleanupError));
+    throw failed.reason;
+  }
+
+  const stored = uploads.map(upload => (upload as PromiseFulfilledResult<StoredImage>).value);
+  return photos.map(({ info }, index) => ({
+    url: stored[2 * index].url,
+    thumbnailUrl: stored[2 * index + 1].url,
+    width: info.width,
+    height: info.height,
+  }));
+}
+
+/** Deletes every image stored for a diagnosis, e.g. when its record could not be saved. */
+export const deleteDiagnosisImages = (recordId: string) => getImageStorage().deleteFolder(diagnosisFolder(recordId));
@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getStorage, getDownloadURL } from 'firebase-admin/storage';
+import { initFirebaseAdmin } from './firebase-admin';
+import { firebaseConfig } from './config';
+
+export interface StoredImage {
+  path: string;
+  url: string;
+}
+
+/**
+ * A place to keep uploaded images and documents. Public uploads return a URL the browser can
+ * load directly, so records only need to store the URL. Private uploads have no URL; they are
+ * read back on the server, which checks who is asking.
+ */
+export interface ImageStorage {
+  name: string;
+  upload(path: string, data: Buffer, contentType: string): Promise<StoredImage>;
+  uploadPrivate(path: string, data: Buffer, contentType: string): Promise<void>;
+  download(path: string): Promise<Buffer>;
+  /** Deletes a file; a file that does not exist is not an error. */
+  delete(path: string): Promise<void>;
+  /** Deletes every file whose path starts with `prefix`. */
+  deleteFolder(prefix: string): Promise<void>;
+}
+
+type Bucket = ReturnType<ReturnType<typeof getStorage>['bucket']>;
+
+const EMULATOR_APP_NAME = 'storage-emulator';
+
+function createBucketStorage(name: string, getBucket: () => Promise<Bucket>): ImageStorage {
+  return {
+    name,
+    async upload(path, data, contentType) {
+      const file = (await getBucket()).file(path);
+      await file.save(data, {
+        contentType,
+        resumable: false,
+        // A download token gives the file a stable public URL, like uploads from the client SDK.
+        metadata: { cacheControl: 'public, max-age=31536000', metadata: { firebaseStorageDownloadTokens: randomUUID() } },
+      });
+      return { path, url: await getDownloadURL(file) };
+    },
+    async uploadPrivate(path, data, contentType) {
+      // Without a download token there is no URL that reads the file without credentials.
+      await (await getBucket()).file(path).save(data, { contentType, resumable: false, metadata: { cacheControl: 'private, no-store' } });
+    },
+    async download(path) {
+      const [data] = await (await getBucket()).file(path).download();
+      return data;
+    },
+    async delete(path) {
+      await (await getBucket()).file(path).delete({ ignoreNotFound: true });
+    },
+    async deleteFolder(prefix) {
+      await (await getBucket()).deleteFiles({ prefix });
+    },
+  };
+}
+
+/** Stores images in the project's Firebase Storage bucket using the Admin SDK. */
+export function createFirebaseImageStorage(bucketName: string): ImageStorage {
+  return createBucketStorage('firebase-storage', async () => {
+    await initFirebaseAdmin();
+    return getStorage().bucket(bucketName);
+  });
+}
+
+/**
+ * Stores images in the Firebase Storage emulator. The emulator accepts unauthenticated
+ * requests, so this works without the service account that production requires.
+ * @param host The emulator's host and port, e.g. "127.0.0.1:9199".
+ */
+export function createEmulatorImageStorage(host: string, bucketName: string): ImageStorage {
+  // The Admin SDK routes all Storage requests to the emulator when this is set.
+  process.env.FIREBASE_STORAGE_EMULATOR_HOST = host;
+
+  return createBucketStorage(`firebase-storage-emulator (${host})`, async () => {
+    const app = getApps().find(a => a.name === EMULATOR_APP_NAME)
+      ?? initializeApp({ projectId: firebaseConfig.projectId, storageBucket: bucketName }, EMULATOR_APP_NAME);
+    return getStorage(app).bucket(bucketName);
+  });
+}
+
+let imageStorage: ImageStorage | null = null;
+
+/**
+ * Returns the image storage backend. The Storage emulator is used when
+ * FIREBASE_STORAGE_EMULATOR_HOST is set, otherwise the Firebase Storage bucket.
+ */
+export function getImageStorage(): ImageStorage {
+  if (!imageStorage) {
+    const bucketName = process.env.FIREBASE_STORAGE_BUCKET || firebaseConfig.storageBucket;
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    imageStorage = emulatorHost
+      ? createEmulatorImageStorage(emulatorHost, bucketName)
+      : createFirebaseImageStorage(bucketName);
+    console.log(`Using image storage: ${imageStorage.name}`);
+  }
+  return imageStorage;
+}
@@ -0,0 +1,250 @@
+import mqtt, { type IClientOptions, type MqttClient } from 'mqtt';
+import { collection, doc, getDoc, getDocs, onSnapshot, query, serverTimestamp, setDoc, updateDoc, where, type DocumentData, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from './config';
+import { DeviceAuthError, ingestDeviceReadings } from './device-readings';
+import { deviceIdFromReadingsTopic, MQTT_READINGS_SUBSCRIPTION, MqttReadingsMessageSchema, mqttCommandsTopic, type PumpCommandMessage } from '@/lib/devices';
+import { dueIrrigation } from '@/lib/pump-commands';
+import type { SavedIrrigationEvent } from '@/lib/types';
+
+// How often saved schedules are checked for irrigations that should start.
+const PUMP_SCHEDULE_INTERVAL_MS = 60_000;
+// A command that could not be sent for this long is dropped: switching a pump on well after
+// someone asked for it is worse than not switching it on.
+const COMMAND_TTL_MS = 10 * 60_000;
+// After Firestore stops the pump command listener, it is started again after this long,
+// doubling on each failure in a row up to the maximum.
+const WATCH_RETRY_MS = 5_000;
+const WATCH_RETRY_MAX_MS = 5 * 60_000;
+
+export interface MqttBridgeOptions {
+  url: string; // e.g. mqtt://localhost:1883
+  username?: string;
+  password?: string;
+  clientId?: string;
+}
+
+/**
+ * Stores the readings a device publishes to its readings topic. Messages that are not valid,
+ * or do not carry the device's key, are logged and dropped.
+ */
+export async function handleReadingsMessage(topic: string, payload: Buffer): Promise<void> {
+  const deviceId = deviceIdFromReadingsTopic(topic);
+  if (!deviceId) return;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(payload.toString('utf8'));
+  } catch {
+    console.warn(`MQTT bridge: readings from device ${deviceId} are not JSON.`);
+    return;
+  }
+  const message = MqttReadingsMessageSchema.safeParse(body);
+  if (!message.success) {
+    console.warn(`MQTT bridge: invalid readings from device ${deviceId}: ${message.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    return;
+  }
+
+  try {
+    const { accepted } = await ingestDeviceReadings(deviceId, message.data.key, message.data.readings);
+    console.log(`MQTT bridge: stored ${accepted} readings from device ${deviceId}.`);
+  } catch (error: any) {
+    if (error instanceof DeviceAuthError) {
+      console.warn(`MQTT bridge: refused readings for device ${deviceId}: ${error.message}`);
+    } else {
+      console.error(`MQTT bridge: could not store readings from device ${deviceId}`, error);
+    }
+  }
+}
+
+/**
+ * Queues an 'on' command for each pump controller whose field's saved schedule has an
+ * irrigation due now. Each irrigation is commanded once per controller, so this can run as
+ * often as needed.
+ * @returns The number of commands queued.
+ */
+export async function queueScheduledPumpCommands(now = new Date()): Promise<number> {
+  const controllers = await getDocs(query(
+    collection(db, 'devices'),
+    where('kind', '==', 'pumpController'),
+    where('automaticIrrigation', '==', true)
+  ));
+  if (controllers.empty) return 0;
+
+  const schedules = await getDocs(query(collection(db, 'irrigation_schedules'), where('status', '==', 'active')));
+  const scheduleByField = new Map(schedules.docs.map(schedule => [`${schedule.data().userId}|${schedule.data().fieldId}`, schedule]));
+  let queued = 0;
+
+  for (const controller of controllers.docs) {
+    const { userId, fieldId } = controller.data();
+    const schedule = scheduleByField.get(`${userId}|${fieldId}`);
+    const due = schedule && dueIrrigation((schedule.data().events || []) as SavedIrrigationEvent[], now);
+    if (!schedule || !due) continue;
+
+    // One command per irrigation and controller, whatever its status, so a pump switched off
+    // by hand is not switched on again.
+    const commandRef = doc(db, 'pump_commands', `${schedule.id}_${due.event.date}_${controller.id}`);
+    if ((await getDoc(commandRef)).exists()) continue;
+    await setDoc(commandRef, {
+      userId,
+      deviceId: controller.id,
+      fieldId,
+      action: 'on',
+      durationMinutes: due.remainingMinutes,
+      source: 'schedule',
+      scheduleId: schedule.id,
+      eventDate: due.event.date,
+      requestedBy: null,
+      status: 'pending',
+      error: null,
+      createdAt: serverTimestamp(),
+      sentAt: null,
+    });
+    queued++;
+  }
+  return queued;
+}
+
+// Records the outcome of a command. A failure is logged rather than thrown, so one Firestore
+// error cannot stop the bridge; the command stays pending and is tried again on restart.
+async function recordCommandOutcome(command: QueryDocumentSnapshot, outcome: Record<string, unknown>): Promise<void> {
+  try {
+    await updateDoc(command.ref, outcome);
+  } catch (error) {
+    console.error(`MQTT bridge: could not record the outcome of command ${command.id}`, error);
+  }
+}
+
+/**
+ * How long a scheduled 'on' command should run the pump if it is sent now: the rest of its
+ * irrigation, which may have shortened since the command was queued or been skipped or
+ * re-planned since. Null if the irrigation is no longer due.
+ */
+async function scheduledRunMinutes(data: DocumentData, now: Date): Promise<number | null> {
+  const schedule = await getDoc(doc(db, 'irrigation_schedules', data.scheduleId));
+  if (!schedule.exists() || schedule.data().status !== 'active') return null;
+  const due = dueIrrigation((schedule.data().events || []) as SavedIrrigationEvent[], now);
+  return due && due.event.date === data.eventDate ? due.remainingMinutes : null;
+}
+
+/**
+ * Publishes a pending command to its pump controller and records the outcome on the command.
+ * It never throws.
+ */
+export async function publishPumpCommand(client: MqttClient, command: QueryDocumentSnapshot): Promise<void> {
+  const data = command.data();
+  const createdAt: Date = data.createdAt?.toDate?.() ?? new Date();
+  const now = new Date();
+  if (now.getTime() - createdAt.getTime() > COMMAND_TTL_MS) {
+    await recordCommandOutcome(command, { status: 'expired', error: 'Not sent in time; the bridge was not connected to the broker.' });
+    return;
+  }
+
+  try {
+    let durationMinutes: number | null = data.durationMinutes ?? null;
+    if (data.source === 'schedule' && data.action === 'on') {
+      durationMinutes = await scheduledRunMinutes(data, now);
+      if (durationMinutes === null) {
+        await recordCommandOutcome(command, { status: 'expired', error: 'The scheduled irrigation was no longer due when the command could be sent.' });
+        return;
+      }
+    }
+    const message: PumpCommandMessage = {
+      id: command.id,
+      action: data.action,
+      durationMinutes,
+      issuedAt: createdAt.toISOString(),
+    };
+    await client.publishAsync(mqttCommandsTopic(data.deviceId), JSON.stringify(message), { qos: 1 });
+    await recordCommandOutcome(command, { status: 'sent', durationMinutes, sentAt: serverTimestamp() });
+    console.log(`MQTT bridge: sent '${data.action}' to device ${data.deviceId} (command ${command.id}).`);
+  } catch (error: any) {
+    await recordCommandOutcome(command, { status: 'failed', error: error.message });
+    console.error(`MQTT bridge: could not send command ${command.id}`, error);
+  }
+}
+
+/**
+ * Connects to an MQTT broker and bridges it to NeerVaani: readings devices publish are stored,
+ * and pump commands, from saved schedules or sent by hand from the Devices page, are published
+ * to the controllers. Pump commands wait in the `pump_commands` collection until the broker
+ * is reachable, and expire if that takes too long.
+ *
+ * This is not a server action; it is a long-running process, started by `npm run mqtt:bridge`.
+ */
+export function startMqttBridge({ url, ...connectOptions }: MqttBridgeOptions): { client: MqttClient; stop: () => Promise<void> } {
+  const client = mqtt.connect(url, { ...connectOptions, reconnectPeriod: 5_000 } satisfies IClientOptions);
+  const inFlight = new Set<string>();
+  const pendingCommands = query(collection(db, 'pump_commands'), where('status', '==', 'pending'));
+
+  const publishPending = (commands: QueryDocumentSnapshot[]) => {
+    if (!client.connected) return; // Sent once the broker is back
+    for (const command of commands) {
+      if (inFlight.has(command.id)) continue;
+      inFlight.add(command.id);
+      publishPumpCommand(client, command)
+        .catch(error => console.error(`MQTT bridge: could not send command ${command.id}`, error))
+        .finally(() => inFlight.delete(command.id));
+    }
+  };
+
+  client.on('connect', async () => {
+    console.log(`MQTT bridge: connected to ${url}.`);
+    try {
+      await client.subscribeAsync(MQTT_READINGS_SUBSCRIPTION, { qos: 1 });
+      // Commands queued while the broker was unreachable.
+      publishPending((await getDocs(pendingCommands)).docs);
+    } catch (error) {
+      console.error('MQTT bridge: could not start after connecting', error);
+    }
+  });
+  client.on('message', (topic, payload) => {
+    handleReadingsMessage(topic, payload)
+      .catch(error => console.error(`MQTT bridge: could not handle the message on ${topic}`, error));
+  });
+  client.on('error', (error) => console.error('MQTT bridge: broker error', error));
+  client.on('offline', () => console.warn('MQTT bridge: broker unreachable, retrying.'));
+
+  let stopped = false;
+  let unsubscribe = () => {};
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = WATCH_RETRY_MS;
+  const watchCommands = () => {
+    // The first snapshot lists every pending command, so none are missed while not watching.
+    unsubscribe = onSnapshot(
+      pendingCommands,
+      (snapshot) => {
+        retryDelay = WATCH_RETRY_MS;
+        publishPending(snapshot.docChanges().filter(change => change.type === 'added').map(change => change.doc));
+      },
+      (error) => {
+        if (stopped) return;
+        console.error(`MQTT bridge: stopped watching pump commands, retrying in ${retryDelay / 1000} s`, error);
+        retryTimer = setTimeout(watchCommands, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, WATCH_RETRY_MAX_MS);
+      }
+    );
+  };
+  watchCommands();
+
+  const checkSchedules = async () => {
+    try {
+      const queued = await queueScheduledPumpCommands();
+      if (queued > 0) console.log(`MQTT bridge: queued ${queued} scheduled pump commands.`);
+    } catch (error) {
+      console.error('MQTT bridge: could not check irrigation schedules', error);
+    }
+  };
+  checkSchedules();
+  const timer = setInterval(checkSchedules, PUMP_SCHEDULE_INTERVAL_MS);
+
+  return {
+    client,
+    stop: async () => {
+      stopped = true;
+      clearInterval(timer);
+      clearTimeout(retryTimer);
+      unsubscribe();
+      await client.endAsync();
+    },
+  };
+}
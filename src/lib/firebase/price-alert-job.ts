@@ -0,0 +1,61 @@
+import { collection, doc, getDocs, query, serverTimestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from './config';
+import { getLatestMandiPrice } from '@/lib/price-history';
+import { evaluatePriceAlert } from '@/lib/price-alerts';
+import { marketKey } from '@/lib/mandi-prices';
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+
+export interface PriceAlertJobResult {
+  checked: number; // Alerts evaluated against a price newer than they had seen
+  triggered: number;
+}
+
+/**
+ * Evaluates every active price alert against the latest imported price at its mandi. An alert
+ * whose condition is met is marked triggered and a notification is added for its owner.
+ * Alerts are only evaluated once per market day, so running the job again before new prices
+ * are imported changes nothing.
+ *
+ * This is not a server action; it runs for all users and is started by the scheduled job route.
+ */
+export async function runPriceAlertJob(): Promise<PriceAlertJobResult> {
+  const alerts = await getDocs(query(collection(db, 'price_alerts'), where('status', '==', 'active')));
+  // Alerts on the same commodity and mandi share one price lookup.
+  const latestPrices = new Map<string, Promise<MandiPriceRecord | null>>();
+  let checked = 0;
+  let triggered = 0;
+
+  for (const alertDoc of alerts.docs) {
+    const alert = alertDoc.data();
+    const mandi = { commodity: alert.commodity, market: alert.market, district: alert.district, state: alert.state };
+    const key = `${alert.commodity}|${marketKey(mandi)}`;
+    if (!latestPrices.has(key)) latestPrices.set(key, getLatestMandiPrice(mandi));
+
+    const latest = await latestPrices.get(key)!;
+    if (!latest || (alert.lastCheckedDate && latest.date <= alert.lastCheckedDate)) continue;
+    checked++;
+
+    const trigger = evaluatePriceAlert({ ...mandi, condition: alert.condition, threshold: alert.threshold, baselinePrice: alert.baselinePrice, baselineDate: alert.baselineDate }, latest);
+    const batch = writeBatch(db);
+    if (trigger) {
+      triggered++;
+      batch.update(alertDoc.ref, { status: 'triggered', lastCheckedDate: latest.date, triggeredPrice: latest.modalPrice, triggeredAt: serverTimestamp() });
+      batch.set(doc(collection(db, 'notifications')), {
+        userId: alert.userId,
+        type: 'priceAlert',
+        title: trigger.title,
+        message: trigger.message,
+        alertId: alertDoc.id,
+        applicationId: null,
+        read: false,
+        createdAt: serverTimestamp(),
+      });
+    } else {
+      batch.update(alertDoc.ref, { lastCheckedDate: latest.date });
+    }
+    await batch.commit();
+  }
+
+  console.log(`Price alert job: ${alerts.size} active, ${checked} checked against new prices, ${triggered} triggered.`);
+  return { checked, triggered };
+}
@@ -0,0 +1,53 @@
+import { collection, doc, getDocs, query, serverTimestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from './config';
+import { toSchemeApplication } from './converters';
+import { CLOSED_APPLICATION_STATUSES, isApplicationReminderDue, pendingApplicationSteps } from '@/lib/scheme-applications';
+import type { SchemeApplication } from '@/lib/types';
+
+export interface SchemeApplicationJobResult {
+  checked: number; // Open applications
+  reminded: number;
+}
+
+/**
+ * Reminds farmers of the pending steps of their open scheme applications: documents still to
+ * collect, applications not yet submitted, and applications that have not moved for a while.
+ * Each application is reminded about at most once every REMINDER_INTERVAL_DAYS, so the job can
+ * run daily.
+ *
+ * This is not a server action; it runs for all users and is started by the scheduled job route.
+ */
+export async function runSchemeApplicationJob(now: Date = new Date()): Promise<SchemeApplicationJobResult> {
+  const snapshot = await getDocs(query(collection(db, 'scheme_applications'), where('status', 'not-in', CLOSED_APPLICATION_STATUSES)));
+  let reminded = 0;
+
+  for (const applicationDoc of snapshot.docs) {
+    let application: SchemeApplication;
+    try {
+      application = toSchemeApplication(applicationDoc.id, applicationDoc.data());
+    } catch (error) {
+      // One malformed application should not stop the others' reminders.
+      console.error('Scheme application job: skipping an application', error);
+      continue;
+    }
+    if (!isApplicationReminderDue(application, now)) continue;
+    reminded++;
+
+    const batch = writeBatch(db);
+    batch.update(applicationDoc.ref, { remindedAt: serverTimestamp() });
+    batch.set(doc(collection(db, 'notifications')), {
+      userId: application.userId,
+      type: 'schemeApplication',
+      title: `${application.schemeName}: next steps`,
+      message: pendingApplicationSteps(application, now).join(' '),
+      alertId: null,
+      applicationId: application.id,
+      read: false,
+      createdAt: serverTimestamp(),
+    });
+    await batch.commit();
+  }
+
+  console.log(`Scheme application job: ${snapshot.size} open, ${reminded} reminded.`);
+  return { checked: snapshot.size, reminded };
+}
@@ -0,0 +1,51 @@
+import { collection, doc, getDocs, limit, orderBy, query, setDoc, writeBatch } from 'firebase/firestore';
+import { db } from './config';
+import { SchemeDatasetVersionSchema, SchemeSchema, type SchemeDatasetVersion } from '@/ai/schemas/scheme-schemas';
+import type { SchemeDatasetStore } from '@/ai/providers/scheme-dataset-store';
+
+// Firestore allows 500 writes per batch.
+const BATCH_SIZE = 400;
+
+/**
+ * A schemes dataset store in Firestore. Each version is a `scheme_dataset_versions` document
+ * with its schemes in a `schemes` subcollection. Schemes are stored as JSON text, because
+ * Firestore cannot hold the nested arrays of their tables. The version document is written
+ * last, so readers never see a version whose schemes are still being written.
+ */
+export function createFirestoreSchemeDatasetStore(): SchemeDatasetStore {
+  const versions = collection(db, 'scheme_dataset_versions');
+
+  const getVersions = async (count?: number): Promise<SchemeDatasetVersion[]> => {
+    const snapshot = await getDocs(query(versions, orderBy('version', 'desc'), ...(count ? [limit(count)] : [])));
+    return snapshot.docs.map(versionDoc => SchemeDatasetVersionSchema.parse(versionDoc.data()));
+  };
+
+  return {
+    name: 'firestore:scheme_dataset_versions',
+
+    async getCurrent() {
+      const [latest] = await getVersions(1);
+      if (!latest) return null;
+      const snapshot = await getDocs(query(collection(db, 'scheme_dataset_versions', String(latest.version), 'schemes'), orderBy('position')));
+      return { version: latest, schemes: snapshot.docs.map(schemeDoc => SchemeSchema.parse(JSON.parse(schemeDoc.data().json))) };
+    },
+
+    async publish(schemes, input) {
+      const [latest] = await getVersions(1);
+      const version: SchemeDatasetVersion = { ...input, version: (latest?.version ?? 0) + 1, publishedAt: new Date().toISOString() };
+      const schemesCollection = collection(db, 'scheme_dataset_versions', String(version.version), 'schemes');
+      for (let start = 0; start < schemes.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        schemes.slice(start, start + BATCH_SIZE).forEach((scheme, offset) => {
+          const position = start + offset;
+          batch.set(doc(schemesCollection, String(position).padStart(4, '0')), { position, scheme_name: scheme.scheme_name, json: JSON.stringify(scheme) });
+        });
+        await batch.commit();
+      }
+      await setDoc(doc(versions, String(version.version)), version);
+      return version;
+    },
+
+    getVersions: () => getVersions(),
+  };
+}
@@ -0,0 +1,65 @@
+import { randomUUID } from 'crypto';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './config';
+import { getImageStorage } from './image-storage';
+import type { SchemeDocument, SchemeDocumentFile } from '@/lib/types';
+
+// Scans and photos of documents, as uploaded; 4MB matches the limit on other uploads.
+export const MAX_SCHEME_DOCUMENT_BYTES = 4 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Where an application's files are kept in storage.
+export const schemeApplicationFolder = (userId: string, applicationId: string) =>
+  `scheme-applications/${userId}/${applicationId}/`;
+
+/**
+ * Uploads a scan of an application document. Files are kept as uploaded, so text in scans
+ * stays legible. Identity and bank documents must not be readable by anyone holding a link,
+ * so they are stored privately and served only to their owner by the scheme documents route.
+ * @param dataUri A PDF, JPEG, PNG or WebP file as a Base64 data URI.
+ */
+export async function storeSchemeDocument(userId: string, applicationId: string, dataUri: string, fileName: string): Promise<SchemeDocumentFile> {
+  const match = /^data:([\w.+-]+\/[\w.+-]+);base64,(.+)$/.exec(dataUri);
+  if (!match || !EXTENSIONS[match[1]]) {
+    throw new Error('Documents must be PDF, JPEG, PNG or WebP files.');
+  }
+  const [, contentType, base64] = match;
+  const data = Buffer.from(base64, 'base64');
+  if (data.length > MAX_SCHEME_DOCUMENT_BYTES) {
+    throw new Error(`"${fileName}" is larger than 4MB.`);
+  }
+
+  const path = `${schemeApplicationFolder(userId, applicationId)}${randomUUID()}.${EXTENSIONS[contentType]}`;
+  await getImageStorage().uploadPrivate(path, data, contentType);
+  return { path, fileName, contentType, uploadedAt: new Date().toISOString() };
+}
+
+/** Deletes an uploaded document, e.g. one that has been replaced. */
+export const deleteSchemeDocumentFile = (file: SchemeDocumentFile) => getImageStorage().delete(file.path);
+
+/** Deletes every file uploaded for an application. */
+export const deleteSchemeApplicationFiles = (userId: string, applicationId: string) =>
+  getImageStorage().deleteFolder(schemeApplicationFolder(userId, applicationId));
+
+/**
+ * Reads back a document uploaded for one of a user's applications, or returns null if the
+ * application is not theirs or the document has no file.
+ *
+ * This is not a server action; it is called by the scheme documents route, which checks
+ * who is signed in.
+ */
+export async function readSchemeDocument(userId: string, applicationId: string, documentId: string): Promise<{ file: SchemeDocumentFile; data: Buffer } | null> {
+  const application = await getDoc(doc(db, 'scheme_applications', applicationId));
+  if (!application.exists() || application.data().userId !== userId) {
+    return null;
+  }
+  const documents: SchemeDocument[] = application.data().documents || [];
+  const file = documents.find(document => document.id === documentId)?.file;
+  return file ? { file, data: await getImageStorage().download(file.path) } : null;
+}
@@ -1,16 +1,41 @@
 
 'use server';
 
-import { collection, addDoc, serverTimestamp, query, getDocs, orderBy, Timestamp } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, query, getDocs, getDoc, doc, setDoc, updateDoc, deleteDoc, where, orderBy, Timestamp, writeBatch, runTransaction, increment, limit, startAfter, type DocumentData, type DocumentSnapshot, type Query, type QueryConstraint, type QuerySnapshot } from 'firebase/firestore';
 import { db } from './config';
 import type { CropDiagnosisOutput } from '@/ai/schemas/crop-diagnosis-schemas';
 import { getCurrentUser } from './server-auth';
-import { type CurrentCrop } from '@/lib/types';
+import { deleteDiagnosisImages, storeDiagnosisImages, type DiagnosisImage } from './diagnosis-images';
+import { toIsoString, toSchemeApplication } from './converters';
+import { buildDiagnosisSearchFields, normalizeKey, regionKeyword, tokenize } from '@/lib/diagnosis-search';
+import { startOfDay, endOfDay, parseISO } from 'date-fns';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { type AppNotification, type ChatSession, type ChatSessionMessage, type CurrentCrop, type CurrentCropInput, type CurrentCropStatus, type Device, type DeviceKind, type DeviceReading, type Field, type FieldInput, type FieldSoilMoisture, type IrrigationEventStatus, type IrrigationSchedule, type PriceAlert, type PriceAlertInput, type PumpCommand, type PumpCommandAction, type SchemeApplication, type SchemeApplicationInput, type SchemeDocument } from '@/lib/types';
+import { getLatestMandiPrice } from '@/lib/price-history';
+import { getIrrigationSchedule, type IrrigationSchedulerInput, type IrrigationSchedulerOutput } from '@/ai/flows/irrigation-scheduler-flow';
+import { describeReplan, mergeReplannedEvents, toIrrigationProgress } from '@/lib/irrigation-schedules';
+import { hashDeviceKey, newDeviceKey } from './device-readings';
+import { MAX_PUMP_RUN_MINUTES } from '@/lib/devices';
+import { localDateTime } from '@/lib/pump-commands';
+import { parseFieldBoundary, toSquareMeters } from '@/lib/fields';
+import { groundwaterCategory, irrigationRequirementM3, scheduledWaterM3, waterProductivity, waterScarcityIndex, type DistrictWaterScarcity, type SeasonWaterUse, type WaterInsights } from '@/lib/water-accounting';
+import { findGroundwaterStage, getGroundwaterTable } from '@/ai/providers/groundwater-table';
+import { getEnvironmentalDataForLocation } from '@/ai/tools/location-data-tool';
+import type { GroundwaterTable } from '@/ai/schemas/water-insights-schemas';
+import { IrrigationSchedulerInputSchema, IrrigationSchedulerOutputSchema } from '@/ai/schemas/irrigation-scheduler-schemas';
+import { FarmerProfileSchema, type FarmerProfile } from '@/ai/schemas/scheme-schemas';
+import { getSchemeDataset, getSchemeDatasetStore, importSchemeDataset, type SchemeDatasetImportResult } from '@/ai/providers/scheme-dataset-store';
+import type { SchemeDatasetVersion } from '@/ai/schemas/scheme-schemas';
+import { CLOSED_APPLICATION_STATUSES, parseDocumentChecklist, schemeDocumentChecklist } from '@/lib/scheme-applications';
+import { deleteSchemeApplicationFiles, deleteSchemeDocumentFile, storeSchemeDocument } from './scheme-documents';
 
 
 export interface DiagnosisData {
     userId: string | null; // Allow userId to be null for anonymous posts
     photoDataUris: string[];
+    cropName: string;
+    location: string;
     landSize: string;
     additionalNotes: string;
     diagnosis: CropDiagnosisOutput;
@@ -21,15 +46,39 @@ export interface DiagnosisData {
 export interface DiagnosisRecord {
     id: string;
     diagnosis: CropDiagnosisOutput;
+    images: DiagnosisImage[]; // Empty for records saved before images were stored
+    cropName?: string;
+    location?: string;
     landSize?: string;
     additionalNotes?: string;
+    modelVersion?: string;
+    upvotes: number; // Farmers who said "this worked for me"
+    flags: number; // Farmers who reported the diagnosis as wrong or harmful
+    review: DiagnosisReview | null; // Set once an agronomist has reviewed the diagnosis
+    hidden: boolean; // Flagged and not yet reviewed, so left out of the community list
     userId: string | null; // Allow userId to be null
     createdAt: string; // Serialized as an ISO string
 }
 
+export type DiagnosisReviewStatus = 'confirmed' | 'corrected' | 'rejected';
+
+// An agronomist's verdict on a diagnosis. Corrections are kept separate from the AI output.
+export interface DiagnosisReview {
+    status: DiagnosisReviewStatus;
+    notes: string;
+    correctedDiseaseName?: string | null;
+    correctedRemedies?: string | null;
+    reviewerId: string;
+    reviewerName: string;
+    reviewedAt: string; // Serialized as an ISO string
+}
+
+export type DiagnosisFeedbackType = 'upvote' | 'flag';
+
 
 /**
- * Saves a new diagnosis record to Firestore. It allows anonymous submissions.
+ * Saves a new diagnosis record to Firestore, with its photos and thumbnails in image storage.
+ * It allows anonymous submissions.
  * @param data The diagnosis data to save, without the userId.
  */
 export async function saveDiagnosis(data: Omit<DiagnosisData, 'createdAt' | 'userId'> & { createdAt: Date }) {
@@ -38,12 +87,29 @@ export async function saveDiagnosis(data: Omit<DiagnosisData, 'createdAt' | 'use
     // The user can be null, we proceed anyway.
     const userId = user ? user.uid : null;
 
+    // The ID is reserved first so the images can be stored under it.
+    const docRef = doc(collection(db, 'diagnoses'));
+    const images = await storeDiagnosisImages(docRef.id, data.photoDataUris);
+
+    const cropName = data.cropName || data.diagnosis.cropName || '';
+    const location = data.location || '';
+
     const dataToSave = {
       userId: userId, // Save the user's UID or null if they are not logged in
-      photoDataUris: ["IMAGE_DATA_TRUNCATED"], // Do not save large image data
+      images,
+      cropName,
+      location,
+      // Normalized copies used by the library's filters and search
+      ...buildDiagnosisSearchFields({ cropName, location, diagnosis: data.diagnosis }),
       landSize: data.landSize || '',
       additionalNotes: data.additionalNotes || '',
+      modelVersion: data.diagnosis.modelVersion || null,
+      upvotes: 0,
+      flags: 0,
+      review: null,
+      hidden: false,
       diagnosis: {
+        cropName: data.diagnosis.cropName,
         healthStatus: {
           status: data.diagnosis.healthStatus.status,
           severity: data.diagnosis.healthStatus.severity,
@@ -60,8 +126,14 @@ export async function saveDiagnosis(data: Omit<DiagnosisData, 'createdAt' | 'use
       createdAt: serverTimestamp(),
     };
 
-    const docRef = await addDoc(collection(db, 'diagnoses'), dataToSave);
-    console.log('Diagnosis record created with ID: ', docRef.id);
+    try {
+      await setDoc(docRef, dataToSave);
+    } catch (error) {
+      // Nothing refers to the images, so they are not kept.
+      await deleteDiagnosisImages(docRef.id).catch(cleanupError => console.error('Could not delete unused diagnosis images: ', cleanupError));
+      throw error;
+    }
+    console.log(`Diagnosis record created with ID: ${docRef.id}, ${images.length} images stored.`);
     return docRef.id;
   } catch (e: any) {
     console.error('Error adding document: ', e);
@@ -70,42 +142,141 @@ export async function saveDiagnosis(data: Omit<DiagnosisData, 'createdAt' | 'use
   }
 }
 
+// 'review' lists the hidden records waiting for an agronomist.
+export type DiagnosisScope = 'community' | 'mine' | 'review';
+
+// Filters for browsing the Digital Library. Text filters are matched case-insensitively.
+export interface DiagnosisFilters {
+    scope: DiagnosisScope;
+    healthStatus?: CropDiagnosisOutput['healthStatus']['status'];
+    severity?: CropDiagnosisOutput['healthStatus']['severity'];
+    disease?: string;
+    crop?: string;
+    region?: string;
+    from?: string; // ISO date, inclusive
+    to?: string; // ISO date, inclusive
+    search?: string; // Free text matched against symptoms, remedies and the disease
+}
+
+export interface DiagnosisPage {
+    records: DiagnosisRecord[];
+    nextCursor: string | null; // The ID of the last record scanned, or null at the end
+}
+
+const DIAGNOSIS_BATCH_ROUNDS = 5;
+
+const toDiagnosisRecord = (id: string, data: DocumentData): DiagnosisRecord => ({
+    id,
+    diagnosis: data.diagnosis,
+    images: data.images || [],
+    cropName: data.cropName || undefined,
+    location: data.location || undefined,
+    landSize: data.landSize,
+    additionalNotes: data.additionalNotes,
+    modelVersion: data.modelVersion || undefined,
+    upvotes: data.upvotes || 0,
+    flags: data.flags || 0,
+    review: data.review ? { ...data.review, reviewedAt: toIsoString(data.review.reviewedAt) || '' } : null,
+    hidden: data.hidden === true,
+    userId: data.userId || null,
+    // Convert Firestore Timestamp to a serializable ISO string
+    createdAt: (data.createdAt as Timestamp).toDate().toISOString(),
+});
+
 /**
- * Retrieves all diagnosis records for the public library.
- * @returns A promise that resolves to an array of diagnosis records.
+ * Retrieves one page of diagnosis records for the Digital Library, newest first.
+ *
+ * Firestore allows a single array-contains clause per query, so the most selective search
+ * term (the region if given, otherwise the first search word) is matched in the query and
+ * any remaining terms are matched here. Batches are scanned until the page is full, so a
+ * page can come back short when few records match; `nextCursor` then continues the scan.
+ * @param filters Which records to include.
+ * @param cursor The `nextCursor` of the previous page, or null for the first page.
+ * @param pageSize The maximum number of records to return.
  */
-export async function getDiagnosesForUser(): Promise<DiagnosisRecord[]> {
+export async function queryDiagnoses(filters: DiagnosisFilters, cursor: string | null = null, pageSize = 10): Promise<DiagnosisPage> {
   try {
-    const diagnosesCollection = collection(db, "diagnoses");
-    // We will now sort by date on the server, which requires a Firestore index.
-    const q = query(diagnosesCollection, orderBy("createdAt", "desc"));
-    
-    const querySnapshot = await getDocs(q);
-    const diagnoses: DiagnosisRecord[] = [];
-    
-    querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        const createdAtTimestamp = data.createdAt as Timestamp;
-
-        if (createdAtTimestamp) {
-            diagnoses.push({ 
-                id: doc.id,
-                diagnosis: data.diagnosis,
-                landSize: data.landSize,
-                additionalNotes: data.additionalNotes,
-                userId: data.userId || null,
-                // Convert Firestore Timestamp to a serializable ISO string
-                createdAt: createdAtTimestamp.toDate().toISOString(),
-            });
+    const constraints: QueryConstraint[] = [];
+    if (filters.scope === 'mine') {
+        constraints.push(where("userId", "==", await requireUserId('view your diagnoses')));
+    }
+    if (filters.scope === 'review') {
+        await requireAgronomist();
+        constraints.push(where("hidden", "==", true));
+    }
+    if (filters.healthStatus) {
+        constraints.push(where("diagnosis.healthStatus.status", "==", filters.healthStatus));
+    }
+    if (filters.severity) {
+        constraints.push(where("diagnosis.healthStatus.severity", "==", filters.severity));
+    }
+    if (filters.crop?.trim()) {
+        constraints.push(where("cropKey", "==", normalizeKey(filters.crop)));
+    }
+    if (filters.from) {
+        constraints.push(where("createdAt", ">=", Timestamp.fromDate(startOfDay(parseISO(filters.from)))));
+    }
+    if (filters.to) {
+        constraints.push(where("createdAt", "<=", Timestamp.fromDate(endOfDay(parseISO(filters.to)))));
+    }
+
+    const searchTerms = tokenize(filters.search ?? '');
+    const regionTerm = filters.region?.trim() ? regionKeyword(filters.region) : null;
+    const [queryTerm, ...remainingTerms] = regionTerm ? [regionTerm, ...searchTerms] : searchTerms;
+    if (queryTerm) {
+        constraints.push(where("keywords", "array-contains", queryTerm));
+    }
+    const diseaseTerms = tokenize(filters.disease ?? '');
+
+    // Records saved before search fields existed are only found once `npm run db:backfill` has added them.
+    const matchesRemainingFilters = (data: DocumentData) => {
+        const keywords: string[] = data.keywords ?? [];
+        const diseaseWords = tokenize(data.diseaseKey ?? '');
+        // Hidden records are only listed for their owner and for reviewers.
+        if (filters.scope === 'community' && data.hidden === true) {
+            return false;
         }
-    });
+        return remainingTerms.every(term => keywords.includes(term))
+            && diseaseTerms.every(term => diseaseWords.includes(term));
+    };
+
+    const records: DiagnosisRecord[] = [];
+    let lastScanned: DocumentSnapshot | null = cursor ? await getDoc(doc(db, "diagnoses", cursor)) : null;
+    if (lastScanned && !lastScanned.exists()) {
+        throw new Error('The page you asked for is no longer available. Please search again.');
+    }
+
+    for (let round = 0; round < DIAGNOSIS_BATCH_ROUNDS; round++) {
+        const q: Query = query(
+            collection(db, "diagnoses"),
+            ...constraints,
+            orderBy("createdAt", "desc"),
+            ...(lastScanned ? [startAfter(lastScanned)] : []),
+            limit(pageSize * 2)
+        );
+        const querySnapshot: QuerySnapshot = await getDocs(q);
+
+        for (const snapshot of querySnapshot.docs) {
+            lastScanned = snapshot;
+            const data = snapshot.data();
+            if (data.createdAt && matchesRemainingFilters(data)) {
+                records.push(toDiagnosisRecord(snapshot.id, data));
+                if (records.length === pageSize) {
+                    return { records, nextCursor: snapshot.id };
+                }
+            }
+        }
+        if (querySnapshot.size < pageSize * 2) {
+            return { records, nextCursor: null };
+        }
+    }
 
-    console.log(`Found ${diagnoses.length} diagnoses.`);
-    return diagnoses;
+    console.log(`Found ${records.length} diagnoses after ${DIAGNOSIS_BATCH_ROUNDS} batches.`);
+    return { records, nextCursor: lastScanned?.id ?? null };
   } catch (e: any) {
     if (e.code === 'failed-precondition') {
-        console.error("Firestore index missing. Please create a composite index for 'diagnoses' on 'createdAt' descending.", e);
-        throw new Error('Could not fetch diagnoses from the database. A database index is required for this query. Please check the Firebase console.');
+        console.error("Firestore index missing. Please create the composite index for 'diagnoses' linked in this error.", e);
+        throw new Error('Could not fetch diagnoses from the database. A database index is required for this combination of filters. Please check the Firebase console.');
     } else {
         console.error('Error getting documents: ', e);
         throw new Error(`Could not fetch diagnoses from the database. Reason: ${e.message}`);
@@ -115,14 +286,99 @@ export async function getDiagnosesForUser(): Promise<DiagnosisRecord[]> {
 
 
 /**
- * Saves a new current crop record to Firestore. This is a public collection.
+ * Converts a `current_crops` document into a serializable CurrentCrop.
+ */
+function toCurrentCrop(id: string, data: DocumentData): CurrentCrop {
+    return {
+        id,
+        userId: data.userId,
+        cropName: data.cropName,
+        fieldId: data.fieldId || null,
+        fieldSize: data.fieldSize,
+        location: data.location,
+        // Ensure sowingDate and createdAt are converted to serializable ISO strings
+        sowingDate: toIsoString(data.sowingDate) || '',
+        additionalInfo: data.additionalInfo,
+        soilPhotoDataUri: data.soilPhotoDataUri || null,
+        status: data.status || 'active',
+        harvestedAt: toIsoString(data.harvestedAt),
+        harvestYieldQuintals: data.harvestYieldQuintals ?? null,
+        createdAt: toIsoString(data.createdAt) || '',
+        updatedAt: toIsoString(data.updatedAt),
+    };
+}
+
+/**
+ * Returns the signed-in user's uid, or throws if nobody is signed in.
+ */
+async function requireUserId(action: string): Promise<string> {
+    const user = await getCurrentUser();
+    if (!user) {
+        throw new Error(`You must be logged in to ${action}.`);
+    }
+    return user.uid;
+}
+
+/**
+ * Loads a document and checks that it belongs to the given user.
+ * @param collectionName The collection holding user-owned documents, e.g. 'current_crops'.
+ * @param label How the document is described in error messages, e.g. 'crop'.
+ */
+async function getOwnedDocRef(collectionName: string, id: string, userId: string, label: string) {
+    const docRef = doc(db, collectionName, id);
+    const snapshot = await getDoc(docRef);
+    if (!snapshot.exists()) {
+        throw new Error(`This ${label} no longer exists.`);
+    }
+    if (snapshot.data().userId !== userId) {
+        throw new Error(`You can only change your own ${label}s.`);
+    }
+    return docRef;
+}
+
+const getOwnedCropRef = (cropId: string, userId: string) => getOwnedDocRef('current_crops', cropId, userId, 'crop');
+
+/**
+ * Checks data sent to a server action against a schema. Actions can be called with anything,
+ * whatever their parameter types say, so their input is parsed before it is written.
+ */
+function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        throw new Error(result.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; '));
+    }
+    return result.data;
+}
+
+// The details of a crop its owner can set; ownership, status and dates are kept by the server.
+const CurrentCropInputSchema = z.object({
+    cropName: z.string().trim().min(1),
+    fieldId: z.string().nullable().optional(),
+    fieldSize: z.string(),
+    location: z.string(),
+    sowingDate: z.string().datetime({ offset: true }),
+    additionalInfo: z.string().optional(),
+    soilPhotoDataUri: z.string().nullable().optional(),
+}).strict();
+
+/**
+ * Saves a new current crop record to Firestore, owned by the signed-in user.
  * @param data The crop data to save.
  */
-export async function addCurrentCrop(data: Omit<CurrentCrop, 'id' | 'createdAt'>): Promise<string> {
+export async function addCurrentCrop(data: CurrentCropInput): Promise<string> {
   try {
+    const userId = await requireUserId('add a crop');
+    const crop = parseInput(CurrentCropInputSchema, data);
+    if (crop.fieldId) {
+      await getOwnedDocRef('fields', crop.fieldId, userId, 'field');
+    }
     const docRef = await addDoc(collection(db, 'current_crops'), {
-      ...data,
+      ...crop,
+      userId,
+      status: 'active',
+      harvestedAt: null,
       createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
     });
     console.log('Current crop record created with ID: ', docRef.id);
     return docRef.id;
@@ -133,53 +389,101 @@ export async function addCurrentCrop(data: Omit<CurrentCrop, 'id' | 'createdAt'>
 }
 
 /**
- * Retrieves all current crop records from Firestore for public access.
- * @returns A promise that resolves to an array of current crop records.
+ * Updates the editable fields of one of the signed-in user's crops.
+ * @param cropId The ID of the crop to update.
+ * @param data The fields to change.
  */
-export async function getAllCurrentCrops(): Promise<CurrentCrop[]> {
+export async function updateCurrentCrop(cropId: string, data: Partial<CurrentCropInput>): Promise<void> {
   try {
-    const cropsCollection = collection(db, "current_crops");
-    const q = query(cropsCollection, orderBy("createdAt", "desc"));
-    
-    const querySnapshot = await getDocs(q);
-    const crops: CurrentCrop[] = [];
-    
-    querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        const createdAtTimestamp = data.createdAt as Timestamp;
-        const sowingDateTimestamp = data.sowingDate as Timestamp;
+    const userId = await requireUserId('edit a crop');
+    const changes = parseInput(CurrentCropInputSchema.partial(), data);
+    const cropRef = await getOwnedCropRef(cropId, userId);
+    if (changes.fieldId) {
+      await getOwnedDocRef('fields', changes.fieldId, userId, 'field');
+    }
+    await updateDoc(cropRef, { ...changes, updatedAt: serverTimestamp() });
+    console.log('Current crop record updated with ID: ', cropId);
+  } catch (e: any) {
+    console.error('Error updating current crop document: ', e);
+    throw new Error(`Could not update your crop. Reason: ${e.message}`);
+  }
+}
 
-        // Ensure sowingDate and createdAt are converted to serializable ISO strings
-        let sowingDateStr: string;
-        if (sowingDateTimestamp && typeof sowingDateTimestamp.toDate === 'function') {
-            sowingDateStr = sowingDateTimestamp.toDate().toISOString();
-        } else {
-            sowingDateStr = data.sowingDate; // Assume it's already a string
-        }
+/**
+ * Permanently deletes one of the signed-in user's crops.
+ * @param cropId The ID of the crop to delete.
+ */
+export async function deleteCurrentCrop(cropId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete a crop');
+    const cropRef = await getOwnedCropRef(cropId, userId);
+    await deleteDoc(cropRef);
+    console.log('Current crop record deleted with ID: ', cropId);
+  } catch (e: any) {
+    console.error('Error deleting current crop document: ', e);
+    throw new Error(`Could not delete your crop. Reason: ${e.message}`);
+  }
+}
 
-        let createdAtStr: string;
-         if (createdAtTimestamp && typeof createdAtTimestamp.toDate === 'function') {
-            createdAtStr = createdAtTimestamp.toDate().toISOString();
-        } else {
-            createdAtStr = data.createdAt; // It might not exist on old docs, or is already a string
-        }
+/**
+ * Marks one of the signed-in user's crops as harvested, moving it to their crop history.
+ * @param cropId The ID of the crop to archive.
+ * @param harvestedAt The harvest date as an ISO string. Defaults to now.
+ */
+export async function archiveCurrentCrop(cropId: string, harvestedAt: string = new Date().toISOString()): Promise<void> {
+  try {
+    const userId = await requireUserId('archive a crop');
+    const cropRef = await getOwnedCropRef(cropId, userId);
+    await updateDoc(cropRef, { status: 'harvested', harvestedAt, updatedAt: serverTimestamp() });
+    console.log('Current crop record archived with ID: ', cropId);
+  } catch (e: any) {
+    console.error('Error archiving current crop document: ', e);
+    throw new Error(`Could not move your crop to history. Reason: ${e.message}`);
+  }
+}
 
-        crops.push({
-            id: doc.id,
-            cropName: data.cropName,
-            fieldSize: data.fieldSize,
-            location: data.location,
-            sowingDate: sowingDateStr,
-            additionalInfo: data.additionalInfo,
-            soilPhotoDataUri: data.soilPhotoDataUri || null,
-            createdAt: createdAtStr,
-        });
-    });
-    console.log(`Found ${crops.length} current crops.`);
+/**
+ * Records the yield of one of the signed-in user's harvested crops.
+ * @param cropId The ID of the crop.
+ * @param yieldQuintals The yield of the whole field, in quintals.
+ */
+export async function recordHarvestYield(cropId: string, yieldQuintals: number): Promise<void> {
+  try {
+    const userId = await requireUserId('record a harvest');
+    if (!(yieldQuintals > 0)) {
+      throw new Error('The yield must be more than zero quintals.');
+    }
+    const cropRef = await getOwnedCropRef(cropId, userId);
+    await updateDoc(cropRef, { harvestYieldQuintals: yieldQuintals, updatedAt: serverTimestamp() });
+  } catch (e: any) {
+    console.error('Error recording harvest yield: ', e);
+    throw new Error(`Could not record the yield. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's crops with the given status, newest first.
+ * @param status 'active' for crops in the field, 'harvested' for the crop history.
+ * @returns A promise that resolves to an array of the user's crop records.
+ */
+export async function getCurrentCrops(status: CurrentCropStatus = 'active'): Promise<CurrentCrop[]> {
+  try {
+    const userId = await requireUserId('view your crops');
+    const cropsCollection = collection(db, "current_crops");
+    const q = query(
+        cropsCollection,
+        where("userId", "==", userId),
+        where("status", "==", status),
+        orderBy(status === 'harvested' ? "harvestedAt" : "createdAt", "desc")
+    );
+
+    const querySnapshot = await getDocs(q);
+    const crops = querySnapshot.docs.map((doc) => toCurrentCrop(doc.id, doc.data()));
+    console.log(`Found ${crops.length} ${status} crops for user ${userId}.`);
     return crops;
   } catch (e: any) {
     if (e.code === 'failed-precondition') {
-        console.error("Firestore index missing. Please create a composite index for 'current_crops' on 'createdAt' descending.", e);
+        console.error("Firestore index missing. Please create a composite index for 'current_crops' on 'userId', 'status' and 'createdAt'/'harvestedAt' descending.", e);
         throw new Error('Could not fetch current crops from the database. A database index is required for this query. Please check the Firebase console.');
     } else {
         console.error('Error getting current crop documents: ', e);
@@ -187,3 +491,1555 @@ export async function getAllCurrentCrops(): Promise<CurrentCrop[]> {
     }
   }
 }
+
+/**
+ * Converts a `fields` document into a serializable Field.
+ */
+function toField(id: string, data: DocumentData): Field {
+    return {
+        id,
+        userId: data.userId,
+        name: data.name,
+        area: data.area,
+        areaUnit: data.areaUnit,
+        village: data.village,
+        district: data.district,
+        state: data.state || undefined,
+        // Firestore cannot store nested arrays, so the boundary is kept as a GeoJSON string.
+        boundary: data.boundary ? JSON.parse(data.boundary) : null,
+        soilType: data.soilType || undefined,
+        soilTest: data.soilTest || null,
+        createdAt: toIsoString(data.createdAt) || '',
+        updatedAt: toIsoString(data.updatedAt),
+    };
+}
+
+// The details of a field its owner can set; ownership and dates are kept by the server.
+const FieldInputSchema = z.object({
+    name: z.string().trim().min(1),
+    area: z.number().finite().positive(),
+    areaUnit: z.enum(['acres', 'hectares', 'sqm']),
+    village: z.string(),
+    district: z.string().trim().min(1),
+    state: z.string().optional(),
+    // Checked with parseFieldBoundary when it is stored.
+    boundary: z.unknown().optional(),
+    soilType: z.string().optional(),
+    soilTest: z.object({
+        ph: z.number().min(0).max(14).nullable().optional(),
+        nitrogen: z.number().finite().min(0).nullable().optional(),
+        phosphorus: z.number().finite().min(0).nullable().optional(),
+        potassium: z.number().finite().min(0).nullable().optional(),
+        organicCarbon: z.number().min(0).max(100).nullable().optional(),
+        testedAt: z.string().datetime({ offset: true }).nullable().optional(),
+    }).strict().nullable().optional(),
+}).strict();
+
+const toFieldDocument = (data: Partial<z.infer<typeof FieldInputSchema>>) => {
+    const { boundary, ...rest } = data;
+    if (boundary === undefined) {
+        return rest;
+    }
+    const parsed = boundary === null ? null : parseFieldBoundary(boundary);
+    if (boundary !== null && !parsed) {
+        throw new Error('The field boundary must be a GeoJSON polygon.');
+    }
+    return { ...rest, boundary: parsed ? JSON.stringify(parsed) : null };
+};
+
+/**
+ * Registers a new field for the signed-in user.
+ * @param data The field data to save.
+ */
+export async function addField(data: FieldInput): Promise<string> {
+  try {
+    const userId = await requireUserId('add a field');
+    const field = toFieldDocument(parseInput(FieldInputSchema, data));
+    const docRef = await addDoc(collection(db, 'fields'), {
+      ...field,
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    console.log('Field record created with ID: ', docRef.id);
+    return docRef.id;
+  } catch (e: any) {
+    console.error('Error adding field document: ', e);
+    throw new Error(`Could not save your field to the database. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Updates one of the signed-in user's fields.
+ * @param fieldId The ID of the field to update.
+ * @param data The values to change.
+ */
+export async function updateField(fieldId: string, data: Partial<FieldInput>): Promise<void> {
+  try {
+    const userId = await requireUserId('edit a field');
+    const changes = toFieldDocument(parseInput(FieldInputSchema.partial(), data));
+    const fieldRef = await getOwnedDocRef('fields', fieldId, userId, 'field');
+    await updateDoc(fieldRef, { ...changes, updatedAt: serverTimestamp() });
+    console.log('Field record updated with ID: ', fieldId);
+  } catch (e: any) {
+    console.error('Error updating field document: ', e);
+    throw new Error(`Could not update your field. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's fields. Crops grown on it are kept but unlinked.
+ * @param fieldId The ID of the field to delete.
+ */
+export async function deleteField(fieldId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete a field');
+    const fieldRef = await getOwnedDocRef('fields', fieldId, userId, 'field');
+    const crops = await getDocs(query(
+        collection(db, 'current_crops'),
+        where('userId', '==', userId),
+        where('fieldId', '==', fieldId)
+    ));
+
+    const batch = writeBatch(db);
+    crops.forEach((crop) => batch.update(crop.ref, { fieldId: null, updatedAt: serverTimestamp() }));
+    batch.delete(fieldRef);
+    await batch.commit();
+    console.log(`Field record deleted with ID: ${fieldId}, unlinked ${crops.size} crops.`);
+  } catch (e: any) {
+    console.error('Error deleting field document: ', e);
+    throw new Error(`Could not delete your field. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's fields, sorted by name.
+ * @returns A promise that resolves to an array of the user's fields.
+ */
+export async function getFields(): Promise<Field[]> {
+  try {
+    const userId = await requireUserId('view your fields');
+    const querySnapshot = await getDocs(query(collection(db, 'fields'), where('userId', '==', userId)));
+    const fields = querySnapshot.docs
+        .map((doc) => toField(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    console.log(`Found ${fields.length} fields for user ${userId}.`);
+    return fields;
+  } catch (e: any) {
+    console.error('Error getting field documents: ', e);
+    throw new Error(`Could not fetch your fields from the database. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves every crop, active or harvested, grown on one of the signed-in user's fields.
+ * @param fieldId The ID of the field.
+ * @returns A promise that resolves to the field's crops, most recently sown first.
+ */
+export async function getFieldHistory(fieldId: string): Promise<CurrentCrop[]> {
+  try {
+    const userId = await requireUserId('view a field\'s history');
+    const querySnapshot = await getDocs(query(
+        collection(db, 'current_crops'),
+        where('userId', '==', userId),
+        where('fieldId', '==', fieldId)
+    ));
+    // Sorted here rather than in the query so no composite index is needed.
+    return querySnapshot.docs
+        .map((doc) => toCurrentCrop(doc.id, doc.data()))
+        .sort((a, b) => b.sowingDate.localeCompare(a.sowingDate));
+  } catch (e: any) {
+    console.error('Error getting field history: ', e);
+    throw new Error(`Could not fetch the history of this field. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Returns the signed-in user if they have the agronomist role, or throws. The role is a
+ * custom claim on the user's Firebase Auth account, granted with the Admin SDK:
+ * `auth().setCustomUserClaims(uid, { role: 'agronomist' })`.
+ */
+async function requireAgronomist() {
+    const user = await getCurrentUser();
+    if (!user || user.role !== 'agronomist') {
+        throw new Error('Only agronomists can review diagnoses.');
+    }
+    return user;
+}
+
+/**
+ * Records the signed-in user's "this worked for me" upvote or flag on a diagnosis. Sending
+ * the user's current feedback again withdraws it; sending the other type switches to it.
+ * A record with flags is hidden from the community list until an agronomist reviews it.
+ * @param diagnosisId The ID of the diagnosis.
+ * @param type The feedback to give.
+ * @returns The user's feedback after the change, or null if it was withdrawn.
+ */
+export async function toggleDiagnosisFeedback(diagnosisId: string, type: DiagnosisFeedbackType): Promise<DiagnosisFeedbackType | null> {
+  try {
+    const userId = await requireUserId('rate a diagnosis');
+    const diagnosisRef = doc(db, 'diagnoses', diagnosisId);
+    // One feedback document per user keeps votes from being counted twice.
+    const feedbackRef = doc(db, 'diagnoses', diagnosisId, 'feedback', userId);
+
+    return await runTransaction(db, async (transaction) => {
+        const [diagnosisDoc, feedbackDoc] = await Promise.all([transaction.get(diagnosisRef), transaction.get(feedbackRef)]);
+        if (!diagnosisDoc.exists()) {
+            throw new Error('This diagnosis no longer exists.');
+        }
+
+        const data = diagnosisDoc.data();
+        const counts = { upvote: data.upvotes || 0, flag: data.flags || 0 };
+        const previous = feedbackDoc.exists() ? feedbackDoc.data().type as DiagnosisFeedbackType : null;
+        const next = previous === type ? null : type;
+
+        if (previous) counts[previous] -= 1;
+        if (next) counts[next] += 1;
+
+        if (next) {
+            transaction.set(feedbackRef, { type: next, createdAt: serverTimestamp() });
+        } else {
+            transaction.delete(feedbackRef);
+        }
+        transaction.update(diagnosisRef, {
+            upvotes: counts.upvote,
+            flags: counts.flag,
+            hidden: counts.flag > 0 && !data.review,
+        });
+        return next;
+    });
+  } catch (e: any) {
+    console.error('Error saving diagnosis feedback: ', e);
+    throw new Error(`Could not save your feedback. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's feedback on the given diagnoses.
+ * @param diagnosisIds The IDs of the diagnoses shown to the user.
+ * @returns A map from diagnosis ID to the user's feedback, omitting diagnoses without any.
+ */
+export async function getMyDiagnosisFeedback(diagnosisIds: string[]): Promise<Record<string, DiagnosisFeedbackType>> {
+  const user = await getCurrentUser();
+  if (!user || diagnosisIds.length === 0) {
+    return {};
+  }
+  try {
+    const feedbackDocs = await Promise.all(diagnosisIds.map(id => getDoc(doc(db, 'diagnoses', id, 'feedback', user.uid))));
+    return Object.fromEntries(feedbackDocs
+        .filter(feedbackDoc => feedbackDoc.exists())
+        .map(feedbackDoc => [feedbackDoc.ref.parent.parent!.id, feedbackDoc.data()!.type]));
+  } catch (e: any) {
+    console.error('Error getting diagnosis feedback: ', e);
+    throw new Error(`Could not fetch your feedback. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Records an agronomist's review of a diagnosis. A reviewed record is shown in the
+ * community list again, with the verdict, whatever its flags.
+ * @param diagnosisId The ID of the diagnosis.
+ * @param review The verdict, notes and any corrections.
+ */
+export async function reviewDiagnosis(
+    diagnosisId: string,
+    review: Pick<DiagnosisReview, 'status' | 'notes' | 'correctedDiseaseName' | 'correctedRemedies'>
+): Promise<DiagnosisReview> {
+  try {
+    const reviewer = await requireAgronomist();
+    if (review.status === 'corrected' && !review.correctedDiseaseName?.trim() && !review.correctedRemedies?.trim()) {
+        throw new Error('A correction needs a corrected disease name or remedies.');
+    }
+
+    const diagnosisRef = doc(db, 'diagnoses', diagnosisId);
+    const savedReview = {
+        status: review.status,
+        notes: review.notes.trim(),
+        correctedDiseaseName: review.status === 'corrected' ? review.correctedDiseaseName?.trim() || null : null,
+        correctedRemedies: review.status === 'corrected' ? review.correctedRemedies?.trim() || null : null,
+        reviewerId: reviewer.uid,
+        reviewerName: reviewer.name || reviewer.email || 'Agronomist',
+    };
+    await updateDoc(diagnosisRef, {
+        review: { ...savedReview, reviewedAt: serverTimestamp() },
+        hidden: false,
+    });
+    console.log(`Diagnosis ${diagnosisId} reviewed as ${review.status} by ${reviewer.uid}.`);
+    return { ...savedReview, reviewedAt: new Date().toISOString() };
+  } catch (e: any) {
+    console.error('Error reviewing diagnosis: ', e);
+    throw new Error(`Could not save your review. Reason: ${e.message}`);
+  }
+}
+
+// Titles are taken from the opening question until the user renames the session.
+const NEW_CHAT_TITLE = 'New chat';
+const CHAT_TITLE_LENGTH = 60;
+const MAX_BATCH_WRITES = 500;
+
+function toChatSession(id: string, data: DocumentData): ChatSession {
+    return {
+        id,
+        userId: data.userId,
+        title: data.title || NEW_CHAT_TITLE,
+        language: data.language || 'English',
+        messageCount: data.messageCount || 0,
+        summary: data.summary || null,
+        summarizedCount: data.summarizedCount || 0,
+        createdAt: toIsoString(data.createdAt) || '',
+        updatedAt: toIsoString(data.updatedAt) || toIsoString(data.createdAt) || '',
+    };
+}
+
+function toChatSessionMessage(id: string, data: DocumentData): ChatSessionMessage {
+    return {
+        id,
+        role: data.role,
+        content: data.content,
+        // Stored as JSON, since tool results can hold nested arrays that Firestore does not accept.
+        toolTrace: data.toolTrace ? JSON.parse(data.toolTrace) : [],
+        createdAt: toIsoString(data.createdAt) || '',
+    };
+}
+
+const getOwnedChatSessionRef = (sessionId: string, userId: string) => getOwnedDocRef('chat_sessions', sessionId, userId, 'chat');
+
+/**
+ * Starts a new, empty chat session for the signed-in user.
+ * @param language The language the conversation is held in.
+ */
+export async function createChatSession(language: string): Promise<ChatSession> {
+  try {
+    const userId = await requireUserId('save a chat');
+    const docRef = await addDoc(collection(db, 'chat_sessions'), {
+      userId,
+      title: NEW_CHAT_TITLE,
+      language,
+      messageCount: 0,
+      summary: null,
+      summarizedCount: 0,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    console.log('Chat session created with ID: ', docRef.id);
+    const now = new Date().toISOString();
+    return { id: docRef.id, userId, title: NEW_CHAT_TITLE, language, messageCount: 0, summary: null, summarizedCount: 0, createdAt: now, updatedAt: now };
+  } catch (e: any) {
+    console.error('Error adding chat session document: ', e);
+    throw new Error(`Could not start a new chat. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's chat sessions, most recently active first.
+ */
+export async function getChatSessions(): Promise<ChatSession[]> {
+  try {
+    const userId = await requireUserId('view your chats');
+    const querySnapshot = await getDocs(query(collection(db, 'chat_sessions'), where('userId', '==', userId)));
+    // Sorted here rather than in the query so no composite index is needed.
+    return querySnapshot.docs
+        .map((doc) => toChatSession(doc.id, doc.data()))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (e: any) {
+    console.error('Error getting chat session documents: ', e);
+    throw new Error(`Could not fetch your chats. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves one of the signed-in user's chat sessions.
+ * @param sessionId The ID of the session.
+ */
+export async function getChatSession(sessionId: string): Promise<ChatSession> {
+  try {
+    const userId = await requireUserId('view a chat');
+    const sessionRef = await getOwnedChatSessionRef(sessionId, userId);
+    const snapshot = await getDoc(sessionRef);
+    return toChatSession(snapshot.id, snapshot.data()!);
+  } catch (e: any) {
+    console.error('Error getting chat session document: ', e);
+    throw new Error(`Could not fetch this chat. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the messages of one of the signed-in user's chat sessions, oldest first.
+ * @param sessionId The ID of the session.
+ */
+export async function getChatSessionMessages(sessionId: string): Promise<ChatSessionMessage[]> {
+  try {
+    const userId = await requireUserId('view a chat');
+    await getOwnedChatSessionRef(sessionId, userId);
+    const querySnapshot = await getDocs(query(collection(db, 'chat_sessions', sessionId, 'messages'), orderBy('createdAt', 'asc')));
+    return querySnapshot.docs.map((doc) => toChatSessionMessage(doc.id, doc.data()));
+  } catch (e: any) {
+    console.error('Error getting chat messages: ', e);
+    throw new Error(`Could not fetch the messages of this chat. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Adds a message to one of the signed-in user's chat sessions. The first question asked
+ * becomes the session's title, unless the user has already named it.
+ * @param sessionId The ID of the session.
+ * @param message The message to add.
+ * @param language The language the message is in.
+ */
+export async function appendChatMessage(
+    sessionId: string,
+    message: Pick<ChatSessionMessage, 'role' | 'content'> & Partial<Pick<ChatSessionMessage, 'toolTrace'>>,
+    language: string
+): Promise<void> {
+  try {
+    const userId = await requireUserId('save a chat');
+    const sessionRef = await getOwnedChatSessionRef(sessionId, userId);
+    const session = toChatSession(sessionId, (await getDoc(sessionRef)).data()!);
+
+    const batch = writeBatch(db);
+    batch.set(doc(collection(sessionRef, 'messages')), {
+      role: message.role,
+      content: message.content,
+      toolTrace: message.toolTrace?.length ? JSON.stringify(message.toolTrace) : null,
+      createdAt: serverTimestamp(),
+    });
+    batch.update(sessionRef, {
+      language,
+      messageCount: increment(1),
+      updatedAt: serverTimestamp(),
+      ...(message.role === 'user' && session.title === NEW_CHAT_TITLE && {
+        title: message.content.trim().replace(/\s+/g, ' ').slice(0, CHAT_TITLE_LENGTH),
+      }),
+    });
+    await batch.commit();
+  } catch (e: any) {
+    console.error('Error adding chat message: ', e);
+    throw new Error(`Could not save the chat message. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Stores the summary of the oldest messages of a chat session.
+ * @param sessionId The ID of the session.
+ * @param summary The summary of the conversation so far.
+ * @param summarizedCount How many of the oldest messages the summary covers.
+ */
+export async function saveChatSummary(sessionId: string, summary: string, summarizedCount: number): Promise<void> {
+  try {
+    const userId = await requireUserId('save a chat');
+    const sessionRef = await getOwnedChatSessionRef(sessionId, userId);
+    await updateDoc(sessionRef, { summary, summarizedCount });
+  } catch (e: any) {
+    console.error('Error saving chat summary: ', e);
+    throw new Error(`Could not save the chat summary. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Renames one of the signed-in user's chat sessions.
+ * @param sessionId The ID of the session.
+ * @param title The new title.
+ */
+export async function renameChatSession(sessionId: string, title: string): Promise<void> {
+  try {
+    const userId = await requireUserId('rename a chat');
+    const sessionRef = await getOwnedChatSessionRef(sessionId, userId);
+    await updateDoc(sessionRef, { title: title.trim() || NEW_CHAT_TITLE });
+  } catch (e: any) {
+    console.error('Error renaming chat session: ', e);
+    throw new Error(`Could not rename this chat. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's chat sessions with all of its messages.
+ * @param sessionId The ID of the session.
+ */
+export async function deleteChatSession(sessionId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete a chat');
+    const sessionRef = await getOwnedChatSessionRef(sessionId, userId);
+    const messages = await getDocs(collection(sessionRef, 'messages'));
+
+    // A batch holds at most 500 writes, and long chats can have more messages than that.
+    for (let start = 0; start < messages.docs.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      messages.docs.slice(start, start + MAX_BATCH_WRITES).forEach((message) => batch.delete(message.ref));
+      await batch.commit();
+    }
+    await deleteDoc(sessionRef);
+    console.log(`Chat session deleted with ID: ${sessionId}, with ${messages.size} messages.`);
+  } catch (e: any) {
+    console.error('Error deleting chat session: ', e);
+    throw new Error(`Could not delete this chat. Reason: ${e.message}`);
+  }
+}
+
+const NOTIFICATION_PAGE_SIZE = 30;
+
+function toPriceAlert(id: string, data: DocumentData): PriceAlert {
+    return {
+        id,
+        userId: data.userId,
+        cropId: data.cropId || null,
+        commodity: data.commodity,
+        market: data.market,
+        district: data.district,
+        state: data.state,
+        condition: data.condition,
+        threshold: data.threshold,
+        baselinePrice: data.baselinePrice,
+        baselineDate: data.baselineDate,
+        status: data.status || 'active',
+        lastCheckedDate: data.lastCheckedDate || null,
+        triggeredPrice: data.triggeredPrice ?? null,
+        triggeredAt: toIsoString(data.triggeredAt),
+        createdAt: toIsoString(data.createdAt) || '',
+    };
+}
+
+function toAppNotification(id: string, data: DocumentData): AppNotification {
+    return {
+        id,
+        userId: data.userId,
+        type: data.type,
+        title: data.title,
+        message: data.message,
+        alertId: data.alertId || null,
+        applicationId: data.applicationId || null,
+        read: !!data.read,
+        createdAt: toIsoString(data.createdAt) || '',
+    };
+}
+
+const getOwnedPriceAlertRef = (alertId: string, userId: string) => getOwnedDocRef('price_alerts', alertId, userId, 'price alert');
+
+/**
+ * Finds the latest imported price for an alert's mandi, and checks that the alert would not
+ * fire straight away.
+ */
+async function getAlertBaseline(alert: PriceAlertInput) {
+    const latest = await getLatestMandiPrice(alert);
+    if (!latest) {
+        throw new Error(`No ${alert.commodity} prices for ${alert.market} have been imported.`);
+    }
+    if ((alert.condition === 'above' && latest.modalPrice >= alert.threshold) || (alert.condition === 'below' && latest.modalPrice <= alert.threshold)) {
+        throw new Error(`${alert.commodity} at ${alert.market} is already at ₹${latest.modalPrice}/quintal.`);
+    }
+    return latest;
+}
+
+// What a farmer can set on a price alert; the baseline and status are kept by the server.
+const PriceAlertInputSchema = z.object({
+    cropId: z.string().nullable(),
+    commodity: z.string().trim().min(1),
+    market: z.string().trim().min(1),
+    district: z.string(),
+    state: z.string().trim().min(1),
+    condition: z.enum(['above', 'below', 'move']),
+    threshold: z.number().finite().positive('The target price or price move must be a positive number.'),
+});
+
+/**
+ * Sets a price alert for the signed-in user. The latest imported price becomes the
+ * baseline that price moves are measured from.
+ * @param data The commodity, mandi and condition to watch.
+ */
+export async function createPriceAlert(data: PriceAlertInput): Promise<PriceAlert> {
+  try {
+    const userId = await requireUserId('set a price alert');
+    const input = parseInput(PriceAlertInputSchema, data);
+    const latest = await getAlertBaseline(input);
+    const alert = {
+      userId,
+      cropId: input.cropId || null,
+      commodity: input.commodity,
+      market: input.market,
+      district: input.district,
+      state: input.state,
+      condition: input.condition,
+      threshold: input.threshold,
+      baselinePrice: latest.modalPrice,
+      baselineDate: latest.date,
+      status: 'active' as const,
+      lastCheckedDate: latest.date,
+      triggeredPrice: null,
+      triggeredAt: null,
+    };
+    const docRef = await addDoc(collection(db, 'price_alerts'), { ...alert, createdAt: serverTimestamp() });
+    console.log('Price alert created with ID: ', docRef.id);
+    return { id: docRef.id, ...alert, createdAt: new Date().toISOString() };
+  } catch (e: any) {
+    console.error('Error adding price alert document: ', e);
+    throw new Error(`Could not set the price alert. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's price alerts, newest first.
+ */
+export async function getPriceAlerts(): Promise<PriceAlert[]> {
+  try {
+    const userId = await requireUserId('view your price alerts');
+    const querySnapshot = await getDocs(query(collection(db, 'price_alerts'), where('userId', '==', userId)));
+    return querySnapshot.docs
+        .map((doc) => toPriceAlert(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (e: any) {
+    console.error('Error getting price alert documents: ', e);
+    throw new Error(`Could not fetch your price alerts. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Sets a triggered price alert watching again, from the latest imported price.
+ * @param alertId The ID of the alert.
+ */
+export async function rearmPriceAlert(alertId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('change a price alert');
+    const alertRef = await getOwnedPriceAlertRef(alertId, userId);
+    const alert = toPriceAlert(alertId, (await getDoc(alertRef)).data()!);
+    const latest = await getAlertBaseline(alert);
+    await updateDoc(alertRef, {
+      status: 'active',
+      baselinePrice: latest.modalPrice,
+      baselineDate: latest.date,
+      lastCheckedDate: latest.date,
+      triggeredPrice: null,
+      triggeredAt: null,
+    });
+  } catch (e: any) {
+    console.error('Error re-arming price alert: ', e);
+    throw new Error(`Could not turn the price alert back on. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's price alerts.
+ * @param alertId The ID of the alert.
+ */
+export async function deletePriceAlert(alertId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete a price alert');
+    const alertRef = await getOwnedPriceAlertRef(alertId, userId);
+    await deleteDoc(alertRef);
+    console.log('Price alert deleted with ID: ', alertId);
+  } catch (e: any) {
+    console.error('Error deleting price alert: ', e);
+    throw new Error(`Could not delete the price alert. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's most recent notifications, newest first.
+ */
+export async function getNotifications(): Promise<AppNotification[]> {
+  try {
+    const userId = await requireUserId('view your notifications');
+    const querySnapshot = await getDocs(query(collection(db, 'notifications'), where('userId', '==', userId)));
+    return querySnapshot.docs
+        .map((doc) => toAppNotification(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, NOTIFICATION_PAGE_SIZE);
+  } catch (e: any) {
+    console.error('Error getting notification documents: ', e);
+    throw new Error(`Could not fetch your notifications. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Marks all of the signed-in user's notifications as read.
+ */
+export async function markNotificationsRead(): Promise<void> {
+  try {
+    const userId = await requireUserId('update your notifications');
+    const unread = await getDocs(query(collection(db, 'notifications'), where('userId', '==', userId), where('read', '==', false)));
+    for (let start = 0; start < unread.docs.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      unread.docs.slice(start, start + MAX_BATCH_WRITES).forEach((notification) => batch.update(notification.ref, { read: true }));
+      await batch.commit();
+    }
+  } catch (e: any) {
+    console.error('Error marking notifications read: ', e);
+    throw new Error(`Could not update your notifications. Reason: ${e.message}`);
+  }
+}
+
+function toIrrigationSchedule(id: string, data: DocumentData): IrrigationSchedule {
+    return {
+        id,
+        userId: data.userId,
+        fieldId: data.fieldId,
+        cropId: data.cropId || null,
+        input: data.input,
+        plan: data.plan,
+        startDate: data.startDate,
+        events: data.events || [],
+        rainfallLog: data.rainfallLog || [],
+        status: data.status || 'active',
+        replannedAt: toIsoString(data.replannedAt),
+        createdAt: toIsoString(data.createdAt) || '',
+        updatedAt: toIsoString(data.updatedAt),
+    };
+}
+
+// Firestore rejects undefined values, which optional form inputs leave behind.
+const withoutUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const getOwnedIrrigationScheduleRef = (scheduleId: string, userId: string) => getOwnedDocRef('irrigation_schedules', scheduleId, userId, 'irrigation schedule');
+
+async function getOwnedIrrigationSchedule(scheduleId: string, userId: string) {
+    const scheduleRef = await getOwnedIrrigationScheduleRef(scheduleId, userId);
+    return { scheduleRef, schedule: toIrrigationSchedule(scheduleId, (await getDoc(scheduleRef)).data()!) };
+}
+
+/**
+ * Saves an irrigation schedule as the active schedule of one of the signed-in user's fields.
+ * The field's previous schedule, if any, is archived.
+ * @param fieldId The field the schedule is for.
+ * @param cropId The crop the schedule is for, if registered.
+ * @param input What the schedule was planned from.
+ * @param data The schedule.
+ */
+export async function saveIrrigationSchedule(
+    fieldId: string,
+    cropId: string | null,
+    input: IrrigationSchedulerInput,
+    data: IrrigationSchedulerOutput
+): Promise<IrrigationSchedule> {
+  try {
+    const userId = await requireUserId('save an irrigation schedule');
+    // Both come from the client; re-planning, the calendar feed and the pump scheduler rely on them.
+    const { language: _language, progress: _progress, soilMoisture: _soilMoisture, ...plannedFrom } = parseInput(IrrigationSchedulerInputSchema, input);
+    const output = parseInput(IrrigationSchedulerOutputSchema, data);
+    await getOwnedDocRef('fields', fieldId, userId, 'field');
+    const previous = await getDocs(query(
+        collection(db, 'irrigation_schedules'),
+        where('userId', '==', userId),
+        where('fieldId', '==', fieldId),
+        where('status', '==', 'active')
+    ));
+
+    const schedule = withoutUndefined({
+      userId,
+      fieldId,
+      cropId,
+      input: plannedFrom,
+      plan: output.plan,
+      startDate: output.schedule[0]?.date ?? localDateTime(new Date()).date,
+      events: output.schedule.map(event => ({ ...event, status: 'planned' as const, appliedDepthMm: null })),
+      rainfallLog: [],
+      status: 'active' as const,
+      replannedAt: null,
+    });
+    const scheduleRef = doc(collection(db, 'irrigation_schedules'));
+    const batch = writeBatch(db);
+    previous.forEach((previousSchedule) => batch.update(previousSchedule.ref, { status: 'archived', updatedAt: serverTimestamp() }));
+    batch.set(scheduleRef, { ...schedule, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+    await batch.commit();
+    console.log('Irrigation schedule saved with ID: ', scheduleRef.id);
+    const now = new Date().toISOString();
+    return { id: scheduleRef.id, ...schedule, createdAt: now, updatedAt: now };
+  } catch (e: any) {
+    console.error('Error adding irrigation schedule document: ', e);
+    throw new Error(`Could not save the irrigation schedule. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the active irrigation schedule of one of the signed-in user's fields.
+ * @param fieldId The ID of the field.
+ * @returns The schedule, or null if the field has none.
+ */
+export async function getActiveIrrigationSchedule(fieldId: string): Promise<IrrigationSchedule | null> {
+  try {
+    const userId = await requireUserId('view your irrigation schedules');
+    const querySnapshot = await getDocs(query(
+        collection(db, 'irrigation_schedules'),
+        where('userId', '==', userId),
+        where('fieldId', '==', fieldId),
+        where('status', '==', 'active')
+    ));
+    const [latest] = querySnapshot.docs
+        .map((doc) => toIrrigationSchedule(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return latest ?? null;
+  } catch (e: any) {
+    console.error('Error getting irrigation schedule documents: ', e);
+    throw new Error(`Could not fetch the irrigation schedule. Reason: ${e.message}`);
+  }
+}
+
+const IrrigationEventRecordSchema = z.object({
+    status: z.enum(['planned', 'done', 'skipped']),
+    appliedDepthMm: z.number().finite().min(0).optional(),
+});
+
+/**
+ * Records whether the farmer did or skipped an irrigation, or clears the record.
+ * @param scheduleId The ID of the schedule.
+ * @param date The date of the event, in YYYY-MM-DD format.
+ * @param status The new status of the event.
+ * @param appliedDepthMm For a done event, the depth actually applied if not the planned one.
+ */
+export async function recordIrrigationEvent(
+    scheduleId: string,
+    date: string,
+    status: IrrigationEventStatus,
+    appliedDepthMm?: number
+): Promise<IrrigationSchedule> {
+  try {
+    const userId = await requireUserId('update an irrigation schedule');
+    const record = parseInput(IrrigationEventRecordSchema, { status, appliedDepthMm });
+    const { scheduleRef, schedule } = await getOwnedIrrigationSchedule(scheduleId, userId);
+    if (!schedule.events.some(event => event.date === date)) {
+      throw new Error(`There is no irrigation on ${date} in this schedule.`);
+    }
+    const events = schedule.events.map(event => event.date !== date ? event : {
+      ...event,
+      status: record.status,
+      appliedDepthMm: record.status === 'done' ? record.appliedDepthMm ?? event.depthMm : null,
+    });
+    await updateDoc(scheduleRef, { events, updatedAt: serverTimestamp() });
+    return { ...schedule, events, updatedAt: new Date().toISOString() };
+  } catch (e: any) {
+    console.error('Error recording irrigation event: ', e);
+    throw new Error(`Could not update the irrigation. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Records the rain measured on a field on one day, replacing any earlier entry for that day.
+ * @param scheduleId The ID of the field's schedule.
+ * @param date The date, in YYYY-MM-DD format.
+ * @param rainfall The rain measured, in mm.
+ */
+export async function logRainfall(scheduleId: string, date: string, rainfall: number): Promise<IrrigationSchedule> {
+  try {
+    const userId = await requireUserId('log rainfall');
+    if (!(rainfall >= 0)) {
+      throw new Error('Rainfall must be zero or more millimetres.');
+    }
+    if (date > localDateTime(new Date()).date) {
+      throw new Error('Rain can only be logged for today or earlier.');
+    }
+    const { scheduleRef, schedule } = await getOwnedIrrigationSchedule(scheduleId, userId);
+    const rainfallLog = [...schedule.rainfallLog.filter(entry => entry.date !== date), { date, rainfall }]
+        .sort((a, b) => a.date.localeCompare(b.date));
+    await updateDoc(scheduleRef, { rainfallLog, updatedAt: serverTimestamp() });
+    return { ...schedule, rainfallLog, updatedAt: new Date().toISOString() };
+  } catch (e: any) {
+    console.error('Error logging rainfall: ', e);
+    throw new Error(`Could not log the rainfall. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Re-plans the upcoming irrigations of a saved schedule from the rain logged, the
+ * irrigations done so far and the field's latest soil moisture reading, if it has a sensor.
+ * Recorded and past events are kept.
+ * @param scheduleId The ID of the schedule.
+ * @param language The language to word the new events in.
+ * @returns The updated schedule and a description of what changed.
+ */
+export async function replanIrrigationSchedule(scheduleId: string, language: string): Promise<{ schedule: IrrigationSchedule; summary: string }> {
+  try {
+    const userId = await requireUserId('re-plan an irrigation schedule');
+    const { scheduleRef, schedule } = await getOwnedIrrigationSchedule(scheduleId, userId);
+    const today = localDateTime(new Date()).date;
+    const soilMoisture = await findFieldSoilMoisture(userId, schedule.fieldId);
+    const replanned = await getIrrigationSchedule({
+      ...schedule.input,
+      language,
+      progress: toIrrigationProgress(schedule),
+      soilMoisture: soilMoisture ? { percent: soilMoisture.percent, recordedAt: soilMoisture.recordedAt } : undefined,
+    });
+    const events = mergeReplannedEvents(schedule.events, replanned.schedule, today);
+    await updateDoc(scheduleRef, { events, plan: replanned.plan, replannedAt: serverTimestamp(), updatedAt: serverTimestamp() });
+    const now = new Date().toISOString();
+    return {
+      schedule: { ...schedule, events, plan: replanned.plan, replannedAt: now, updatedAt: now },
+      summary: describeReplan(schedule.events, events, today),
+    };
+  } catch (e: any) {
+    console.error('Error re-planning irrigation schedule: ', e);
+    throw new Error(`Could not re-plan the irrigation schedule. Reason: ${e.message}`);
+  }
+}
+
+// The token is the only credential of a calendar subscription, so it must not be guessable.
+const newCalendarFeedToken = () => randomBytes(24).toString('hex');
+
+/**
+ * Returns the token of the signed-in user's calendar subscription link, creating it the first
+ * time. The link serves all of the user's active irrigation schedules.
+ */
+export async function getCalendarFeedToken(): Promise<string> {
+  try {
+    const userId = await requireUserId('subscribe to your irrigation calendar');
+    const existing = await getDocs(query(collection(db, 'calendar_feeds'), where('userId', '==', userId), limit(1)));
+    if (!existing.empty) {
+      return existing.docs[0].id;
+    }
+    const token = newCalendarFeedToken();
+    await setDoc(doc(db, 'calendar_feeds', token), { userId, createdAt: serverTimestamp() });
+    return token;
+  } catch (e: any) {
+    console.error('Error getting calendar feed token: ', e);
+    throw new Error(`Could not create your calendar link. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Replaces the signed-in user's calendar subscription link, so the old one stops working.
+ */
+export async function resetCalendarFeedToken(): Promise<string> {
+  try {
+    const userId = await requireUserId('reset your calendar link');
+    const existing = await getDocs(query(collection(db, 'calendar_feeds'), where('userId', '==', userId)));
+    const token = newCalendarFeedToken();
+    const batch = writeBatch(db);
+    existing.forEach((feed) => batch.delete(feed.ref));
+    batch.set(doc(db, 'calendar_feeds', token), { userId, createdAt: serverTimestamp() });
+    await batch.commit();
+    return token;
+  } catch (e: any) {
+    console.error('Error resetting calendar feed token: ', e);
+    throw new Error(`Could not reset your calendar link. Reason: ${e.message}`);
+  }
+}
+
+function toDevice(id: string, data: DocumentData): Device {
+    return {
+        id,
+        userId: data.userId,
+        fieldId: data.fieldId,
+        name: data.name,
+        kind: data.kind || 'sensor',
+        automaticIrrigation: data.automaticIrrigation ?? false,
+        latest: data.latest || {},
+        lastReadingAt: toIsoString(data.lastReadingAt),
+        createdAt: toIsoString(data.createdAt) || '',
+    };
+}
+
+const getOwnedDeviceRef = (deviceId: string, userId: string) => getOwnedDocRef('devices', deviceId, userId, 'device');
+
+// The most readings shown for a device at once.
+const DEVICE_READINGS_LIMIT = 500;
+
+const DeviceRegistrationSchema = z.object({
+    name: z.string().trim().min(1, 'The device needs a name.'),
+    kind: z.enum(['sensor', 'pumpController']),
+});
+
+/**
+ * Registers a device on one of the signed-in user's fields.
+ * @param fieldId The field the device is installed on.
+ * @param name What the owner calls the device, e.g. "North corner probe".
+ * @param kind Whether the device also switches a pump. Pump controllers follow the field's
+ * saved irrigation schedule until that is turned off.
+ * @returns The device, and the API key it must send its readings with. The key cannot be
+ * retrieved again; a lost key is replaced with rotateDeviceKey.
+ */
+export async function registerDevice(fieldId: string, name: string, kind: DeviceKind = 'sensor'): Promise<{ device: Device; apiKey: string }> {
+  try {
+    const userId = await requireUserId('register a device');
+    const registration = parseInput(DeviceRegistrationSchema, { name, kind });
+    await getOwnedDocRef('fields', fieldId, userId, 'field');
+    const apiKey = newDeviceKey();
+    const device = { userId, fieldId, ...registration, automaticIrrigation: registration.kind === 'pumpController', latest: {}, lastReadingAt: null };
+    const docRef = await addDoc(collection(db, 'devices'), { ...device, apiKeyHash: hashDeviceKey(apiKey), createdAt: serverTimestamp() });
+    console.log('Device registered with ID: ', docRef.id);
+    return { device: { id: docRef.id, ...device, createdAt: new Date().toISOString() }, apiKey };
+  } catch (e: any) {
+    console.error('Error registering device: ', e);
+    throw new Error(`Could not register the device. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's devices, sorted by name.
+ */
+export async function getDevices(): Promise<Device[]> {
+  try {
+    const userId = await requireUserId('view your devices');
+    const querySnapshot = await getDocs(query(collection(db, 'devices'), where('userId', '==', userId)));
+    return querySnapshot.docs
+        .map((doc) => toDevice(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (e: any) {
+    console.error('Error getting device documents: ', e);
+    throw new Error(`Could not fetch your devices. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Replaces a device's API key, so the old one stops working.
+ * @returns The new key, which must be set on the device.
+ */
+export async function rotateDeviceKey(deviceId: string): Promise<string> {
+  try {
+    const userId = await requireUserId('change a device key');
+    const deviceRef = await getOwnedDeviceRef(deviceId, userId);
+    const apiKey = newDeviceKey();
+    await updateDoc(deviceRef, { apiKeyHash: hashDeviceKey(apiKey) });
+    return apiKey;
+  } catch (e: any) {
+    console.error('Error rotating device key: ', e);
+    throw new Error(`Could not create a new key for the device. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's devices with all of its readings.
+ */
+export async function deleteDevice(deviceId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete a device');
+    const deviceRef = await getOwnedDeviceRef(deviceId, userId);
+    const readings = await getDocs(collection(deviceRef, 'readings'));
+
+    for (let start = 0; start < readings.docs.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      readings.docs.slice(start, start + MAX_BATCH_WRITES).forEach((reading) => batch.delete(reading.ref));
+      await batch.commit();
+    }
+    await deleteDoc(deviceRef);
+    console.log(`Device deleted with ID: ${deviceId}, with ${readings.size} readings.`);
+  } catch (e: any) {
+    console.error('Error deleting device: ', e);
+    throw new Error(`Could not delete the device. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves a device's readings over the last few days, oldest first.
+ * @param deviceId The ID of the device.
+ * @param days How many days back to go.
+ */
+export async function getDeviceReadings(deviceId: string, days = 7): Promise<DeviceReading[]> {
+  try {
+    const userId = await requireUserId('view device readings');
+    const deviceRef = await getOwnedDeviceRef(deviceId, userId);
+    const since = Timestamp.fromDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    const querySnapshot = await getDocs(query(
+        collection(deviceRef, 'readings'),
+        where('recordedAt', '>=', since),
+        orderBy('recordedAt', 'desc'),
+        limit(DEVICE_READINGS_LIMIT)
+    ));
+    return querySnapshot.docs
+        .map((doc) => ({ id: doc.id, metric: doc.data().metric, value: doc.data().value, recordedAt: toIsoString(doc.data().recordedAt) || '' }))
+        .reverse();
+  } catch (e: any) {
+    console.error('Error getting device readings: ', e);
+    throw new Error(`Could not fetch the device's readings. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * The newest soil moisture reading from any device on one of the signed-in user's fields.
+ * @returns The reading, or null if no device on the field measures soil moisture.
+ */
+export async function getFieldSoilMoisture(fieldId: string): Promise<FieldSoilMoisture | null> {
+  try {
+    const userId = await requireUserId('view your field\'s soil moisture');
+    return await findFieldSoilMoisture(userId, fieldId);
+  } catch (e: any) {
+    console.error('Error getting field soil moisture: ', e);
+    throw new Error(`Could not fetch the field's soil moisture. Reason: ${e.message}`);
+  }
+}
+
+async function findFieldSoilMoisture(userId: string, fieldId: string): Promise<FieldSoilMoisture | null> {
+  const devices = await getDocs(query(
+      collection(db, 'devices'),
+      where('userId', '==', userId),
+      where('fieldId', '==', fieldId)
+  ));
+  const [newest] = devices.docs
+      .map((doc) => toDevice(doc.id, doc.data()))
+      .filter((device) => device.latest.soilMoisture)
+      .map((device) => ({ percent: device.latest.soilMoisture!.value, recordedAt: device.latest.soilMoisture!.recordedAt, deviceName: device.name }))
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  return newest ?? null;
+}
+
+function toPumpCommand(id: string, data: DocumentData): PumpCommand {
+    return {
+        id,
+        userId: data.userId,
+        deviceId: data.deviceId,
+        fieldId: data.fieldId,
+        action: data.action,
+        durationMinutes: data.durationMinutes ?? null,
+        source: data.source,
+        scheduleId: data.scheduleId || null,
+        eventDate: data.eventDate || null,
+        requestedBy: data.requestedBy || null,
+        status: data.status,
+        error: data.error || null,
+        createdAt: toIsoString(data.createdAt) || '',
+        sentAt: toIsoString(data.sentAt),
+    };
+}
+
+// The most commands shown in a pump controller's log.
+const PUMP_COMMAND_LOG_LIMIT = 50;
+
+async function getOwnedPumpController(deviceId: string, userId: string) {
+    const deviceRef = await getOwnedDeviceRef(deviceId, userId);
+    const device = toDevice(deviceId, (await getDoc(deviceRef)).data()!);
+    if (device.kind !== 'pumpController') {
+        throw new Error(`${device.name} is not a pump controller.`);
+    }
+    return { deviceRef, device };
+}
+
+/**
+ * Turns following the field's saved irrigation schedule on or off for a pump controller.
+ */
+export async function setDeviceAutomaticIrrigation(deviceId: string, enabled: boolean): Promise<void> {
+  try {
+    const userId = await requireUserId('change a pump controller');
+    const { deviceRef } = await getOwnedPumpController(deviceId, userId);
+    await updateDoc(deviceRef, { automaticIrrigation: enabled });
+  } catch (e: any) {
+    console.error('Error updating pump controller: ', e);
+    throw new Error(`Could not update the pump controller. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Switches a pump on or off by hand. The command is sent by the MQTT bridge and recorded in
+ * the controller's command log.
+ * @param deviceId The pump controller.
+ * @param action Whether to switch the pump on or off.
+ * @param durationMinutes For 'on': how long to run the pump before the controller switches it off.
+ */
+export async function sendPumpCommand(deviceId: string, action: PumpCommandAction, durationMinutes?: number): Promise<PumpCommand> {
+  try {
+    const userId = await requireUserId('switch a pump');
+    const { device } = await getOwnedPumpController(deviceId, userId);
+    if (action === 'on' && !(durationMinutes && durationMinutes >= 1 && durationMinutes <= MAX_PUMP_RUN_MINUTES)) {
+      throw new Error(`The pump can run for 1 to ${MAX_PUMP_RUN_MINUTES} minutes at a time.`);
+    }
+    const command = {
+      userId,
+      deviceId,
+      fieldId: device.fieldId,
+      action,
+      durationMinutes: action === 'on' ? Math.round(durationMinutes!) : null,
+      source: 'manual' as const,
+      scheduleId: null,
+      eventDate: null,
+      requestedBy: userId,
+      status: 'pending' as const,
+      error: null,
+      sentAt: null,
+    };
+    const docRef = await addDoc(collection(db, 'pump_commands'), { ...command, createdAt: serverTimestamp() });
+    console.log(`Pump command '${action}' queued with ID: ${docRef.id}`);
+    return { id: docRef.id, ...command, createdAt: new Date().toISOString() };
+  } catch (e: any) {
+    console.error('Error queueing pump command: ', e);
+    throw new Error(`Could not switch the pump. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the latest commands sent to one of the signed-in user's pump controllers, newest first.
+ */
+export async function getPumpCommands(deviceId: string): Promise<PumpCommand[]> {
+  try {
+    const userId = await requireUserId('view pump commands');
+    await getOwnedDeviceRef(deviceId, userId);
+    const querySnapshot = await getDocs(query(
+        collection(db, 'pump_commands'),
+        where('userId', '==', userId),
+        where('deviceId', '==', deviceId)
+    ));
+    return querySnapshot.docs
+        .map((doc) => toPumpCommand(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, PUMP_COMMAND_LOG_LIMIT);
+  } catch (e: any) {
+    console.error('Error getting pump commands: ', e);
+    throw new Error(`Could not fetch the pump's command log. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * The water delivered through a field's flow meters between two times, in m³, or null if they
+ * sent no volume readings then.
+ */
+async function meteredWaterM3(devices: Device[], from: Date, to: Date): Promise<number | null> {
+  let litres = 0;
+  let readings = 0;
+  for (const device of devices.filter((device) => device.latest.waterVolume)) {
+    const snapshot = await getDocs(query(
+        collection(db, 'devices', device.id, 'readings'),
+        where('recordedAt', '>=', Timestamp.fromDate(from)),
+        where('recordedAt', '<=', Timestamp.fromDate(to))
+    ));
+    // Filtered here rather than in the query, which would need a composite index.
+    snapshot.docs.filter((doc) => doc.data().metric === 'waterVolume').forEach((doc) => {
+      litres += doc.data().value;
+      readings++;
+    });
+  }
+  return readings > 0 ? Number((litres / 1000).toFixed(1)) : null;
+}
+
+async function getSeasonWaterUse(crop: CurrentCrop, field: Field, schedules: IrrigationSchedule[], devices: Device[]): Promise<SeasonWaterUse> {
+  const scheduledM3 = schedules.length > 0 ? scheduledWaterM3(schedules) : null;
+  const meteredM3 = await meteredWaterM3(devices, new Date(crop.sowingDate), crop.harvestedAt ? new Date(crop.harvestedAt) : new Date());
+  const appliedM3 = meteredM3 ?? scheduledM3;
+  const yieldQuintals = crop.harvestYieldQuintals ?? null;
+  return {
+    cropId: crop.id,
+    cropName: crop.cropName,
+    fieldId: field.id,
+    fieldName: field.name,
+    status: crop.status,
+    sowingDate: crop.sowingDate,
+    harvestedAt: crop.harvestedAt ?? null,
+    scheduledM3,
+    meteredM3,
+    appliedM3,
+    requirementM3: irrigationRequirementM3(schedules, toSquareMeters(field.area, field.areaUnit)),
+    yieldQuintals,
+    productivityKgPerM3: waterProductivity(yieldQuintals, appliedM3),
+  };
+}
+
+async function getDistrictWaterScarcity(district: string, state: string, groundwater: GroundwaterTable): Promise<DistrictWaterScarcity> {
+  try {
+    const environmentalData = await getEnvironmentalDataForLocation({ location: [district, state].filter(Boolean).join(', ') });
+    const { stagePercent, scope } = findGroundwaterStage(groundwater, district, state || environmentalData.location.state);
+    const normalRainfallMm = environmentalData.climateNormals.rainfall;
+    return {
+      district,
+      state,
+      status: 'ok',
+      ...waterScarcityIndex(stagePercent, normalRainfallMm),
+      groundwaterStagePercent: stagePercent,
+      groundwaterCategory: groundwaterCategory(stagePercent),
+      groundwaterScope: scope,
+      normalRainfallMm: Math.round(normalRainfallMm),
+    };
+  } catch (e: any) {
+    console.error(`Error computing the water scarcity index for ${district}: `, e);
+    return { district, state, status: 'unavailable', reason: e.message };
+  }
+}
+
+/**
+ * The signed-in user's water accounts: the irrigation applied to each crop on their fields
+ * against its requirement, with water productivity once the yield is recorded, and the Water
+ * Scarcity Index of each district they farm in.
+ */
+export async function getWaterInsights(): Promise<WaterInsights> {
+  try {
+    const userId = await requireUserId('view your water insights');
+    const byUser = (collectionName: string) => getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+    const [fieldDocs, cropDocs, scheduleDocs, deviceDocs, groundwater] = await Promise.all([
+      byUser('fields'),
+      byUser('current_crops'),
+      byUser('irrigation_schedules'),
+      byUser('devices'),
+      getGroundwaterTable(),
+    ]);
+    const fields = new Map(fieldDocs.docs.map((doc) => [doc.id, toField(doc.id, doc.data())]));
+    const schedules = scheduleDocs.docs.map((doc) => toIrrigationSchedule(doc.id, doc.data()));
+    const devices = deviceDocs.docs.map((doc) => toDevice(doc.id, doc.data()));
+
+    const seasons = await Promise.all(cropDocs.docs
+        .map((doc) => toCurrentCrop(doc.id, doc.data()))
+        .filter((crop) => crop.fieldId && fields.has(crop.fieldId))
+        .map((crop) => getSeasonWaterUse(
+            crop,
+            fields.get(crop.fieldId!)!,
+            schedules.filter((schedule) => schedule.cropId === crop.id),
+            devices.filter((device) => device.fieldId === crop.fieldId)
+        )));
+
+    const districts = new Map<string, { district: string; state: string }>();
+    fields.forEach((field) => {
+      districts.set(`${normalizeKey(field.district)}|${normalizeKey(field.state || '')}`, { district: field.district, state: field.state || '' });
+    });
+
+    return {
+      seasons: seasons.sort((a, b) => b.sowingDate.localeCompare(a.sowingDate)),
+      districts: await Promise.all([...districts.values()].map(({ district, state }) => getDistrictWaterScarcity(district, state, groundwater))),
+      groundwaterAssessmentYear: groundwater.assessmentYear,
+    };
+  } catch (e: any) {
+    console.error('Error computing water insights: ', e);
+    throw new Error(`Could not work out your water insights. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Returns what the signed-in user has told us about themselves for scheme eligibility, or an
+ * empty profile if they have not filled it in yet.
+ */
+export async function getFarmerProfile(): Promise<FarmerProfile> {
+  try {
+    const userId = await requireUserId('load your profile');
+    const profileDoc = await getDoc(doc(db, 'farmer_profiles', userId));
+    if (!profileDoc.exists()) {
+      return {};
+    }
+    // Parsing drops the stored updatedAt along with any other field the profile does not have.
+    return FarmerProfileSchema.parse(profileDoc.data());
+  } catch (e: any) {
+    console.error('Error getting farmer profile: ', e);
+    throw new Error(`Could not load your profile. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Replaces the signed-in user's scheme eligibility profile.
+ */
+export async function saveFarmerProfile(profile: FarmerProfile): Promise<void> {
+  try {
+    const userId = await requireUserId('save your profile');
+    const parsed = FarmerProfileSchema.parse(profile);
+    // Firestore rejects undefined values, so details left out are not stored.
+    const fields = Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined));
+    await setDoc(doc(db, 'farmer_profiles', userId), { ...fields, updatedAt: serverTimestamp() });
+  } catch (e: any) {
+    console.error('Error saving farmer profile: ', e);
+    throw new Error(`Could not save your profile. Reason: ${e.message}`);
+  }
+}
+
+const getOwnedSchemeApplicationRef = (applicationId: string, userId: string) =>
+  getOwnedDocRef('scheme_applications', applicationId, userId, 'application');
+
+/**
+ * The document checklist for a scheme, from the "Documents Required" section in the schemes
+ * database, or from the agent's summary if the scheme is not found there.
+ */
+async function documentChecklist(input: SchemeApplicationInput): Promise<SchemeDocument[]> {
+  const { schemes } = await getSchemeDataset();
+  const source = schemes.find(scheme => normalizeKey(scheme.scheme_name) === normalizeKey(input.sourceSchemeName));
+  const names = source ? schemeDocumentChecklist(source) : [];
+  return (names.length > 0 ? names : parseDocumentChecklist(input.documentsRequired))
+    .map((name, index) => ({ id: String(index + 1), name, have: false, file: null }));
+}
+
+/**
+ * Starts tracking the signed-in user's application for a scheme, with a checklist of the
+ * documents it needs. If they already have an open application for the scheme, that is returned.
+ */
+export async function startSchemeApplication(input: SchemeApplicationInput): Promise<SchemeApplication> {
+  try {
+    const userId = await requireUserId('start an application');
+    const existing = await getDocs(query(collection(db, 'scheme_applications'), where('userId', '==', userId), where('sourceSchemeName', '==', input.sourceSchemeName)));
+    const open = existing.docs.map(d => toSchemeApplication(d.id, d.data())).find(application => !CLOSED_APPLICATION_STATUSES.includes(application.status));
+    if (open) {
+      return open;
+    }
+    const application = {
+      userId,
+      schemeName: input.schemeName,
+      sourceSchemeName: input.sourceSchemeName,
+      sourceLink: input.sourceLink || null,
+      applicationProcess: input.applicationProcess,
+      documents: await documentChecklist(input),
+      status: 'preparing' as const,
+      applicationId: null,
+      notes: '',
+      remindedAt: null,
+    };
+    const docRef = await addDoc(collection(db, 'scheme_applications'), { ...application, statusUpdatedAt: serverTimestamp(), createdAt: serverTimestamp() });
+    const now = new Date().toISOString();
+    return { id: docRef.id, ...application, statusUpdatedAt: now, createdAt: now };
+  } catch (e: any) {
+    console.error('Error starting scheme application: ', e);
+    throw new Error(`Could not start the application. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Retrieves the signed-in user's scheme applications, open ones first, then newest first.
+ */
+export async function getSchemeApplications(): Promise<SchemeApplication[]> {
+  try {
+    const userId = await requireUserId('view your applications');
+    const querySnapshot = await getDocs(query(collection(db, 'scheme_applications'), where('userId', '==', userId)));
+    const isClosed = (application: SchemeApplication) => CLOSED_APPLICATION_STATUSES.includes(application.status);
+    return querySnapshot.docs
+      .map(d => toSchemeApplication(d.id, d.data()))
+      .sort((a, b) => Number(isClosed(a)) - Number(isClosed(b)) || b.createdAt.localeCompare(a.createdAt));
+  } catch (e: any) {
+    console.error('Error getting scheme applications: ', e);
+    throw new Error(`Could not load your applications. Reason: ${e.message}`);
+  }
+}
+
+// What a farmer can change on an application; the checklist and dates are kept by the server.
+const SchemeApplicationUpdateSchema = z.object({
+  status: z.enum(['preparing', 'applied', 'underReview', 'sanctioned', 'disbursed', 'rejected']).optional(),
+  applicationId: z.string().max(100).nullable().optional(),
+  notes: z.string().max(2000, 'Notes can be at most 2000 characters.').optional(),
+}).strict();
+
+/**
+ * Records an application's status, the reference number the scheme gave it, or the farmer's notes.
+ */
+export async function updateSchemeApplication(
+  applicationId: string,
+  data: Partial<Pick<SchemeApplication, 'status' | 'applicationId' | 'notes'>>
+): Promise<void> {
+  try {
+    const userId = await requireUserId('update an application');
+    const changes = parseInput(SchemeApplicationUpdateSchema, data);
+    const docRef = await getOwnedSchemeApplicationRef(applicationId, userId);
+    const current = toSchemeApplication(docRef.id, (await getDoc(docRef)).data()!);
+    const update: DocumentData = {};
+    if (changes.status && changes.status !== current.status) {
+      update.status = changes.status;
+      // Follow-up reminders count from the latest change of status.
+      update.statusUpdatedAt = serverTimestamp();
+      update.remindedAt = null;
+    }
+    if (changes.applicationId !== undefined) update.applicationId = changes.applicationId?.trim() || null;
+    if (changes.notes !== undefined) update.notes = changes.notes;
+    await updateDoc(docRef, update);
+  } catch (e: any) {
+    console.error('Error updating scheme application: ', e);
+    throw new Error(`Could not update the application. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Changes one document of an application's checklist, inside a transaction so two quick ticks
+ * do not overwrite each other.
+ * @returns The document as it was before the change.
+ */
+async function updateSchemeDocument(applicationId: string, documentId: string, userId: string, change: Partial<SchemeDocument>): Promise<SchemeDocument> {
+  const docRef = await getOwnedSchemeApplicationRef(applicationId, userId);
+  return runTransaction(db, async (transaction) => {
+    const documents: SchemeDocument[] = (await transaction.get(docRef)).data()?.documents || [];
+    const previous = documents.find(document => document.id === documentId);
+    if (!previous) {
+      throw new Error('This document is not on the checklist.');
+    }
+    transaction.update(docRef, { documents: documents.map(document => document.id === documentId ? { ...document, ...change } : document) });
+    return previous;
+  });
+}
+
+/**
+ * Ticks a document on an application's checklist as ready, or unticks it.
+ */
+export async function setSchemeDocumentReady(applicationId: string, documentId: string, have: boolean): Promise<void> {
+  try {
+    const userId = await requireUserId('update an application');
+    await updateSchemeDocument(applicationId, documentId, userId, { have });
+  } catch (e: any) {
+    console.error('Error updating scheme document: ', e);
+    throw new Error(`Could not update the checklist. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Uploads a scan of a document on an application's checklist, replacing and deleting any
+ * earlier one, and ticks the document as ready.
+ * @param dataUri A PDF or image file as a Base64 data URI.
+ */
+export async function uploadSchemeDocument(applicationId: string, documentId: string, dataUri: string, fileName: string): Promise<void> {
+  try {
+    const userId = await requireUserId('upload a document');
+    await getOwnedSchemeApplicationRef(applicationId, userId);
+    const file = await storeSchemeDocument(userId, applicationId, dataUri, fileName);
+    let previous: SchemeDocument;
+    try {
+      previous = await updateSchemeDocument(applicationId, documentId, userId, { have: true, file });
+    } catch (error) {
+      // Nothing refers to the new file, so it is not kept.
+      await deleteSchemeDocumentFile(file).catch(cleanupError => console.error('Could not delete an unused document upload: ', cleanupError));
+      throw error;
+    }
+    if (previous.file) {
+      await deleteSchemeDocumentFile(previous.file).catch(cleanupError => console.error('Could not delete a replaced document upload: ', cleanupError));
+    }
+  } catch (e: any) {
+    console.error('Error uploading scheme document: ', e);
+    throw new Error(`Could not upload the document. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Stops tracking one of the signed-in user's scheme applications, deleting the documents
+ * uploaded for it.
+ */
+export async function deleteSchemeApplication(applicationId: string): Promise<void> {
+  try {
+    const userId = await requireUserId('delete an application');
+    const docRef = await getOwnedSchemeApplicationRef(applicationId, userId);
+    // Files first: if that fails, the application is still listed and can be deleted again.
+    await deleteSchemeApplicationFiles(userId, applicationId);
+    await deleteDoc(docRef);
+  } catch (e: any) {
+    console.error('Error deleting scheme application: ', e);
+    throw new Error(`Could not delete the application. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Returns the signed-in user if they have the admin role, or throws. Like the agronomist role,
+ * it is a custom claim: `auth().setCustomUserClaims(uid, { role: 'admin' })`.
+ */
+async function requireAdmin() {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'admin') {
+    throw new Error('Only admins can manage the schemes dataset.');
+  }
+  return user;
+}
+
+/**
+ * Returns the published versions of the schemes dataset, newest first, and the version in use.
+ */
+export async function getSchemeDatasetVersions(): Promise<{ current: SchemeDatasetVersion; versions: SchemeDatasetVersion[] }> {
+  try {
+    await requireAdmin();
+    const [{ version: current }, versions] = await Promise.all([getSchemeDataset(), getSchemeDatasetStore().getVersions()]);
+    return { current, versions };
+  } catch (e: any) {
+    console.error('Error getting scheme dataset versions: ', e);
+    throw new Error(`Could not load the schemes dataset versions. Reason: ${e.message}`);
+  }
+}
+
+/**
+ * Validates an uploaded schemes file and, unless it has errors or `dryRun` is set, publishes it
+ * as the next version of the dataset. The app searches the new version within a minute.
+ * @param json The file's contents.
+ * @param fileName The file's name, recorded with the version.
+ */
+export async function importSchemesFile(
+  json: string,
+  fileName: string,
+  options: { note?: string; checkLinks?: boolean; dryRun?: boolean } = {}
+): Promise<SchemeDatasetImportResult> {
+  try {
+    const admin = await requireAdmin();
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error: any) {
+      throw new Error(`${fileName} is not valid JSON: ${error.message}`);
+    }
+    return await importSchemeDataset(data, { ...options, source: fileName, publishedBy: admin.uid });
+  } catch (e: any) {
+    console.error('Error importing schemes file: ', e);
+    throw new Error(`Could not import the schemes. Reason: ${e.message}`);
+  }
+}
@@ -21,6 +21,7 @@ const en = {
     'Success': 'Success',
     'Settings': 'Settings',
     'Log out': 'Log out',
+    'Notifications': 'Notifications',
     'Email': 'Email',
     'Password': 'Password',
     'Location': 'Location',
@@ -158,6 +159,7 @@ const en = {
     'Home': 'Home',
     'About': 'About',
     'Insights': 'Insights',
+    'Devices': 'Devices',
 
     // Fallbacks
     'An unexpected error occurred.': 'An unexpected error occurred.',
@@ -221,6 +223,7 @@ const hi: Record<string, string> = {
     'Success': 'सफलता',
     'Settings': 'सेटिंग्स',
     'Log out': 'लॉग आउट',
+    'Notifications': 'सूचनाएं',
     'Email': 'ईमेल',
     'Password': 'पासवर्ड',
     'Location': 'स्थान',
@@ -359,6 +362,7 @@ const hi: Record<string, string> = {
     'Home': 'होम',
     'About': 'हमारे बारे में',
     'Insights': 'अंतर्दृष्टि',
+    'Devices': 'उपकरण',
 
     // Fallbacks
     'An unexpected error occurred.': 'एक अप्रत्याशित त्रुटि हुई।',
@@ -422,6 +426,7 @@ const mr: Record<string, string> = {
     'Success': 'यशस्वी',
     'Settings': 'सेटिंग्ज',
     'Log out': 'लॉग आउट',
+    'Notifications': 'सूचना',
     'Email': 'ईमेल',
     'Password': 'पासवर्ड',
     'Location': 'स्थान',
@@ -560,6 +565,7 @@ const mr: Record<string, string> = {
     'Home': 'होम',
     'About': 'माहिती',
     'Insights': 'अंतर्दृष्टी',
+    'Devices': 'उपकरणे',
 
     // Fallbacks
     'An unexpected error occurred.': 'एक अनपेक्षित त्रुटी आली.',
@@ -623,6 +629,7 @@ const bn: Record<string, string> = {
     'Success': 'সফল',
     'Settings': 'সেটিংস',
     'Log out': 'লগ আউট',
+    'Notifications': 'বিজ্ঞপ্তি',
     'Email': 'ইমেল',
     'Password': 'পাসওয়ার্ড',
     'Location': 'অবস্থান',
@@ -761,6 +768,7 @@ const bn: Record<string, string> = {
     'Home': 'হোম',
     'About': 'সম্পর্কে',
     'Insights': 'অন্তর্দৃষ্টি',
+    'Devices': 'ডিভাইস',
 
     // Fallbacks
     'An unexpected error occurred.': 'একটি অপ্রত্যাশিত ত্রুটি ঘটেছে।',
@@ -823,6 +831,7 @@ const te: Record<string, string> = {
     'Success': 'విజయం',
     'Settings': 'సెట్టింగ్‌లు',
     'Log out': 'లాగ్ అవుట్',
+    'Notifications': 'నోటిఫికేషన్లు',
     'Email': 'ఇమెయిల్',
     'Password': 'పాస్‌వర్డ్',
     'Location': 'స్థానం',
@@ -960,6 +969,7 @@ const te: Record<string, string> = {
     'Home': 'హోమ్',
     'About': 'గురించి',
     'Insights': 'అంతర్దృష్టులు',
+    'Devices': 'పరికరాలు',
 
     // Fallbacks
     'An unexpected error occurred.': 'ఊహించని లోపం సంభవించింది.',
@@ -1022,6 +1032,7 @@ const ta: Record<string, string> = {
     'Success': 'வெற்றி',
     'Settings': 'அமைப்புகள்',
     'Log out': 'வெளியேறு',
+    'Notifications': 'அறிவிப்புகள்',
     'Email': 'மின்னஞ்சல்',
     'Password': 'கடவுச்சொல்',
     'Location': 'இடம்',
@@ -1160,6 +1171,7 @@ const ta: Record<string, string> = {
     'Home': 'முகப்பு',
     'About': 'பற்றி',
     'Insights': 'உள்ளுணர்வுகள்',
+    'Devices': 'சாதனங்கள்',
 
     // Fallbacks
     'An unexpected error occurred.': 'ஒரு எதிர்பாராத பிழை ஏற்பட்டது.',
@@ -1221,6 +1233,7 @@ const gu: Record<string, string> = {
     'Success': 'સફળતા',
     'Settings': 'સેટિંગ્સ',
     'Log out': 'લૉગ આઉટ',
+    'Notifications': 'સૂચનાઓ',
     'Email': 'ઈમેલ',
     'Password': 'પાસવર્ડ',
     'Location': 'સ્થળ',
@@ -1347,6 +1360,7 @@ const gu: Record<string, string> = {
     'Home': 'હોમ',
     'About': 'વિશે',
     'Insights': 'આંતરદૃષ્ટિ',
+    'Devices': 'ઉપકરણો',
     'An unexpected error occurred.': 'એક અનપેક્ષિત ભૂલ આવી।',
 
     // New additions for Current Crop Agent
@@ -1407,6 +1421,7 @@ const ur: Record<string, string> = {
     'Success': 'کامیابی',
     'Settings': 'ترتیبات',
     'Log out': 'لاگ آؤٹ',
+    'Notifications': 'اطلاعات',
     'Email': 'ای میل',
     'Password': 'پاس ورڈ',
     'Location': 'مقام',
@@ -1533,6 +1548,7 @@ const ur: Record<string, string> = {
     'Home': 'ہوم',
     'About': 'کے بارے میں',
     'Insights': 'بصیرت',
+    'Devices': 'آلات',
     'An unexpected error occurred.': 'ایک غیر متوقع خرابی واقع ہوئی ہے۔',
 
     // New additions for Current Crop Agent
@@ -1593,6 +1609,7 @@ const kn: Record<string, string> = {
     'Success': 'ಯಶಸ್ಸು',
     'Settings': 'ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
     'Log out': 'ಲಾಗ್ ಔಟ್',
+    'Notifications': 'ಅಧಿಸೂಚನೆಗಳು',
     'Email': 'ಇಮೇಲ್',
     'Password': 'ಪಾಸ್ವರ್ಡ್',
     'Location': 'ಸ್ಥಳ',
@@ -1719,6 +1736,7 @@ const kn: Record<string, string> = {
     'Home': 'ಮುಖಪುಟ',
     'About': 'ಬಗ್ಗೆ',
     'Insights': 'ಒಳನೋಟಗಳು',
+    'Devices': 'ಸಾಧನಗಳು',
     'An unexpected error occurred.': 'ಒಂದು ಅನಿರೀಕ್ಷಿತ ದೋಷ ಸಂಭವಿಸಿದೆ।',
 
     // New additions for Current Crop Agent
@@ -1779,6 +1797,7 @@ const or: Record<string, string> = {
     'Success': 'ସଫଳତା',
     'Settings': 'ସେଟିଂସ',
     'Log out': 'ଲଗ୍ ଆଉଟ୍',
+    'Notifications': 'ବିଜ୍ଞପ୍ତି',
     'Email': 'ଇମେଲ',
     'Password': 'ପାସୱାର୍ଡ',
     'Location': 'ସ୍ଥାନ',
@@ -1905,6 +1924,7 @@ const or: Record<string, string> = {
     'Home': 'ହୋମ୍',
     'About': 'ବିଷୟରେ',
     'Insights': 'ଅନ୍ତର୍ଦୃଷ୍ଟି',
+    'Devices': 'ଉପକରଣ',
     'An unexpected error occurred.': 'ଏକ ଅପ୍ରତ୍ୟାଶିତ ତ୍ରୁଟି ଘଟିଲା।',
 
     // New additions for Current Crop Agent
@@ -1965,6 +1985,7 @@ const ml: Record<string, string> = {
     'Success': 'വിജയം',
     'Settings': 'ക്രമീകരണങ്ങൾ',
     'Log out': 'ലോഗ് ഔട്ട്',
+    'Notifications': 'അറിയിപ്പുകൾ',
     'Email': 'ഇമെയിൽ',
     'Password': 'പാസ്‌വേഡ്',
     'Location': 'സ്ഥലം',
@@ -2091,6 +2112,7 @@ const ml: Record<string, string> = {
     'Home': 'ഹോം',
     'About': 'കുറിച്ച്',
     'Insights': 'ഉൾക്കാഴ്ചകൾ',
+    'Devices': 'ഉപകരണങ്ങൾ',
     'An unexpected error occurred.': 'അപ്രതീക്ഷിതമായ ഒരു പിശക് സംഭവിച്ചു।',
 
     // New additions for Current Crop Agent
@@ -2151,6 +2173,7 @@ const pa: Record<string, string> = {
     'Success': 'ਸਫਲਤਾ',
     'Settings': 'ਸੈਟਿੰਗਾਂ',
     'Log out': 'ਲੌਗ ਆਉਟ',
+    'Notifications': 'ਸੂਚਨਾਵਾਂ',
     'Email': 'ਈਮੇਲ',
     'Password': 'ਪਾਸਵਰਡ',
     'Location': 'ਸਥਾਨ',
@@ -2277,6 +2300,7 @@ const pa: Record<string, string> = {
     'Home': 'ਹੋਮ',
     'About': 'ਬਾਰੇ',
     'Insights': 'ਸੂਝ',
+    'Devices': 'ਡਿਵਾਈਸਾਂ',
     'An unexpected error occurred.': 'ਇੱਕ ਅਚਾਨਕ ਗਲਤੀ ਆਈ।',
 
     // New additions for Current Crop Agent
@@ -2337,6 +2361,7 @@ const as: Record<string, string> = {
     'Success': 'সফলতা',
     'Settings': 'ছেটিংছ',
     'Log out': 'লগ আউট',
+    'Notifications': 'জাননী',
     'Email': 'ইমেইল',
     'Password': 'পাছৱৰ্ড',
     'Location': 'অৱস্থান',
@@ -2463,6 +2488,7 @@ const as: Record<string, string> = {
     'Home': 'गृह',
     'About': 'বিষয়ে',
     'Insights': 'অন্তৰ্দৃষ্টি',
+    'Devices': 'যন্ত্ৰ',
     'An unexpected error occurred.': 'এটা অপ্ৰত্যাশিত ত্ৰুটি ঘটিল।',
 
     // New additions for Current Crop Agent
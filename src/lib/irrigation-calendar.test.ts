@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { IrrigationEvent } from '@/ai/schemas/irrigation-scheduler-schemas';
+import { buildIrrigationCalendar, googleCalendarUrl, type CalendarSchedule } from '@/lib/irrigation-calendar';
+
+const event = (date: string, overrides: Partial<IrrigationEvent> = {}): IrrigationEvent => ({
+  date,
+  startTime: '23:30',
+  endTime: '00:30',
+  growthStage: 'mid',
+  depthMm: 40,
+  netDepthMm: 30,
+  volumeLitres: 40000,
+  runTimeMinutes: 60,
+  message: 'Irrigate before the heat; the crop is flowering.',
+  ...overrides,
+});
+
+const schedule = (events: CalendarSchedule['events']): CalendarSchedule => ({
+  id: 'schedule-1',
+  crop: 'Onion',
+  location: 'Niphad, Nashik',
+  events,
+});
+
+// Undoes the folding of content lines (RFC 5545, 3.1).
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('buildIrrigationCalendar', () => {
+  it('gives each event local start and end times, running past midnight if need be', () => {
+    const calendar = unfold(buildIrrigationCalendar([schedule([event('2026-10-19')])], 'Farm'));
+    assert.match(calendar, /\r\nDTSTART;TZID=Asia\/Kolkata:20261019T233000\r\n/);
+    assert.match(calendar, /\r\nDTEND;TZID=Asia\/Kolkata:20261020T003000\r\n/);
+    assert.match(calendar, /\r\nUID:schedule-1-2026-10-19@neervaani\r\n/);
+  });
+
+  it('escapes text values', () => {
+    const calendar = unfold(buildIrrigationCalendar([schedule([event('2026-10-19')])], 'Farm; North, East'));
+    assert.match(calendar, /\r\nX-WR-CALNAME:Farm\\; North\\, East\r\n/);
+    assert.match(calendar, /\r\nLOCATION:Niphad\\, Nashik\r\n/);
+    assert.match(calendar, /DESCRIPTION:Irrigate before the heat\\; the crop is flowering\.\\n\\nApply 40 mm/);
+  });
+
+  it('folds lines at 75 octets without splitting a character', () => {
+    const calendar = buildIrrigationCalendar([{ ...schedule([event('2026-10-19')]), location: 'नासिक जिला, महाराष्ट्र '.repeat(5) }], 'Farm');
+    const lines = calendar.split('\r\n');
+    for (const line of lines) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+      assert.ok(!line.includes('�'));
+    }
+    assert.ok(lines.some(line => line.startsWith(' ')));
+    assert.ok(unfold(calendar).includes(`LOCATION:${'नासिक जिला\\, महाराष्ट्र '.repeat(5)}`));
+  });
+
+  it('cancels skipped irrigations and reminds only of those still to do', () => {
+    const calendar = buildIrrigationCalendar([schedule([
+      { ...event('2026-10-19'), status: 'skipped' },
+      { ...event('2026-10-22'), status: 'done' },
+      { ...event('2026-10-25'), status: 'planned' },
+    ])], 'Farm');
+    const events = calendar.split('BEGIN:VEVENT').slice(1);
+    assert.match(events[0], /STATUS:CANCELLED/);
+    assert.match(events[1], /STATUS:CONFIRMED/);
+    assert.deepEqual(events.map(text => text.includes('BEGIN:VALARM')), [false, false, true]);
+  });
+
+  it('ends every line with CRLF', () => {
+    const calendar = buildIrrigationCalendar([], 'Farm');
+    assert.ok(calendar.endsWith('END:VCALENDAR\r\n'));
+    assert.ok(!/[^\r]\n/.test(calendar));
+  });
+});
+
+describe('googleCalendarUrl', () => {
+  it('links to an event at its local time in India', () => {
+    const url = new URL(googleCalendarUrl(event('2026-10-19', { startTime: '06:00', runTimeMinutes: 90 }), 'Onion', 'Nashik'));
+    assert.equal(url.searchParams.get('dates'), '20261019T060000/20261019T073000');
+    assert.equal(url.searchParams.get('ctz'), 'Asia/Kolkata');
+    assert.equal(url.searchParams.get('text'), 'Irrigate Onion: 40 mm');
+  });
+});
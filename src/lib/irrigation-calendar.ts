@@ -0,0 +1,141 @@
+import type { IrrigationEvent } from '@/ai/schemas/irrigation-scheduler-schemas';
+import type { IrrigationEventStatus } from '@/lib/types';
+
+// Irrigation times are local farm times. India has a single time zone and no daylight saving.
+export const IRRIGATION_TIME_ZONE = 'Asia/Kolkata';
+const REMINDER_MINUTES_BEFORE = 30;
+// How often subscribed calendar apps are asked to fetch the feed again.
+const FEED_REFRESH_INTERVAL = 'PT6H';
+
+export interface CalendarSchedule {
+  id: string; // Stable across exports, so calendar apps update events rather than duplicate them
+  crop: string;
+  location: string;
+  events: (IrrigationEvent & { status?: IrrigationEventStatus })[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** The start and end of an event as floating local times, e.g. "20261019T060000". */
+function eventTimes(event: IrrigationEvent): { start: string; end: string } {
+  const [year, month, day] = event.date.split('-').map(Number);
+  const [hours, minutes] = event.startTime.split(':').map(Number);
+  // Date arithmetic is done in UTC only so that no time zone shifts the local wall-clock time.
+  const start = new Date(Date.UTC(year, month - 1, day, hours, minutes));
+  const end = new Date(start.getTime() + Math.max(1, event.runTimeMinutes) * 60_000);
+  const format = (date: Date) =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+  return { start: format(start), end: format(end) };
+}
+
+const formatRunTime = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+const eventTitle = (crop: string, event: IrrigationEvent) => `Irrigate ${crop}: ${event.depthMm} mm`;
+
+const eventDetails = (event: IrrigationEvent) =>
+  `${event.message}\n\nApply ${event.depthMm} mm, about ${event.volumeLitres.toLocaleString('en-IN')} litres. Run the pump for ${formatRunTime(event.runTimeMinutes)}.`;
+
+/**
+ * A Google Calendar link that adds one irrigation, at its local time in India.
+ */
+export function googleCalendarUrl(event: IrrigationEvent, crop: string, location: string): string {
+  const { start, end } = eventTimes(event);
+  const url = new URL('https://www.google.com/calendar/render');
+  url.searchParams.append('action', 'TEMPLATE');
+  url.searchParams.append('text', eventTitle(crop, event));
+  url.searchParams.append('dates', `${start}/${end}`);
+  url.searchParams.append('ctz', IRRIGATION_TIME_ZONE);
+  url.searchParams.append('details', eventDetails(event));
+  url.searchParams.append('location', location);
+  return url.toString();
+}
+
+// Escapes a TEXT value (RFC 5545, 3.3.11).
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Folds a content line into lines of at most 75 octets (RFC 5545, 3.1), without splitting
+// a multi-byte character.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    // Continuation lines start with a space, which counts towards their 75 octets.
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Builds an iCalendar (RFC 5545) file of irrigation schedules. Times are in Asia/Kolkata,
+ * each irrigation has a reminder before it starts, and skipped irrigations are cancelled.
+ * @param name The calendar's name, shown by calendar apps that subscribe to it.
+ */
+export function buildIrrigationCalendar(schedules: CalendarSchedule[], name: string, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NeerVaani//Irrigation Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${IRRIGATION_TIME_ZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${IRRIGATION_TIME_ZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0530',
+    'TZOFFSETTO:+0530',
+    'TZNAME:IST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+
+  for (const schedule of schedules) {
+    for (const event of schedule.events) {
+      const { start, end } = eventTimes(event);
+      const title = eventTitle(schedule.crop, event);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${schedule.id}-${event.date}@neervaani`,
+        `DTSTAMP:${utcStamp(now)}`,
+        `DTSTART;TZID=${IRRIGATION_TIME_ZONE}:${start}`,
+        `DTEND;TZID=${IRRIGATION_TIME_ZONE}:${end}`,
+        `SUMMARY:${escapeText(title)}`,
+        `DESCRIPTION:${escapeText(eventDetails(event))}`,
+        `LOCATION:${escapeText(schedule.location)}`,
+        `STATUS:${event.status === 'skipped' ? 'CANCELLED' : 'CONFIRMED'}`,
+        'TRANSP:TRANSPARENT',
+      );
+      if (event.status !== 'skipped' && event.status !== 'done') {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(title)}`,
+          `TRIGGER:-PT${REMINDER_MINUTES_BEFORE}M`,
+          'END:VALARM',
+        );
+      }
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
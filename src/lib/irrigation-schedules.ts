@@ -0,0 +1,83 @@
+import { format, parseISO } from 'date-fns';
+import type { IrrigationEvent, IrrigationProgress } from '@/ai/schemas/irrigation-scheduler-schemas';
+import type { IrrigationSchedule, SavedIrrigationEvent } from '@/lib/types';
+
+export interface WaterHistoryPoint {
+  date: string; // YYYY-MM-DD
+  planned: number; // Cumulative mm of irrigation planned, including skipped events
+  applied: number; // Cumulative mm of irrigation done
+  rainfall: number; // Cumulative mm of rain logged
+}
+
+const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM');
+
+/** What has happened since a saved schedule started, for re-planning it. */
+export function toIrrigationProgress(schedule: IrrigationSchedule): IrrigationProgress {
+  return {
+    startDate: schedule.startDate,
+    irrigations: schedule.events
+      .filter(event => event.status === 'done')
+      .map(event => ({ date: event.date, depthMm: event.appliedDepthMm ?? event.depthMm })),
+    rainfall: schedule.rainfallLog,
+  };
+}
+
+/**
+ * Replaces a saved schedule's upcoming events with re-planned ones. Events the farmer has
+ * recorded, and past events they have not, are kept as they are.
+ * @param today The first day the re-plan covers, in YYYY-MM-DD format.
+ */
+export function mergeReplannedEvents(events: SavedIrrigationEvent[], replanned: IrrigationEvent[], today: string): SavedIrrigationEvent[] {
+  const kept = events.filter(event => event.status !== 'planned' || event.date < today);
+  const keptDates = new Set(kept.map(event => event.date));
+  return [
+    ...kept,
+    ...replanned
+      .filter(event => !keptDates.has(event.date))
+      .map(event => ({ ...event, status: 'planned' as const, appliedDepthMm: null })),
+  ].sort(byDate);
+}
+
+/** Describes how re-planning changed the upcoming irrigations, for the farmer. */
+export function describeReplan(before: SavedIrrigationEvent[], after: SavedIrrigationEvent[], today: string): string {
+  const upcoming = (events: SavedIrrigationEvent[]) => events.filter(event => event.status === 'planned' && event.date >= today);
+  const [was, now] = [upcoming(before), upcoming(after)];
+  if (now.length === 0) {
+    return was.length > 0 ? 'The soil holds enough water for now, so the upcoming irrigations are cancelled.' : 'The soil holds enough water for now; no irrigation is needed.';
+  }
+  if (was[0]?.date === now[0].date && was[0]?.depthMm === now[0].depthMm && was.length === now.length) {
+    return `The schedule is unchanged; the next irrigation is on ${formatDay(now[0].date)}.`;
+  }
+  const next = `The next irrigation is ${now[0].depthMm} mm on ${formatDay(now[0].date)}${was[0] ? ` (was ${was[0].depthMm} mm on ${formatDay(was[0].date)})` : ''}.`;
+  const difference = now.length - was.length;
+  return difference === 0 ? next : `${next} ${Math.abs(difference)} ${difference > 0 ? 'more' : 'fewer'} irrigation${Math.abs(difference) === 1 ? '' : 's'} planned in all.`;
+}
+
+/** Cumulative planned irrigation, applied irrigation and logged rain over a schedule's season. */
+export function buildWaterHistory(schedule: IrrigationSchedule): WaterHistoryPoint[] {
+  const changes = new Map<string, { planned: number; applied: number; rainfall: number }>();
+  const changeOn = (date: string) => {
+    if (!changes.has(date)) changes.set(date, { planned: 0, applied: 0, rainfall: 0 });
+    return changes.get(date)!;
+  };
+  for (const event of schedule.events) {
+    const change = changeOn(event.date);
+    change.planned += event.depthMm;
+    if (event.status === 'done') change.applied += event.appliedDepthMm ?? event.depthMm;
+  }
+  for (const entry of schedule.rainfallLog) {
+    changeOn(entry.date).rainfall += entry.rainfall;
+  }
+
+  const totals = { planned: 0, applied: 0, rainfall: 0 };
+  return [...changes.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, change]) => {
+      totals.planned += change.planned;
+      totals.applied += change.applied;
+      totals.rainfall += change.rainfall;
+      return { date, planned: Math.round(totals.planned), applied: Math.round(totals.applied), rainfall: Math.round(totals.rainfall) };
+    });
+}
@@ -0,0 +1,11 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Whether a request's Authorization header carries `Bearer <secret>`. The values are compared
+ * by their hashes, which are always the same length, so the comparison takes the same time
+ * whatever the header holds.
+ */
+export const isAuthorizedJob = (authorization: string | null, secret: string) =>
+  timingSafeEqual(digest(authorization ?? ''), digest(`Bearer ${secret}`));
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseMandiDate, parseMandiPriceCsv } from '@/lib/mandi-price-csv';
+
+describe('parseMandiDate', () => {
+  it('reads the date formats of the price dumps', () => {
+    assert.equal(parseMandiDate('19/10/2026'), '2026-10-19');
+    assert.equal(parseMandiDate('9/1/2026'), '2026-01-09');
+    assert.equal(parseMandiDate('2026-10-19'), '2026-10-19');
+    assert.equal(parseMandiDate(' 19 Oct 2026 '), '2026-10-19');
+    assert.equal(parseMandiDate('19-Oct-26'), '2026-10-19');
+  });
+
+  it('returns null for anything else', () => {
+    assert.equal(parseMandiDate('yesterday'), null);
+    assert.equal(parseMandiDate(''), null);
+  });
+});
+
+describe('parseMandiPriceCsv', () => {
+  it('reads a data.gov.in dump', () => {
+    const csv = [
+      'State,District,Market,Commodity,Variety,Grade,Arrival_Date,Min_x0020_Price,Max_x0020_Price,Modal_x0020_Price',
+      'Maharashtra,Nashik,Lasalgaon,Onion,Red,FAQ,19/10/2026,"1,500",2100,1800',
+    ].join('\n');
+    assert.deepEqual(parseMandiPriceCsv(csv, 'prices.csv'), {
+      records: [{
+        date: '2026-10-19',
+        state: 'Maharashtra',
+        district: 'Nashik',
+        market: 'Lasalgaon',
+        commodity: 'Onion',
+        variety: 'Red',
+        grade: 'FAQ',
+        minPrice: 1500,
+        maxPrice: 2100,
+        modalPrice: 1800,
+        arrivals: null,
+        sourceFile: 'prices.csv',
+      }],
+      skipped: 0,
+      errors: [],
+    });
+  });
+
+  it('reads an Agmarknet report, taking the state from the options', () => {
+    const csv = [
+      '\uFEFFSl no.,District Name,Market Name,Commodity,Variety,Grade,Min Price (Rs./Quintal),Max Price (Rs./Quintal),Modal Price (Rs./Quintal),Price Date,Arrivals (Tonnes)',
+      '1,  Nashik ,  Pimpalgaon   Baswant ,Tomato,,,800,1200,1000,19 Oct 2026,NR',
+    ].join('\n');
+    const { records } = parseMandiPriceCsv(csv, 'report.csv', { state: 'Maharashtra' });
+    assert.equal(records.length, 1);
+    assert.equal(records[0].state, 'Maharashtra');
+    assert.equal(records[0].market, 'Pimpalgaon Baswant');
+    assert.equal(records[0].variety, 'Other');
+    assert.equal(records[0].grade, undefined);
+    assert.equal(records[0].arrivals, null);
+  });
+
+  it('puts swapped or out-of-range prices in order', () => {
+    const csv = [
+      'State,Market,Commodity,Arrival Date,Min Price,Max Price,Modal Price',
+      'Punjab,Khanna,Wheat,19/10/2026,2400,2200,2500',
+    ].join('\n');
+    const [record] = parseMandiPriceCsv(csv, 'prices.csv').records;
+    assert.deepEqual([record.minPrice, record.maxPrice, record.modalPrice], [2200, 2500, 2500]);
+  });
+
+  it('skips and reports rows it cannot use', () => {
+    const csv = [
+      'State,Market,Commodity,Arrival Date,Min Price,Max Price,Modal Price',
+      'Punjab,Khanna,Wheat,someday,2200,2400,2300',
+      'Punjab,,Wheat,19/10/2026,2200,2400,2300',
+      'Punjab,Khanna,Wheat,19/10/2026,NR,2400,2300',
+      'Punjab,Khanna,Wheat,19/10/2026,0,0,0',
+      'Punjab,Khanna,Wheat,19/10/2026,2200,2400,2300',
+    ].join('\n');
+    const result = parseMandiPriceCsv(csv, 'prices.csv');
+    assert.equal(result.records.length, 1);
+    assert.equal(result.skipped, 4);
+    assert.deepEqual(result.errors, [
+      'Line 2: unreadable date "someday".',
+      'Line 3: no market or commodity.',
+      'Line 4: missing prices.',
+      'Line 5: a zero price.',
+    ]);
+  });
+
+  it('rejects a file without the columns it needs', () => {
+    assert.throws(
+      () => parseMandiPriceCsv('Market,Commodity,Arrival Date,Modal Price\nKhanna,Wheat,19/10/2026,2300', 'prices.csv'),
+      /no minPrice, maxPrice, state column/,
+    );
+  });
+
+  it('returns nothing for an empty file', () => {
+    assert.deepEqual(parseMandiPriceCsv('', 'empty.csv'), { records: [], skipped: 0, errors: [] });
+  });
+});
@@ -0,0 +1,143 @@
+import { parse as parseCsv } from 'csv-parse/sync';
+import { format, isValid, parse as parseDate } from 'date-fns';
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+
+type Column = 'state' | 'district' | 'market' | 'commodity' | 'variety' | 'grade' | 'date' | 'minPrice' | 'maxPrice' | 'modalPrice' | 'arrivals';
+
+// Header names used by the data.gov.in daily price API dumps and by Agmarknet report
+// downloads, after normalizing (e.g. "Min_x0020_Price" and "Min Price (Rs./Quintal)" both
+// become "min price ..."). A header matches if it starts with one of these.
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  state: ['state'],
+  district: ['district'],
+  market: ['market', 'apmc', 'mandi'],
+  commodity: ['commodity'],
+  variety: ['variety'],
+  grade: ['grade'],
+  date: ['arrival date', 'price date', 'reported date', 'date'],
+  minPrice: ['min price', 'minimum price'],
+  maxPrice: ['max price', 'maximum price'],
+  modalPrice: ['modal price'],
+  arrivals: ['arrivals', 'arrival quantity'],
+};
+
+const REQUIRED_COLUMNS: Column[] = ['market', 'commodity', 'date', 'minPrice', 'maxPrice', 'modalPrice'];
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'yyyy-MM-dd', 'dd MMM yyyy', 'd MMM yyyy', 'dd-MMM-yyyy', 'd-MMM-yyyy', 'dd-MMM-yy'];
+
+// At most this many problem rows are described individually in the result.
+const MAX_REPORTED_ERRORS = 10;
+
+export interface MandiPriceCsvOptions {
+  /** Used for rows without a state column, as in district-level Agmarknet reports. */
+  state?: string;
+}
+
+export interface MandiPriceCsvResult {
+  records: MandiPriceRecord[];
+  skipped: number;
+  errors: string[]; // The first few reasons rows were skipped
+}
+
+const normalizeHeader = (header: string) =>
+  header.replace(/_x0020_/g, ' ').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Collapses whitespace in a text cell; Agmarknet exports pad many of them. */
+const cleanText = (value: string | undefined) => (value ?? '').replace(/\s+/g, ' ').trim();
+
+const parseNumber = (value: string | undefined): number | null => {
+  const cleaned = cleanText(value).replace(/,/g, '');
+  if (!cleaned || cleaned.toUpperCase() === 'NR') return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+};
+
+/** Parses the date formats found in price dumps into YYYY-MM-DD, or null if unrecognized. */
+export function parseMandiDate(value: string): string | null {
+  const cleaned = cleanText(value);
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parseDate(cleaned, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() > 1990) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+}
+
+function mapColumns(headers: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  headers.map(normalizeHeader).forEach((header, index) => {
+    const column = (Object.keys(COLUMN_ALIASES) as Column[]).find(candidate =>
+      columns[candidate] === undefined && COLUMN_ALIASES[candidate].some(alias => header === alias || header.startsWith(`${alias} `))
+    );
+    if (column) columns[column] = index;
+  });
+  return columns;
+}
+
+/**
+ * Parses an Agmarknet or data.gov.in daily arrivals-and-prices CSV dump into price records.
+ * Rows with missing or unreadable prices are skipped and counted rather than failing the import.
+ * @param text The contents of the CSV file.
+ * @param sourceFile The file name, recorded on every record.
+ */
+export function parseMandiPriceCsv(text: string, sourceFile: string, options: MandiPriceCsvOptions = {}): MandiPriceCsvResult {
+  const rows: string[][] = parseCsv(text, { bom: true, skip_empty_lines: true, relax_column_count: true, trim: true });
+  if (rows.length === 0) {
+    return { records: [], skipped: 0, errors: [] };
+  }
+
+  const columns = mapColumns(rows[0]);
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+  if (columns.state === undefined && !options.state) missing.push('state');
+  if (missing.length > 0) {
+    throw new Error(`The file ${sourceFile} has no ${missing.join(', ')} column. Found: ${rows[0].join(', ')}.`);
+  }
+
+  const records: MandiPriceRecord[] = [];
+  const errors: string[] = [];
+  let skipped = 0;
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column];
+    return index === undefined ? undefined : row[index];
+  };
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const date = parseMandiDate(cell(row, 'date') ?? '');
+    const minPrice = parseNumber(cell(row, 'minPrice'));
+    const maxPrice = parseNumber(cell(row, 'maxPrice'));
+    const modalPrice = parseNumber(cell(row, 'modalPrice'));
+    const market = cleanText(cell(row, 'market'));
+    const commodity = cleanText(cell(row, 'commodity'));
+
+    const problem = !date ? `unreadable date "${cell(row, 'date')}"`
+      : !market || !commodity ? 'no market or commodity'
+      : modalPrice === null || minPrice === null || maxPrice === null ? 'missing prices'
+      : modalPrice <= 0 ? 'a zero price'
+      : null;
+    if (problem) {
+      skipped++;
+      if (errors.length < MAX_REPORTED_ERRORS) errors.push(`Line ${line}: ${problem}.`);
+      return;
+    }
+
+    records.push({
+      date: date!,
+      state: cleanText(cell(row, 'state')) || options.state!,
+      district: cleanText(cell(row, 'district')),
+      market,
+      commodity,
+      variety: cleanText(cell(row, 'variety')) || 'Other',
+      grade: cleanText(cell(row, 'grade')) || undefined,
+      // Some dumps swap min and max, or have a modal price outside the range.
+      minPrice: Math.min(minPrice!, maxPrice!, modalPrice!),
+      maxPrice: Math.max(minPrice!, maxPrice!, modalPrice!),
+      modalPrice: modalPrice!,
+      arrivals: parseNumber(cell(row, 'arrivals')),
+      sourceFile,
+    });
+  });
+
+  return { records, skipped, errors };
+}
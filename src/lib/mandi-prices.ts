@@ -0,0 +1,229 @@
+import { format, parseISO, subDays } from 'date-fns';
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+
+export type PriceTrendDirection = 'Upward' | 'Downward' | 'Stable' | 'Volatile';
+
+// How many of the latest market days the trend is read from.
+const TREND_DAYS = 7;
+
+/** Lowercases a commodity or place name and reduces punctuation to spaces, for matching. */
+export const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Whether a name matches a query exactly or starts with it as whole words, so "Lasalgaon"
+ * matches the mandi "Lasalgaon(Niphad)" and "Paddy" matches "Paddy(Dhan)(Common)".
+ */
+export function matchesName(value: string, query: string): boolean {
+  const name = normalizeName(value);
+  const wanted = normalizeName(query);
+  return !!wanted && (name === wanted || name.startsWith(`${wanted} `));
+}
+
+/**
+ * Finds the commodity a free-text question is about, from the commodity names in the store.
+ * Longer names are tried first, so "Green Chilli" wins over "Chilli".
+ */
+export function findCommodityInText(commodities: string[], text: string): string | null {
+  const words = ` ${normalizeName(text)} `;
+  const byLength = [...commodities].sort((a, b) => b.length - a.length);
+  // Agmarknet names carry qualifiers, e.g. "Paddy(Dhan)(Common)"; the first word is matched too.
+  return byLength.find(name => words.includes(` ${normalizeName(name)} `))
+    ?? byLength.find(name => words.includes(` ${normalizeName(name).split(' ')[0]} `))
+    ?? null;
+}
+
+export const marketKey = (record: Pick<MandiPriceRecord, 'state' | 'district' | 'market'>) => `${record.state}|${record.district}|${record.market}`;
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Picks the mandi to quote from a set of records: the one with the most recent prices,
+ * preferring the larger arrivals on that day.
+ */
+export function pickMarket(records: MandiPriceRecord[]): string | null {
+  const latest = [...records].sort((a, b) =>
+    b.date.localeCompare(a.date) || (b.arrivals ?? 0) - (a.arrivals ?? 0)
+  )[0];
+  return latest ? marketKey(latest) : null;
+}
+
+/**
+ * Reduces one mandi's records to a daily series of a single variety, oldest first. The
+ * variety quoted most often is used, so prices of different qualities are not compared.
+ */
+export function toDailySeries(records: MandiPriceRecord[]): MandiPriceRecord[] {
+  const variety = mostCommon(records.map(record => record.variety));
+  const byDate = new Map<string, MandiPriceRecord>();
+  records
+    .filter(record => record.variety === variety)
+    .forEach(record => {
+      const existing = byDate.get(record.date);
+      // Several grades can be quoted on one day; keep the one with the most arrivals.
+      if (!existing || (record.arrivals ?? 0) > (existing.arrivals ?? 0)) {
+        byDate.set(record.date, record);
+      }
+    });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Classifies the movement of the modal price over a series. A move of under 2% is
+ * stable; a series that swings by over 8% on average but changes direction is volatile.
+ */
+export function classifyTrend(series: MandiPriceRecord[]): PriceTrendDirection {
+  if (series.length < 2) return 'Stable';
+  const prices = series.map(record => record.modalPrice);
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const overallChange = (last - first) / first * 100;
+
+  const dailyChanges = prices.slice(1).map((price, index) => (price - prices[index]) / prices[index] * 100);
+  const meanSwing = dailyChanges.reduce((sum, change) => sum + Math.abs(change), 0) / dailyChanges.length;
+  const changesDirection = dailyChanges.some(change => change > 0) && dailyChanges.some(change => change < 0);
+
+  if (meanSwing > 8 && changesDirection) return 'Volatile';
+  if (Math.abs(overallChange) < 2) return 'Stable';
+  return overallChange > 0 ? 'Upward' : 'Downward';
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+export interface PriceSnapshot {
+  current: MandiPriceRecord;
+  previous: MandiPriceRecord | null;
+  change: number;
+  percentageChange: number;
+  trend: { direction: PriceTrendDirection; period: string };
+  recent: MandiPriceRecord[]; // The days the trend was read from, oldest first
+  // The latest day's arrivals against the average of the days before, if both are known.
+  arrivalsComparedToAverage: number | null;
+}
+
+/**
+ * Summarizes a mandi's daily series: the latest price, the change since the previous
+ * market day, and the trend over the last TREND_DAYS market days.
+ */
+export function buildPriceSnapshot(series: MandiPriceRecord[]): PriceSnapshot {
+  if (series.length === 0) {
+    throw new Error('Cannot summarize an empty price series.');
+  }
+  const recent = series.slice(-TREND_DAYS);
+  const current = series[series.length - 1];
+  const previous = series.length > 1 ? series[series.length - 2] : null;
+  const change = previous ? current.modalPrice - previous.modalPrice : 0;
+
+  const earlierArrivals = recent.slice(0, -1).map(record => record.arrivals).filter((value): value is number => value !== null);
+  const averageArrivals = earlierArrivals.length > 0 ? earlierArrivals.reduce((sum, value) => sum + value, 0) / earlierArrivals.length : null;
+
+  return {
+    current,
+    previous,
+    change: round(change),
+    percentageChange: previous ? round(change / previous.modalPrice * 100) : 0,
+    trend: {
+      direction: classifyTrend(recent),
+      period: recent.length > 1
+        ? `last ${recent.length} market days (${formatDay(recent[0].date)} to ${formatDay(current.date)})`
+        : `only ${formatDay(current.date)} is available`,
+    },
+    recent,
+    arrivalsComparedToAverage: current.arrivals !== null && averageArrivals
+      ? round(current.arrivals / averageArrivals)
+      : null,
+  };
+}
+
+export interface SeasonalPricePoint {
+  month: number; // 0 for January
+  averagePrice: number; // The average modal price over all of the month's market days
+  typicalLow: number; // The average of each year's lowest modal price in the month
+  typicalHigh: number; // The average of each year's highest modal price in the month
+  years: number;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Builds a mandi's typical price for each calendar month from a daily series spanning one
+ * or more years. Months with no prices in any year are left out.
+ */
+export function buildSeasonalProfile(series: MandiPriceRecord[]): SeasonalPricePoint[] {
+  // Modal prices by month, then by year.
+  const byMonth = new Map<number, Map<string, number[]>>();
+  series.forEach(record => {
+    const month = Number(record.date.slice(5, 7)) - 1;
+    const year = record.date.slice(0, 4);
+    const years = byMonth.get(month) ?? new Map<string, number[]>();
+    years.set(year, [...(years.get(year) ?? []), record.modalPrice]);
+    byMonth.set(month, years);
+  });
+
+  return [...byMonth.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([month, years]) => {
+      const yearly = [...years.values()];
+      return {
+        month,
+        averagePrice: round(average(yearly.flat()), 0),
+        typicalLow: round(average(yearly.map(prices => Math.min(...prices))), 0),
+        typicalHigh: round(average(yearly.map(prices => Math.max(...prices))), 0),
+        years: yearly.length,
+      };
+    });
+}
+
+export interface MarketComparison {
+  market: string;
+  district: string;
+  variety: string;
+  modalPrice: number;
+  date: string;
+  sameDistrict: boolean;
+}
+
+// Prices older than this, relative to the latest compared, are too stale to compare with it.
+export const RECENT_PRICE_DAYS = 30;
+const MAX_COMPARED_MARKETS = 8;
+
+/**
+ * Returns the latest price of each mandi in a set of records, of the variety it quotes most,
+ * leaving out mandis with no price within RECENT_PRICE_DAYS of a reference date.
+ * @param since The reference date (YYYY-MM-DD).
+ */
+export function latestPricesByMarket(records: MandiPriceRecord[], since: string): MandiPriceRecord[] {
+  const byMarket = new Map<string, MandiPriceRecord[]>();
+  records.forEach(record => byMarket.set(marketKey(record), [...(byMarket.get(marketKey(record)) ?? []), record]));
+
+  const oldest = format(subDays(parseISO(since), RECENT_PRICE_DAYS), 'yyyy-MM-dd');
+  return [...byMarket.values()]
+    .map(marketRecords => toDailySeries(marketRecords).at(-1)!)
+    .filter(latest => latest.date >= oldest);
+}
+
+/**
+ * Lists the latest price at the other mandis in a set of records, for comparison with the
+ * selected mandi. Mandis in the same district come first, then the rest of the state,
+ * each by price, highest first.
+ */
+export function compareMarkets(records: MandiPriceRecord[], selected: MandiPriceRecord): MarketComparison[] {
+  const selectedKey = marketKey(selected);
+  return latestPricesByMarket(records, selected.date)
+    .filter(latest => marketKey(latest) !== selectedKey)
+    .map(latest => ({
+      market: latest.market,
+      district: latest.district,
+      variety: latest.variety,
+      modalPrice: latest.modalPrice,
+      date: latest.date,
+      sameDistrict: latest.district === selected.district,
+    }))
+    .sort((a, b) => Number(b.sameDistrict) - Number(a.sameDistrict) || b.modalPrice - a.modalPrice)
+    .slice(0, MAX_COMPARED_MARKETS);
+}
@@ -0,0 +1,53 @@
+import { format, parseISO } from 'date-fns';
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+import type { PriceAlert } from '@/lib/types';
+
+type PriceAlertRule = Pick<PriceAlert, 'commodity' | 'market' | 'condition' | 'threshold'>;
+
+export interface PriceAlertTrigger {
+  title: string;
+  message: string;
+}
+
+const formatPrice = (price: number) => `₹${price.toLocaleString('en-IN')}/quintal`;
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+/** Describes what an alert is waiting for, e.g. "Onion at Lasalgaon rises to ₹2,000/quintal or more". */
+export function describePriceAlert({ commodity, market, condition, threshold }: PriceAlertRule): string {
+  switch (condition) {
+    case 'above': return `${commodity} at ${market} rises to ${formatPrice(threshold)} or more`;
+    case 'below': return `${commodity} at ${market} falls to ${formatPrice(threshold)} or less`;
+    case 'move': return `${commodity} at ${market} moves by ${threshold}% or more`;
+  }
+}
+
+/**
+ * Checks an alert against the latest price at its mandi, and describes the price move if
+ * the alert's condition is met.
+ */
+export function evaluatePriceAlert(
+  alert: PriceAlertRule & Pick<PriceAlert, 'baselinePrice' | 'baselineDate'>,
+  latest: MandiPriceRecord
+): PriceAlertTrigger | null {
+  const { commodity, market, condition, threshold, baselinePrice } = alert;
+  const price = latest.modalPrice;
+  const title = `${commodity} price alert`;
+
+  if (condition === 'above' && price >= threshold) {
+    return { title, message: `${commodity} at ${market} reached ${formatPrice(price)} on ${formatDay(latest.date)}, at or above your target of ${formatPrice(threshold)}.` };
+  }
+  if (condition === 'below' && price <= threshold) {
+    return { title, message: `${commodity} at ${market} fell to ${formatPrice(price)} on ${formatDay(latest.date)}, at or below your limit of ${formatPrice(threshold)}.` };
+  }
+  if (condition === 'move') {
+    const change = (price - baselinePrice) / baselinePrice * 100;
+    if (Math.abs(change) >= threshold) {
+      return {
+        title,
+        message: `${commodity} at ${market} has moved ${change > 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)}% to ${formatPrice(price)} on ${formatDay(latest.date)}, from ${formatPrice(baselinePrice)} on ${formatDay(alert.baselineDate)}.`,
+      };
+    }
+  }
+  return null;
+}
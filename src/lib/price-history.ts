@@ -0,0 +1,88 @@
+'use server';
+
+import { format, parseISO, subDays } from 'date-fns';
+import { getMandiPriceStore, NoPriceDataError } from '@/ai/providers/mandi-price-store';
+import { MANDI_PRICE_UNIT, type MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+import {
+  buildSeasonalProfile,
+  compareMarkets,
+  marketKey,
+  toDailySeries,
+  type MarketComparison,
+  type SeasonalPricePoint,
+} from '@/lib/mandi-prices';
+
+// The longest history the chart offers; shorter ranges are cut from it on the client.
+const HISTORY_DAYS = 365;
+
+export interface PriceHistoryMandi {
+  commodity: string;
+  market: string;
+  district: string;
+  state: string;
+}
+
+export interface PriceHistoryPoint {
+  date: string;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+}
+
+export interface PriceHistory {
+  commodity: string;
+  variety: string;
+  market: string;
+  district: string;
+  state: string;
+  unit: string;
+  history: PriceHistoryPoint[]; // Up to HISTORY_DAYS up to the latest price, oldest first
+  seasonal: SeasonalPricePoint[];
+  seasonalFrom: string; // The first date the seasonal profile covers
+  nearby: MarketComparison[];
+}
+
+/** Loads the daily series of a commodity at one mandi, with the records of its whole state. */
+async function loadMandiSeries(mandi: PriceHistoryMandi) {
+  const records = await getMandiPriceStore().getPrices({ commodity: mandi.commodity, state: mandi.state });
+  const key = marketKey(mandi);
+  return { records, series: toDailySeries(records.filter(record => marketKey(record) === key)) };
+}
+
+/**
+ * Gets the latest stored price of a commodity at one mandi, or null if none was imported.
+ */
+export async function getLatestMandiPrice(mandi: PriceHistoryMandi): Promise<MandiPriceRecord | null> {
+  const { series } = await loadMandiSeries(mandi);
+  return series[series.length - 1] ?? null;
+}
+
+/**
+ * Gets the stored price history of a commodity at one mandi: its daily prices over the last
+ * year of imported data, its typical prices by month across all imported years, and the
+ * latest prices at the other mandis of its district and state.
+ */
+export async function getPriceHistory(mandi: PriceHistoryMandi): Promise<PriceHistory> {
+  const { records, series } = await loadMandiSeries(mandi);
+  if (series.length === 0) {
+    const imports = await getMandiPriceStore().getImports();
+    throw new NoPriceDataError(mandi.commodity, mandi.market, imports[0]?.toDate ?? null);
+  }
+
+  const latest = series[series.length - 1];
+  const from = format(subDays(parseISO(latest.date), HISTORY_DAYS), 'yyyy-MM-dd');
+  return {
+    commodity: latest.commodity,
+    variety: latest.variety,
+    market: latest.market,
+    district: latest.district,
+    state: latest.state,
+    unit: MANDI_PRICE_UNIT,
+    history: series
+      .filter(record => record.date > from)
+      .map(({ date, minPrice, maxPrice, modalPrice }) => ({ date, minPrice, maxPrice, modalPrice })),
+    seasonal: buildSeasonalProfile(series),
+    seasonalFrom: series[0].date,
+    nearby: compareMarkets(records, latest),
+  };
+}
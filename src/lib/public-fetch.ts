@@ -0,0 +1,63 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Addresses that are not on the public internet: unspecified, private, carrier-grade NAT,
+// loopback, link-local, benchmarking, multicast and reserved ranges, and their IPv6
+// counterparts. NAT64 addresses are refused too, as they can reach any of these; IPv4-mapped
+// IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const nonPublic = new BlockList();
+NON_PUBLIC_SUBNETS.forEach(([network, prefix, type]) => nonPublic.addSubnet(network, prefix, type));
+
+/** Throws unless a URL is http(s) and every address its host resolves to is public. */
+async function checkPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${url.protocol} links are not checked`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => nonPublic.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${host} is not a public address`);
+  }
+}
+
+/**
+ * Fetches a URL from the server only if it is an http(s) address on a public host. Redirects
+ * are followed one at a time, so that none can lead to a private or loopback address.
+ */
+export async function fetchPublicUrl(url: string, init: Omit<RequestInit, 'redirect'> = {}): Promise<Response> {
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await checkPublicUrl(target);
+    const response = await fetch(target, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error('too many redirects');
+    }
+    target = new URL(location, target);
+  }
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SavedIrrigationEvent } from '@/lib/types';
+import { dueIrrigation, localDateTime } from '@/lib/pump-commands';
+
+const event = (date: string, startTime: string, runTimeMinutes: number, status: SavedIrrigationEvent['status'] = 'planned'): SavedIrrigationEvent => ({
+  date,
+  startTime,
+  endTime: startTime,
+  growthStage: 'mid',
+  depthMm: 40,
+  netDepthMm: 30,
+  volumeLitres: 40000,
+  runTimeMinutes,
+  message: '',
+  status,
+  appliedDepthMm: null,
+});
+
+describe('localDateTime', () => {
+  it('is the date and time in India', () => {
+    assert.deepEqual(localDateTime(new Date('2026-10-19T20:00:00Z')), { date: '2026-10-20', minutes: 90 });
+    assert.deepEqual(localDateTime(new Date('2026-10-19T00:30:00Z')), { date: '2026-10-19', minutes: 360 });
+  });
+});
+
+describe('dueIrrigation', () => {
+  // 06:30 in India on 19 October.
+  const now = new Date('2026-10-19T01:00:00Z');
+
+  it('finds the planned irrigation that should be running, with the minutes left', () => {
+    const due = dueIrrigation([event('2026-10-19', '06:00', 90)], now);
+    assert.equal(due?.remainingMinutes, 60);
+  });
+
+  it('finds one started late the evening before that runs past midnight', () => {
+    const due = dueIrrigation([event('2026-10-18', '23:30', 480)], now);
+    assert.equal(due?.remainingMinutes, 60);
+  });
+
+  it('ignores irrigations not yet started, already over, or not planned', () => {
+    assert.equal(dueIrrigation([
+      event('2026-10-19', '07:00', 60),
+      event('2026-10-19', '05:00', 90),
+      event('2026-10-19', '06:00', 90, 'skipped'),
+      event('2026-10-19', '06:00', 90, 'done'),
+      event('2026-10-17', '23:00', 3000),
+    ], now), null);
+  });
+});
@@ -0,0 +1,44 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { IRRIGATION_TIME_ZONE } from '@/lib/irrigation-calendar';
+import type { SavedIrrigationEvent } from '@/lib/types';
+
+const localFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: IRRIGATION_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+/** The date (YYYY-MM-DD) and minutes past midnight of an instant, on farm time in India. */
+export function localDateTime(now: Date): { date: string; minutes: number } {
+  const parts = Object.fromEntries(localFormat.formatToParts(now).map(part => [part.type, part.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * The planned irrigation of a saved schedule that should be running at `now`, with the
+ * minutes of pumping left, or null if there is none. An irrigation the pump could not start on
+ * time, e.g. because the bridge was down, still gets the rest of its run.
+ */
+export function dueIrrigation(events: SavedIrrigationEvent[], now: Date): { event: SavedIrrigationEvent; remainingMinutes: number } | null {
+  const { date: today, minutes } = localDateTime(now);
+  // An irrigation started late in the evening can run past midnight.
+  const yesterday = format(addDays(parseISO(today), -1), 'yyyy-MM-dd');
+  for (const event of events) {
+    if (event.status !== 'planned' || (event.date !== today && event.date !== yesterday)) continue;
+    const elapsed = minutes + (event.date === yesterday ? 24 * 60 : 0) - minutesOf(event.startTime);
+    const remainingMinutes = event.runTimeMinutes - elapsed;
+    if (elapsed >= 0 && remainingMinutes >= 1) {
+      return { event, remainingMinutes };
+    }
+  }
+  return null;
+}
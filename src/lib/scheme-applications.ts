@@ -0,0 +1,101 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Scheme } from '@/ai/schemas/scheme-schemas';
+import type { SchemeApplication, SchemeApplicationStatus } from '@/lib/types';
+import { sectionText } from '@/lib/scheme-search';
+
+export const SCHEME_APPLICATION_STATUS_LABELS: Record<SchemeApplicationStatus, string> = {
+  preparing: 'Preparing',
+  applied: 'Applied',
+  underReview: 'Under review',
+  sanctioned: 'Sanctioned',
+  disbursed: 'Disbursed',
+  rejected: 'Rejected',
+};
+
+// Applications that need nothing more from the farmer.
+export const CLOSED_APPLICATION_STATUSES: SchemeApplicationStatus[] = ['disbursed', 'rejected'];
+
+// How long an application can wait at each stage before the farmer is reminded to follow it up.
+const FOLLOW_UP_AFTER_DAYS: Partial<Record<SchemeApplicationStatus, number>> = {
+  preparing: 7,
+  applied: 21,
+  underReview: 30,
+  sanctioned: 30,
+};
+// Reminders about the same application are at least this far apart.
+export const REMINDER_INTERVAL_DAYS = 7;
+
+// Lines that do not name a document, e.g. "Indicative Documents" or "Any other documents (if required)".
+const NOT_A_DOCUMENT = /^(indicative documents?|documents? required|any other documents?\b.*|note\b.*|n\/?a)$/i;
+
+const cleanItem = (item: string) =>
+  item.replace(/^\s*(\d+[.)]|[-•*])\s*/, '').replace(/[.;,:]+$/, '').trim();
+
+const uniqueItems = (items: string[]) =>
+  items.map(cleanItem).filter((item, index, all) =>
+    item.length > 1 && !NOT_A_DOCUMENT.test(item) && all.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index);
+
+/** Splits a documents section written as prose, one document per line or bullet, into a checklist. */
+export const parseDocumentChecklist = (text: string): string[] =>
+  uniqueItems(text.split(/\n+|(?:^|\s)[-•*]\s+|;\s*/));
+
+/**
+ * The document checklist for a scheme: the items of its "Documents Required" section, or,
+ * where the section has no list, its text split into lines.
+ */
+export function schemeDocumentChecklist(scheme: Scheme): string[] {
+  const sections = scheme.sections.filter(section => /^documents?\b/i.test(section.title ?? ''));
+  const listItems = sections.flatMap(section => [section, ...(section.sub_sections ?? [])])
+    .flatMap(section => (section.list_items ?? []).filter((item): item is string => typeof item === 'string'));
+  if (listItems.length > 0) {
+    return uniqueItems(listItems);
+  }
+  return parseDocumentChecklist(sections.flatMap(section => sectionText(section).slice(1)).join('\n'));
+}
+
+/**
+ * What the farmer still has to do for an application, most urgent first. Follow-ups are only
+ * suggested once the application has waited at its stage for a while.
+ */
+export function pendingApplicationSteps(application: SchemeApplication, now: Date = new Date()): string[] {
+  const { status, documents } = application;
+  if (CLOSED_APPLICATION_STATUSES.includes(status)) return [];
+  const waitingDays = differenceInCalendarDays(now, parseISO(application.statusUpdatedAt));
+  const followUp = waitingDays >= (FOLLOW_UP_AFTER_DAYS[status] ?? Infinity);
+  const reference = application.applicationId ? ` (${application.applicationId})` : '';
+
+  switch (status) {
+    case 'preparing': {
+      const missing = documents.filter(document => !document.have);
+      const steps = missing.length > 0
+        ? [`Collect ${missing.length === 1 ? 'the last document' : `${missing.length} documents`}: ${missing.map(document => document.name).join(', ')}.`]
+        : ['All documents are ready. Submit your application.'];
+      if (followUp) steps.push(`You started this application ${waitingDays} days ago.`);
+      return steps;
+    }
+    case 'applied':
+    case 'underReview':
+      return [
+        ...(application.applicationId ? [] : ['Record the application ID you were given, to follow it up.']),
+        ...(followUp ? [`No update for ${waitingDays} days. Check the status of your application${reference} with the office or portal.`] : []),
+      ];
+    case 'sanctioned':
+      return followUp ? [`Sanctioned ${waitingDays} days ago. Check whether the money has reached your bank account.`] : [];
+  }
+  return [];
+}
+
+/**
+ * Whether a reminder about an application's pending steps is due: it has steps the farmer
+ * could act on, and no reminder was sent in the last REMINDER_INTERVAL_DAYS.
+ */
+export function isApplicationReminderDue(application: SchemeApplication, now: Date = new Date()): boolean {
+  if (application.remindedAt && differenceInCalendarDays(now, parseISO(application.remindedAt)) < REMINDER_INTERVAL_DAYS) {
+    return false;
+  }
+  // A newly started application is not worth a reminder until the farmer has had time to act on it.
+  if (differenceInCalendarDays(now, parseISO(application.statusUpdatedAt)) < REMINDER_INTERVAL_DAYS) {
+    return false;
+  }
+  return pendingApplicationSteps(application, now).length > 0;
+}
@@ -0,0 +1,97 @@
+import type { Scheme, SchemeSection } from '@/ai/schemas/scheme-schemas';
+import type { CitedSchemeField, FieldSupport, ResolvedSchemeCitation, SchemeCitation } from '@/ai/schemas/government-schemes-schemas';
+import { normalizeKey } from '@/lib/diagnosis-search';
+import { normalizeSectionTitle } from '@/lib/scheme-dataset';
+import { searchTerms, sectionText } from '@/lib/scheme-search';
+
+export const CITED_SCHEME_FIELDS: CitedSchemeField[] = ['details', 'benefits', 'eligibility', 'applicationProcess', 'documentsRequired'];
+
+// A statement is supported if at least this share of its words appear in the cited text.
+const MIN_WORD_COVERAGE = 0.5;
+// Statements shorter than this many words, e.g. "Aadhaar card", are only checked for numbers.
+const MIN_CHECKED_WORDS = 3;
+
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+// Numbers as written in Indian schemes, e.g. "1,00,000" and "6000", compared without separators.
+const numbersIn = (text: string) =>
+  (text.match(NUMBER_PATTERN) ?? []).map(number => number.replace(/,/g, '').replace(/\.0+$/, ''));
+
+const allSections = (sections: SchemeSection[]): SchemeSection[] =>
+  sections.flatMap(section => [section, ...allSections(section.sub_sections ?? [])]);
+
+const titleKey = (title: string) => normalizeSectionTitle(title).toLowerCase();
+
+/**
+ * The text a citation points to in the scheme it names, or null if the scheme has no such
+ * section. A list item the section does not have is read as a citation of the whole section.
+ */
+export function resolveSchemeCitation(scheme: Scheme, citation: SchemeCitation): ResolvedSchemeCitation | null {
+  if (normalizeKey(scheme.scheme_name) !== normalizeKey(citation.schemeName)) return null;
+  const section = allSections(scheme.sections).find(candidate => candidate.title && titleKey(candidate.title) === titleKey(citation.section));
+  if (!section) return null;
+  const resolved = { ...citation, schemeName: scheme.scheme_name, section: section.title! };
+  const item = citation.item === null ? undefined : section.list_items?.[citation.item];
+  if (item !== undefined) {
+    return { ...resolved, text: sectionText({ title: null, list_items: [item] }).join('\n') };
+  }
+  const text = sectionText(section).slice(1).join('\n');
+  return text ? { ...resolved, item: null, text } : null;
+}
+
+/** Splits a summary field into the statements it makes: its lines, bullets and sentences. */
+export const summaryStatements = (text: string): string[] =>
+  text.split(/\n+|(?:^|\s)[-•*]\s+|(?<=[.!?।])\s+/)
+    .map(statement => statement.replace(/^\s*(\d+[.)]|[-•*])\s+/, '').trim())
+    .filter(statement => /[\p{L}\p{N}]/u.test(statement));
+
+/**
+ * Whether a statement is backed up by the cited text: every number in it appears there and,
+ * for statements written in English, most of its words do too. Translated statements can only
+ * be checked for numbers.
+ */
+function isSupported(statement: string, citedNumbers: Set<string>, citedTerms: Set<string>): boolean {
+  if (numbersIn(statement).some(number => !citedNumbers.has(number))) return false;
+  const letters = statement.match(/\p{L}/gu)?.length ?? 0;
+  const latinLetters = statement.match(/[a-z]/gi)?.length ?? 0;
+  if (latinLetters < letters / 2) return true;
+  const terms = searchTerms(statement).filter(term => !/^\d/.test(term));
+  if (terms.length < MIN_CHECKED_WORDS) return true;
+  return terms.filter(term => citedTerms.has(term)).length / terms.length >= MIN_WORD_COVERAGE;
+}
+
+/**
+ * Checks a summary field against the text of the sections it cites, and lists the statements
+ * that text does not back up. A field with no valid citations is "uncited".
+ */
+export function checkFieldSupport(text: string, citations: ResolvedSchemeCitation[]): FieldSupport {
+  const statements = summaryStatements(text);
+  if (citations.length === 0) {
+    return { status: statements.length > 0 ? 'uncited' : 'supported', unsupported: statements };
+  }
+  // The scheme's name is fair to repeat in any field.
+  const cited = [citations[0].schemeName, ...citations.map(citation => citation.text)].join('\n');
+  const citedNumbers = new Set(numbersIn(cited));
+  const citedTerms = new Set(searchTerms(cited));
+  const unsupported = statements.filter(statement => !isSupported(statement, citedNumbers, citedTerms));
+  const status = unsupported.length === 0 ? 'supported' : unsupported.length === statements.length ? 'unsupported' : 'partlySupported';
+  return { status, unsupported };
+}
+
+/**
+ * Resolves a summary's citations against the scheme it summarises, dropping repeats and those
+ * that point nowhere, and checks each field against its cited text.
+ */
+export function checkSchemeSummary(
+  scheme: Scheme,
+  summary: Record<CitedSchemeField, string> & { citations: SchemeCitation[] },
+): { citations: ResolvedSchemeCitation[]; support: Record<CitedSchemeField, FieldSupport> } {
+  const citations = summary.citations
+    .flatMap(citation => resolveSchemeCitation(scheme, citation) ?? [])
+    .filter((citation, index, all) => all.findIndex(other =>
+      other.field === citation.field && other.section === citation.section && other.item === citation.item) === index);
+  const support = Object.fromEntries(CITED_SCHEME_FIELDS.map(field =>
+    [field, checkFieldSupport(summary[field], citations.filter(citation => citation.field === field))],
+  )) as Record<CitedSchemeField, FieldSupport>;
+  return { citations, support };
+}
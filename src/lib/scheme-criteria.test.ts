@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Scheme, SchemeCriteria } from '@/ai/schemas/scheme-schemas';
+import { extractSchemeCriteria } from '@/lib/scheme-criteria';
+import { checkSchemeEligibility, findSchemeCriteria, isOpenToState } from '@/lib/scheme-eligibility';
+
+const schemeWithEligibility = (eligibility: string[], scheme_name = 'Test Scheme'): Scheme => ({
+  scheme_name,
+  ministry: 'Department of Agriculture',
+  keywords: [],
+  sections: [
+    { title: 'Details', content: 'Assistance of ₹50,000 for 2 hectares.' },
+    { title: 'Eligibility', list_items: eligibility },
+  ],
+});
+
+const criteria = (overrides: Partial<SchemeCriteria> = {}): SchemeCriteria => ({
+  scheme_name: 'Test Scheme',
+  reviewed: true,
+  states: null,
+  districts: null,
+  landHectares: null,
+  needsLand: false,
+  categories: null,
+  womenOnly: false,
+  age: null,
+  minDisabilityPercent: null,
+  occupations: null,
+  notes: [],
+  ...overrides,
+});
+
+describe('extractSchemeCriteria', () => {
+  it('reads residence, land, age, category and occupation conditions', () => {
+    const extracted = extractSchemeCriteria(schemeWithEligibility([
+      'The applicant should be a resident of Tamil Nadu.',
+      'The applicant must own agricultural land.',
+      'The farmer should have a minimum of 1 acre and up to 5 hectares of land.',
+      'The applicant should be between 18 and 40 years of age.',
+      'The applicant should belong to the Scheduled Caste or Scheduled Tribe community only.',
+      'The applicant must be a farmer.',
+    ]));
+    assert.deepEqual(extracted.states, ['Tamil Nadu']);
+    assert.equal(extracted.needsLand, true);
+    assert.deepEqual(extracted.landHectares, { min: 0.4047, max: 5 });
+    assert.deepEqual(extracted.age, { min: 18, max: 40 });
+    assert.deepEqual(extracted.categories?.sort(), ['sc', 'st']);
+    assert.deepEqual(extracted.occupations, ['farmer']);
+    assert.equal(extracted.reviewed, false);
+    assert.deepEqual(extracted.notes, []);
+  });
+
+  it('reads "not less than" as a lower bound', () => {
+    assert.deepEqual(extractSchemeCriteria(schemeWithEligibility(['The applicant should be not less than 18 years of age.'])).age, { min: 18 });
+  });
+
+  it('does not read a ceiling on the subsidy as a condition on the farm', () => {
+    assert.equal(extractSchemeCriteria(schemeWithEligibility(['The subsidy for each farmer is limited to 5 hectares.'])).landHectares, null);
+  });
+
+  it('does not count a fish farmer as a farmer', () => {
+    assert.deepEqual(extractSchemeCriteria(schemeWithEligibility(['The applicant must be a fish farmer.'])).occupations, ['fisher']);
+  });
+
+  it('keeps conditions it cannot read as notes', () => {
+    const condition = 'The applicant must have a valid bank account linked with Aadhaar.';
+    assert.deepEqual(extractSchemeCriteria(schemeWithEligibility([condition])).notes, [condition]);
+  });
+});
+
+describe('checkSchemeEligibility', () => {
+  const table = criteria({ states: ['Tamil Nadu'], landHectares: { max: 2 }, age: { min: 18, max: 40 } });
+
+  it('is eligible when every criterion is met', () => {
+    const result = checkSchemeEligibility(table, { state: 'tamil nadu', landHectares: 1.5, age: 30 });
+    assert.equal(result.status, 'eligible');
+    assert.equal(result.reasons.length, 3);
+  });
+
+  it('is not eligible when any criterion is unmet, and gives only the unmet ones', () => {
+    const result = checkSchemeEligibility(table, { state: 'Kerala', landHectares: 1.5 });
+    assert.equal(result.status, 'notEligible');
+    assert.deepEqual(result.reasons, ['Only for residents of Tamil Nadu; you live in Kerala.']);
+  });
+
+  it('is possibly eligible when information is missing', () => {
+    const result = checkSchemeEligibility(table, { state: 'Tamil Nadu', landHectares: 1 });
+    assert.equal(result.status, 'possiblyEligible');
+    assert.deepEqual(result.reasons, ['For ages 18 to 40 years; add your age.']);
+  });
+
+  it('is possibly eligible for a scheme without criteria', () => {
+    assert.equal(checkSchemeEligibility(undefined, {}).status, 'possiblyEligible');
+  });
+
+  it('treats a landless farmer as not meeting a land requirement', () => {
+    assert.equal(checkSchemeEligibility(criteria({ needsLand: true }), { landHectares: 0 }).status, 'notEligible');
+  });
+
+  it('passes on the notes that must be checked by hand', () => {
+    const notes = ['The applicant must have a bank account.'];
+    assert.deepEqual(checkSchemeEligibility(criteria({ notes }), {}).notes, notes);
+  });
+});
+
+describe('findSchemeCriteria and isOpenToState', () => {
+  it('match names whatever their case and spacing', () => {
+    const table = [criteria({ scheme_name: 'PM  Kisan', states: ['Uttar Pradesh'] })];
+    assert.equal(findSchemeCriteria(table, 'pm kisan'), table[0]);
+    assert.equal(isOpenToState(table[0], 'uttar pradesh'), true);
+    assert.equal(isOpenToState(table[0], 'Bihar'), false);
+    assert.equal(isOpenToState(undefined, 'Bihar'), true);
+  });
+});
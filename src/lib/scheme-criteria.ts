@@ -0,0 +1,195 @@
+import type { Occupation, Scheme, SchemeCriteria, SocialCategory } from '@/ai/schemas/scheme-schemas';
+import { INDIAN_STATES } from '@/lib/scheme-eligibility';
+import { sectionText } from '@/lib/scheme-search';
+
+// Hectares per unit of land area as written in scheme conditions.
+const HECTARES_PER_UNIT: [RegExp, number][] = [
+  [/^(ha|hectares?)$/, 1],
+  [/^acres?$/, 0.4047],
+  [/^(sq\.? ?m|square met(er|re)s?)$/, 0.0001],
+];
+const AREA_UNIT = String.raw`(ha|hectares?|acres?|sq\.? ?m|square met(?:er|re)s?)\b`;
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+
+// Phrases, in a sentence that sets a condition, that restrict a scheme to a social category.
+const CATEGORY_PATTERNS: [RegExp, SocialCategory][] = [
+  [/\bscheduled castes?\b|\bsc\b|adi dravidar/i, 'sc'],
+  [/\bscheduled tribes?\b|\bst\b|\btribal\b/i, 'st'],
+  [/\bother backward class|\bobc\b|\bbackward class/i, 'obc'],
+  [/\bgeneral (caste|category)\b/i, 'general'],
+];
+
+// Phrases, in a sentence that sets a condition, that restrict a scheme to an occupation. Fishing
+// and livestock are matched first and removed, so a "fish farmer" is not also a farmer.
+const OCCUPATION_PATTERNS: [RegExp, Occupation][] = [
+  [/\b(fish(?:ery|eries)?[\s-](?:farmers?|workers?|vendors?|microenterprise)|fish(?:ers|erman|ermen|er)\b|fisheries|aquaculture|fishing)/gi, 'fisher'],
+  [/\b(livestock(?: farmers?| owners?)?|dairy(?: farming)?|milch animals?|animals?|cattle|cows?(?:-helper)?|buffalo(?:es)?|sheep|goats?|poultry|pig(?:s|gery)?)\b/gi, 'livestock'],
+  [/\b(farmers?|cultivators?|engaged in agriculture|ryots?)\b/gi, 'farmer'],
+];
+
+const RESIDENCE = /\b(resident|residing|native|belong|domicile)/i;
+
+// A sentence that sets a condition on the applicant, rather than describing the scheme.
+const CONDITION = /\b(should|must|shall|has to|have to|need(s)? to|only|eligible|belong(s)?)\b/i;
+
+/** The sentences of a scheme's eligibility sections. */
+function eligibilitySentences(scheme: Scheme): string[] {
+  return scheme.sections
+    .filter(section => /^eligib/i.test(section.title ?? ''))
+    .flatMap(sectionText)
+    .flatMap(text => text.split(/(?<=[.;])\s+|\n+/))
+    .map(sentence => sentence.replace(/^\s*(\d+[.)]|[-•*])\s*/, '').trim())
+    .filter(sentence => sentence.length > 3 && !/^note\s*\d*:?$/i.test(sentence));
+}
+
+const toHectares = (value: string, unit: string) => {
+  const perUnit = HECTARES_PER_UNIT.find(([pattern]) => pattern.test(unit.toLowerCase()))![1];
+  return Number((Number(value) * perUnit).toFixed(4));
+};
+
+function findStates(text: string): string[] {
+  return INDIAN_STATES.filter(state => new RegExp(`\\b${state.replace(/ and /g, ' (and|&) ')}\\b`, 'i').test(text));
+}
+
+function findDistricts(sentence: string): string[] | null {
+  const match = sentence.match(/following districts(?: of [\w\s]+?)?\s*:\s*(.+)$/i);
+  if (!match) return null;
+  return match[1].replace(/\.$/, '').split(/,|\band\b/).map(name => name.trim()).filter(Boolean);
+}
+
+// Rewrites "not (be) less than" and "not (be) more than", so they are not read as "less than" and "more than".
+const normalizeBounds = (sentence: string) =>
+  sentence.replace(/\b(not|no)( be)? less than\b/gi, 'at least').replace(/\b(not|no)( be)? more than\b|\bnot exceed(ing)?\b/gi, 'at most');
+
+function findLandRange(sentence: string): { min?: number; max?: number } | null {
+  // A ceiling on the subsidy per beneficiary, e.g. "limited to 5 hectares", is not a condition on
+  // the farm, and nor is the size of a demonstration plot or a district's crop area.
+  if (/\b(ceiling|limited to|subsidy|assistance|grant|payable)\b/i.test(sentence)) return null;
+  if (!/\b(applicant|beneficiar(y|ies)|farmers?|growers?|holdings?|own|owned|possess)\b/i.test(sentence)) return null;
+  const text = normalizeBounds(sentence);
+  const min = text.match(new RegExp(String.raw`(?:minimum(?: of)?|at least)\s+${NUMBER}\s*${AREA_UNIT}`, 'i'));
+  const max = text.match(new RegExp(String.raw`(?:maximum(?: of)?|up to|upto|at most|less than|below)\s+${NUMBER}\s*${AREA_UNIT}`, 'i'));
+  if (!min && !max) return null;
+  return {
+    ...(min ? { min: toHectares(min[1], min[2]) } : {}),
+    ...(max ? { max: toHectares(max[1], max[2]) } : {}),
+  };
+}
+
+function findAgeRange(sentence: string): { min?: number; max?: number } | null {
+  if (!/\bage\b|years old|years of age/i.test(sentence)) return null;
+  const between = sentence.match(/(\d+)\s*(?:to|and|-|–)\s*(\d+)\s*years/i)
+    // "not less than 18 years or more than 50 years": the "not" covers both.
+    ?? sentence.match(/not (?:be )?less than (\d+)[^.]*? or more than (\d+)/i);
+  if (between) return { min: Number(between[1]), max: Number(between[2]) };
+  const text = normalizeBounds(sentence);
+  const min = text.match(/(?:above|over|at least|minimum(?: age)?(?: of)?|more than)\s+(\d+)\s*years/i);
+  const max = text.match(/(?:below|under|less than|at most|maximum(?: age)?(?: of)?|up to)\s+(\d+)\s*years/i);
+  if (!min && !max) return null;
+  return { ...(min ? { min: Number(min[1]) } : {}), ...(max ? { max: Number(max[1]) } : {}) };
+}
+
+function findDisability(sentence: string): number | null {
+  // "If the applicant is disabled, ..." sets a condition for some applicants only.
+  if (/^if\b/i.test(sentence)) return null;
+  const match = sentence.match(/disabilit(?:y|ies)\s+(?:of\s+|(?:should|must) be\s+)?(?:at least|more than|minimum(?: of)?|above|not less than)?\s*(\d+)\s*%/i);
+  return match ? Number(match[1]) : null;
+}
+
+function findOccupations(sentence: string): Occupation[] {
+  const requirement = sentence.match(/\b(?:should|must)\s+(?:be|have|possess|keep|belong to)\b(.*)$|\bengaged in\b(.*)$|^all\s+(.*)$/i);
+  const clause = requirement ? requirement[1] ?? requirement[2] ?? requirement[3] : sentence.split(/\s+/).length <= 6 ? sentence : null;
+  // Schemes also open to entrepreneurs, groups or anyone else are not limited to an occupation.
+  if (!clause || /\b(entrepreneurs?|member of|self help group|shg|individuals?|any)\b/i.test(clause)) return [];
+  let remaining = clause;
+  const found: Occupation[] = [];
+  for (const [pattern, occupation] of OCCUPATION_PATTERNS) {
+    if (new RegExp(pattern.source, 'i').test(remaining)) {
+      found.push(occupation);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+  return found;
+}
+
+/**
+ * Extracts machine-readable eligibility criteria from a scheme's eligibility sections. This is
+ * a best guess from the wording; conditions it cannot read are kept as notes, and every entry
+ * should be checked by hand before it is marked reviewed.
+ */
+export function extractSchemeCriteria(scheme: Scheme): SchemeCriteria {
+  const sentences = eligibilitySentences(scheme);
+  // A state named in the eligibility conditions limits the scheme only where residence is asked for.
+  const residence = sentences.filter(sentence => RESIDENCE.test(sentence)).join(' ');
+  const states = findStates(`${scheme.scheme_name} ${scheme.ministry} ${residence}`);
+
+  const criteria: SchemeCriteria = {
+    scheme_name: scheme.scheme_name,
+    reviewed: false,
+    states: states.length > 0 ? states : null,
+    districts: null,
+    landHectares: null,
+    needsLand: false,
+    categories: null,
+    womenOnly: false,
+    age: null,
+    minDisabilityPercent: null,
+    occupations: null,
+    notes: [],
+  };
+  const categories = new Set<SocialCategory>();
+  const occupations = new Set<Occupation>();
+
+  for (const sentence of sentences) {
+    let understood = false;
+    const districts = findDistricts(sentence);
+    if (districts) {
+      criteria.districts = districts;
+      understood = true;
+    }
+    const land = findLandRange(sentence);
+    if (land) {
+      criteria.landHectares = { ...criteria.landHectares, ...land };
+      understood = true;
+    }
+    if (/\b(own|owned|ownership of|possess)\b[^.]*\bland\b|\bland holding in their names?\b|\bland\b[^.]*\b(owned|lease)/i.test(sentence) && CONDITION.test(sentence)) {
+      criteria.needsLand = true;
+      understood = true;
+    }
+    if (/\b(should|must)\s+(belong|be from)\b|\bbeneficiaries of\b|\bonly\b/i.test(sentence)) {
+      CATEGORY_PATTERNS.filter(([pattern]) => pattern.test(sentence)).forEach(([, category]) => {
+        categories.add(category);
+        understood = true;
+      });
+    }
+    if (/\b(should|must)\s+be\s+(a\s+)?(woman|women|female)\b|\bonly (for )?women\b/i.test(sentence)) {
+      criteria.womenOnly = true;
+      understood = true;
+    }
+    const age = findAgeRange(sentence);
+    if (age) {
+      criteria.age = { ...criteria.age, ...age };
+      understood = true;
+    }
+    const disability = findDisability(sentence);
+    if (disability !== null) {
+      criteria.minDisabilityPercent = disability;
+      understood = true;
+    }
+    const sentenceOccupations = findOccupations(sentence);
+    if (sentenceOccupations.length > 0) {
+      sentenceOccupations.forEach(occupation => occupations.add(occupation));
+      understood = true;
+    }
+    if (findStates(sentence).length > 0 && RESIDENCE.test(sentence)) {
+      understood = true;
+    }
+    if (!understood && CONDITION.test(sentence)) {
+      criteria.notes.push(sentence);
+    }
+  }
+
+  criteria.categories = categories.size > 0 ? [...categories] : null;
+  criteria.occupations = occupations.size > 0 ? [...occupations] : null;
+  return criteria;
+}
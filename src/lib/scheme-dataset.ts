@@ -0,0 +1,170 @@
+import { SchemeSchema, type Scheme, type SchemeDatasetChangelog, type SchemeSection } from '@/ai/schemas/scheme-schemas';
+import { fetchPublicUrl } from '@/lib/public-fetch';
+import { sectionText } from '@/lib/scheme-search';
+
+// The sections every scheme page should have; schemes without them are reported.
+export const REQUIRED_SCHEME_SECTIONS = ['Details', 'Benefits', 'Eligibility', 'Application Process', 'Documents Required'];
+
+// Section titles as scraped, e.g. "Details: Objective" or "Documents required:", and the
+// standard title each is stored under. Other titles are kept, trimmed of trailing colons.
+const SECTION_TITLES: [RegExp, string][] = [
+  [/^details\b/i, 'Details'],
+  [/^benefits?\b/i, 'Benefits'],
+  [/^eligibility\b/i, 'Eligibility'],
+  [/^exclusions?\b/i, 'Exclusions'],
+  [/^(application process|how to apply)\b/i, 'Application Process'],
+  [/^documents?( required)?\b/i, 'Documents Required'],
+  [/^apply (now|online)\b/i, 'Apply Now'],
+  [/^grievance/i, 'Grievance Redressal'],
+  [/^objectives?\b/i, 'Objectives'],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>()\[\]]+[^\s"'<>()\[\].,;:]/g;
+
+export type SchemeDatasetIssueSeverity = 'error' | 'warning';
+
+export interface SchemeDatasetIssue {
+  index: number | null; // The entry's position in the imported file, counting from 0, if the issue is with one entry
+  schemeName: string | null;
+  severity: SchemeDatasetIssueSeverity; // Errors stop the dataset from being published
+  message: string;
+}
+
+export interface SchemeDatasetReport {
+  schemes: Scheme[]; // The valid entries, normalised
+  issues: SchemeDatasetIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/** The standard title for a scraped section title. */
+export function normalizeSectionTitle(title: string): string {
+  const trimmed = title.trim().replace(/\s+/g, ' ').replace(/\s*:+$/, '');
+  return SECTION_TITLES.find(([pattern]) => pattern.test(trimmed))?.[1] ?? trimmed;
+}
+
+const normalizeSection = (section: SchemeSection): SchemeSection => ({
+  ...section,
+  title: section.title ? normalizeSectionTitle(section.title) : section.title,
+  ...(section.sub_sections ? { sub_sections: section.sub_sections.map(normalizeSection) } : {}),
+});
+
+/** A scheme with trimmed names and keywords and standard section titles. */
+export const normalizeScheme = (scheme: Scheme): Scheme => ({
+  ...scheme,
+  scheme_name: scheme.scheme_name.trim().replace(/\s+/g, ' '),
+  ministry: scheme.ministry.trim(),
+  keywords: [...new Set(scheme.keywords.map(keyword => keyword.trim()).filter(Boolean))],
+  sections: scheme.sections.map(normalizeSection),
+});
+
+/** Every web address in a section and its sub-sections, in order. */
+const sectionLinks = (section: SchemeSection): string[] =>
+  sectionText(section).flatMap(text => text.match(URL_PATTERN) ?? []);
+
+/** Every distinct web address mentioned anywhere in a scheme. */
+export const schemeLinks = (scheme: Scheme): string[] =>
+  [...new Set(scheme.sections.flatMap(sectionLinks))];
+
+/**
+ * The official page to apply for a scheme: the address in its "Apply Now" section, else the
+ * first one in its application process, else the first anywhere in it. Null if it has none.
+ */
+export function schemeSourceLink(scheme: Scheme): string | null {
+  const inSection = (title: string) =>
+    scheme.sections.filter(section => section.title && normalizeSectionTitle(section.title) === title).flatMap(sectionLinks)[0];
+  return inSection('Apply Now') ?? inSection('Application Process') ?? schemeLinks(scheme)[0] ?? null;
+}
+
+/**
+ * Validates the entries of an imported schemes file against SchemeSchema and normalises the
+ * valid ones. Entries that do not match the schema are errors. Missing sections, schemes
+ * without a link to apply and repeated scheme names are warnings; as in search, the first
+ * entry with a name is kept.
+ */
+export function validateSchemeDataset(data: unknown): SchemeDatasetReport {
+  const issues: SchemeDatasetIssue[] = [];
+  const schemes: Scheme[] = [];
+  if (!Array.isArray(data)) {
+    issues.push({ index: null, schemeName: null, severity: 'error', message: 'The file must hold a JSON array of schemes.' });
+    return { schemes, issues, errorCount: 1, warningCount: 0 };
+  }
+
+  const seen = new Map<string, number>();
+  data.forEach((entry, index) => {
+    const name = typeof entry?.scheme_name === 'string' ? entry.scheme_name.trim() : null;
+    const report = (severity: SchemeDatasetIssueSeverity, message: string) => issues.push({ index, schemeName: name, severity, message });
+
+    const parsed = SchemeSchema.safeParse(entry);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => report('error', `${issue.path.join('.') || 'entry'}: ${issue.message}`));
+      return;
+    }
+    const scheme = normalizeScheme(parsed.data);
+    const key = scheme.scheme_name.toLowerCase();
+    if (seen.has(key)) {
+      report('warning', `Repeats the scheme at entry ${seen.get(key)! + 1}, which is kept; this entry is left out.`);
+      return;
+    }
+    seen.set(key, index);
+
+    const titles = new Set(scheme.sections.map(section => section.title));
+    const missing = REQUIRED_SCHEME_SECTIONS.filter(title => !titles.has(title));
+    if (missing.length > 0) report('warning', `Missing section${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}.`);
+    if (!schemeSourceLink(scheme)) report('warning', 'No link to apply; add an "Apply Now" section with the official page.');
+    schemes.push(scheme);
+  });
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  return { schemes, issues, errorCount, warningCount: issues.length - errorCount };
+}
+
+/** What changed from one version of the dataset to the next, by scheme name. */
+export function diffSchemeDatasets(previous: Scheme[], next: Scheme[]): SchemeDatasetChangelog {
+  const before = new Map(previous.map(scheme => [scheme.scheme_name, JSON.stringify(scheme)]));
+  const after = new Set(next.map(scheme => scheme.scheme_name));
+  return {
+    added: next.filter(scheme => !before.has(scheme.scheme_name)).map(scheme => scheme.scheme_name),
+    removed: previous.filter(scheme => !after.has(scheme.scheme_name)).map(scheme => scheme.scheme_name),
+    changed: next.filter(scheme => before.has(scheme.scheme_name) && before.get(scheme.scheme_name) !== JSON.stringify(scheme)).map(scheme => scheme.scheme_name),
+  };
+}
+
+const LINK_TIMEOUT_MS = 10_000;
+const LINK_CHECK_CONCURRENCY = 5;
+
+/**
+ * Why a link is broken, or null if it loads. Only links to public hosts are fetched, so an
+ * imported file cannot make the server request its own network.
+ */
+async function checkLink(url: string): Promise<string | null> {
+  // One timeout covers the whole check, redirects included.
+  const signal = AbortSignal.timeout(LINK_TIMEOUT_MS);
+  try {
+    let response = await fetchPublicUrl(url, { method: 'HEAD', signal });
+    // Many government sites refuse HEAD requests but serve the page.
+    if (response.status === 403 || response.status === 405 || response.status === 501) {
+      response = await fetchPublicUrl(url, { method: 'GET', signal });
+      await response.body?.cancel();
+    }
+    return response.ok ? null : `HTTP ${response.status}`;
+  } catch (error: any) {
+    return error.name === 'TimeoutError' ? 'timed out' : error.cause?.code ?? error.message;
+  }
+}
+
+/**
+ * Checks every link in the schemes, a few at a time, and reports the broken ones as warnings.
+ * Each distinct address is fetched once.
+ */
+export async function checkSchemeLinks(schemes: Scheme[]): Promise<SchemeDatasetIssue[]> {
+  const links = [...new Set(schemes.flatMap(schemeLinks))];
+  const results = new Map<string, string | null>();
+  for (let i = 0; i < links.length; i += LINK_CHECK_CONCURRENCY) {
+    const batch = links.slice(i, i + LINK_CHECK_CONCURRENCY);
+    (await Promise.all(batch.map(checkLink))).forEach((result, j) => results.set(batch[j], result));
+  }
+  return schemes.flatMap(scheme => schemeLinks(scheme)
+    .filter(link => results.get(link))
+    .map(link => ({ index: null, schemeName: scheme.scheme_name, severity: 'warning' as const, message: `Broken link (${results.get(link)}): ${link}` })));
+}
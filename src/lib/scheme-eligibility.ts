@@ -0,0 +1,115 @@
+import type { FarmerProfile, Occupation, SchemeCriteria, SchemeEligibility, SocialCategory } from '@/ai/schemas/scheme-schemas';
+import { normalizeKey } from '@/lib/diagnosis-search';
+
+export const INDIAN_STATES = [
+  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jharkhand', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur',
+  'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana',
+  'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal', 'Andaman and Nicobar Islands', 'Chandigarh',
+  'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Jammu and Kashmir', 'Ladakh', 'Lakshadweep', 'Puducherry',
+];
+
+export const SOCIAL_CATEGORY_LABELS: Record<SocialCategory, string> = {
+  general: 'General',
+  obc: 'Other Backward Class (OBC)',
+  sc: 'Scheduled Caste (SC)',
+  st: 'Scheduled Tribe (ST)',
+};
+
+export const OCCUPATION_LABELS: Record<Occupation, string> = {
+  farmer: 'Farmer',
+  fisher: 'Fisher or fish farmer',
+  livestock: 'Dairy or livestock keeper',
+};
+
+type Check = { result: 'met' | 'unmet' | 'missing'; reason: string };
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+
+const formatRange = ({ min, max }: { min?: number; max?: number }, unit: string) =>
+  min !== undefined && max !== undefined ? `${min} to ${max} ${unit}` : min !== undefined ? `at least ${min} ${unit}` : `at most ${max} ${unit}`;
+
+const inRange = (value: number, { min, max }: { min?: number; max?: number }) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const sameName = (a: string, b: string) => normalizeKey(a) === normalizeKey(b);
+
+function checkCriteria(criteria: SchemeCriteria, profile: FarmerProfile): Check[] {
+  const checks: Check[] = [];
+  const check = (known: boolean, met: boolean, requirement: string, detail: string, missing: string) =>
+    checks.push(!known
+      ? { result: 'missing', reason: `${requirement}; ${missing}.` }
+      : { result: met ? 'met' : 'unmet', reason: `${requirement}; ${detail}.` });
+
+  if (criteria.states) {
+    check(!!profile.state, !!profile.state && criteria.states.some(state => sameName(state, profile.state!)),
+      `Only for residents of ${formatList(criteria.states)}`, `you live in ${profile.state}`, 'add the state you live in');
+  }
+  if (criteria.districts) {
+    check(!!profile.district, !!profile.district && criteria.districts.some(district => sameName(district, profile.district!)),
+      `Only in ${formatList(criteria.districts)} district${criteria.districts.length === 1 ? '' : 's'}`, `you live in ${profile.district}`, 'add your district');
+  }
+  if (criteria.needsLand) {
+    check(profile.landHectares !== undefined, profile.landHectares! > 0,
+      'Needs land of your own or on lease', profile.landHectares ? `you have ${profile.landHectares} ha` : 'you have none', 'add your land holding');
+  }
+  if (criteria.landHectares) {
+    check(profile.landHectares !== undefined, profile.landHectares !== undefined && inRange(profile.landHectares, criteria.landHectares),
+      `For land holdings of ${formatRange(criteria.landHectares, 'ha')}`, `you have ${profile.landHectares} ha`, 'add your land holding');
+  }
+  if (criteria.categories) {
+    check(!!profile.category, !!profile.category && criteria.categories.includes(profile.category),
+      `Only for the ${formatList(criteria.categories.map(category => SOCIAL_CATEGORY_LABELS[category]))} category`,
+      `you are ${profile.category ? SOCIAL_CATEGORY_LABELS[profile.category] : ''}`, 'add your social category');
+  }
+  if (criteria.womenOnly) {
+    check(!!profile.gender, profile.gender === 'female', 'Only for women', profile.gender === 'female' ? 'you are a woman' : 'you are not a woman', 'add your gender');
+  }
+  if (criteria.age) {
+    check(profile.age !== undefined, profile.age !== undefined && inRange(profile.age, criteria.age),
+      `For ages ${formatRange(criteria.age, 'years')}`, `you are ${profile.age}`, 'add your age');
+  }
+  if (criteria.minDisabilityPercent !== null) {
+    check(profile.disabilityPercent !== undefined, (profile.disabilityPercent ?? 0) >= criteria.minDisabilityPercent,
+      `Needs a disability of at least ${criteria.minDisabilityPercent}%`, profile.disabilityPercent ? `yours is ${profile.disabilityPercent}%` : 'you have none', 'add your disability, if any');
+  }
+  if (criteria.occupations) {
+    const occupations = profile.occupations ?? [];
+    check(occupations.length > 0, criteria.occupations.some(occupation => occupations.includes(occupation)),
+      `Only for a ${formatList(criteria.occupations.map(occupation => OCCUPATION_LABELS[occupation].toLowerCase()))}`,
+      `you are a ${formatList(occupations.map(occupation => OCCUPATION_LABELS[occupation].toLowerCase()))}`, 'add what you do');
+  }
+  return checks;
+}
+
+/**
+ * Checks a farmer's profile against a scheme's criteria. The farmer is not eligible if any
+ * criterion is unmet, possibly eligible if any needs information they have not given, and
+ * eligible otherwise. Without criteria for the scheme, the farmer is possibly eligible.
+ */
+export function checkSchemeEligibility(criteria: SchemeCriteria | undefined, profile: FarmerProfile): SchemeEligibility {
+  if (!criteria) {
+    return { status: 'possiblyEligible', reasons: ['Its eligibility has not been analysed; read its conditions below.'], notes: [] };
+  }
+  const checks = checkCriteria(criteria, profile);
+  const withResult = (result: Check['result']) => checks.filter(check => check.result === result).map(check => check.reason);
+  const unmet = withResult('unmet');
+  const missing = withResult('missing');
+  if (unmet.length > 0) {
+    return { status: 'notEligible', reasons: unmet, notes: criteria.notes };
+  }
+  if (missing.length > 0) {
+    return { status: 'possiblyEligible', reasons: missing, notes: criteria.notes };
+  }
+  const met = withResult('met');
+  return { status: 'eligible', reasons: met.length > 0 ? met : ['Nothing about where you live, your land, category, age or work rules you out.'], notes: criteria.notes };
+}
+
+/** The criteria for a scheme, by its name as given in the schemes database. */
+export const findSchemeCriteria = (table: SchemeCriteria[], schemeName: string) =>
+  table.find(criteria => sameName(criteria.scheme_name, schemeName));
+
+/** Whether residents of a state can apply for a scheme, as far as its criteria tell. */
+export const isOpenToState = (criteria: SchemeCriteria | undefined, state: string) =>
+  !criteria?.states || criteria.states.some(name => sameName(name, state));
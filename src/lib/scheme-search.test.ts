@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Scheme } from '@/ai/schemas/scheme-schemas';
+import { buildSchemeIndex, cosineSimilarity, expandQuery, rankSchemes, searchSchemeIndex, stem } from '@/lib/scheme-search';
+
+const scheme = (scheme_name: string, keywords: string[], details: string): Scheme => ({
+  scheme_name,
+  ministry: 'Ministry of Agriculture and Farmers Welfare',
+  keywords,
+  sections: [{ title: 'Details', content: details }],
+});
+
+const schemes = [
+  scheme('Pradhan Mantri Fasal Bima Yojana', ['Insurance', 'Crop Loss'], 'Crop insurance against natural calamities for farmers.'),
+  scheme('Per Drop More Crop', ['Micro Irrigation', 'Drip'], 'Subsidy for drip and sprinkler irrigation systems.'),
+  scheme('Kisan Credit Card', ['Loan', 'Credit'], 'Short-term credit for cultivation and allied activities.'),
+  scheme('Farm Mechanisation Scheme', ['Tractor', 'Machinery'], 'Financial assistance to buy tractors and other farm machinery. Irrigation pumps are not covered.'),
+];
+
+describe('stem', () => {
+  it('reduces the forms of a word to one stem', () => {
+    assert.equal(stem('irrigated'), stem('irrigation'));
+    assert.equal(stem('irrigate'), stem('irrigation'));
+    assert.equal(stem('subsidies'), stem('subsidy'));
+  });
+
+  it('does not shorten words below three letters', () => {
+    assert.equal(stem('ate'), 'ate');
+  });
+});
+
+describe('expandQuery', () => {
+  it('adds synonyms at a lower weight than the query words', () => {
+    const terms = expandQuery('bima');
+    assert.equal(terms.get(stem('bima'))?.weight, 1);
+    assert.equal(terms.get(stem('insurance'))?.weight, 0.5);
+    // Each word of a synonym phrase counts for a share of the synonym weight.
+    assert.equal(terms.get(stem('fasal'))?.weight, 0.25);
+  });
+
+  it('joins neighbouring words as short names are often written', () => {
+    assert.ok(expandQuery('pm kisan').has(stem('pmkisan')));
+  });
+
+  it('leaves out stop words', () => {
+    assert.equal(expandQuery('what is the scheme').size, 0);
+  });
+});
+
+describe('searchSchemeIndex', () => {
+  it('scores only the schemes that share a term with the query', () => {
+    const matches = searchSchemeIndex(buildSchemeIndex(schemes), 'drip irrigation');
+    assert.deepEqual(matches.map(match => match.scheme.scheme_name).sort(), ['Farm Mechanisation Scheme', 'Per Drop More Crop']);
+    assert.ok(matches.every(match => match.bm25 > 0));
+  });
+
+  it('weights words in the name and keywords above those in the text', () => {
+    const matches = searchSchemeIndex(buildSchemeIndex(schemes), 'irrigation');
+    const score = (name: string) => matches.find(match => match.scheme.scheme_name === name)!.bm25;
+    assert.ok(score('Per Drop More Crop') > score('Farm Mechanisation Scheme'));
+  });
+});
+
+describe('rankSchemes', () => {
+  it('finds schemes through synonyms, best match first', () => {
+    const ranked = rankSchemes(buildSchemeIndex(schemes), 'fasal bima', 5);
+    assert.equal(ranked[0].scheme.scheme_name, 'Pradhan Mantri Fasal Bima Yojana');
+    assert.equal(ranked[0].score, 1);
+  });
+
+  it('lists a scheme the database has twice only once', () => {
+    const ranked = rankSchemes(buildSchemeIndex([...schemes, schemes[2]]), 'kcc loan', 5);
+    assert.deepEqual(ranked.map(result => result.scheme.scheme_name), ['Kisan Credit Card']);
+  });
+
+  it('mixes in embedding similarity and finds schemes by meaning alone', () => {
+    const similarities = new Map([['Kisan Credit Card', 0.9], ['Per Drop More Crop', 0.1]]);
+    const ranked = rankSchemes(buildSchemeIndex(schemes), 'drip', 5, similarities);
+    assert.deepEqual(ranked.map(result => result.scheme.scheme_name), ['Per Drop More Crop', 'Kisan Credit Card']);
+  });
+
+  it('returns at most the number asked for', () => {
+    assert.equal(rankSchemes(buildSchemeIndex(schemes), 'farmers irrigation credit insurance tractor', 2).length, 2);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for the same direction, 0 for orthogonal vectors and for a zero vector', () => {
+    assert.equal(cosineSimilarity([1, 2], [2, 4]), 1);
+    assert.equal(cosineSimilarity([1, 0], [0, 1]), 0);
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+  });
+});
@@ -0,0 +1,230 @@
+import type { Scheme, SchemeSection, SchemeTable } from '@/ai/schemas/scheme-schemas';
+
+// Words too common in scheme pages and questions to help rank them.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'i', 'in', 'is', 'it', 'me',
+  'my', 'of', 'on', 'or', 'the', 'their', 'them', 'there', 'this', 'to', 'under', 'was', 'which', 'who', 'will',
+  'with', 'what', 'how', 'can', 'get', 'any', 'all', 'about', 'scheme', 'schemes', 'yojana', 'government', 'govt',
+]);
+
+// Suffixes stripped to reduce a word to its stem, tried in order. Each entry is [suffix, replacement].
+const SUFFIXES: [string, string][] = [
+  ['ational', ''], ['ations', ''], ['ation', ''], ['ments', ''], ['ment', ''], ['ities', ''], ['ness', ''],
+  ['ings', ''], ['ing', ''], ['ance', ''], ['ence', ''], ['ives', ''], ['ive', ''], ['ies', 'y'], ['ied', 'y'],
+  ['ery', ''], ['ers', ''], ['ity', ''], ['sses', 'ss'], ['ches', 'ch'], ['shes', 'sh'], ['xes', 'x'], ['ate', ''],
+  ['er', ''], ['ed', ''], ['al', ''], ['ly', ''], ['at', ''], ['s', ''], ['e', ''],
+];
+const MIN_STEM_LENGTH = 3;
+
+// Words and phrases that mean the same to a farmer asking about schemes, including common Hindi
+// terms. A query matching one member of a group also searches for the others, at lower weight.
+const SYNONYM_GROUPS = [
+  ['pm', 'pradhan mantri'],
+  ['cm', 'mukhya mantri'],
+  ['insurance', 'bima', 'fasal bima'],
+  ['tractor', 'farm machinery', 'agricultural machinery', 'implements', 'equipment', 'yantra'],
+  ['loan', 'credit', 'karz', 'rin', 'kisan credit card', 'kcc'],
+  ['subsidy', 'grant', 'financial assistance', 'anudan', 'sahayata'],
+  ['irrigation', 'sinchai', 'drip', 'sprinkler', 'micro irrigation'],
+  ['farmer', 'kisan', 'krishak', 'cultivator'],
+  ['pension', 'maandhan'],
+  ['solar pump', 'kusum'],
+  ['fertilizer', 'fertiliser', 'khad', 'urvarak', 'manure'],
+  ['seed', 'beej'],
+  ['soil', 'mitti', 'soil health card'],
+  ['livestock', 'cattle', 'dairy', 'pashu', 'animal husbandry'],
+  ['fish', 'fisheries', 'matsya', 'aquaculture'],
+  ['organic', 'natural farming', 'jaivik'],
+  ['market', 'mandi', 'enam'],
+  ['storage', 'warehouse', 'godown', 'cold storage'],
+  ['horticulture', 'bagwani', 'fruit', 'vegetable'],
+  ['women', 'mahila'],
+  ['water', 'jal', 'pani'],
+];
+// Synonyms count for less than the farmer's own words; each word of a synonym phrase counts for
+// a share of that.
+const SYNONYM_WEIGHT = 0.5;
+
+// BM25 parameters: term frequency saturation and document length normalisation.
+const K1 = 1.2;
+const B = 0.75;
+// A word in a scheme's name or keywords counts as this many words in its page text.
+const NAME_WEIGHT = 3;
+const KEYWORD_WEIGHT = 2;
+// With embeddings, the share of a scheme's score from keywords; the rest is from meaning.
+const BM25_SHARE = 0.6;
+// A scheme that shares no words with the query is still a match if its meaning is this close.
+const MIN_SEMANTIC_SIMILARITY = 0.6;
+// Schemes scoring less than this share of the best match are left out as noise.
+const MIN_RELATIVE_SCORE = 0.25;
+
+/** Reduces a lowercased word to its stem, so "irrigated", "irrigation" and "irrigate" match. */
+export function stem(word: string): string {
+  let stemmed = word;
+  // Twice, so "irrigated" goes to "irrigat" and then "irrig", and "states" to "state" and "stat".
+  for (let pass = 0; pass < 2; pass++) {
+    const suffix = SUFFIXES.find(([ending, replacement]) => stemmed.endsWith(ending) && stemmed.length - ending.length + replacement.length >= MIN_STEM_LENGTH);
+    if (!suffix) break;
+    stemmed = stemmed.slice(0, -suffix[0].length) + suffix[1];
+  }
+  return stemmed;
+}
+
+const words = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+
+/** Splits text into stemmed search terms, keeping repeats so they can be counted. */
+export const searchTerms = (text: string): string[] => words(text).map(stem);
+
+const SYNONYM_PHRASES = SYNONYM_GROUPS.map(group => group.map(words));
+
+export interface QueryTerm {
+  word: string; // As the farmer wrote it, or the synonym it came from
+  weight: number;
+}
+
+/**
+ * The terms to search for a query, by stem: the query's own words, pairs of them written as one
+ * word as scheme short names often are ("pm kisan" as "pmkisan"), and the words of the synonyms
+ * of any word or phrase in it.
+ */
+export function expandQuery(query: string): Map<string, QueryTerm> {
+  const terms = new Map<string, QueryTerm>();
+  const queryWords = words(query);
+  queryWords.forEach(word => terms.set(stem(word), { word, weight: 1 }));
+  queryWords.slice(1).forEach((word, i) => {
+    const joined = queryWords[i] + word;
+    if (!terms.has(stem(joined))) terms.set(stem(joined), { word: `${queryWords[i]} ${word}`, weight: 1 });
+  });
+  for (const phrases of SYNONYM_PHRASES) {
+    if (!phrases.some(phrase => phrase.length > 0 && phrase.every(word => terms.get(stem(word))?.weight === 1))) continue;
+    phrases.forEach(phrase => phrase.forEach(word => {
+      if (!terms.has(stem(word))) terms.set(stem(word), { word, weight: SYNONYM_WEIGHT / phrase.length });
+    }));
+  }
+  return terms;
+}
+
+const tableText = (table: SchemeTable) =>
+  [table.headers, ...table.rows].map(row => row.filter(Boolean).join(' | '));
+
+/** The text of a section and its sub-sections, one entry per title, paragraph, list item or table row. */
+export const sectionText = (section: SchemeSection): string[] => [
+  ...(section.title ? [section.title] : []),
+  ...(section.content ? [section.content] : []),
+  ...(section.list_items ?? []).flatMap(item => typeof item === 'string' ? [item] : tableText(item.table)),
+  ...(section.table ? tableText(section.table) : []),
+  ...(section.sub_sections ?? []).flatMap(sectionText),
+];
+
+/** All the text of a scheme: its name, ministry, keywords and every section. */
+export const schemeText = (scheme: Scheme) =>
+  [scheme.scheme_name, scheme.ministry, scheme.keywords.join(', '), ...scheme.sections.flatMap(sectionText)].join('\n');
+
+interface IndexedScheme {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface SchemeIndex {
+  schemes: Scheme[];
+  documents: IndexedScheme[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+/** Builds a BM25 index over schemes' names, keywords and all their section titles, text and list items. */
+export function buildSchemeIndex(schemes: Scheme[]): SchemeIndex {
+  const documentFrequencies = new Map<string, number>();
+  const documents = schemes.map(scheme => {
+    const termFrequencies = new Map<string, number>();
+    const add = (text: string, weight: number) =>
+      searchTerms(text).forEach(term => termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + weight));
+    add(scheme.scheme_name, NAME_WEIGHT);
+    add(scheme.keywords.join(' '), KEYWORD_WEIGHT);
+    add([scheme.ministry, ...scheme.sections.flatMap(sectionText)].join('\n'), 1);
+    termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+    return { termFrequencies, length: [...termFrequencies.values()].reduce((total, count) => total + count, 0) };
+  });
+  const averageLength = documents.reduce((total, document) => total + document.length, 0) / Math.max(1, documents.length);
+  return { schemes, documents, documentFrequencies, averageLength };
+}
+
+export interface SchemeMatch {
+  scheme: Scheme;
+  bm25: number;
+  matchedTerms: string[]; // The matched words of the query and its synonyms
+}
+
+/** Every scheme matching at least one of the query's terms or their synonyms, with its BM25 score. */
+export function searchSchemeIndex(index: SchemeIndex, query: string): SchemeMatch[] {
+  const terms = expandQuery(query);
+  const total = index.documents.length;
+  return index.documents
+    .map((document, position) => {
+      let bm25 = 0;
+      const matchedTerms: string[] = [];
+      terms.forEach(({ word, weight }, term) => {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) return;
+        const documentFrequency = index.documentFrequencies.get(term)!;
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        bm25 += weight * idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / index.averageLength));
+        matchedTerms.push(word);
+      });
+      return { scheme: index.schemes[position], bm25, matchedTerms };
+    })
+    .filter(match => match.bm25 > 0);
+}
+
+/** The similarity of two embedding vectors, from -1 to 1. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export interface RankedScheme {
+  scheme: Scheme;
+  score: number; // 0 to 1
+  matchedTerms: string[];
+}
+
+/**
+ * The schemes most relevant to a query, best first. Keyword (BM25) scores are scaled so the best
+ * match scores 1; given the similarity of each scheme's embedding to the query's, by scheme
+ * name, each score mixes the two.
+ */
+export function rankSchemes(index: SchemeIndex, query: string, limit: number, similarities?: Map<string, number> | null): RankedScheme[] {
+  const matches = new Map(searchSchemeIndex(index, query).map(match => [match.scheme.scheme_name, match]));
+  const bestBm25 = Math.max(0, ...[...matches.values()].map(match => match.bm25));
+  const ranked = index.schemes
+    .map(scheme => {
+      const match = matches.get(scheme.scheme_name);
+      const keywordScore = match && bestBm25 ? match.bm25 / bestBm25 : 0;
+      if (!similarities) {
+        return { scheme, score: keywordScore, matchedTerms: match?.matchedTerms ?? [], related: !!match };
+      }
+      const similarity = Math.max(0, similarities.get(scheme.scheme_name) ?? 0);
+      return {
+        scheme,
+        score: BM25_SHARE * keywordScore + (1 - BM25_SHARE) * similarity,
+        matchedTerms: match?.matchedTerms ?? [],
+        related: !!match || similarity >= MIN_SEMANTIC_SIMILARITY,
+      };
+    })
+    // The database lists some schemes twice.
+    .filter((result, position, results) => result.related && results.findIndex(other => other.scheme.scheme_name === result.scheme.scheme_name) === position)
+    .sort((a, b) => b.score - a.score);
+  const bestScore = ranked[0]?.score ?? 0;
+  return ranked
+    .filter(result => result.score >= bestScore * MIN_RELATIVE_SCORE)
+    .slice(0, limit)
+    .map(({ scheme, score, matchedTerms }) => ({ scheme, score: Number(score.toFixed(3)), matchedTerms }));
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+import type { MarketCostTable } from '@/ai/schemas/sell-options-schemas';
+import { buildSellOption, distanceKm, parseQuantityToQuintals } from '@/lib/sell-options';
+
+describe('parseQuantityToQuintals', () => {
+  it('reads quantities in tonnes, quintals and kilograms', () => {
+    assert.equal(parseQuantityToQuintals('10 tonnes'), 100);
+    assert.equal(parseQuantityToQuintals('1.5 MT'), 15);
+    assert.equal(parseQuantityToQuintals('50 qtl'), 50);
+    assert.equal(parseQuantityToQuintals('7 q.'), 7);
+    assert.equal(parseQuantityToQuintals('2,000 kg'), 20);
+  });
+
+  it('reads units of more than one word', () => {
+    assert.equal(parseQuantityToQuintals('2 metric tonnes'), 20);
+    assert.equal(parseQuantityToQuintals('5 metric  tonne of onion'), 50);
+  });
+
+  it('returns null without a number and a known unit', () => {
+    assert.equal(parseQuantityToQuintals('a truckload'), null);
+    assert.equal(parseQuantityToQuintals('3 tins'), null);
+    assert.equal(parseQuantityToQuintals('0 kg'), null);
+  });
+});
+
+describe('distanceKm', () => {
+  it('is the great-circle distance', () => {
+    // Nashik to Pune is about 165 km in a straight line.
+    const km = distanceKm({ latitude: 19.9975, longitude: 73.7898 }, { latitude: 18.5204, longitude: 73.8567 });
+    assert.ok(Math.abs(km - 164) < 3);
+    assert.equal(distanceKm({ latitude: 20, longitude: 73 }, { latitude: 20, longitude: 73 }), 0);
+  });
+});
+
+describe('buildSellOption', () => {
+  const table: MarketCostTable = {
+    roadDistanceFactor: 1.25,
+    maxDistanceKm: 300,
+    transport: { ratePerQuintalKm: 2, loadingPerQuintal: 20 },
+    fees: { default: { marketFeePercent: 1, commissionPercent: 6 }, states: {} },
+  };
+  const price: MandiPriceRecord = {
+    date: '2026-10-19',
+    state: 'Maharashtra',
+    district: 'Nashik',
+    market: 'Lasalgaon',
+    commodity: 'Onion',
+    variety: 'Red',
+    minPrice: 1500,
+    maxPrice: 2100,
+    modalPrice: 2000,
+    arrivals: null,
+    sourceFile: 'prices.csv',
+  };
+
+  it('takes freight for the road distance, the mandi fee and the commission off the sale value', () => {
+    const option = buildSellOption(price, 40, 10, table, table.fees.default);
+    assert.equal(option.distanceKm, 50);
+    assert.equal(option.grossValue, 20000);
+    assert.equal(option.transportCost, 10 * (50 * 2 + 20));
+    assert.equal(option.marketFee, 200);
+    assert.equal(option.commission, 1200);
+    assert.equal(option.netRealisation, 20000 - 1200 - 200 - 1200);
+    assert.equal(option.netPerQuintal, 1740);
+  });
+});
@@ -0,0 +1,77 @@
+import type { MandiPriceRecord } from '@/ai/schemas/mandi-price-schemas';
+import type { MandiFees, MarketCostTable, SellOption } from '@/ai/schemas/sell-options-schemas';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Units a yield may be given in, as quintals per unit. Each matches the start of the text
+// after the number, up to the end of a word, so "metric tonnes of wheat" reads as tonnes.
+const QUANTITY_UNITS: [RegExp, number][] = [
+  [/^(metric tonnes?|tonnes?|tons?|mt|t)(?![a-z])/, 10],
+  [/^(quintals?|qtls?|q)(?![a-z])/, 1],
+  [/^(kgs?|kilograms?|kilos?)(?![a-z])/, 0.01],
+];
+
+const round = (value: number) => Math.round(value);
+
+/** The straight-line (great-circle) distance between two points, in kilometres. */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Reads a free-text quantity such as "10 tonnes", "50 qtl" or "2,000 kg" as quintals.
+ * Returns null if there is no number with a known unit.
+ */
+export function parseQuantityToQuintals(text: string): number | null {
+  const match = /(\d[\d,]*(?:\.\d+)?)\s*([a-z. ]+)/i.exec(text.toLowerCase());
+  if (!match) return null;
+  const amount = Number(match[1].replace(/,/g, ''));
+  const unit = match[2].replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  const factor = QUANTITY_UNITS.find(([pattern]) => pattern.test(unit))?.[1];
+  return factor && amount > 0 ? amount * factor : null;
+}
+
+/**
+ * Works out what a farmer keeps from selling at a mandi: the quantity at the modal price,
+ * less freight for the road distance, the mandi fee and the commission.
+ * @param straightLineKm The straight-line distance from the farm to the mandi.
+ */
+export function buildSellOption(
+  price: MandiPriceRecord,
+  straightLineKm: number,
+  quantityQuintals: number,
+  table: MarketCostTable,
+  fees: MandiFees
+): SellOption {
+  const roadKm = straightLineKm * table.roadDistanceFactor;
+  const grossValue = price.modalPrice * quantityQuintals;
+  const transportCost = quantityQuintals * (roadKm * table.transport.ratePerQuintalKm + table.transport.loadingPerQuintal);
+  const marketFee = grossValue * fees.marketFeePercent / 100;
+  const commission = grossValue * fees.commissionPercent / 100;
+  const netRealisation = grossValue - transportCost - marketFee - commission;
+
+  return {
+    market: price.market,
+    district: price.district,
+    state: price.state,
+    variety: price.variety,
+    priceDate: price.date,
+    distanceKm: round(roadKm),
+    modalPrice: price.modalPrice,
+    grossValue: round(grossValue),
+    transportCost: round(transportCost),
+    marketFee: round(marketFee),
+    commission: round(commission),
+    netRealisation: round(netRealisation),
+    netPerQuintal: round(netRealisation / quantityQuintals),
+  };
+}
@@ -1,5 +1,11 @@
 
 import type { CropDiagnosisOutput } from "./ai/schemas/crop-diagnosis-schemas";
+import type { ToolTraceEntry } from "@/ai/schemas/conversational-agent-schemas";
+import type { IrrigationEvent, IrrigationPlan, IrrigationSchedulerInput } from "@/ai/schemas/irrigation-scheduler-schemas";
+
+// Agronomists can review diagnoses in the Digital Library; admins manage the schemes dataset.
+// The role is a custom auth claim.
+export type UserRole = 'farmer' | 'agronomist' | 'admin';
 
 export type User = {
   uid: string;
@@ -7,17 +13,323 @@ export type User = {
   name: string | null;
   location: string | null;
   photoURL?: string | null;
+  role: UserRole;
 };
 
-// Represents a crop a user is currently growing.
-// This data is stored in the `current_crops` collection.
+export type FieldAreaUnit = 'acres' | 'hectares' | 'sqm';
+
+// A GeoJSON Polygon outlining a field. Positions are [longitude, latitude].
+export interface FieldBoundary {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+// The values from a soil health card or lab test.
+export interface SoilTest {
+  ph?: number | null;
+  nitrogen?: number | null; // kg/ha
+  phosphorus?: number | null; // kg/ha
+  potassium?: number | null; // kg/ha
+  organicCarbon?: number | null; // %
+  testedAt?: string | null; // Stored as ISO string
+}
+
+// Represents a plot of land a user farms. Crops reference it through `fieldId`,
+// which gives each field a history of the crops grown on it.
+// This data is stored in the `fields` collection, owned by `userId`.
+export interface Field {
+  id: string;
+  userId: string;
+  name: string;
+  area: number;
+  areaUnit: FieldAreaUnit;
+  village: string;
+  district: string;
+  state?: string;
+  boundary?: FieldBoundary | null;
+  soilType?: string;
+  soilTest?: SoilTest | null;
+  createdAt: string; // Stored as ISO string
+  updatedAt?: string | null; // Stored as ISO string
+}
+
+// The fields of a field the owner can edit.
+export type FieldInput = Omit<Field, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export type CurrentCropStatus = 'active' | 'harvested';
+
+// Represents a crop a user is growing or has harvested.
+// This data is stored in the `current_crops` collection, owned by `userId`.
 export interface CurrentCrop {
   id: string;
+  userId: string;
   cropName: string;
+  fieldId?: string | null; // The field the crop is grown on, if registered
   fieldSize: string;
   location: string;
   sowingDate: string; // Stored as ISO string
   additionalInfo?: string;
   soilPhotoDataUri?: string | null;
+  status: CurrentCropStatus;
+  harvestedAt?: string | null; // Stored as ISO string once archived
+  harvestYieldQuintals?: number | null; // Logged after harvest, for water productivity
   createdAt: string; // Stored as ISO string
+  updatedAt?: string | null; // Stored as ISO string
+}
+
+// The fields of a crop the owner can edit.
+export type CurrentCropInput = Pick<CurrentCrop, 'cropName' | 'fieldId' | 'fieldSize' | 'location' | 'sowingDate' | 'additionalInfo' | 'soilPhotoDataUri'>;
+
+export type WeatherCondition = 'Sunny' | 'Partly Cloudy' | 'Cloudy' | 'Foggy' | 'Rainy' | 'Thunderstorm';
+
+export interface CurrentWeather {
+  temperature: number; // °C
+  condition: WeatherCondition;
+  humidity: number; // %
+  windSpeed: number; // km/h
+  uvIndex: number | null;
+  soilTemperature: number | null; // °C, at the surface
+}
+
+export interface WeatherForecastDay {
+  date: string; // YYYY-MM-DD
+  condition: WeatherCondition;
+  temperatureMax: number | null; // °C, null when the source has no value for the day
+  temperatureMin: number | null;
+  rainfall: number; // mm
+  rainProbability: number | null; // %
+  windSpeed: number | null; // km/h
+}
+
+export type WeatherAlertType = 'heavyRain' | 'heatwave' | 'frost';
+
+// A farm-relevant warning derived from the forecast for the crops a user is growing.
+export interface WeatherAlert {
+  type: WeatherAlertType;
+  date: string; // YYYY-MM-DD
+  severity: 'warning' | 'severe';
+  title: string;
+  message: string;
+  affectedCrops: string[];
+}
+
+export interface WeatherReport {
+  location: string; // The place the user's location resolved to
+  current: CurrentWeather;
+  forecast: WeatherForecastDay[]; // Starts with today
+  alerts: WeatherAlert[];
+  source: string;
+  fetchedAt: string; // ISO string
+}
+
+// Server actions cannot surface thrown errors to the client in production, so the
+// weather action reports an unavailable state explicitly instead.
+export type WeatherResult =
+  | { status: 'ok'; report: WeatherReport }
+  | { status: 'unavailable'; reason: string };
+
+// A conversation with the chat assistant, saved so it can be continued later or on another device.
+export interface ChatSession {
+  id: string;
+  userId: string;
+  title: string;
+  language: string; // The language of the most recent exchange, e.g. "Hindi"
+  messageCount: number;
+  // The model's summary of the oldest messages, which are no longer sent to it verbatim.
+  summary: string | null;
+  summarizedCount: number; // How many of the oldest messages the summary covers
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string
 }
+
+export interface ChatSessionMessage {
+  id: string;
+  role: 'user' | 'model';
+  content: string;
+  toolTrace: ToolTraceEntry[];
+  createdAt: string; // ISO string
+}
+
+// 'move' alerts fire when the modal price has moved by the threshold percentage, either way.
+export type PriceAlertCondition = 'above' | 'below' | 'move';
+
+export type PriceAlertStatus = 'active' | 'triggered';
+
+// A price a farmer wants to be told about, for a commodity at one mandi.
+// This data is stored in the `price_alerts` collection, owned by `userId`.
+export interface PriceAlert {
+  id: string;
+  userId: string;
+  cropId: string | null; // The crop the alert was set for, if any
+  commodity: string; // As published by Agmarknet, e.g. "Onion"
+  market: string;
+  district: string;
+  state: string;
+  condition: PriceAlertCondition;
+  threshold: number; // ₹/quintal for 'above' and 'below', a percentage for 'move'
+  // The latest modal price when the alert was set; 'move' alerts are measured from it.
+  baselinePrice: number;
+  baselineDate: string; // YYYY-MM-DD
+  status: PriceAlertStatus;
+  lastCheckedDate: string | null; // The latest price date the alert was evaluated against
+  triggeredPrice: number | null;
+  triggeredAt: string | null; // ISO string
+  createdAt: string; // ISO string
+}
+
+// The fields of a price alert the owner sets.
+export type PriceAlertInput = Pick<PriceAlert, 'cropId' | 'commodity' | 'market' | 'district' | 'state' | 'condition' | 'threshold'>;
+
+// A message in the notification centre.
+// This data is stored in the `notifications` collection, owned by `userId`.
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: 'priceAlert' | 'schemeApplication';
+  title: string;
+  message: string;
+  alertId: string | null;
+  applicationId: string | null; // For 'schemeApplication' reminders
+  read: boolean;
+  createdAt: string; // ISO string
+}
+
+// 'planned' events the farmer has not recorded yet; 'done' and 'skipped' are recorded by the farmer.
+export type IrrigationEventStatus = 'planned' | 'done' | 'skipped';
+
+export interface SavedIrrigationEvent extends IrrigationEvent {
+  status: IrrigationEventStatus;
+  appliedDepthMm: number | null; // Set when done; the planned depth unless the farmer says otherwise
+}
+
+export interface RainfallEntry {
+  date: string; // YYYY-MM-DD
+  rainfall: number; // mm
+}
+
+// An irrigation schedule saved for a field, kept up to date as the season goes on.
+// This data is stored in the `irrigation_schedules` collection, owned by `userId`.
+// Each field has at most one active schedule; saving a new one archives the previous.
+export interface IrrigationSchedule {
+  id: string;
+  userId: string;
+  fieldId: string;
+  cropId: string | null; // The crop the schedule is for, if registered
+  input: Omit<IrrigationSchedulerInput, 'language' | 'progress' | 'soilMoisture'>; // What the schedule was planned from
+  plan: IrrigationPlan; // As of the latest re-plan
+  startDate: string; // YYYY-MM-DD, the first day the schedule covers
+  events: SavedIrrigationEvent[]; // Sorted by date
+  rainfallLog: RainfallEntry[]; // Sorted by date
+  status: 'active' | 'archived';
+  replannedAt: string | null; // ISO string
+  createdAt: string; // ISO string
+  updatedAt: string | null; // ISO string
+}
+
+// What a device measures. See READING_METRIC_INFO for the units.
+export type ReadingMetric = 'soilMoisture' | 'tankLevel' | 'flowRate' | 'waterVolume';
+
+export interface DeviceLatestReading {
+  value: number;
+  recordedAt: string; // ISO string
+}
+
+// Sensors only report readings; pump controllers also take on/off commands.
+export type DeviceKind = 'sensor' | 'pumpController';
+
+// A soil moisture sensor, tank sensor, flow meter or pump controller on one of a user's fields.
+// This data is stored in the `devices` collection, owned by `userId`, and its readings in the
+// `readings` subcollection of each device. Devices post readings with their own API key, of
+// which only a hash is stored.
+export interface Device {
+  id: string;
+  userId: string;
+  fieldId: string;
+  name: string;
+  kind: DeviceKind;
+  automaticIrrigation: boolean; // For pump controllers: whether the field's saved schedule switches the pump on
+  latest: Partial<Record<ReadingMetric, DeviceLatestReading>>; // The newest reading of each metric
+  lastReadingAt: string | null; // ISO string, when a reading was last received
+  createdAt: string; // ISO string
+}
+
+export interface DeviceReading {
+  id: string;
+  metric: ReadingMetric;
+  value: number;
+  recordedAt: string; // ISO string, when the device took the reading
+}
+
+// The latest soil moisture measured on a field, for irrigation scheduling.
+export interface FieldSoilMoisture {
+  percent: number; // Volumetric water content
+  recordedAt: string; // ISO string
+  deviceName: string;
+}
+
+export type PumpCommandAction = 'on' | 'off';
+
+// 'pending' commands wait for the MQTT bridge; it marks them 'sent', 'failed', or 'expired' if
+// they waited too long to be safe to send.
+export type PumpCommandStatus = 'pending' | 'sent' | 'failed' | 'expired';
+
+// A command to a pump controller, kept as an audit log of what was sent and why.
+// This data is stored in the `pump_commands` collection, owned by `userId`.
+export interface PumpCommand {
+  id: string;
+  userId: string;
+  deviceId: string;
+  fieldId: string;
+  action: PumpCommandAction;
+  durationMinutes: number | null; // For 'on': the controller switches the pump off after this
+  source: 'schedule' | 'manual';
+  scheduleId: string | null; // For 'schedule' commands: the irrigation schedule and event
+  eventDate: string | null; // YYYY-MM-DD
+  requestedBy: string | null; // For 'manual' commands: the uid of the user who sent it
+  status: PumpCommandStatus;
+  error: string | null;
+  createdAt: string; // ISO string
+  sentAt: string | null; // ISO string
+}
+
+// 'preparing' until the farmer submits it; the rest follow the scheme's own process.
+export type SchemeApplicationStatus = 'preparing' | 'applied' | 'underReview' | 'sanctioned' | 'disbursed' | 'rejected';
+
+// A scan or photo of a document, uploaded for the farmer's own reference.
+export interface SchemeDocumentFile {
+  path: string; // In private storage; served to the owner at /api/scheme-documents/<applicationId>/<documentId>
+  fileName: string;
+  contentType: string;
+  uploadedAt: string; // ISO string
+}
+
+// One line of an application's document checklist.
+export interface SchemeDocument {
+  id: string;
+  name: string;
+  have: boolean;
+  file: SchemeDocumentFile | null;
+}
+
+// A farmer's application for a government scheme, tracked from gathering documents to payment.
+// This data is stored in the `scheme_applications` collection, owned by `userId`.
+export interface SchemeApplication {
+  id: string;
+  userId: string;
+  schemeName: string; // As shown to the farmer, possibly translated
+  sourceSchemeName: string; // As in the schemes database
+  sourceLink: string | null;
+  applicationProcess: string;
+  documents: SchemeDocument[];
+  status: SchemeApplicationStatus;
+  applicationId: string | null; // The reference number the scheme gave the farmer
+  notes: string;
+  statusUpdatedAt: string; // ISO string
+  remindedAt: string | null; // ISO string; the last reminder sent about a pending step
+  createdAt: string; // ISO string
+}
+
+// What the farmer starts an application from: a scheme summary from the schemes agent.
+export type SchemeApplicationInput = Pick<SchemeApplication, 'schemeName' | 'sourceSchemeName' | 'sourceLink' | 'applicationProcess'> & {
+  documentsRequired: string;
+};
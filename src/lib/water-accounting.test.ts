@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { IrrigationSchedule, SavedIrrigationEvent } from '@/lib/types';
+import { irrigationRequirementM3, scheduledWaterM3 } from '@/lib/water-accounting';
+
+const event = (date: string, depthMm: number, status: SavedIrrigationEvent['status'] = 'planned', appliedDepthMm: number | null = null): SavedIrrigationEvent => ({
+  date,
+  startTime: '06:00',
+  endTime: '07:00',
+  growthStage: 'mid',
+  depthMm,
+  netDepthMm: depthMm,
+  volumeLitres: depthMm * 1000,
+  runTimeMinutes: 60,
+  message: '',
+  status,
+  appliedDepthMm,
+});
+
+const schedule = (createdAt: string, events: SavedIrrigationEvent[]) =>
+  ({ createdAt, events, plan: { fieldAreaSqm: 1000 } }) as IrrigationSchedule;
+
+describe('scheduledWaterM3', () => {
+  it('counts each day marked done once, at the depth applied', () => {
+    const schedules = [
+      schedule('2026-10-01T00:00:00Z', [event('2026-10-02', 40, 'done', 30), event('2026-10-09', 40)]),
+      schedule('2026-10-05T00:00:00Z', [event('2026-10-02', 40, 'done', 30), event('2026-10-09', 50, 'done')]),
+    ];
+    assert.equal(scheduledWaterM3(schedules), 80);
+  });
+});
+
+describe('irrigationRequirementM3', () => {
+  it('adds the irrigations done to those still planned on the latest schedule', () => {
+    const schedules = [
+      schedule('2026-10-01T00:00:00Z', [event('2026-10-02', 40, 'done', 30), event('2026-10-09', 40), event('2026-10-16', 40)]),
+      schedule('2026-10-05T00:00:00Z', [event('2026-10-02', 40, 'done', 30), event('2026-10-08', 20, 'skipped'), event('2026-10-12', 50)]),
+    ];
+    assert.equal(irrigationRequirementM3(schedules, 2000), 180);
+  });
+
+  it('is null without a schedule', () => {
+    assert.equal(irrigationRequirementM3([], 1000), null);
+  });
+});
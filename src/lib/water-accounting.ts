@@ -0,0 +1,118 @@
+import type { CurrentCropStatus, IrrigationSchedule } from '@/lib/types';
+
+export type GroundwaterCategory = 'safe' | 'semiCritical' | 'critical' | 'overExploited';
+export type ScarcityLevel = 'low' | 'moderate' | 'high' | 'severe';
+
+// The water used by one crop on one field, from sowing to harvest (or today).
+export interface SeasonWaterUse {
+  cropId: string;
+  cropName: string;
+  fieldId: string;
+  fieldName: string;
+  status: CurrentCropStatus;
+  sowingDate: string; // ISO string
+  harvestedAt: string | null; // ISO string
+  scheduledM3: number | null; // Irrigation marked done on the field's saved schedules; null without a schedule
+  meteredM3: number | null; // Delivered through the field's flow meters; null without readings
+  appliedM3: number | null; // The metered volume where there is one, else the scheduled
+  requirementM3: number | null; // The irrigation recorded and still planned on the crop's schedules
+  yieldQuintals: number | null;
+  productivityKgPerM3: number | null; // Yield per m³ of irrigation applied
+}
+
+export type DistrictWaterScarcity = { district: string; state: string } & (
+  | {
+      status: 'ok';
+      index: number; // 0 (no scarcity) to 100
+      level: ScarcityLevel;
+      groundwaterStagePercent: number;
+      groundwaterCategory: GroundwaterCategory;
+      groundwaterScope: 'district' | 'state' | 'national'; // Where the groundwater figure is from
+      normalRainfallMm: number;
+    }
+  | { status: 'unavailable'; reason: string }
+);
+
+export interface WaterInsights {
+  seasons: SeasonWaterUse[];
+  districts: DistrictWaterScarcity[];
+  groundwaterAssessmentYear: string;
+}
+
+// The share of the index from groundwater stress; the rest is from rainfall.
+const GROUNDWATER_WEIGHT = 0.6;
+// Groundwater extracted at this share of recharge or more counts as fully stressed.
+const GROUNDWATER_STRESSED_PERCENT = 150;
+// Annual rainfall at or below the first counts as fully dry, at or above the second as not at all.
+const ARID_RAINFALL_MM = 400;
+const HUMID_RAINFALL_MM = 1500;
+const SCARCITY_LEVELS: [number, ScarcityLevel][] = [[75, 'severe'], [55, 'high'], [35, 'moderate'], [0, 'low']];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+/** The Central Ground Water Board's category for a stage of groundwater extraction. */
+export function groundwaterCategory(stagePercent: number): GroundwaterCategory {
+  if (stagePercent > 100) return 'overExploited';
+  if (stagePercent > 90) return 'critical';
+  if (stagePercent > 70) return 'semiCritical';
+  return 'safe';
+}
+
+/**
+ * The Water Scarcity Index of a district, from 0 to 100: a weighted mix of how much of its
+ * groundwater recharge is extracted and how dry its climate is. Each part is scaled from 0
+ * (no stress) to 1 (full stress) before weighting.
+ */
+export function waterScarcityIndex(groundwaterStagePercent: number, normalRainfallMm: number): { index: number; level: ScarcityLevel } {
+  const groundwaterStress = clamp(groundwaterStagePercent / GROUNDWATER_STRESSED_PERCENT);
+  const rainfallStress = clamp((HUMID_RAINFALL_MM - normalRainfallMm) / (HUMID_RAINFALL_MM - ARID_RAINFALL_MM));
+  const index = Math.round(100 * (GROUNDWATER_WEIGHT * groundwaterStress + (1 - GROUNDWATER_WEIGHT) * rainfallStress));
+  return { index, level: SCARCITY_LEVELS.find(([from]) => index >= from)![1] };
+}
+
+/**
+ * The irrigation marked done on a crop's saved schedules, in m³. A day recorded on more than
+ * one schedule, e.g. the day a new schedule replaced the old, is counted once.
+ */
+export function scheduledWaterM3(schedules: IrrigationSchedule[]): number {
+  const litresByDate = new Map<string, number>();
+  // Oldest first, so the newest schedule's record of a day wins.
+  for (const schedule of [...schedules].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    for (const event of schedule.events) {
+      if (event.status === 'done') {
+        litresByDate.set(event.date, (event.appliedDepthMm ?? event.depthMm) * schedule.plan.fieldAreaSqm); // 1 mm over 1 m² is 1 litre
+      }
+    }
+  }
+  return round([...litresByDate.values()].reduce((total, litres) => total + litres, 0) / 1000);
+}
+
+/**
+ * The water to pump over a crop's season by its saved schedules, in m³: the irrigations marked
+ * done, at their planned depth, and those still planned on the latest schedule. Skipped
+ * irrigations are left out, as re-planning moves the water they would have given to later ones.
+ * Null without a schedule.
+ */
+export function irrigationRequirementM3(schedules: IrrigationSchedule[], fieldAreaSqm: number): number | null {
+  const sorted = [...schedules].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const latest = sorted.at(-1);
+  if (!latest) return null;
+  const depthByDate = new Map<string, number>();
+  // Oldest first, so the newest schedule's record of a day wins.
+  for (const schedule of sorted) {
+    for (const event of schedule.events) {
+      if (event.status === 'done' || (schedule === latest && event.status === 'planned')) {
+        depthByDate.set(event.date, event.depthMm);
+      } else if (event.status === 'skipped') {
+        depthByDate.delete(event.date);
+      }
+    }
+  }
+  return round([...depthByDate.values()].reduce((total, depthMm) => total + depthMm, 0) * fieldAreaSqm / 1000);
+}
+
+/** Kilograms of crop per m³ of irrigation water, or null if either is missing. */
+export function waterProductivity(yieldQuintals: number | null, appliedM3: number | null): number | null {
+  return yieldQuintals && appliedM3 ? round((yieldQuintals * 100) / appliedM3, 2) : null;
+}
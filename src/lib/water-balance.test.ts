@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { CropWaterEntry, SoilWaterEntry } from '@/ai/schemas/irrigation-scheduler-schemas';
+import {
+  buildDailyWeather,
+  cropStageOnDay,
+  depletionFromMoisture,
+  effectiveRainfall,
+  hargreavesEt0,
+  planIrrigation,
+  type WaterBalanceOptions,
+} from '@/lib/water-balance';
+
+const crop: CropWaterEntry = {
+  name: 'Test crop',
+  aliases: [],
+  stageDays: [10, 20, 30, 20],
+  kc: { initial: 0.4, mid: 1.2, end: 0.6 },
+  rootDepthM: 1,
+  depletionFraction: 0.5,
+};
+
+const soil: SoilWaterEntry = { name: 'Loam', keywords: ['loam'], availableWaterMmPerM: 100, fieldCapacityPercent: 30 };
+
+const days = (startDate: string, count: number) =>
+  buildDailyWeather(startDate, count, [], { temperatureMax: 35, temperatureMin: 20 });
+
+const options = (overrides: Partial<WaterBalanceOptions> = {}): WaterBalanceOptions => ({
+  crop,
+  soil,
+  sowingDate: '2026-01-01',
+  seasonDays: 80,
+  initialRootDepthM: 1,
+  latitude: 20,
+  weather: days('2026-01-01', 30),
+  fieldAreaSqm: 1000,
+  applicationEfficiency: 0.5,
+  pumpFlowRate: 500,
+  startTime: '06:00',
+  ...overrides,
+});
+
+describe('hargreavesEt0', () => {
+  it('matches FAO-56 for 20°S on 3 September, where extraterrestrial radiation is 32.2 MJ/m²/day', () => {
+    // 0.0023 × (25 + 17.8) × √10 × 32.2 × 0.408
+    assert.ok(Math.abs(hargreavesEt0(30, 20, -20, '2026-09-03') - 4.09) < 0.05);
+  });
+
+  it('is zero when the temperature does not vary over the day', () => {
+    assert.equal(hargreavesEt0(25, 25, 20, '2026-06-01'), 0);
+  });
+});
+
+describe('effectiveRainfall', () => {
+  it('ignores light rain and counts most of heavier rain', () => {
+    assert.equal(effectiveRainfall(4), 0);
+    assert.equal(effectiveRainfall(10), 8);
+  });
+});
+
+describe('cropStageOnDay', () => {
+  it('moves the crop coefficient between stages', () => {
+    assert.deepEqual(cropStageOnDay(crop, 80, 0, 0.2), { stage: 'initial', kc: 0.4, rootDepthM: 0.2 });
+    const development = cropStageOnDay(crop, 80, 20, 0.2);
+    assert.equal(development.stage, 'development');
+    assert.ok(Math.abs(development.kc - 0.8) < 1e-9);
+    assert.equal(cropStageOnDay(crop, 80, 45, 0.2).kc, 1.2);
+    assert.ok(Math.abs(cropStageOnDay(crop, 80, 80, 0.2).kc - 0.6) < 1e-9);
+  });
+
+  it('stretches the stages to fit a longer season', () => {
+    assert.equal(cropStageOnDay(crop, 160, 15, 0.2).stage, 'initial');
+    assert.equal(cropStageOnDay(crop, 160, 25, 0.2).stage, 'development');
+  });
+
+  it('grows the roots to full depth by the end of development', () => {
+    assert.ok(Math.abs(cropStageOnDay(crop, 80, 15, 0.2).rootDepthM - 0.6) < 1e-9);
+    assert.equal(cropStageOnDay(crop, 80, 30, 0.2).rootDepthM, 1);
+  });
+});
+
+describe('depletionFromMoisture', () => {
+  it('is the shortfall from field capacity, within what the root zone can hold', () => {
+    assert.equal(depletionFromMoisture(soil, 0.5, 25), 25);
+    assert.equal(depletionFromMoisture(soil, 0.5, 35), 0);
+    assert.equal(depletionFromMoisture(soil, 0.5, 0), 50);
+  });
+});
+
+describe('planIrrigation', () => {
+  it('irrigates once the readily available water is used, refilling the root zone', () => {
+    const { events, allowableDepletionMm, rootZoneWaterMm } = planIrrigation(options());
+    assert.equal(rootZoneWaterMm, 100);
+    assert.equal(allowableDepletionMm, 50);
+    assert.ok(events.length > 0);
+    for (const event of events) {
+      assert.ok(event.netDepthMm >= 50);
+      assert.ok(Math.abs(event.depthMm - event.netDepthMm / 0.5) <= 0.1);
+      assert.ok(Math.abs(event.volumeLitres - event.depthMm * 1000) <= 100);
+      assert.equal(event.runTimeMinutes, Math.round(event.volumeLitres / 500));
+      assert.equal(event.startTime, '06:00');
+    }
+  });
+
+  it('counts effective rain towards the balance', () => {
+    const wet = planIrrigation(options({ weather: days('2026-01-01', 30).map(day => ({ ...day, rainfall: 20 })) }));
+    assert.equal(wet.events.length, 0);
+    assert.ok(wet.effectiveRainMm > 0);
+  });
+
+  it('does not schedule irrigations before the recorded days end', () => {
+    const first = planIrrigation(options()).events[0];
+    const replanned = planIrrigation(options({ recordedUntil: first.date }));
+    assert.ok(replanned.events.every(event => event.date >= first.date));
+    // The missed irrigation leaves the soil dry, so one is due on the first day that can be planned.
+    assert.equal(replanned.events[0].date, first.date);
+  });
+
+  it('does not schedule an irrigation on a day one was recorded', () => {
+    const first = planIrrigation(options()).events[0];
+    const recorded = planIrrigation(options({ appliedMm: { [first.date]: first.netDepthMm } }));
+    assert.ok(recorded.events.every(event => event.date !== first.date));
+  });
+
+  it('starts the balance from a soil moisture reading', () => {
+    const result = planIrrigation(options({ measuredMoisture: { date: '2026-01-01', percent: 25 } }));
+    assert.equal(result.measuredDepletionMm, 50);
+    assert.equal(result.events[0].date, '2026-01-01');
+  });
+});
+
+describe('buildDailyWeather', () => {
+  it('uses the forecast, then normals without rain, and measured rain over either', () => {
+    const weather = buildDailyWeather(
+      '2026-03-01',
+      3,
+      [{ date: '2026-03-01', temperatureMax: 33, temperatureMin: 18, rainfall: 2 }],
+      { temperatureMax: 30, temperatureMin: 15 },
+      [{ date: '2026-03-03', rainfall: 12 }],
+    );
+    assert.deepEqual(weather, [
+      { date: '2026-03-01', temperatureMax: 33, temperatureMin: 18, rainfall: 2 },
+      { date: '2026-03-02', temperatureMax: 30, temperatureMin: 15, rainfall: null },
+      { date: '2026-03-03', temperatureMax: 30, temperatureMin: 15, rainfall: 12 },
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { addDays, differenceInCalendarDays, format, getDayOfYear, parseISO } from 'date-fns';
+import type {
+  CropWaterEntry,
+  GrowthStage,
+  IrrigationEvent,
+  SoilWaterEntry,
+} from '@/ai/schemas/irrigation-scheduler-schemas';
+
+// The Hargreaves equation's calibration constant and the solar constant (MJ/m²/min), per FAO-56.
+const HARGREAVES_COEFFICIENT = 0.0023;
+const SOLAR_CONSTANT = 0.082;
+// Converts radiation in MJ/m²/day to the depth of water it could evaporate, in mm/day.
+const MJ_TO_MM = 0.408;
+// Daily rain below this is lost to evaporation from the surface before it reaches the roots.
+const INEFFECTIVE_RAIN_MM = 5;
+const EFFECTIVE_RAIN_SHARE = 0.8;
+
+export interface DailyWeather {
+  date: string; // YYYY-MM-DD
+  temperatureMax: number; // °C
+  temperatureMin: number; // °C
+  rainfall: number | null; // mm; null when unknown, i.e. beyond the forecast
+}
+
+export interface WaterBalanceOptions {
+  crop: CropWaterEntry;
+  soil: SoilWaterEntry;
+  sowingDate: string; // YYYY-MM-DD
+  seasonDays: number;
+  initialRootDepthM: number;
+  latitude: number;
+  weather: DailyWeather[]; // One entry per day to plan, in order
+  fieldAreaSqm: number;
+  applicationEfficiency: number;
+  pumpFlowRate: number; // Litres per minute
+  startTime: string; // HH:MM
+  // When re-planning: days before this are replayed from what was recorded, not scheduled.
+  recordedUntil?: string; // YYYY-MM-DD
+  appliedMm?: Record<string, number>; // Irrigation that reached the root zone, in mm by date
+  // A sensor's volumetric water content (%), which replaces the modelled balance from its day.
+  measuredMoisture?: { date: string; percent: number };
+}
+
+export type PlannedIrrigation = Omit<IrrigationEvent, 'message'>;
+
+export interface WaterBalanceResult {
+  events: PlannedIrrigation[];
+  rootZoneWaterMm: number;
+  allowableDepletionMm: number;
+  cropWaterUseMm: number;
+  effectiveRainMm: number;
+  measuredDepletionMm: number | null; // The root zone's shortfall from field capacity by the sensor reading
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+/**
+ * Extraterrestrial radiation for a latitude and day of the year, in MJ/m²/day (FAO-56, eq. 21).
+ */
+function extraterrestrialRadiation(latitude: number, dayOfYear: number): number {
+  const phi = (latitude * Math.PI) / 180;
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+  const sunsetAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))));
+  return (24 * 60 / Math.PI) * SOLAR_CONSTANT * inverseDistance *
+    (sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle));
+}
+
+/**
+ * Reference evapotranspiration by the Hargreaves equation (FAO-56, eq. 52), in mm/day. It
+ * needs only the day's temperature range, which forecasts and climate normals both provide.
+ */
+export function hargreavesEt0(temperatureMax: number, temperatureMin: number, latitude: number, date: string): number {
+  const radiation = extraterrestrialRadiation(latitude, getDayOfYear(parseISO(date))) * MJ_TO_MM;
+  const range = Math.max(0, temperatureMax - temperatureMin);
+  const mean = (temperatureMax + temperatureMin) / 2;
+  return Math.max(0, HARGREAVES_COEFFICIENT * (mean + 17.8) * Math.sqrt(range) * radiation);
+}
+
+/** The share of a day's rain that reaches the root zone, in mm. */
+export function effectiveRainfall(rainfall: number): number {
+  return rainfall < INEFFECTIVE_RAIN_MM ? 0 : rainfall * EFFECTIVE_RAIN_SHARE;
+}
+
+/**
+ * The crop's growth stage, crop coefficient and rooting depth on a day of the season. The
+ * crop's stage lengths are stretched or shrunk to fit the season, and the coefficient moves
+ * linearly between stages as in FAO-56 (Fig. 25).
+ */
+export function cropStageOnDay(crop: CropWaterEntry, seasonDays: number, day: number, initialRootDepthM: number): { stage: GrowthStage; kc: number; rootDepthM: number } {
+  const scale = seasonDays / crop.stageDays.reduce((total, days) => total + days, 0);
+  const [initialEnd, developmentEnd, midEnd] = crop.stageDays.reduce<number[]>(
+    (ends, days) => [...ends, (ends[ends.length - 1] ?? 0) + days * scale], []
+  );
+  const { initial, mid, end } = crop.kc;
+  const grownRootDepthM = Math.max(crop.rootDepthM, initialRootDepthM);
+  const rootDepthM = day >= developmentEnd
+    ? grownRootDepthM
+    : initialRootDepthM + (grownRootDepthM - initialRootDepthM) * (day / developmentEnd);
+
+  if (day < initialEnd) return { stage: 'initial', kc: initial, rootDepthM };
+  if (day < developmentEnd) return { stage: 'development', kc: initial + (mid - initial) * (day - initialEnd) / (developmentEnd - initialEnd), rootDepthM };
+  if (day < midEnd) return { stage: 'mid', kc: mid, rootDepthM };
+  return { stage: 'late', kc: mid + (end - mid) * Math.min(1, (day - midEnd) / (seasonDays - midEnd)), rootDepthM };
+}
+
+const addMinutes = (time: string, minutes: number) => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = (hours * 60 + mins + Math.round(minutes)) % (24 * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * How far below field capacity the root zone is, in mm, from the volumetric water content a
+ * soil moisture sensor measured. It is at most the water the root zone can hold.
+ */
+export function depletionFromMoisture(soil: SoilWaterEntry, rootDepthM: number, percent: number): number {
+  const depletion = (soil.fieldCapacityPercent - percent) * 10 * rootDepthM; // 1% of 1 m of soil is 10 mm
+  return Math.min(soil.availableWaterMmPerM * rootDepthM, Math.max(0, depletion));
+}
+
+/**
+ * Runs a daily soil water balance of the root zone (FAO-56, ch. 8) over the days given. The
+ * root zone starts at field capacity; each day the crop uses ET₀ × Kc and effective rain
+ * refills it. Once the crop has used its readily available water, an irrigation refills the
+ * root zone to field capacity that morning.
+ *
+ * When re-planning, irrigations already done are added on their days, and nothing is
+ * scheduled before `recordedUntil`: a missed irrigation leaves the soil dry until the first
+ * day that can still be planned.
+ *
+ * A soil moisture reading sets the balance on its day (or the first day, if it is older), in
+ * place of what was assumed or replayed before it.
+ */
+export function planIrrigation(options: WaterBalanceOptions): WaterBalanceResult {
+  const { crop, soil, sowingDate, seasonDays, initialRootDepthM, latitude, weather, fieldAreaSqm, applicationEfficiency, pumpFlowRate, startTime, recordedUntil, appliedMm = {}, measuredMoisture } = options;
+  const sowing = parseISO(sowingDate);
+  const events: PlannedIrrigation[] = [];
+  let depletion = 0;
+  let cropWaterUseMm = 0;
+  let effectiveRainMm = 0;
+  let measuredDepletionMm: number | null = null;
+
+  for (const day of weather) {
+    const { stage, kc, rootDepthM } = cropStageOnDay(crop, seasonDays, differenceInCalendarDays(parseISO(day.date), sowing), initialRootDepthM);
+    const rootZoneWater = soil.availableWaterMmPerM * rootDepthM;
+    if (measuredMoisture && measuredDepletionMm === null && day.date >= measuredMoisture.date) {
+      measuredDepletionMm = depletionFromMoisture(soil, rootDepthM, measuredMoisture.percent);
+      depletion = measuredDepletionMm;
+    }
+    const cropWaterUse = hargreavesEt0(day.temperatureMax, day.temperatureMin, latitude, day.date) * kc;
+    const rain = day.rainfall === null ? 0 : effectiveRainfall(day.rainfall);
+    const applied = appliedMm[day.date] ?? 0;
+    cropWaterUseMm += cropWaterUse;
+    effectiveRainMm += Math.min(rain, depletion + cropWaterUse); // Rain beyond field capacity drains away
+
+    depletion = Math.min(rootZoneWater, Math.max(0, depletion + cropWaterUse - rain - applied));
+    if ((recordedUntil && day.date < recordedUntil) || applied > 0 || depletion < crop.depletionFraction * rootZoneWater) continue;
+
+    const depthMm = depletion / applicationEfficiency;
+    const volumeLitres = depthMm * fieldAreaSqm; // 1 mm over 1 m² is 1 litre
+    const runTimeMinutes = volumeLitres / pumpFlowRate;
+    events.push({
+      date: day.date,
+      startTime,
+      endTime: addMinutes(startTime, runTimeMinutes),
+      growthStage: stage,
+      depthMm: round(depthMm),
+      netDepthMm: round(depletion),
+      volumeLitres: Math.round(volumeLitres),
+      runTimeMinutes: Math.round(runTimeMinutes),
+    });
+    depletion = 0;
+  }
+
+  const grownRootZoneWater = soil.availableWaterMmPerM * Math.max(crop.rootDepthM, initialRootDepthM);
+  return {
+    events,
+    rootZoneWaterMm: round(grownRootZoneWater),
+    allowableDepletionMm: round(crop.depletionFraction * grownRootZoneWater),
+    cropWaterUseMm: round(cropWaterUseMm),
+    effectiveRainMm: round(effectiveRainMm),
+    measuredDepletionMm: measuredDepletionMm === null ? null : round(measuredDepletionMm),
+  };
+}
+
+/**
+ * The weather for each day from `startDate`: the forecast where there is one, and climate
+ * normals after it, with rain left out because it cannot be timed. Rain the farmer measured
+ * takes the place of the forecast.
+ */
+export function buildDailyWeather(
+  startDate: string,
+  days: number,
+  forecast: { date: string; temperatureMax: number; temperatureMin: number; rainfall: number }[],
+  normals: { temperatureMax: number; temperatureMin: number },
+  rainfallLog: { date: string; rainfall: number }[] = []
+): DailyWeather[] {
+  const byDate = new Map(forecast.map(day => [day.date, day]));
+  const measured = new Map(rainfallLog.map(entry => [entry.date, entry.rainfall]));
+  return Array.from({ length: days }, (_, i) => {
+    const date = format(addDays(parseISO(startDate), i), 'yyyy-MM-dd');
+    const forecastDay = byDate.get(date);
+    const day = forecastDay
+      ? { date, temperatureMax: forecastDay.temperatureMax, temperatureMin: forecastDay.temperatureMin, rainfall: forecastDay.rainfall }
+      : { date, temperatureMax: normals.temperatureMax, temperatureMin: normals.temperatureMin, rainfall: null };
+    return measured.has(date) ? { ...day, rainfall: measured.get(date)! } : day;
+  });
+}
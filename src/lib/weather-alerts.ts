@@ -0,0 +1,87 @@
+import type { WeatherAlert, WeatherAlertType, WeatherForecastDay } from '@/lib/types';
+
+type Thresholds = Record<WeatherAlertType, number>;
+
+// Daily rainfall (mm), maximum temperature (°C) and minimum temperature (°C) at which
+// an alert is raised, based on the IMD heavy-rain and heatwave criteria.
+const DEFAULT_THRESHOLDS: Thresholds = { heavyRain: 64.5, heatwave: 40, frost: 4 };
+const SEVERE_THRESHOLDS: Thresholds = { heavyRain: 115.6, heatwave: 45, frost: 0 };
+
+// Crops that are damaged well before the general thresholds are reached.
+const CROP_THRESHOLDS: Record<string, Partial<Thresholds>> = {
+  wheat: { heatwave: 35, frost: 2 },
+  tomato: { heatwave: 35, frost: 5, heavyRain: 50 },
+  potato: { heatwave: 32, frost: 2 },
+  chickpea: { heatwave: 35, frost: 2 },
+  gram: { heatwave: 35, frost: 2 },
+  mustard: { frost: 3 },
+  rice: { heatwave: 38 },
+  paddy: { heatwave: 38 },
+  onion: { heavyRain: 50 },
+  grapes: { heavyRain: 40, frost: 5 },
+  banana: { frost: 8 },
+  cotton: { heavyRain: 50 },
+  chilli: { heavyRain: 50, frost: 5 },
+};
+
+const ALERT_COPY: Record<WeatherAlertType, { title: string; advice: string }> = {
+  heavyRain: {
+    title: 'Heavy rain expected',
+    advice: 'Clear field drains, postpone irrigation and spraying, and move harvested produce under cover.',
+  },
+  heatwave: {
+    title: 'Heatwave conditions',
+    advice: 'Irrigate in the early morning or evening, mulch to retain moisture and avoid fieldwork at midday.',
+  },
+  frost: {
+    title: 'Frost risk',
+    advice: 'Give a light irrigation in the evening and cover nurseries or young plants overnight.',
+  },
+};
+
+const thresholdsFor = (crop: string): Thresholds => {
+  const key = crop.toLowerCase().trim();
+  const match = Object.keys(CROP_THRESHOLDS).find(name => key.includes(name));
+  return { ...DEFAULT_THRESHOLDS, ...(match ? CROP_THRESHOLDS[match] : {}) };
+};
+
+// A day with no temperature reading cannot trigger a heatwave or frost alert.
+const isTriggered = (type: WeatherAlertType, day: WeatherForecastDay, thresholds: Thresholds) => {
+  switch (type) {
+    case 'heavyRain': return day.rainfall >= thresholds.heavyRain;
+    case 'heatwave': return day.temperatureMax !== null && day.temperatureMax >= thresholds.heatwave;
+    case 'frost': return day.temperatureMin !== null && day.temperatureMin <= thresholds.frost;
+  }
+};
+
+/**
+ * Derives heavy rain, heatwave and frost alerts from a forecast. An alert is raised when
+ * the general threshold is crossed, or when a lower crop-specific threshold is crossed for
+ * one of the given crops, which are then listed as affected.
+ */
+export function deriveWeatherAlerts(forecast: WeatherForecastDay[], cropNames: string[]): WeatherAlert[] {
+  const crops = Array.from(new Set(cropNames.map(name => name.trim()).filter(Boolean)));
+  const alerts: WeatherAlert[] = [];
+
+  for (const day of forecast) {
+    for (const type of Object.keys(ALERT_COPY) as WeatherAlertType[]) {
+      const affectedCrops = crops.filter(crop => isTriggered(type, day, thresholdsFor(crop)));
+      if (!isTriggered(type, day, DEFAULT_THRESHOLDS) && affectedCrops.length === 0) {
+        continue;
+      }
+
+      const { title, advice } = ALERT_COPY[type];
+      const cropNote = affectedCrops.length > 0 ? ` Your ${affectedCrops.join(', ')} may be affected.` : '';
+      alerts.push({
+        type,
+        date: day.date,
+        severity: isTriggered(type, day, SEVERE_THRESHOLDS) ? 'severe' : 'warning',
+        title,
+        message: `${advice}${cropNote}`,
+        affectedCrops,
+      });
+    }
+  }
+
+  return alerts;
+}
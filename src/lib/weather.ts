@@ -0,0 +1,147 @@
+'use server';
+
+import { z } from 'zod';
+import type { CurrentWeather, WeatherCondition, WeatherForecastDay, WeatherResult } from '@/lib/types';
+import { deriveWeatherAlerts } from '@/lib/weather-alerts';
+import { DEFAULT_FORECAST_URL, getJson, resolveLocation } from '@/ai/providers/http-environmental-data-provider';
+import type { ResolvedLocation } from '@/ai/schemas/environmental-data-schemas';
+
+// Any Open-Meteo compatible forecast API can be used as the weather source.
+const forecastUrl = process.env.WEATHER_FORECAST_URL || DEFAULT_FORECAST_URL;
+const geocodingUrl = process.env.ENVIRONMENTAL_DATA_GEOCODING_URL;
+const CACHE_TTL_MS = 30 * 60 * 1000;
+const MAX_CACHED_LOCATIONS = 500;
+const FORECAST_DAYS = 6; // Today plus a 5-day forecast
+
+const ForecastResponseSchema = z.object({
+  current: z.object({
+    temperature_2m: z.number(),
+    relative_humidity_2m: z.number(),
+    wind_speed_10m: z.number(),
+    weather_code: z.number(),
+    uv_index: z.number().nullable().optional(),
+    soil_temperature_0cm: z.number().nullable().optional(),
+  }),
+  daily: z.object({
+    time: z.array(z.string()),
+    weather_code: z.array(z.number().nullable()),
+    temperature_2m_max: z.array(z.number().nullable()),
+    temperature_2m_min: z.array(z.number().nullable()),
+    precipitation_sum: z.array(z.number().nullable()),
+    precipitation_probability_max: z.array(z.number().nullable()).optional(),
+    wind_speed_10m_max: z.array(z.number().nullable()).optional(),
+  }),
+});
+
+type CachedForecast = {
+  location: ResolvedLocation;
+  current: CurrentWeather;
+  forecast: WeatherForecastDay[];
+  fetchedAt: number;
+};
+
+// Forecasts are cached per location string; alerts are derived per request because
+// they depend on the caller's crops.
+const forecastCache = new Map<string, CachedForecast>();
+
+const isFresh = (cached: CachedForecast) => Date.now() - cached.fetchedAt <= CACHE_TTL_MS;
+
+/** Caches a forecast, first dropping expired ones and then, if still full, the oldest. */
+function cacheForecast(key: string, forecast: CachedForecast) {
+  forecastCache.delete(key);
+  if (forecastCache.size >= MAX_CACHED_LOCATIONS) {
+    for (const [cachedKey, cached] of forecastCache) {
+      if (!isFresh(cached)) forecastCache.delete(cachedKey);
+    }
+  }
+  // Maps iterate in insertion order, so the first key is the oldest forecast.
+  while (forecastCache.size >= MAX_CACHED_LOCATIONS) {
+    forecastCache.delete(forecastCache.keys().next().value!);
+  }
+  forecastCache.set(key, forecast);
+}
+
+const roundOrNull = (value: number | null | undefined) => (value === null || value === undefined ? null : Math.round(value));
+
+/** Maps a WMO weather interpretation code to the conditions the weather card can show. */
+function toCondition(code: number | null): WeatherCondition {
+  if (code === null || code === 0) return 'Sunny';
+  if (code <= 2) return 'Partly Cloudy';
+  if (code === 3) return 'Cloudy';
+  if (code === 45 || code === 48) return 'Foggy';
+  if (code >= 95) return 'Thunderstorm';
+  return 'Rainy';
+}
+
+async function fetchForecast(location: ResolvedLocation): Promise<CachedForecast> {
+  const url = new URL('/v1/forecast', forecastUrl);
+  url.searchParams.set('latitude', String(location.latitude));
+  url.searchParams.set('longitude', String(location.longitude));
+  url.searchParams.set('current', 'temperature_2m,relative_humidity_2m,wind_speed_10m,weather_code,uv_index,soil_temperature_0cm');
+  url.searchParams.set('daily', 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max,wind_speed_10m_max');
+  url.searchParams.set('timezone', 'Asia/Kolkata');
+  url.searchParams.set('forecast_days', String(FORECAST_DAYS));
+
+  const { current, daily } = await getJson(url, ForecastResponseSchema);
+
+  return {
+    location,
+    current: {
+      temperature: Math.round(current.temperature_2m),
+      condition: toCondition(current.weather_code),
+      humidity: Math.round(current.relative_humidity_2m),
+      windSpeed: Math.round(current.wind_speed_10m),
+      uvIndex: current.uv_index ?? null,
+      soilTemperature: current.soil_temperature_0cm ?? null,
+    },
+    forecast: daily.time.map((date, i) => ({
+      date,
+      condition: toCondition(daily.weather_code[i]),
+      temperatureMax: roundOrNull(daily.temperature_2m_max[i]),
+      temperatureMin: roundOrNull(daily.temperature_2m_min[i]),
+      rainfall: daily.precipitation_sum[i] ?? 0,
+      rainProbability: daily.precipitation_probability_max?.[i] ?? null,
+      windSpeed: daily.wind_speed_10m_max?.[i] ?? null,
+    })),
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Returns current conditions, a multi-day forecast and farm alerts for the user's location.
+ * @param location The user's free-text location, e.g. "Nashik, Maharashtra".
+ * @param cropNames The crops the user is growing, used to tailor the alerts.
+ */
+export async function getWeatherReport(location: string | null, cropNames: string[] = []): Promise<WeatherResult> {
+  if (!location || !location.trim()) {
+    return { status: 'unavailable', reason: 'Add your location to your profile to see the local weather.' };
+  }
+
+  try {
+    const cacheKey = location.trim().toLowerCase();
+    let cached = forecastCache.get(cacheKey);
+    if (!cached || !isFresh(cached)) {
+      const resolved = await resolveLocation(location, geocodingUrl);
+      if (!resolved) {
+        return { status: 'unavailable', reason: `We could not find "${location}" on the map.` };
+      }
+      cached = await fetchForecast(resolved);
+      cacheForecast(cacheKey, cached);
+    }
+
+    return {
+      status: 'ok',
+      report: {
+        location: [cached.location.name, cached.location.state].filter(Boolean).join(', '),
+        current: cached.current,
+        forecast: cached.forecast,
+        alerts: deriveWeatherAlerts(cached.forecast, cropNames),
+        source: new URL(forecastUrl).hostname,
+        fetchedAt: new Date(cached.fetchedAt).toISOString(),
+      },
+    };
+  } catch (e: any) {
+    console.error(`Error fetching weather for ${location}:`, e);
+    return { status: 'unavailable', reason: 'Weather data is unavailable right now. Please try again later.' };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileOverview Brings documents saved by earlier versions of the app up to date, so the
+ * queries that filter on newer fields find them.
+ *
+ * Usage: npm run db:backfill -- [--dry-run] [--crop-owner <uid>]
+ *
+ * --crop-owner gives crops saved before crops had owners to that user. Without it they are
+ * left as they are, and reported.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { backfillCurrentCrops, backfillDiagnoses, type BackfillResult } from '@/lib/firebase/backfill';
+
+const describe = (name: string, { scanned, updated, skipped }: BackfillResult, dryRun: boolean) =>
+  `${name}: scanned ${scanned}, ${dryRun ? 'would update' : 'updated'} ${updated}${skipped ? `, skipped ${skipped}` : ''}.`;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const ownerIndex = args.indexOf('--crop-owner');
+  const ownerId = ownerIndex >= 0 ? args[ownerIndex + 1] : undefined;
+  if (ownerIndex >= 0 && !ownerId) {
+    console.error('Usage: npm run db:backfill -- [--dry-run] [--crop-owner <uid>]');
+    process.exit(1);
+  }
+
+  try {
+    const crops = await backfillCurrentCrops({ dryRun, ownerId });
+    console.log(describe('Crops', crops, dryRun));
+    if (crops.skipped > 0) {
+      console.log(`  ${crops.skipped} crops have no owner and are not shown to anyone. Rerun with --crop-owner <uid> to give them to a user.`);
+    }
+    const diagnoses = await backfillDiagnoses({ dryRun });
+    console.log(describe('Diagnoses', diagnoses, dryRun));
+    if (diagnoses.skipped > 0) {
+      console.log(`  ${diagnoses.skipped} diagnoses have no diagnosis result and cannot be searched.`);
+    }
+  } catch (error: any) {
+    console.error(`Backfill failed: ${error.message}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main();
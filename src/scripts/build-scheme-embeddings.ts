@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Builds the embedding index for semantic scheme search from the schemes dataset.
+ *
+ * Usage: npm run schemes:embed
+ *
+ * Needs a Gemini API key. The index is written to SCHEME_EMBEDDING_INDEX_PATH or
+ * `.data/scheme-embeddings.json`. Only schemes that are not in the index yet are embedded, and
+ * publishing a dataset version updates an existing index, so this is needed only once.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { getSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+import { schemeEmbeddingIndexPath, updateSchemeEmbeddingIndex } from '@/ai/providers/scheme-embedding-index';
+
+async function main() {
+  const indexPath = schemeEmbeddingIndexPath();
+  try {
+    const { version, schemes } = await getSchemeDataset();
+    console.log(`Using version ${version.version} of the schemes dataset.`);
+    console.log(`Embedding the new and changed of ${schemes.length} schemes...`);
+    const { index, embedded } = (await updateSchemeEmbeddingIndex(schemes, { create: true }))!;
+    console.log(`Wrote ${index.schemes.length} scheme embeddings (${index.embedder}, ${embedded} new) to ${indexPath}.`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`Could not build the scheme embedding index: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
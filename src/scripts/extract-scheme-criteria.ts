@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Extracts eligibility criteria from the schemes dataset into the scheme criteria sidecar.
+ *
+ * Usage: npm run schemes:criteria
+ *
+ * Writes to SCHEME_CRITERIA_PATH or `src/ai/data/scheme-criteria.json`. Entries marked
+ * `"reviewed": true` are kept as they are; every other scheme's criteria are extracted afresh,
+ * and criteria for schemes no longer in the database are dropped.
+ *
+ * The app extracts criteria itself when it loads the dataset and uses only the reviewed entries
+ * of the file, so this is a starting point for checking criteria by hand, not a build step.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { promises as fs } from 'fs';
+import { getSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+import { SchemeCriteriaTableSchema, type SchemeCriteria } from '@/ai/schemas/scheme-schemas';
+import { schemeCriteriaTablePath } from '@/ai/providers/scheme-criteria-table';
+import { extractSchemeCriteria } from '@/lib/scheme-criteria';
+
+async function readExistingCriteria(tablePath: string): Promise<SchemeCriteria[]> {
+  try {
+    return SchemeCriteriaTableSchema.parse(JSON.parse(await fs.readFile(tablePath, 'utf8')));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw new Error(`The existing criteria at ${tablePath} could not be read, so reviewed entries would be lost. Fix or remove the file first. Reason: ${error.message}`);
+  }
+}
+
+async function main() {
+  const tablePath = schemeCriteriaTablePath();
+  try {
+    const { schemes } = await getSchemeDataset();
+    const reviewed = new Map((await readExistingCriteria(tablePath)).filter(entry => entry.reviewed).map(entry => [entry.scheme_name, entry]));
+    const seen = new Set<string>();
+    const table: SchemeCriteria[] = [];
+    for (const scheme of schemes) {
+      // The database lists some schemes twice; their criteria are stored once.
+      if (seen.has(scheme.scheme_name)) continue;
+      seen.add(scheme.scheme_name);
+      table.push(reviewed.get(scheme.scheme_name) ?? extractSchemeCriteria(scheme));
+    }
+    await fs.writeFile(tablePath, `${JSON.stringify(table, null, 2)}\n`);
+    console.log(`Wrote criteria for ${table.length} schemes to ${tablePath} (${reviewed.size} reviewed entries kept).`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`Could not extract scheme criteria: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
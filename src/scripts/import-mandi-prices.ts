@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Imports Agmarknet / data.gov.in daily arrivals-and-prices CSV dumps into the
+ * local mandi price store.
+ *
+ * Usage: npm run prices:import -- [--state <name>] <file.csv>...
+ *
+ * --state sets the state for files without a state column, such as district-level
+ * Agmarknet reports.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseMandiPriceCsv } from '@/lib/mandi-price-csv';
+import { getMandiPriceStore } from '@/ai/providers/mandi-price-store';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const stateIndex = args.indexOf('--state');
+  const state = stateIndex >= 0 ? args[stateIndex + 1] : undefined;
+  const files = args.filter((_, index) => stateIndex < 0 || (index !== stateIndex && index !== stateIndex + 1));
+
+  if (files.length === 0 || (stateIndex >= 0 && !state)) {
+    console.error('Usage: npm run prices:import -- [--state <name>] <file.csv>...');
+    process.exit(1);
+  }
+
+  const store = getMandiPriceStore();
+  let failed = false;
+  for (const file of files) {
+    try {
+      const { records, skipped, errors } = parseMandiPriceCsv(await fs.readFile(file, 'utf8'), path.basename(file), { state });
+      const entry = await store.importRecords(path.basename(file), records);
+      console.log(`${file}: imported ${entry.rowCount} prices from ${entry.fromDate} to ${entry.toDate}${skipped ? `, skipped ${skipped} rows` : ''}.`);
+      errors.forEach(error => console.log(`  ${error}`));
+    } catch (error: any) {
+      failed = true;
+      console.error(`${file}: ${error.message}`);
+    }
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+main();
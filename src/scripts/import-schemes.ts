@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Validates a schemes file and publishes it as the next version of the schemes dataset.
+ *
+ * Usage: npm run schemes:import -- [--dry-run] [--check-links] [--note <text>] <file.json>
+ *
+ * --dry-run validates the file and shows what would change without publishing it.
+ * --check-links also fetches every link in the schemes and reports the broken ones.
+ *
+ * The file is a JSON array of schemes in the format of `src/ai/data/schemes.json`. It is
+ * published to the store chosen by SCHEME_DATASET_SOURCE (see scheme-dataset-store.ts), unless
+ * it has errors. Rebuild the embedding index and criteria afterwards with `npm run schemes:embed`
+ * and `npm run schemes:criteria`.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSchemeDatasetStore, importSchemeDataset } from '@/ai/providers/scheme-dataset-store';
+
+const USAGE = 'Usage: npm run schemes:import -- [--dry-run] [--check-links] [--note <text>] <file.json>';
+
+const formatNames = (names: string[]) => names.length > 0 ? names.join('; ') : 'none';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const noteIndex = args.indexOf('--note');
+  const note = noteIndex >= 0 ? args[noteIndex + 1] : undefined;
+  const files = args.filter((arg, index) => !arg.startsWith('--') && (noteIndex < 0 || index !== noteIndex + 1));
+  if (files.length !== 1 || (noteIndex >= 0 && !note)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const [file] = files;
+
+  try {
+    const data = JSON.parse(await fs.readFile(file, 'utf8'));
+    console.log(`Validating ${file}${args.includes('--check-links') ? ' and checking its links' : ''}...`);
+    const { report, changelog, published } = await importSchemeDataset(data, {
+      source: path.basename(file),
+      note,
+      checkLinks: args.includes('--check-links'),
+      dryRun: args.includes('--dry-run'),
+    });
+
+    report.issues.forEach(issue => {
+      const where = issue.index !== null ? `entry ${issue.index + 1}${issue.schemeName ? ` (${issue.schemeName})` : ''}` : issue.schemeName ?? file;
+      console.log(`  ${issue.severity}: ${where}: ${issue.message}`);
+    });
+    console.log(`${report.schemes.length} valid schemes, ${report.errorCount} errors, ${report.warningCount} warnings.`);
+    console.log(`Added: ${formatNames(changelog.added)}`);
+    console.log(`Removed: ${formatNames(changelog.removed)}`);
+    console.log(`Changed: ${formatNames(changelog.changed)}`);
+
+    if (published) {
+      console.log(`Published version ${published.version} to ${getSchemeDatasetStore().name}.`);
+    } else {
+      console.log(report.errorCount > 0 ? 'Not published: fix the errors above and import again.' : 'Dry run: nothing was published.');
+    }
+    process.exit(report.errorCount > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error(`Could not import ${file}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
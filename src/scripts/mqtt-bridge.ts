@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Runs the MQTT bridge for field devices until it is stopped.
+ *
+ * Usage: MQTT_URL=mqtt://localhost:1883 npm run mqtt:bridge
+ *
+ * MQTT_USERNAME, MQTT_PASSWORD and MQTT_CLIENT_ID are passed to the broker when set.
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { startMqttBridge } from '@/lib/firebase/mqtt-bridge';
+
+function main() {
+  const url = process.env.MQTT_URL;
+  if (!url) {
+    console.error('Set MQTT_URL to the broker to connect to, e.g. mqtt://localhost:1883');
+    process.exit(1);
+  }
+
+  const bridge = startMqttBridge({
+    url,
+    username: process.env.MQTT_USERNAME,
+    password: process.env.MQTT_PASSWORD,
+    clientId: process.env.MQTT_CLIENT_ID,
+  });
+
+  const shutdown = async () => {
+    console.log('MQTT bridge: stopping.');
+    await bridge.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();